@@ -0,0 +1,5 @@
+-- Recurrence rules (RRULE subset) for routine tasks
+ALTER TABLE tasks ADD COLUMN recurrence_rule TEXT;
+ALTER TABLE tasks ADD COLUMN recurrence_parent_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_recurrence_parent ON tasks(recurrence_parent_id);
@@ -0,0 +1,13 @@
+-- Projects / revenue goals that tasks roll up into
+CREATE TABLE IF NOT EXISTS goals (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  target_revenue INTEGER,
+  target_date TEXT,
+  status TEXT NOT NULL DEFAULT 'active' CHECK(status IN ('active', 'archived')),
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+ALTER TABLE tasks ADD COLUMN goal_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_goal_id ON tasks(goal_id);
@@ -0,0 +1,13 @@
+-- Task change history (audit log)
+CREATE TABLE IF NOT EXISTS task_events (
+  id TEXT PRIMARY KEY,
+  task_id TEXT NOT NULL,
+  action TEXT NOT NULL CHECK(action IN ('create', 'update', 'toggle', 'delete', 'decompose')),
+  field TEXT,
+  old_value TEXT,
+  new_value TEXT,
+  source TEXT NOT NULL DEFAULT 'api',
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_events_task_id ON task_events(task_id, created_at);
@@ -0,0 +1,5 @@
+-- Trash: remember when and from which status a task was soft-deleted
+ALTER TABLE tasks ADD COLUMN deleted_at TEXT;
+ALTER TABLE tasks ADD COLUMN status_before_delete TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_deleted_at ON tasks(deleted_at);
@@ -0,0 +1,8 @@
+-- Optimistic concurrency: every update bumps version (exposed as ETag)
+ALTER TABLE tasks ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE tasks ADD COLUMN updated_at TEXT;
+UPDATE tasks SET updated_at = created_at WHERE updated_at IS NULL;
+
+ALTER TABLE subtasks ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE subtasks ADD COLUMN updated_at TEXT;
+UPDATE subtasks SET updated_at = created_at WHERE updated_at IS NULL;
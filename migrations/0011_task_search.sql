@@ -0,0 +1,41 @@
+-- Full-text search over task titles, notes and subtask titles (trigram works for Japanese)
+ALTER TABLE tasks ADD COLUMN notes TEXT;
+
+CREATE VIRTUAL TABLE IF NOT EXISTS task_search USING fts5(
+  task_id UNINDEXED,
+  subtask_id UNINDEXED,
+  title,
+  notes,
+  tokenize = 'trigram'
+);
+
+CREATE TRIGGER IF NOT EXISTS task_search_tasks_ai AFTER INSERT ON tasks BEGIN
+  INSERT INTO task_search (task_id, subtask_id, title, notes) VALUES (NEW.id, NULL, NEW.title, COALESCE(NEW.notes, ''));
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_search_tasks_au AFTER UPDATE OF title, notes ON tasks BEGIN
+  DELETE FROM task_search WHERE task_id = OLD.id AND subtask_id IS NULL;
+  INSERT INTO task_search (task_id, subtask_id, title, notes) VALUES (NEW.id, NULL, NEW.title, COALESCE(NEW.notes, ''));
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_search_tasks_ad AFTER DELETE ON tasks BEGIN
+  DELETE FROM task_search WHERE task_id = OLD.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_search_subtasks_ai AFTER INSERT ON subtasks BEGIN
+  INSERT INTO task_search (task_id, subtask_id, title, notes) VALUES (NEW.task_id, NEW.id, NEW.title, '');
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_search_subtasks_au AFTER UPDATE OF title ON subtasks BEGIN
+  DELETE FROM task_search WHERE subtask_id = OLD.id;
+  INSERT INTO task_search (task_id, subtask_id, title, notes) VALUES (NEW.task_id, NEW.id, NEW.title, '');
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_search_subtasks_ad AFTER DELETE ON subtasks BEGIN
+  DELETE FROM task_search WHERE subtask_id = OLD.id;
+END;
+
+INSERT INTO task_search (task_id, subtask_id, title, notes)
+  SELECT id, NULL, title, COALESCE(notes, '') FROM tasks;
+INSERT INTO task_search (task_id, subtask_id, title, notes)
+  SELECT task_id, id, title, '' FROM subtasks;
@@ -0,0 +1,5 @@
+-- Manual ordering for the board view (sort=manual). Fractional so a card can be dropped between two others
+ALTER TABLE tasks ADD COLUMN position REAL;
+UPDATE tasks SET position = rowid * 1024 WHERE position IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_position ON tasks(position);
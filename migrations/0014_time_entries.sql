@@ -0,0 +1,19 @@
+-- Time tracking: actual work time per task / subtask (timer or manual entry)
+CREATE TABLE IF NOT EXISTS time_entries (
+  id TEXT PRIMARY KEY,
+  task_id TEXT NOT NULL,
+  subtask_id TEXT,
+  started_at TEXT NOT NULL,
+  ended_at TEXT,
+  duration_seconds INTEGER,
+  note TEXT,
+  source TEXT NOT NULL DEFAULT 'timer' CHECK(source IN ('timer', 'manual')),
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_time_entries_task ON time_entries(task_id);
+CREATE INDEX IF NOT EXISTS idx_time_entries_started ON time_entries(started_at);
+
+-- Only one timer can be running (ended_at IS NULL) at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_time_entries_running ON time_entries((ended_at IS NULL)) WHERE ended_at IS NULL;
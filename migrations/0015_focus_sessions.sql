@@ -0,0 +1,19 @@
+-- Focus (Pomodoro) sessions: one row per work interval, optionally tied to a task / schedule block
+CREATE TABLE IF NOT EXISTS focus_sessions (
+  id TEXT PRIMARY KEY,
+  task_id TEXT,
+  subtask_id TEXT,
+  title TEXT NOT NULL,
+  category TEXT CHECK(category IN ('future', 'now', 'maintain', 'chore')),
+  work_minutes INTEGER NOT NULL,
+  break_minutes INTEGER NOT NULL,
+  block_start TEXT,
+  block_end TEXT,
+  status TEXT NOT NULL DEFAULT 'running' CHECK(status IN ('running', 'completed', 'interrupted')),
+  started_at TEXT NOT NULL,
+  ended_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_focus_sessions_started ON focus_sessions(started_at);
+CREATE INDEX IF NOT EXISTS idx_focus_sessions_task ON focus_sessions(task_id);
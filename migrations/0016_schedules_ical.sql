@@ -0,0 +1,16 @@
+-- Generated schedules (latest one per date) and the secret token for the iCalendar feeds
+CREATE TABLE IF NOT EXISTS schedules (
+  date TEXT PRIMARY KEY,
+  slots TEXT NOT NULL,
+  warnings TEXT NOT NULL DEFAULT '[]',
+  metadata TEXT,
+  generated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedules_generated_at ON schedules(generated_at);
+
+CREATE TABLE IF NOT EXISTS ical_tokens (
+  id INTEGER PRIMARY KEY CHECK(id = 1),
+  token TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
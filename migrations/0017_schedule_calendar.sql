@@ -0,0 +1,13 @@
+-- Dedicated Google calendar that generated schedules are written to, and the last write per date
+CREATE TABLE IF NOT EXISTS schedule_calendar (
+  id INTEGER PRIMARY KEY CHECK(id = 1),
+  calendar_id TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS schedule_calendar_writes (
+  date TEXT PRIMARY KEY,
+  calendar_id TEXT NOT NULL,
+  event_count INTEGER NOT NULL DEFAULT 0,
+  written_at TEXT NOT NULL
+);
@@ -0,0 +1,21 @@
+-- Incremental Google Calendar sync: extra event fields on the cache and the sync token per calendar
+ALTER TABLE calendar_events ADD COLUMN calendar_id TEXT;
+ALTER TABLE calendar_events ADD COLUMN location TEXT;
+ALTER TABLE calendar_events ADD COLUMN html_link TEXT;
+ALTER TABLE calendar_events ADD COLUMN all_day INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE calendar_events ADD COLUMN status TEXT NOT NULL DEFAULT 'confirmed';
+ALTER TABLE calendar_events ADD COLUMN updated_at TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_calendar_events_calendar ON calendar_events(calendar_id, status, start_time);
+
+CREATE TABLE IF NOT EXISTS calendar_sync_state (
+  calendar_id TEXT PRIMARY KEY,
+  sync_token TEXT,
+  last_attempt_at TEXT,
+  last_synced_at TEXT,
+  last_full_sync_at TEXT,
+  last_status TEXT CHECK(last_status IN ('ok', 'error')),
+  last_error TEXT,
+  updated_count INTEGER NOT NULL DEFAULT 0,
+  cancelled_count INTEGER NOT NULL DEFAULT 0
+);
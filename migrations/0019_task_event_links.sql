@@ -0,0 +1,5 @@
+-- Tasks converted from calendar events keep the source event ID and follow its status (confirmed / cancelled)
+ALTER TABLE tasks ADD COLUMN source_event_id TEXT;
+ALTER TABLE tasks ADD COLUMN source_event_status TEXT CHECK(source_event_status IN ('confirmed', 'cancelled'));
+
+CREATE INDEX IF NOT EXISTS idx_tasks_source_event ON tasks(source_event_id);
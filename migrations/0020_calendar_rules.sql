@@ -0,0 +1,24 @@
+-- User-defined rules that decide how calendar events become tasks (first enabled match by position wins)
+CREATE TABLE IF NOT EXISTS calendar_rules (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  match_summary TEXT,
+  match_mode TEXT NOT NULL DEFAULT 'keyword' CHECK(match_mode IN ('keyword', 'regex')),
+  attendee_domain TEXT,
+  calendar_id TEXT,
+  min_minutes INTEGER,
+  max_minutes INTEGER,
+  action TEXT NOT NULL DEFAULT 'convert' CHECK(action IN ('convert', 'skip')),
+  category TEXT CHECK(category IN ('future', 'now', 'maintain', 'chore')),
+  priority TEXT CHECK(priority IN ('high', 'medium', 'low')),
+  minutes INTEGER,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_rules_position ON calendar_rules(position);
+
+-- Attendee e-mail addresses (JSON array) so rules can match on the attendee domain
+ALTER TABLE calendar_events ADD COLUMN attendees TEXT;
@@ -0,0 +1,26 @@
+-- Several calendars (Google calendars and ICS/webcal subscriptions) merged into the calendar_events cache.
+-- The calendar of GOOGLE_CALENDAR_ID becomes the source 'default' (created on first use, since it comes from the environment)
+CREATE TABLE IF NOT EXISTS calendar_sources (
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL CHECK(type IN ('google', 'ics')),
+  name TEXT NOT NULL,
+  calendar_id TEXT,
+  url TEXT,
+  color TEXT NOT NULL DEFAULT '#ef4444',
+  enabled INTEGER NOT NULL DEFAULT 1,
+  blocks_schedule INTEGER NOT NULL DEFAULT 1,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_sources_position ON calendar_sources(position);
+
+ALTER TABLE calendar_events ADD COLUMN source_id TEXT;
+UPDATE calendar_events SET source_id = 'default';
+
+CREATE INDEX IF NOT EXISTS idx_calendar_events_source ON calendar_events(source_id, status, start_time);
+
+-- Sync state is now kept per source; drop the old rows so every source starts with a full sync
+ALTER TABLE calendar_sync_state RENAME COLUMN calendar_id TO source_id;
+DELETE FROM calendar_sync_state;
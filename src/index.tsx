@@ -1,4 +1,5 @@
 import { Hono } from 'hono'
+import type { Context } from 'hono'
 import { cors } from 'hono/cors'
 import { v4 as uuidv4 } from 'uuid'
 
@@ -13,6 +14,9 @@ type Bindings = {
   OPENAI_MODEL?: string;
   GEMINI_API_KEY?: string;
   GEMINI_MODEL?: string;
+  TRASH_RETENTION_DAYS?: string;
+  CALENDAR_SYNC_INTERVAL_MINUTES?: string;
+  TIMEZONE?: string;
 }
 
 type Task = {
@@ -22,16 +26,36 @@ type Task = {
   minutes: number;
   status: 'todo' | 'done' | 'deleted';
   created_at: string;
-  due_date?: string;
+  due_date?: string | null;
   priority?: 'high' | 'medium' | 'low';
+  recurrence_rule?: string | null;
+  recurrence_parent_id?: string | null;
+  goal_id?: string | null;
+  deleted_at?: string | null;
+  status_before_delete?: 'todo' | 'done' | null;
+  version?: number;
+  updated_at?: string | null;
+  notes?: string | null;
+  position?: number | null;
+  source_event_id?: string | null;
+  source_event_status?: 'confirmed' | 'cancelled' | null;
+}
+
+type RecurrenceRule = {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY';
+  interval: number;
+  byDay: number[];      // 0=SU ... 6=SA
+  byMonthDay?: number;
+  until?: string;       // YYYY-MM-DD
 }
 
 type TimeSlot = {
   start: string; // HH:mm
   end: string;   // HH:mm
   title: string;
-  type: 'fixed' | 'lunch' | 'dinner' | 'reply' | 'deep' | 'light' | 'family';
+  type: 'fixed' | 'lunch' | 'dinner' | 'reply' | 'deep' | 'light' | 'family' | Task['category'];
   color?: string;
+  task_id?: string; // タスクの枠のみ（集中モードの開始に使う）
 }
 
 type ScheduleBlock = {
@@ -63,30 +87,20 @@ app.use('/api/*', cors({
 // Schedule Generation Helper Functions
 // ========================================
 
-// 15分刻みに切り上げ
+// 15分刻みに切り上げ（タイムゾーンのずれは15分の倍数なので、UTC で切り上げてもどのタイムゾーンでも同じ刻みになる）
 function ceil15(date: Date): Date {
-  const minutes = date.getMinutes()
-  const remainder = minutes % 15
-  if (remainder === 0) return new Date(date)
-  
-  const newDate = new Date(date)
-  newDate.setMinutes(minutes + (15 - remainder))
-  newDate.setSeconds(0)
-  newDate.setMilliseconds(0)
-  return newDate
+  const step = 15 * 60000
+  return new Date(Math.ceil(date.getTime() / step) * step)
 }
 
-// 時刻を HH:mm 形式に変換
-function formatTime(date: Date): string {
-  return date.toTimeString().slice(0, 5)
+// 時刻を HH:mm 形式に変換（利用者のタイムゾーンでの時刻）
+export function formatTime(date: Date, timeZone: string): string {
+  return toZonedParts(date, timeZone).time
 }
 
-// HH:mm を Date に変換（今日の日付で）
-function parseTime(timeStr: string, baseDate: Date = new Date()): Date {
-  const [hours, minutes] = timeStr.split(':').map(Number)
-  const date = new Date(baseDate)
-  date.setHours(hours, minutes, 0, 0)
-  return date
+// HH:mm を Date に変換（baseDate は利用者のタイムゾーンでの日付 YYYY-MM-DD、24:00 は翌日 0:00）
+export function parseTime(timeStr: string, baseDate: string, timeZone: string): Date {
+  return zonedDateTimeToUtc(baseDate, timeStr, timeZone)
 }
 
 // 時間範囲が重複しているかチェック
@@ -147,7 +161,7 @@ function findAvailableSlot(
 }
 
 // 夜ご飯の時間を探す（20:00〜24:00の間で60分）
-function findDinnerSlot(baseDate: Date, blocks: ScheduleBlock[]): Date | null {
+function findDinnerSlot(baseDate: string, timeZone: string, blocks: ScheduleBlock[]): Date | null {
   const candidates = [
     '21:00', // デフォルト推奨
     '20:30',
@@ -157,10 +171,10 @@ function findDinnerSlot(baseDate: Date, blocks: ScheduleBlock[]): Date | null {
     '23:00'
   ]
   
-  const maxTime = parseTime('24:00', baseDate)
+  const maxTime = parseTime('24:00', baseDate, timeZone)
   
   for (const timeStr of candidates) {
-    const start = parseTime(timeStr, baseDate)
+    const start = parseTime(timeStr, baseDate, timeZone)
     const end = new Date(start.getTime() + 60 * 60000)
     
     if (end > maxTime) continue
@@ -181,656 +195,5318 @@ function findDinnerSlot(baseDate: Date, blocks: ScheduleBlock[]): Date | null {
   return null
 }
 
-async function ensureOAuthTokensTable(DB: D1Database) {
-  await DB.prepare(`
-    CREATE TABLE IF NOT EXISTS oauth_tokens (
-      id INTEGER PRIMARY KEY CHECK(id = 1),
-      access_token TEXT NOT NULL,
-      refresh_token TEXT,
-      expiry_at INTEGER NOT NULL,
-      scope TEXT,
-      token_type TEXT,
-      updated_at TEXT NOT NULL
-    )
-  `).run()
-}
-
-async function getStoredOAuthToken(DB: D1Database) {
-  await ensureOAuthTokensTable(DB)
-  const { results } = await DB.prepare(
-    'SELECT access_token, refresh_token, expiry_at, scope, token_type FROM oauth_tokens WHERE id = 1'
-  ).all()
-  return results.length > 0
-    ? (results[0] as {
-        access_token: string;
-        refresh_token?: string;
-        expiry_at: number;
-        scope?: string;
-        token_type?: string;
-      })
-    : null
-}
+// 前提タスクが先に来るよう並べ替え（元の優先順をできるだけ保つ）
+function orderTasksByDependencies<T extends Task>(tasks: T[], prerequisites: Record<string, string[]>): T[] {
+  const candidateIds = new Set(tasks.map((t) => t.id))
+  const emitted = new Set<string>()
+  const remaining = [...tasks]
+  const ordered: T[] = []
 
-async function saveOAuthToken(
-  DB: D1Database,
-  token: {
-    access_token: string;
-    refresh_token?: string;
-    expiry_at: number;
-    scope?: string;
-    token_type?: string;
+  while (remaining.length > 0) {
+    const index = remaining.findIndex((t) =>
+      (prerequisites[t.id] || []).every((id) => emitted.has(id) || !candidateIds.has(id))
+    )
+    // 循環が残っている場合はそのまま末尾へ（配置時に前提未達としてスキップされる）
+    if (index < 0) {
+      ordered.push(...remaining)
+      break
+    }
+    const [task] = remaining.splice(index, 1)
+    ordered.push(task)
+    emitted.add(task.id)
   }
-) {
-  await ensureOAuthTokensTable(DB)
-  await DB.prepare(
-    `INSERT INTO oauth_tokens (id, access_token, refresh_token, expiry_at, scope, token_type, updated_at)
-     VALUES (1, ?, ?, ?, ?, ?, ?)
-     ON CONFLICT(id) DO UPDATE SET
-       access_token = excluded.access_token,
-       refresh_token = excluded.refresh_token,
-       expiry_at = excluded.expiry_at,
-       scope = excluded.scope,
-       token_type = excluded.token_type,
-       updated_at = excluded.updated_at`
-  ).bind(
-    token.access_token,
-    token.refresh_token || null,
-    token.expiry_at,
-    token.scope || null,
-    token.token_type || 'Bearer',
-    new Date().toISOString()
-  ).run()
-}
 
-function isOAuthConfigured(env: Bindings): boolean {
-  return !!(env.GOOGLE_OAUTH_CLIENT_ID && env.GOOGLE_OAUTH_CLIENT_SECRET && env.GOOGLE_CALENDAR_ID)
+  return ordered
 }
 
-function getOAuthRedirectUri(c: { env: Bindings; req: { url: string } }): string {
-  if (c.env.GOOGLE_OAUTH_REDIRECT_URI) {
-    return c.env.GOOGLE_OAUTH_REDIRECT_URI
-  }
-  return new URL('/api/calendar/oauth/callback', c.req.url).toString()
-}
+// ========================================
+// Recurrence Helper Functions
+// ========================================
 
-async function refreshGoogleAccessToken(c: { env: Bindings; req: { url: string } }) {
-  const { DB, GOOGLE_OAUTH_CLIENT_ID, GOOGLE_OAUTH_CLIENT_SECRET } = c.env
-  const token = await getStoredOAuthToken(DB)
-  if (!token?.refresh_token || !GOOGLE_OAUTH_CLIENT_ID || !GOOGLE_OAUTH_CLIENT_SECRET) {
-    return null
-  }
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
 
-  const body = new URLSearchParams({
-    client_id: GOOGLE_OAUTH_CLIENT_ID,
-    client_secret: GOOGLE_OAUTH_CLIENT_SECRET,
-    refresh_token: token.refresh_token,
-    grant_type: 'refresh_token'
-  })
+// RRULE文字列（FREQ/INTERVAL/BYDAY/BYMONTHDAY/UNTIL のサブセット）を解析
+export function parseRecurrenceRule(rule: string): RecurrenceRule | null {
+  const parts: Record<string, string> = {}
+  for (const part of rule.trim().replace(/^RRULE:/i, '').split(';')) {
+    if (!part) continue
+    const [key, value] = part.split('=')
+    if (!key || value === undefined) return null
+    parts[key.trim().toUpperCase()] = value.trim().toUpperCase()
+  }
 
-  const response = await fetch('https://oauth2.googleapis.com/token', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-    body: body.toString()
-  })
+  const freq = parts.FREQ
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') return null
 
-  if (!response.ok) return null
-  const data = await response.json() as any
-  if (!data.access_token || !data.expires_in) return null
+  const interval = parts.INTERVAL ? Number(parts.INTERVAL) : 1
+  if (!Number.isInteger(interval) || interval < 1 || interval > 365) return null
 
-  const refreshed = {
-    access_token: data.access_token as string,
-    refresh_token: token.refresh_token,
-    expiry_at: Date.now() + Number(data.expires_in) * 1000,
-    scope: (data.scope as string) || token.scope,
-    token_type: (data.token_type as string) || 'Bearer'
+  const byDay: number[] = []
+  if (parts.BYDAY) {
+    for (const day of parts.BYDAY.split(',')) {
+      const index = RRULE_WEEKDAYS.indexOf(day)
+      if (index < 0) return null
+      if (!byDay.includes(index)) byDay.push(index)
+    }
+    byDay.sort((a, b) => a - b)
   }
-  await saveOAuthToken(DB, refreshed)
-  return refreshed.access_token
-}
 
-async function getGoogleAccessToken(c: { env: Bindings; req: { url: string } }) {
-  const { DB } = c.env
-  const token = await getStoredOAuthToken(DB)
-  if (!token) return null
+  let byMonthDay: number | undefined
+  if (parts.BYMONTHDAY) {
+    byMonthDay = Number(parts.BYMONTHDAY)
+    if (!Number.isInteger(byMonthDay) || byMonthDay < 1 || byMonthDay > 31) return null
+  }
 
-  const earlyRefreshMargin = 60 * 1000
-  if (Date.now() < Number(token.expiry_at) - earlyRefreshMargin) {
-    return token.access_token
+  let until: string | undefined
+  if (parts.UNTIL) {
+    const m = parts.UNTIL.match(/^(\d{4})-?(\d{2})-?(\d{2})/)
+    if (!m) return null
+    until = `${m[1]}-${m[2]}-${m[3]}`
   }
 
-  return refreshGoogleAccessToken(c)
+  return { freq, interval, byDay, byMonthDay, until }
 }
 
-async function fetchCalendarEvents(
-  c: { env: Bindings; req: { url: string } },
-  timeMin: string,
-  timeMax: string
-) {
-  const { GOOGLE_CALENDAR_API_KEY, GOOGLE_CALENDAR_ID } = c.env
+// 正規化したRRULE文字列を返す（保存用）
+export function serializeRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`]
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`)
+  if (rule.byDay.length > 0) parts.push(`BYDAY=${rule.byDay.map((d) => RRULE_WEEKDAYS[d]).join(',')}`)
+  if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay}`)
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`)
+  return parts.join(';')
+}
 
-  if (!GOOGLE_CALENDAR_ID) {
-    return {
-      ok: false,
-      status: 400,
-      body: {
-        error: 'Google Calendar ID not configured',
-        message: 'Please set GOOGLE_CALENDAR_ID in your environment variables'
-      }
-    }
-  }
+// YYYY-MM-DD に日数を加算（UTCで計算し、サーバーのタイムゾーンに依存しない）
+export function addDays(dateStr: string, days: number): string {
+  const date = new Date(`${dateStr}T00:00:00Z`)
+  date.setUTCDate(date.getUTCDate() + days)
+  return date.toISOString().split('T')[0]
+}
 
-  const base = `https://www.googleapis.com/calendar/v3/calendars/${encodeURIComponent(GOOGLE_CALENDAR_ID)}/events?timeMin=${encodeURIComponent(timeMin)}&timeMax=${encodeURIComponent(timeMax)}&singleEvents=true&orderBy=startTime`
-  let url = base
-  let headers: Record<string, string> = {}
+// 曜日（0=日曜）を取得
+export function weekdayOf(dateStr: string): number {
+  return new Date(`${dateStr}T00:00:00Z`).getUTCDay()
+}
 
-  if (isOAuthConfigured(c.env)) {
-    const accessToken = await getGoogleAccessToken(c)
-    if (!accessToken) {
-      return {
-        ok: false,
-        status: 401,
-        body: {
-          error: 'Google OAuth not connected',
-          message: 'Connect Google Calendar with OAuth to access private calendars',
-          authUrl: '/api/calendar/oauth/start'
-        }
-      }
-    }
-    headers = { Authorization: `Bearer ${accessToken}` }
-  } else if (GOOGLE_CALENDAR_API_KEY) {
-    url = `${base}&key=${encodeURIComponent(GOOGLE_CALENDAR_API_KEY)}`
-  } else {
-    return {
-      ok: false,
-      status: 400,
-      body: {
-        error: 'Google Calendar API not configured',
-        message: 'Set OAuth credentials for private calendars or API key for public calendars'
-      }
+// 指定日の次の発生日を計算
+export function nextRecurrenceDate(rule: RecurrenceRule, fromDate: string): string {
+  if (rule.freq === 'DAILY') {
+    let next = addDays(fromDate, rule.interval)
+    while (rule.byDay.length > 0 && !rule.byDay.includes(weekdayOf(next))) {
+      next = addDays(next, 1)
     }
+    return next
   }
 
-  const response = await fetch(url, { headers })
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({ message: 'Unknown Google API error' }))
-    return {
-      ok: false,
-      status: response.status,
-      body: { error: 'Failed to fetch calendar events', details: errorData }
-    }
+  if (rule.freq === 'WEEKLY') {
+    if (rule.byDay.length === 0) return addDays(fromDate, 7 * rule.interval)
+
+    // 同じ週（月曜始まり）の残りの曜日を優先し、なければINTERVAL週後の最初の曜日
+    const toMondayIndex = (d: number) => (d + 6) % 7
+    const current = toMondayIndex(weekdayOf(fromDate))
+    const days = rule.byDay.map(toMondayIndex).sort((a, b) => a - b)
+    const laterThisWeek = days.find((d) => d > current)
+    if (laterThisWeek !== undefined) return addDays(fromDate, laterThisWeek - current)
+    const weekStart = addDays(fromDate, -current)
+    return addDays(weekStart, 7 * rule.interval + days[0])
   }
 
-  const data = await response.json() as any
-  return { ok: true, status: 200, body: data.items || [] }
+  // MONTHLY: 月末を超える日は月末に丸める
+  const [year, month, day] = fromDate.split('-').map(Number)
+  const targetDay = rule.byMonthDay || day
+  const monthIndex = month - 1 + rule.interval
+  const targetYear = year + Math.floor(monthIndex / 12)
+  const targetMonth = monthIndex % 12
+  const lastDay = new Date(Date.UTC(targetYear, targetMonth + 1, 0)).getUTCDate()
+  return new Date(Date.UTC(targetYear, targetMonth, Math.min(targetDay, lastDay))).toISOString().split('T')[0]
 }
 
-function extractJsonArray(text: string): any[] {
-  const trimmed = text.trim()
-  try {
-    const parsed = JSON.parse(trimmed)
-    if (Array.isArray(parsed)) return parsed
-  } catch {}
+// 日付指定のない毎月の繰り返しに基準日の日付を BYMONTHDAY として固定する。
+// 月末に丸めた日付を次の起点にすると 1/31 → 2/28 → 3/28 … とずれていくため
+export function anchorMonthlyRule(rule: RecurrenceRule, anchorDate: string | null | undefined): RecurrenceRule {
+  if (rule.freq !== 'MONTHLY' || rule.byMonthDay || !anchorDate) return rule
+  return { ...rule, byMonthDay: Number(anchorDate.slice(8, 10)) }
+}
 
-  const start = trimmed.indexOf('[')
-  const end = trimmed.lastIndexOf(']')
-  if (start >= 0 && end > start) {
-    const snippet = trimmed.slice(start, end + 1)
-    try {
-      const parsed = JSON.parse(snippet)
-      if (Array.isArray(parsed)) return parsed
-    } catch {}
+// 完了したタスクの次回期日を決定（遅れて完了した場合は今日以降まで進める）
+export function nextDueDateAfterCompletion(rule: RecurrenceRule, dueDate: string | null | undefined, today: string): string | null {
+  let next = nextRecurrenceDate(rule, dueDate || today)
+  while (next < today) {
+    next = nextRecurrenceDate(rule, next)
   }
-  return []
+  if (rule.until && next > rule.until) return null
+  return next
 }
 
-async function callOpenAIDecompose(env: Bindings, prompt: string) {
-  if (!env.OPENAI_API_KEY) return null
-  const model = env.OPENAI_MODEL || 'gpt-4.1-mini'
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${env.OPENAI_API_KEY}`
-    },
-    body: JSON.stringify({
-      model,
-      temperature: 0.2,
-      messages: [
-        {
-          role: 'system',
-          content:
-            'You are a task decomposition assistant. Return ONLY JSON array. Each item: {"title":string,"minutes":number}.'
-        },
-        { role: 'user', content: prompt }
-      ]
-    })
-  })
+// ========================================
+// Time Zone Helper Functions
+// ========================================
 
-  if (!response.ok) {
-    const detail = await response.text()
-    throw new Error(`OpenAI API error: ${response.status} ${detail}`)
+// Intl が知っているタイムゾーン名か
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
   }
-  const data = await response.json() as any
-  const text = data?.choices?.[0]?.message?.content || '[]'
-  return extractJsonArray(text)
 }
 
-async function callGeminiDecompose(env: Bindings, prompt: string) {
-  if (!env.GEMINI_API_KEY) return null
-  const model = env.GEMINI_MODEL || 'gemini-1.5-flash'
-  const url = `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(model)}:generateContent?key=${encodeURIComponent(env.GEMINI_API_KEY)}`
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      generationConfig: { temperature: 0.2 },
-      contents: [{ role: 'user', parts: [{ text: prompt }] }],
-      systemInstruction: {
-        parts: [
-          {
-            text:
-              'Return ONLY JSON array. Each item: {"title":string,"minutes":number}.'
-          }
-        ]
-      }
-    })
-  })
-
-  if (!response.ok) {
-    const detail = await response.text()
-    throw new Error(`Gemini API error: ${response.status} ${detail}`)
-  }
-  const data = await response.json() as any
-  const text = data?.candidates?.[0]?.content?.parts?.[0]?.text || '[]'
-  return extractJsonArray(text)
+// その時点でのタイムゾーンの UTC からのずれ（ミリ秒）
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }).formatToParts(date).map((part) => [part.type, part.value])
+  )
+  const wallClock = Date.UTC(
+    Number(parts.year), Number(parts.month) - 1, Number(parts.day), Number(parts.hour), Number(parts.minute), Number(parts.second)
+  )
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000
 }
 
-function normalizeSubtasks(raw: any[], totalMinutes: number): Array<{ title: string; minutes: number }> {
-  const cleaned = raw
-    .map((x) => ({
-      title: typeof x?.title === 'string' ? x.title.trim() : '',
-      minutes: Number(x?.minutes)
-    }))
-    .filter((x) => x.title.length > 0 && Number.isFinite(x.minutes) && x.minutes > 0)
-    .slice(0, 12)
+// 利用者のタイムゾーン（「今日」や予定表の時刻の基準）。環境変数 TIMEZONE が未設定か不正なら日本時間
+const DEFAULT_TIMEZONE = 'Asia/Tokyo'
 
-  if (cleaned.length === 0) return []
+function getUserTimeZone(env: Bindings): string {
+  const timeZone = env.TIMEZONE?.trim()
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIMEZONE
+}
 
-  const minPerStep = 10
-  const normalized = cleaned.map((x) => ({ ...x, minutes: Math.max(minPerStep, Math.round(x.minutes)) }))
-  const sum = normalized.reduce((acc, x) => acc + x.minutes, 0)
-  const target = Math.max(totalMinutes || 30, minPerStep * normalized.length)
-  const scale = sum > 0 ? target / sum : 1
+// その時点のタイムゾーンでの日付（YYYY-MM-DD）と時刻（HH:mm）
+function toZonedParts(date: Date, timeZone: string): { date: string; time: string } {
+  const wallClock = new Date(date.getTime() + getTimeZoneOffset(date, timeZone)).toISOString()
+  return { date: wallClock.slice(0, 10), time: wallClock.slice(11, 16) }
+}
 
-  return normalized.map((x) => ({
-    title: x.title,
-    minutes: Math.max(minPerStep, Math.round(x.minutes * scale))
-  }))
+// タイムゾーンでの今日の日付（サーバーの時計のタイムゾーンには依存しない）
+export function todayInTimeZone(timeZone: string, now: Date = new Date()): string {
+  return toZonedParts(now, timeZone).date
 }
 
-// API Routes
+// 予定の開始など（時刻付きは ISO 日時、終日は YYYY-MM-DD）をタイムゾーンでの日付にする
+export function toZonedDateString(value: string, timeZone: string): string | null {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value
+  const time = Date.parse(value)
+  return Number.isNaN(time) ? null : toZonedParts(new Date(time), timeZone).date
+}
 
-// Get all tasks with filters/search/sort
-app.get('/api/tasks', async (c) => {
-  const { DB } = c.env
-  const q = (c.req.query('q') || '').trim()
-  const status = c.req.query('status') || 'all'
-  const category = c.req.query('category') || 'all'
-  const priority = c.req.query('priority') || 'all'
-  const due = c.req.query('due') || 'all'
-  const sort = c.req.query('sort') || 'due_asc'
+// タイムゾーンの壁時計の日時（YYYY-MM-DD と HH:mm[:ss]）を UTC の Date にする。
+// 夏時間の切り替わりをまたぐ場合に備えて、ずれは変換後の時点でもう一度求める
+export function zonedDateTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number)
+  const [hours, minutes, seconds = 0] = time.split(':').map(Number)
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes, seconds)
+  const first = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone)
+  return new Date(wallClock - getTimeZoneOffset(new Date(first), timeZone))
+}
 
-  const whereClauses: string[] = ['status != ?']
-  const values: (string | number)[] = ['deleted']
+// ========================================
+// Request Validation Helper Functions
+// ========================================
 
-  if (q) {
-    whereClauses.push('title LIKE ?')
-    values.push(`%${q}%`)
+type FieldErrors = Record<string, string>
+
+type TaskInput = {
+  title?: string;
+  category?: Task['category'];
+  minutes?: number;
+  status?: Task['status'];
+  due_date?: string | null;
+  priority?: NonNullable<Task['priority']>;
+  recurrence_rule?: string | null;
+  goal_id?: string | null;
+  notes?: string | null;
+  tags?: string[];
+}
+
+const TASK_CATEGORIES = ['future', 'now', 'maintain', 'chore']
+const TASK_PRIORITIES = ['high', 'medium', 'low']
+const TASK_STATUSES = ['todo', 'done', 'deleted']
+const MAX_TASK_MINUTES = 24 * 60
+const MAX_TITLE_LENGTH = 200
+
+// 400エラーを共通の形式（フィールドごとのメッセージ付き）で返す
+function validationError(c: Context, fields: FieldErrors) {
+  return c.json({ error: 'Validation failed', message: '入力内容に誤りがあります', fields }, 400)
+}
+
+function hasErrors(errors: FieldErrors): boolean {
+  return Object.keys(errors).length > 0
+}
+
+// JSONオブジェクトのボディを読み込む（不正な場合は null、optional なら空ボディは {}）
+async function readJsonObject(c: Context, optional = false): Promise<Record<string, any> | null> {
+  const text = await c.req.text()
+  if (!text.trim()) return optional ? {} : null
+  try {
+    const parsed = JSON.parse(text)
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+function invalidBodyError(c: Context) {
+  return validationError(c, { body: 'JSONオブジェクトを送信してください' })
+}
+
+function checkEnumField(errors: FieldErrors, field: string, value: unknown, allowed: string[]): boolean {
+  if (typeof value === 'string' && allowed.includes(value)) return true
+  errors[field] = `${allowed.join(' / ')} のいずれかを指定してください`
+  return false
+}
+
+// YYYY-MM-DD 形式かつ実在する日付か
+function isValidDateString(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false
+  const date = new Date(`${value}T00:00:00Z`)
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value)
+}
+
+// HH:mm 形式（00:00〜24:00）か
+function isValidTimeString(value: unknown): value is string {
+  if (typeof value !== 'string') return false
+  const m = value.match(/^(\d{2}):(\d{2})$/)
+  if (!m) return false
+  const hours = Number(m[1])
+  const minutes = Number(m[2])
+  return (hours < 24 && minutes < 60) || (hours === 24 && minutes === 0)
+}
+
+function isValidDateTimeString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0 && !Number.isNaN(Date.parse(value))
+}
+
+// タスク作成・更新のボディを検証し、正規化した値を返す
+function validateTaskInput(body: Record<string, any>, mode: 'create' | 'update'): { data: TaskInput; errors: FieldErrors } {
+  const data: TaskInput = {}
+  const errors: FieldErrors = {}
+  const has = (key: string) => body[key] !== undefined
+
+  if (has('title') || mode === 'create') {
+    const title = typeof body.title === 'string' ? body.title.trim() : ''
+    if (!title) {
+      errors.title = 'タスク名を入力してください'
+    } else if (title.length > MAX_TITLE_LENGTH) {
+      errors.title = `タスク名は${MAX_TITLE_LENGTH}文字以内で入力してください`
+    } else {
+      data.title = title
+    }
+  }
+  if (has('category') && checkEnumField(errors, 'category', body.category, TASK_CATEGORIES)) {
+    data.category = body.category
+  }
+  if (has('priority') && checkEnumField(errors, 'priority', body.priority, TASK_PRIORITIES)) {
+    data.priority = body.priority
+  }
+  if (has('status') && mode === 'update' && checkEnumField(errors, 'status', body.status, TASK_STATUSES)) {
+    data.status = body.status
+  }
+  if (has('minutes')) {
+    if (!Number.isInteger(body.minutes) || body.minutes < 1 || body.minutes > MAX_TASK_MINUTES) {
+      errors.minutes = `時間は1〜${MAX_TASK_MINUTES}分の整数で入力してください`
+    } else {
+      data.minutes = body.minutes
+    }
+  }
+  if (has('due_date')) {
+    if (body.due_date === null || body.due_date === '') {
+      data.due_date = null
+    } else if (!isValidDateString(body.due_date)) {
+      errors.due_date = '期日は YYYY-MM-DD 形式の日付で入力してください'
+    } else {
+      data.due_date = body.due_date
+    }
+  }
+  if (has('recurrence_rule')) {
+    if (body.recurrence_rule === null || body.recurrence_rule === '') {
+      data.recurrence_rule = null
+    } else {
+      const parsed = typeof body.recurrence_rule === 'string' ? parseRecurrenceRule(body.recurrence_rule) : null
+      if (!parsed) {
+        errors.recurrence_rule = '繰り返しは FREQ=DAILY|WEEKLY|MONTHLY（INTERVAL, BYDAY, BYMONTHDAY, UNTIL 可）で指定してください'
+      } else {
+        // 毎月の繰り返しは期日の日付で固定する（期日がなければ最初の完了時に固定）
+        data.recurrence_rule = serializeRecurrenceRule(anchorMonthlyRule(parsed, isValidDateString(body.due_date) ? body.due_date : null))
+      }
+    }
+  }
+  if (has('goal_id')) {
+    if (body.goal_id === null || body.goal_id === '') {
+      data.goal_id = null
+    } else if (typeof body.goal_id !== 'string') {
+      errors.goal_id = '目標IDが不正です'
+    } else {
+      data.goal_id = body.goal_id
+    }
+  }
+  if (has('notes')) {
+    if (body.notes === null || body.notes === '') {
+      data.notes = null
+    } else if (typeof body.notes !== 'string' || body.notes.length > MAX_TASK_NOTES_LENGTH) {
+      errors.notes = `メモは${MAX_TASK_NOTES_LENGTH}文字以内で入力してください`
+    } else {
+      data.notes = body.notes
+    }
+  }
+  if (has('tags')) {
+    const rawTags = typeof body.tags === 'string' ? body.tags.split(',') : body.tags
+    if (!Array.isArray(rawTags) || rawTags.some((tag) => typeof tag !== 'string')) {
+      errors.tags = 'タグは文字列の配列で指定してください'
+    } else if (rawTags.some((tag: string) => tag.trim().replace(/^#/, '').length > 30)) {
+      errors.tags = 'タグは1つ30文字以内で入力してください'
+    } else {
+      data.tags = normalizeTagNames(rawTags)
+    }
+  }
+
+  return { data, errors }
+}
+
+// カレンダー予定（Google Calendar API形式）の開始日時を取り出す
+function getCalendarEventStart(event: any): string | null {
+  const start = event?.start?.dateTime || event?.start?.date
+  return typeof start === 'string' ? start : null
+}
+
+function validateCalendarEvents(raw: unknown, errors: FieldErrors, maxEvents = 250): any[] {
+  if (!Array.isArray(raw)) {
+    errors.events = 'events は配列で指定してください'
+    return []
+  }
+  if (raw.length > maxEvents) {
+    errors.events = `一度に変換できる予定は${maxEvents}件までです`
+    return []
+  }
+  raw.forEach((event, i) => {
+    if (!event || typeof event !== 'object') {
+      errors[`events[${i}]`] = '予定はオブジェクトで指定してください'
+      return
+    }
+    if (event.summary !== undefined && typeof event.summary !== 'string') {
+      errors[`events[${i}].summary`] = '予定名は文字列で指定してください'
+    }
+    if (event.id !== undefined && event.id !== null && (typeof event.id !== 'string' || event.id.length > 1024)) {
+      errors[`events[${i}].id`] = '予定IDは1024文字以内の文字列で指定してください'
+    }
+    const start = getCalendarEventStart(event)
+    if (event.start !== undefined && (!start || !isValidDateTimeString(start))) {
+      errors[`events[${i}].start`] = '開始日時が不正です'
+    }
+  })
+  return raw
+}
+
+// 色はカレンダーの連携先の色（予定表の表示に使う）
+type FixedEvent = { start: string; end: string; title: string; color?: string }
+
+function validateFixedEvents(raw: unknown, errors: FieldErrors): FixedEvent[] {
+  if (raw === undefined || raw === null) return []
+  if (!Array.isArray(raw)) {
+    errors.fixedEvents = 'fixedEvents は配列で指定してください'
+    return []
+  }
+
+  const events: FixedEvent[] = []
+  raw.forEach((event, i) => {
+    const prefix = `fixedEvents[${i}]`
+    if (!event || typeof event !== 'object') {
+      errors[prefix] = '固定予定はオブジェクトで指定してください'
+      return
+    }
+    const title = typeof event.title === 'string' ? event.title.trim() : ''
+    let valid = true
+    if (!title || title.length > MAX_TITLE_LENGTH) {
+      errors[`${prefix}.title`] = `予定名を${MAX_TITLE_LENGTH}文字以内で入力してください`
+      valid = false
+    }
+    if (!isValidTimeString(event.start)) {
+      errors[`${prefix}.start`] = '開始時刻は HH:mm 形式で入力してください'
+      valid = false
+    }
+    if (!isValidTimeString(event.end)) {
+      errors[`${prefix}.end`] = '終了時刻は HH:mm 形式で入力してください'
+      valid = false
+    } else if (isValidTimeString(event.start) && event.end <= event.start) {
+      errors[`${prefix}.end`] = '終了時刻は開始時刻より後にしてください'
+      valid = false
+    }
+    if (event.color !== undefined && event.color !== null && !isValidTagColor(event.color)) {
+      errors[`${prefix}.color`] = '色は#RRGGBB形式で指定してください'
+      valid = false
+    }
+    if (valid) events.push({ start: event.start, end: event.end, title, ...(event.color ? { color: event.color } : {}) })
+  })
+  return events
+}
+
+// ========================================
+// Optimistic Concurrency Helper Functions
+// ========================================
+
+// 行のバージョンを ETag に変換する
+function versionEtag(version: unknown): string {
+  return `"${Number(version) || 1}"`
+}
+
+// If-Match ヘッダーから許容するバージョン一覧を取り出す（未指定・* は null、解釈できなければ空配列）
+function parseIfMatch(header: string | undefined): number[] | null {
+  if (!header || header.trim() === '*') return null
+  return header
+    .split(',')
+    .map((tag) => Number(tag.trim().replace(/^W\//, '').replace(/"/g, '')))
+    .filter((version) => Number.isInteger(version) && version > 0)
+}
+
+// 他の端末で先に更新されていた場合は、サーバー側の最新内容を付けて409を返す
+function conflictError(c: Context, current: { version?: unknown }) {
+  c.header('ETag', versionEtag(current.version))
+  return c.json({
+    error: 'Conflict',
+    message: '他の端末で更新されています。最新の内容を確認してください',
+    current
+  }, 409)
+}
+
+// ========================================
+// Full-Text Search Helper Functions
+// ========================================
+
+type TaskSearchHit = {
+  rank: number;
+  snippet: string | null;
+  subtasks: Array<{ id: string; title: string; snippet: string }>;
+}
+
+const MAX_SEARCH_TERMS = 8
+const MAX_TASK_NOTES_LENGTH = 5000
+
+// FTS5インデックス（タスク名・メモ・サブタスク名）とトリガーを用意する
+async function ensureTaskSearchIndex(DB: D1Database) {
+  const { results } = await DB.prepare(
+    "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'task_search'"
+  ).all()
+  if (results.length > 0) return
+
+  await ensureSubtasksTable(DB)
+  await DB.batch([
+    DB.prepare(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS task_search USING fts5(
+        task_id UNINDEXED,
+        subtask_id UNINDEXED,
+        title,
+        notes,
+        tokenize = 'trigram'
+      )
+    `),
+    DB.prepare(`
+      CREATE TRIGGER IF NOT EXISTS task_search_tasks_ai AFTER INSERT ON tasks BEGIN
+        INSERT INTO task_search (task_id, subtask_id, title, notes) VALUES (NEW.id, NULL, NEW.title, COALESCE(NEW.notes, ''));
+      END
+    `),
+    DB.prepare(`
+      CREATE TRIGGER IF NOT EXISTS task_search_tasks_au AFTER UPDATE OF title, notes ON tasks BEGIN
+        DELETE FROM task_search WHERE task_id = OLD.id AND subtask_id IS NULL;
+        INSERT INTO task_search (task_id, subtask_id, title, notes) VALUES (NEW.id, NULL, NEW.title, COALESCE(NEW.notes, ''));
+      END
+    `),
+    DB.prepare(`
+      CREATE TRIGGER IF NOT EXISTS task_search_tasks_ad AFTER DELETE ON tasks BEGIN
+        DELETE FROM task_search WHERE task_id = OLD.id;
+      END
+    `),
+    DB.prepare(`
+      CREATE TRIGGER IF NOT EXISTS task_search_subtasks_ai AFTER INSERT ON subtasks BEGIN
+        INSERT INTO task_search (task_id, subtask_id, title, notes) VALUES (NEW.task_id, NEW.id, NEW.title, '');
+      END
+    `),
+    DB.prepare(`
+      CREATE TRIGGER IF NOT EXISTS task_search_subtasks_au AFTER UPDATE OF title ON subtasks BEGIN
+        DELETE FROM task_search WHERE subtask_id = OLD.id;
+        INSERT INTO task_search (task_id, subtask_id, title, notes) VALUES (NEW.task_id, NEW.id, NEW.title, '');
+      END
+    `),
+    DB.prepare(`
+      CREATE TRIGGER IF NOT EXISTS task_search_subtasks_ad AFTER DELETE ON subtasks BEGIN
+        DELETE FROM task_search WHERE subtask_id = OLD.id;
+      END
+    `),
+    DB.prepare("INSERT INTO task_search (task_id, subtask_id, title, notes) SELECT id, NULL, title, COALESCE(notes, '') FROM tasks"),
+    DB.prepare("INSERT INTO task_search (task_id, subtask_id, title, notes) SELECT task_id, id, title, '' FROM subtasks")
+  ])
+}
+
+function splitSearchTerms(q: string): string[] {
+  return Array.from(new Set(q.split(/\s+/).filter(Boolean))).slice(0, MAX_SEARCH_TERMS)
+}
+
+// 検索条件を組み立てる（trigram は3文字以上のみ MATCH できるため、短い語は LIKE で補う）
+function buildSearchCondition(terms: string[]): { sql: string; values: string[]; ranked: boolean } {
+  const clauses: string[] = []
+  const values: string[] = []
+  const longTerms = terms.filter((term) => Array.from(term).length >= 3)
+  const shortTerms = terms.filter((term) => Array.from(term).length < 3)
+
+  if (longTerms.length > 0) {
+    clauses.push('task_search MATCH ?')
+    values.push(longTerms.map((term) => `"${term.replace(/"/g, '""')}"`).join(' AND '))
+  }
+  for (const term of shortTerms) {
+    const pattern = `%${term.replace(/[\\%_]/g, (ch) => `\\${ch}`)}%`
+    clauses.push("(title LIKE ? ESCAPE '\\' OR notes LIKE ? ESCAPE '\\')")
+    values.push(pattern, pattern)
+  }
+  return { sql: clauses.join(' AND '), values, ranked: longTerms.length > 0 }
+}
+
+function escapeHtmlText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+// 最初に一致した位置の前後を切り出し、一致箇所を <mark> で囲む（HTMLエスケープ済み）
+function buildSearchSnippet(text: string, terms: string[], width = 60): string | null {
+  if (!text) return null
+  const lower = text.toLowerCase()
+  const needles = terms.map((term) => term.toLowerCase())
+  const positions = needles.map((needle) => lower.indexOf(needle)).filter((pos) => pos >= 0)
+  if (positions.length === 0) return null
+
+  const first = Math.min(...positions)
+  const start = Math.max(0, first - Math.floor(width / 3))
+  const end = Math.min(text.length, start + width)
+  let html = ''
+  let cursor = start
+  while (cursor < end) {
+    let matchAt = -1
+    let matchLength = 0
+    for (const needle of needles) {
+      const pos = lower.indexOf(needle, cursor)
+      if (pos >= 0 && pos < end && (matchAt < 0 || pos < matchAt)) {
+        matchAt = pos
+        matchLength = needle.length
+      }
+    }
+    if (matchAt < 0) {
+      html += escapeHtmlText(text.slice(cursor, end))
+      break
+    }
+    html += escapeHtmlText(text.slice(cursor, matchAt))
+    html += `<mark>${escapeHtmlText(text.slice(matchAt, matchAt + matchLength))}</mark>`
+    cursor = matchAt + matchLength
+  }
+  return `${start > 0 ? '…' : ''}${html}${end < text.length ? '…' : ''}`
+}
+
+// タスクごとの関連度を返すサブクエリ（searchTaskIndex と同じくサブタスクの一致は半分に評価）。一覧の関連度順はこれを結合して SQL で並べる。
+// 内側の LIMIT -1 は、副問い合わせが集計に平坦化されて bm25 を使えなくなるのを防ぐため
+function buildSearchRankQuery(terms: string[]): { sql: string; values: string[] } {
+  const condition = buildSearchCondition(terms)
+  const rankExpr = condition.ranked ? 'bm25(task_search, 0.0, 0.0, 10.0, 2.0)' : '0'
+  return {
+    sql: `SELECT task_id, MIN(CASE WHEN subtask_id IS NULL THEN rank ELSE rank * 0.5 END) AS rank
+      FROM (SELECT task_id, subtask_id, ${rankExpr} AS rank FROM task_search WHERE ${condition.sql} LIMIT -1) GROUP BY task_id`,
+    values: condition.values
+  }
+}
+
+// タスクごとに検索結果をまとめる（サブタスクの一致はタスク名の一致より低く評価）
+async function searchTaskIndex(DB: D1Database, terms: string[], limit = 500): Promise<Map<string, TaskSearchHit>> {
+  await ensureTaskSearchIndex(DB)
+  const condition = buildSearchCondition(terms)
+  const rankExpr = condition.ranked ? 'bm25(task_search, 0.0, 0.0, 10.0, 2.0)' : '0'
+  const { results } = await DB.prepare(
+    `SELECT task_id, subtask_id, title, notes, ${rankExpr} AS rank
+     FROM task_search WHERE ${condition.sql} ORDER BY rank LIMIT ?`
+  ).bind(...condition.values, limit).all()
+
+  const hits = new Map<string, TaskSearchHit>()
+  for (const row of results as Array<{ task_id: string; subtask_id: string | null; title: string; notes: string; rank: number }>) {
+    const hit = hits.get(row.task_id) || { rank: 0, snippet: null, subtasks: [] }
+    const rank = row.subtask_id ? Number(row.rank) * 0.5 : Number(row.rank)
+    hit.rank = Math.min(hit.rank, rank)
+    if (row.subtask_id) {
+      hit.subtasks.push({ id: row.subtask_id, title: row.title, snippet: buildSearchSnippet(row.title, terms) || escapeHtmlText(row.title) })
+    } else {
+      hit.snippet = buildSearchSnippet(row.title, terms) || buildSearchSnippet(row.notes, terms)
+    }
+    hits.set(row.task_id, hit)
+  }
+  return hits
+}
+
+// ========================================
+// Quick-Add Parser Helper Functions
+// ========================================
+
+type QuickAddToken = {
+  field: 'due_date' | 'minutes' | 'category' | 'priority' | 'tags';
+  text: string;
+  value: string | number;
+}
+
+type QuickAddRule<T> = { pattern: RegExp; resolve: (m: RegExpMatchArray, today: string) => T | null }
+
+const JA_WEEKDAYS = ['日', '月', '火', '水', '木', '金', '土']
+const EN_WEEKDAYS: Record<string, number> = {
+  sun: 0, sunday: 0, mon: 1, monday: 1, tue: 2, tues: 2, tuesday: 2, wed: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4, fri: 5, friday: 5, sat: 6, saturday: 6
+}
+const EN_WEEKDAY_PATTERN = Object.keys(EN_WEEKDAYS).sort((a, b) => b.length - a.length).join('|')
+
+const QUICK_ADD_CATEGORIES: Record<string, Task['category']> = {
+  future: 'future', '未来': 'future',
+  now: 'now', '直近': 'now', '売上': 'now',
+  maintain: 'maintain', '維持': 'maintain',
+  chore: 'chore', '雑務': 'chore'
+}
+
+const QUICK_ADD_PRIORITIES: Record<string, NonNullable<Task['priority']>> = {
+  '高': 'high', high: 'high', h: 'high',
+  '中': 'medium', medium: 'medium', med: 'medium', m: 'medium',
+  '低': 'low', low: 'low', l: 'low'
+}
+
+// 今日以降で最初の指定曜日（nextWeek なら翌週（月曜始まり）のその曜日）
+function upcomingWeekday(today: string, weekday: number, nextWeek = false): string {
+  if (nextWeek) {
+    const monday = addDays(today, 7 - ((weekdayOf(today) + 6) % 7))
+    return addDays(monday, (weekday + 6) % 7)
+  }
+  return addDays(today, (weekday - weekdayOf(today) + 7) % 7)
+}
+
+// 年を省略した月日は、今日より前なら翌年とみなす
+function resolveMonthDay(today: string, month: number, day: number, year?: number): string | null {
+  const y = year ?? Number(today.slice(0, 4))
+  const date = `${y}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+  if (!isValidDateString(date)) return null
+  if (year === undefined && date < today) return resolveMonthDay(today, month, day, y + 1)
+  return date
+}
+
+// 期日（先に並べたものほど優先。「来週月曜」を「来週」より先に判定し、「今日の振り返り」のような名詞句は期日にしない）
+const QUICK_ADD_DATE_RULES: QuickAddRule<string>[] = [
+  { pattern: /(\d{4})[-/](\d{1,2})[-/](\d{1,2})/, resolve: (m, today) => resolveMonthDay(today, Number(m[2]), Number(m[3]), Number(m[1])) },
+  { pattern: /(\d{1,2})月(\d{1,2})日/, resolve: (m, today) => resolveMonthDay(today, Number(m[1]), Number(m[2])) },
+  { pattern: /(?<![\d/])(\d{1,2})\/(\d{1,2})(?![\d/])/, resolve: (m, today) => resolveMonthDay(today, Number(m[1]), Number(m[2])) },
+  { pattern: /(来週|今週)?の?([日月火水木金土])曜日?/, resolve: (m, today) => upcomingWeekday(today, JA_WEEKDAYS.indexOf(m[2]), m[1] === '来週') },
+  { pattern: /[（(]([日月火水木金土])[)）]/, resolve: (m, today) => upcomingWeekday(today, JA_WEEKDAYS.indexOf(m[1])) },
+  { pattern: /(明後日|あさって)(?!の)/, resolve: (_, today) => addDays(today, 2) },
+  { pattern: /(明日|あした)(?!の)/, resolve: (_, today) => addDays(today, 1) },
+  { pattern: /(今日|本日)(?!の)/, resolve: (_, today) => today },
+  { pattern: /(\d{1,3})日後/, resolve: (m, today) => addDays(today, Number(m[1])) },
+  { pattern: /今週中/, resolve: (_, today) => upcomingWeekday(today, 5) },
+  { pattern: /来週(?!の)/, resolve: (_, today) => upcomingWeekday(today, 1, true) },
+  { pattern: new RegExp(`\\bnext\\s+(${EN_WEEKDAY_PATTERN})\\b`, 'i'), resolve: (m, today) => upcomingWeekday(today, EN_WEEKDAYS[m[1].toLowerCase()], true) },
+  { pattern: new RegExp(`\\b(${EN_WEEKDAY_PATTERN})\\b`, 'i'), resolve: (m, today) => upcomingWeekday(today, EN_WEEKDAYS[m[1].toLowerCase()]) },
+  { pattern: /\b(tomorrow|tmrw?)\b/i, resolve: (_, today) => addDays(today, 1) },
+  { pattern: /\b(today|tonight)\b/i, resolve: (_, today) => today },
+  { pattern: /\bin\s+(\d{1,3})\s+days?\b/i, resolve: (m, today) => addDays(today, Number(m[1])) },
+  { pattern: /\bnext\s+week\b/i, resolve: (_, today) => upcomingWeekday(today, 1, true) }
+]
+
+const QUICK_ADD_MINUTES_RULES: QuickAddRule<number>[] = [
+  { pattern: /(\d+)\s*時間半/, resolve: (m) => Number(m[1]) * 60 + 30 },
+  { pattern: /(\d+(?:\.\d+)?)\s*時間(?:\s*(\d+)\s*分)?/, resolve: (m) => Math.round(Number(m[1]) * 60) + Number(m[2] || 0) },
+  { pattern: /(\d+)\s*分(?!後)/, resolve: (m) => Number(m[1]) },
+  { pattern: /\b(\d+(?:\.\d+)?)\s*(?:h|hrs?|hours?)(?:\s*(\d+)\s*(?:m|mins?|minutes?))?\b/i, resolve: (m) => Math.round(Number(m[1]) * 60) + Number(m[2] || 0) },
+  { pattern: /\b(\d+)\s*(?:m|mins?|minutes?)\b/i, resolve: (m) => Number(m[1]) }
+]
+
+const QUICK_ADD_PRIORITY_RULES: QuickAddRule<NonNullable<Task['priority']>>[] = [
+  { pattern: /[!！](高|中|低|high|medium|med|low|h|m|l)(?![\p{L}\p{N}])/iu, resolve: (m) => QUICK_ADD_PRIORITIES[m[1].toLowerCase()] },
+  { pattern: /優先度\s*[:：]?\s*(高|中|低)/, resolve: (m) => QUICK_ADD_PRIORITIES[m[1]] },
+  { pattern: /\b(high|medium|low)(\s+priority)?\b/i, resolve: (m) => QUICK_ADD_PRIORITIES[m[1].toLowerCase()] },
+  { pattern: /至急|急ぎ|\burgent\b|\basap\b/i, resolve: () => 'high' }
+]
+
+const QUICK_ADD_CATEGORY_RULES: QuickAddRule<Task['category']>[] = [
+  { pattern: /[#＃](future|now|maintain|chore|未来|直近|売上|維持|雑務)(?![\p{L}\p{N}_])/iu, resolve: (m) => QUICK_ADD_CATEGORIES[m[1].toLowerCase()] }
+]
+
+// 「明日 A社見積 60分 #future !高」や "fri proposal 90m high" を項目に分解し、残りをタスク名にする
+export function parseQuickAddText(text: string, today: string): { data: TaskInput; recognized: QuickAddToken[]; errors: FieldErrors } {
+  let rest = ` ${text.replace(/　/g, ' ')} `
+  const data: TaskInput = {}
+  const recognized: QuickAddToken[] = []
+  const errors: FieldErrors = {}
+
+  // 最初に一致したルールの部分を取り除いて値を返す
+  function take<T>(rules: QuickAddRule<T>[]) {
+    for (const rule of rules) {
+      const m = rest.match(rule.pattern)
+      if (!m || m.index === undefined) continue
+      const value = rule.resolve(m, today)
+      if (value === null || value === undefined) continue
+      rest = `${rest.slice(0, m.index)} ${rest.slice(m.index + m[0].length)}`
+      return { text: m[0].trim(), value }
+    }
+    return null
+  }
+
+  const category = take(QUICK_ADD_CATEGORY_RULES)
+  if (category) {
+    data.category = category.value
+    recognized.push({ field: 'category', ...category })
+  }
+
+  // カテゴリ以外の #xxx はタグとして扱う
+  const tags: string[] = []
+  rest = rest.replace(/[#＃]([^\s#＃!！]+)/gu, (match, name: string) => {
+    tags.push(name)
+    recognized.push({ field: 'tags', text: match, value: name })
+    return ' '
+  })
+  if (tags.length > 0) data.tags = normalizeTagNames(tags)
+
+  const priority = take(QUICK_ADD_PRIORITY_RULES)
+  if (priority) {
+    data.priority = priority.value
+    recognized.push({ field: 'priority', ...priority })
+  }
+
+  const minutes = take(QUICK_ADD_MINUTES_RULES)
+  if (minutes) {
+    if (!Number.isInteger(minutes.value) || minutes.value < 1 || minutes.value > MAX_TASK_MINUTES) {
+      errors.minutes = `時間は1〜${MAX_TASK_MINUTES}分で指定してください`
+    } else {
+      data.minutes = minutes.value
+    }
+    recognized.push({ field: 'minutes', ...minutes })
+  }
+
+  const dueDate = take(QUICK_ADD_DATE_RULES)
+  if (dueDate) {
+    data.due_date = dueDate.value
+    recognized.push({ field: 'due_date', ...dueDate })
+  }
+
+  const title = rest.replace(/\s+/g, ' ').trim()
+  if (!title) {
+    errors.title = 'タスク名が見つかりません（日付・時間・タグ以外の言葉を入れてください）'
+  } else if (title.length > MAX_TITLE_LENGTH) {
+    errors.title = `タスク名は${MAX_TITLE_LENGTH}文字以内で入力してください`
+  } else {
+    data.title = title
+  }
+
+  return { data, recognized, errors }
+}
+
+// ========================================
+// CSV Import Helper Functions
+// ========================================
+
+type ImportField = 'title' | 'category' | 'priority' | 'minutes' | 'due_date' | 'status' | 'notes' | 'tags'
+
+type ImportValueMap = Record<'category' | 'priority' | 'status', Record<string, string>>
+
+type ImportRow = {
+  row: number;
+  status: 'ok' | 'duplicate' | 'error';
+  task?: TaskInput;
+  errors?: FieldErrors;
+  duplicate_of?: string;
+}
+
+const IMPORT_FIELDS: ImportField[] = ['title', 'category', 'priority', 'minutes', 'due_date', 'status', 'notes', 'tags']
+const MAX_IMPORT_ROWS = 1000
+const MAX_IMPORT_TEXT_LENGTH = 1_000_000
+const IMPORT_DELIMITERS: Record<string, string> = { comma: ',', tab: '\t', semicolon: ';' }
+
+// 見出しの名前から取り込み先の項目を推測する（括弧内と空白は無視して比較）
+const IMPORT_HEADER_ALIASES: Record<ImportField, string[]> = {
+  title: ['タスク名', 'タスク', '件名', 'タイトル', '内容', '項目', 'やること', 'title', 'task', 'name', 'subject'],
+  category: ['カテゴリ', 'カテゴリー', '分類', '区分', '種別', 'category', 'type'],
+  priority: ['優先度', '優先', '重要度', 'priority'],
+  minutes: ['時間', '所要時間', '見積', '見積時間', '見積もり', '工数', '分', 'minutes', 'duration', 'estimate'],
+  due_date: ['期日', '期限', '締切', '締め切り', '納期', '日付', 'due', 'duedate', 'deadline', 'date'],
+  status: ['状態', 'ステータス', '完了', '進捗', 'status', 'done'],
+  notes: ['メモ', '備考', '詳細', '説明', 'notes', 'note', 'memo', 'description'],
+  tags: ['タグ', 'ラベル', '案件', 'tags', 'tag', 'labels']
+}
+
+// 表記ゆれの多い値の既定の変換表（クイック追加の辞書に表計算でよく見る表記を足したもの）
+const IMPORT_CATEGORY_VALUES: Record<string, Task['category']> = {
+  ...QUICK_ADD_CATEGORIES,
+  '未来の売上': 'future', '直近の売上': 'now', 'ルーティン': 'maintain', '維持・ルーティン': 'maintain', 'その他': 'chore'
+}
+const IMPORT_PRIORITY_VALUES: Record<string, NonNullable<Task['priority']>> = {
+  ...QUICK_ADD_PRIORITIES,
+  '至急': 'high', '最優先': 'high', '普通': 'medium', '通常': 'medium'
+}
+const IMPORT_STATUS_VALUES: Record<string, 'todo' | 'done'> = {
+  todo: 'todo', '未着手': 'todo', '未完了': 'todo', '進行中': 'todo', '対応中': 'todo', false: 'todo', no: 'todo', '0': 'todo', '-': 'todo',
+  done: 'done', '完了': 'done', '済': 'done', '済み': 'done', '✓': 'done', '✔': 'done', x: 'done', true: 'done', yes: 'done', '1': 'done'
+}
+
+function normalizeImportKey(value: string): string {
+  return value.replace(/[（(][^）)]*[)）]/g, '').replace(/[^\p{L}\p{N}]/gu, '').toLowerCase()
+}
+
+// 区切り文字の自動判定（表計算からの貼り付けはタブ区切りになる）
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '')
+  if (firstLine.includes('\t')) return '\t'
+  if (firstLine.includes(',')) return ','
+  if (firstLine.includes(';')) return ';'
+  return ','
+}
+
+// RFC 4180 形式（ダブルクォート内の区切り文字・改行、"" のエスケープ）を解析し、空行は除いて元の行番号と一緒に返す
+export function parseDelimitedText(text: string, delimiter: string): Array<{ line: number; cells: string[] }> {
+  const rows: Array<{ line: number; cells: string[] }> = []
+  let cells: string[] = []
+  let cell = ''
+  let quoted = false
+  let line = 1
+  let rowLine = 1
+
+  const pushRow = () => {
+    cells.push(cell)
+    if (cells.some((value) => value.trim() !== '')) rows.push({ line: rowLine, cells })
+    cells = []
+    cell = ''
+  }
+
+  const source = text.replace(/^\uFEFF/, '')
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i]
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        if (ch === '\n') line++
+        cell += ch
+      }
+    } else if (ch === '"' && cell.trim() === '') {
+      quoted = true
+      cell = ''
+    } else if (ch === delimiter) {
+      cells.push(cell)
+      cell = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++
+      pushRow()
+      line++
+      rowLine = line
+    } else {
+      cell += ch
+    }
+  }
+  if (cell !== '' || cells.length > 0) pushRow()
+  return rows
+}
+
+// 見出し行から項目の対応を推測（見つからなければタスク名は1列目）
+export function suggestImportMapping(headers: string[] | null): Partial<Record<ImportField, number>> {
+  const mapping: Partial<Record<ImportField, number>> = {}
+  if (headers) {
+    const keys = headers.map(normalizeImportKey)
+    for (const field of IMPORT_FIELDS) {
+      const aliases = IMPORT_HEADER_ALIASES[field].map(normalizeImportKey)
+      const index = keys.findIndex((key, i) => aliases.includes(key) && !Object.values(mapping).includes(i))
+      if (index >= 0) mapping[field] = index
+    }
+  }
+  if (mapping.title === undefined) mapping.title = 0
+  return mapping
+}
+
+export function looksLikeHeader(cells: string[]): boolean {
+  const aliases = new Set(Object.values(IMPORT_HEADER_ALIASES).flat().map(normalizeImportKey))
+  return cells.some((cell) => aliases.has(normalizeImportKey(cell)))
+}
+
+// 2025-12-25 / 2025/12/25 / 2025年12月25日 / 12/25 / 12月25日 / Excelのシリアル値を YYYY-MM-DD に（年の省略は今年）
+export function parseImportDate(value: string, today: string): string | null {
+  const text = value.trim()
+  let m = text.match(/^(\d{4})[-/.年](\d{1,2})[-/.月](\d{1,2})日?(?:[ T].*)?$/)
+  if (m) return resolveMonthDay(today, Number(m[2]), Number(m[3]), Number(m[1]))
+  m = text.match(/^(\d{1,2})[/月](\d{1,2})日?$/)
+  if (m) return resolveMonthDay(today, Number(m[1]), Number(m[2]), Number(today.slice(0, 4)))
+  if (/^\d{5}$/.test(text)) return addDays('1899-12-30', Number(text))
+  return null
+}
+
+// 60 / 60分 / 1時間半 / 1.5h / 1:30 を分に（単位のない数は表計算の 60.0 のような小数も分として丸める）
+export function parseImportMinutes(value: string): number | null {
+  const text = value.trim()
+  if (/^\d+(\.\d+)?$/.test(text)) return Math.round(Number(text))
+  const clock = text.match(/^(\d{1,2}):(\d{2})$/)
+  if (clock) return Number(clock[1]) * 60 + Number(clock[2])
+  for (const rule of QUICK_ADD_MINUTES_RULES) {
+    const m = text.match(rule.pattern)
+    if (m) return rule.resolve(m, '')
+  }
+  return null
+}
+
+// 利用者の変換表 → 既定の変換表 の順で値を引く（記号や括弧書きの違いは無視）
+function mapImportValue(value: string, custom: Record<string, string>, defaults: Record<string, string>): string | null {
+  const key = normalizeImportKey(value)
+  const find = (table: Record<string, string>) =>
+    Object.keys(table).find((k) => k.trim() === value.trim() || (key !== '' && normalizeImportKey(k) === key))
+  const customKey = find(custom)
+  if (customKey !== undefined) return custom[customKey]
+  const defaultKey = find(defaults)
+  return defaultKey !== undefined ? defaults[defaultKey] : null
+}
+
+// 取り込みオプション（区切り文字・見出し・列の対応・値の変換表）を検証する
+function parseImportOptions(body: Record<string, any>, errors: FieldErrors) {
+  if (typeof body.text !== 'string' || !body.text.trim()) {
+    errors.text = '取り込むCSV/TSVのテキストを指定してください'
+  } else if (body.text.length > MAX_IMPORT_TEXT_LENGTH) {
+    errors.text = `テキストは${MAX_IMPORT_TEXT_LENGTH.toLocaleString()}文字以内にしてください`
+  }
+  const delimiterOption = body.delimiter ?? 'auto'
+  checkEnumField(errors, 'delimiter', delimiterOption, ['auto', ...Object.keys(IMPORT_DELIMITERS)])
+  if (body.has_header !== undefined && body.has_header !== null && typeof body.has_header !== 'boolean') {
+    errors.has_header = 'true / false / null（自動判定）のいずれかを指定してください'
+  }
+  const duplicates = body.duplicates ?? 'skip'
+  checkEnumField(errors, 'duplicates', duplicates, ['skip', 'import'])
+
+  let mapping: Partial<Record<ImportField, number | string>> | null = null
+  if (body.mapping !== undefined && body.mapping !== null) {
+    if (typeof body.mapping !== 'object' || Array.isArray(body.mapping)) {
+      errors.mapping = '項目名をキー、列番号（0始まり）または見出し名を値にしたオブジェクトを指定してください'
+    } else {
+      mapping = {}
+      for (const [field, column] of Object.entries(body.mapping)) {
+        if (column === null || column === '') continue
+        if (!IMPORT_FIELDS.includes(field as ImportField)) {
+          errors[`mapping.${field}`] = `${IMPORT_FIELDS.join(' / ')} のいずれかを指定してください`
+        } else if (!(Number.isInteger(column) && (column as number) >= 0) && typeof column !== 'string') {
+          errors[`mapping.${field}`] = '列番号（0始まり）または見出し名を指定してください'
+        } else {
+          mapping[field as ImportField] = column as number | string
+        }
+      }
+    }
+  }
+
+  const valueMap: ImportValueMap = { category: {}, priority: {}, status: {} }
+  const allowedValues = { category: TASK_CATEGORIES, priority: TASK_PRIORITIES, status: ['todo', 'done'] }
+  if (body.value_map !== undefined && body.value_map !== null) {
+    if (typeof body.value_map !== 'object' || Array.isArray(body.value_map)) {
+      errors.value_map = '{ category: { "未来": "future" } } の形式で指定してください'
+    } else {
+      for (const key of Object.keys(valueMap) as Array<keyof ImportValueMap>) {
+        const entries = body.value_map[key]
+        if (entries === undefined || entries === null) continue
+        if (typeof entries !== 'object' || Array.isArray(entries)) {
+          errors[`value_map.${key}`] = '変換元の値をキーにしたオブジェクトを指定してください'
+          continue
+        }
+        for (const [from, to] of Object.entries(entries)) {
+          if (checkEnumField(errors, `value_map.${key}`, to, allowedValues[key])) valueMap[key][from] = to as string
+        }
+      }
+    }
+  }
+
+  return {
+    text: typeof body.text === 'string' ? body.text : '',
+    delimiter: delimiterOption as string,
+    hasHeader: typeof body.has_header === 'boolean' ? body.has_header : null,
+    duplicates: duplicates as 'skip' | 'import',
+    skipErrors: body.skip_errors === true,
+    mapping,
+    valueMap
+  }
+}
+
+// 1行分のセルを変換・検証してタスクの入力値にする（未変換の値は unmapped に集める）
+export function buildImportTask(
+  cells: string[],
+  mapping: Partial<Record<ImportField, number>>,
+  valueMap: ImportValueMap,
+  today: string,
+  unmapped: Record<'category' | 'priority' | 'status', Set<string>>
+): { data: TaskInput; errors: FieldErrors } {
+  const cell = (field: ImportField) => {
+    const index = mapping[field]
+    return index === undefined ? '' : (cells[index] ?? '').trim()
+  }
+  const raw: Record<string, unknown> = { title: cell('title') }
+  const errors: FieldErrors = {}
+
+  const category = cell('category')
+  if (category) {
+    const mapped = mapImportValue(category, valueMap.category, IMPORT_CATEGORY_VALUES)
+    if (mapped) raw.category = mapped
+    else {
+      errors.category = `カテゴリ「${category}」を変換できません`
+      unmapped.category.add(category)
+    }
+  }
+  const priority = cell('priority')
+  if (priority) {
+    const mapped = mapImportValue(priority, valueMap.priority, IMPORT_PRIORITY_VALUES)
+    if (mapped) raw.priority = mapped
+    else {
+      errors.priority = `優先度「${priority}」を変換できません`
+      unmapped.priority.add(priority)
+    }
+  }
+  const status = cell('status')
+  const mappedStatus = status ? mapImportValue(status, valueMap.status, IMPORT_STATUS_VALUES) : 'todo'
+  if (!mappedStatus) {
+    errors.status = `状態「${status}」を変換できません`
+    unmapped.status.add(status)
+  }
+  const minutes = cell('minutes')
+  if (minutes) {
+    raw.minutes = parseImportMinutes(minutes) ?? minutes
+  }
+  const dueDate = cell('due_date')
+  if (dueDate) {
+    const parsed = parseImportDate(dueDate, today)
+    if (parsed) raw.due_date = parsed
+    else errors.due_date = `期日「${dueDate}」を日付として読めません`
+  }
+  if (cell('notes')) raw.notes = cell('notes')
+  if (cell('tags')) raw.tags = cell('tags').split(/[,、;；\s]+/)
+
+  const { data, errors: fieldErrors } = validateTaskInput(raw, 'create')
+  if (mappedStatus === 'done') data.status = 'done'
+  return { data, errors: { ...fieldErrors, ...errors } }
+}
+
+// ========================================
+// iCalendar Helper Functions
+// ========================================
+
+const ICAL_PRODID = '-//task_kanri//Task Feed//JA'
+const ICAL_UID_DOMAIN = 'task_kanri'
+
+const ICAL_CATEGORY_LABELS: Record<Task['category'], string> = { future: '未来', now: '直近の売上', maintain: '維持・ルーティン', chore: '雑務' }
+const ICAL_PRIORITY_VALUES: Record<NonNullable<Task['priority']>, number> = { high: 1, medium: 5, low: 9 }
+const ICAL_SLOT_LABELS: Record<string, string> = {
+  lunch: 'ランチ', dinner: '夜ご飯', reply: '返信枠', family: '家族時間', ...ICAL_CATEGORY_LABELS
+}
+
+// TEXT 値のエスケープ（RFC 5545 3.3.11）
+function escapeIcsText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+}
+
+// 1行75オクテットで折り返す（マルチバイト文字の途中では切らない）
+function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ''
+  let bytes = 0
+  for (const ch of line) {
+    const size = encoder.encode(ch).length
+    if (bytes + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current)
+      current = ''
+      bytes = 0
+    }
+    current += ch
+    bytes += size
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+// YYYY-MM-DD → YYYYMMDD
+function toIcsDate(date: string): string {
+  return date.replace(/-/g, '')
+}
+
+// ISO日時 → UTCの YYYYMMDDTHHMMSSZ
+function toIcsUtc(value: string): string {
+  return new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function buildIcsCalendar(name: string, components: string[][], timeZone: string): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICAL_PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(name)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...components.flat(),
+    'END:VCALENDAR'
+  ]
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n'
+}
+
+// 期日のあるタスクを終日の VEVENT（カレンダーアプリ向け）または VTODO にする。UID はタスクIDから作るので更新しても変わらない
+function buildTaskIcsComponent(task: Task, type: 'event' | 'todo'): string[] {
+  const done = task.status === 'done'
+  const stamp = toIcsUtc(task.updated_at || task.created_at)
+  const description = [
+    `${ICAL_CATEGORY_LABELS[task.category]} / ${task.minutes}分`,
+    task.notes || ''
+  ].filter(Boolean).join('\n')
+  const common = [
+    `UID:task-${task.id}@${ICAL_UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `LAST-MODIFIED:${stamp}`,
+    `SEQUENCE:${Math.max(0, (task.version || 1) - 1)}`,
+    `CATEGORIES:${escapeIcsText(ICAL_CATEGORY_LABELS[task.category])}`,
+    `PRIORITY:${ICAL_PRIORITY_VALUES[task.priority || 'medium']}`,
+    `DESCRIPTION:${escapeIcsText(description)}`
+  ]
+  if (type === 'todo') {
+    return [
+      'BEGIN:VTODO',
+      ...common,
+      `SUMMARY:${escapeIcsText(task.title)}`,
+      `DUE;VALUE=DATE:${toIcsDate(task.due_date as string)}`,
+      `STATUS:${done ? 'COMPLETED' : 'NEEDS-ACTION'}`,
+      ...(done ? [`COMPLETED:${stamp}`, 'PERCENT-COMPLETE:100'] : []),
+      'END:VTODO'
+    ]
+  }
+  return [
+    'BEGIN:VEVENT',
+    ...common,
+    `SUMMARY:${escapeIcsText(`${done ? '✅ ' : ''}${task.title}`)}`,
+    `DTSTART;VALUE=DATE:${toIcsDate(task.due_date as string)}`,
+    `DTEND;VALUE=DATE:${toIcsDate(addDays(task.due_date as string, 1))}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT'
+  ]
+}
+
+// 予定表の枠を VEVENT にする（UID は日付＋タスクID／枠の種類と開始時刻なので、同じ日に作り直しても同じ枠は同じUIDになる）。
+// 枠の時刻は生成時のタイムゾーンの壁時計なので、UTC に直して書き出す（どのカレンダーアプリでも同じ時刻になる）
+function buildScheduleIcsComponents(date: string, slots: TimeSlot[], generatedAt: string, timeZone: string): string[][] {
+  const used = new Map<string, number>()
+  const stamp = toIcsUtc(generatedAt)
+  return slots
+    .filter((slot) => slot.type !== 'fixed')
+    .map((slot) => {
+      const base = slot.task_id ? `task-${slot.task_id}` : `${slot.type}-${slot.start.replace(':', '')}`
+      const count = (used.get(base) || 0) + 1
+      used.set(base, count)
+      return [
+        'BEGIN:VEVENT',
+        `UID:schedule-${date}-${base}${count > 1 ? `-${count}` : ''}@${ICAL_UID_DOMAIN}`,
+        `DTSTAMP:${stamp}`,
+        `LAST-MODIFIED:${stamp}`,
+        `DTSTART:${toIcsUtc(zonedDateTimeToUtc(date, slot.start, timeZone).toISOString())}`,
+        `DTEND:${toIcsUtc(zonedDateTimeToUtc(date, slot.end, timeZone).toISOString())}`,
+        `SUMMARY:${escapeIcsText(slot.title)}`,
+        `CATEGORIES:${escapeIcsText(ICAL_SLOT_LABELS[slot.type] || slot.type)}`,
+        'END:VEVENT'
+      ]
+    })
+}
+
+async function ensureOAuthTokensTable(DB: D1Database) {
+  await DB.prepare(`
+    CREATE TABLE IF NOT EXISTS oauth_tokens (
+      id INTEGER PRIMARY KEY CHECK(id = 1),
+      access_token TEXT NOT NULL,
+      refresh_token TEXT,
+      expiry_at INTEGER NOT NULL,
+      scope TEXT,
+      token_type TEXT,
+      updated_at TEXT NOT NULL
+    )
+  `).run()
+}
+
+async function getStoredOAuthToken(DB: D1Database) {
+  await ensureOAuthTokensTable(DB)
+  const { results } = await DB.prepare(
+    'SELECT access_token, refresh_token, expiry_at, scope, token_type FROM oauth_tokens WHERE id = 1'
+  ).all()
+  return results.length > 0
+    ? (results[0] as {
+        access_token: string;
+        refresh_token?: string;
+        expiry_at: number;
+        scope?: string;
+        token_type?: string;
+      })
+    : null
+}
+
+async function saveOAuthToken(
+  DB: D1Database,
+  token: {
+    access_token: string;
+    refresh_token?: string;
+    expiry_at: number;
+    scope?: string;
+    token_type?: string;
+  }
+) {
+  await ensureOAuthTokensTable(DB)
+  await DB.prepare(
+    `INSERT INTO oauth_tokens (id, access_token, refresh_token, expiry_at, scope, token_type, updated_at)
+     VALUES (1, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(id) DO UPDATE SET
+       access_token = excluded.access_token,
+       refresh_token = excluded.refresh_token,
+       expiry_at = excluded.expiry_at,
+       scope = excluded.scope,
+       token_type = excluded.token_type,
+       updated_at = excluded.updated_at`
+  ).bind(
+    token.access_token,
+    token.refresh_token || null,
+    token.expiry_at,
+    token.scope || null,
+    token.token_type || 'Bearer',
+    new Date().toISOString()
+  ).run()
+}
+
+function isOAuthConfigured(env: Bindings): boolean {
+  return !!(env.GOOGLE_OAUTH_CLIENT_ID && env.GOOGLE_OAUTH_CLIENT_SECRET && env.GOOGLE_CALENDAR_ID)
+}
+
+function getOAuthRedirectUri(c: { env: Bindings; req: { url: string } }): string {
+  if (c.env.GOOGLE_OAUTH_REDIRECT_URI) {
+    return c.env.GOOGLE_OAUTH_REDIRECT_URI
+  }
+  return new URL('/api/calendar/oauth/callback', c.req.url).toString()
+}
+
+async function refreshGoogleAccessToken(c: { env: Bindings; req: { url: string } }) {
+  const { DB, GOOGLE_OAUTH_CLIENT_ID, GOOGLE_OAUTH_CLIENT_SECRET } = c.env
+  const token = await getStoredOAuthToken(DB)
+  if (!token?.refresh_token || !GOOGLE_OAUTH_CLIENT_ID || !GOOGLE_OAUTH_CLIENT_SECRET) {
+    return null
+  }
+
+  const body = new URLSearchParams({
+    client_id: GOOGLE_OAUTH_CLIENT_ID,
+    client_secret: GOOGLE_OAUTH_CLIENT_SECRET,
+    refresh_token: token.refresh_token,
+    grant_type: 'refresh_token'
+  })
+
+  const response = await fetch('https://oauth2.googleapis.com/token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: body.toString()
+  })
+
+  if (!response.ok) return null
+  const data = await response.json() as any
+  if (!data.access_token || !data.expires_in) return null
+
+  const refreshed = {
+    access_token: data.access_token as string,
+    refresh_token: token.refresh_token,
+    expiry_at: Date.now() + Number(data.expires_in) * 1000,
+    scope: (data.scope as string) || token.scope,
+    token_type: (data.token_type as string) || 'Bearer'
+  }
+  await saveOAuthToken(DB, refreshed)
+  return refreshed.access_token
+}
+
+async function getGoogleAccessToken(c: { env: Bindings; req: { url: string } }) {
+  const { DB } = c.env
+  const token = await getStoredOAuthToken(DB)
+  if (!token) return null
+
+  const earlyRefreshMargin = 60 * 1000
+  if (Date.now() < Number(token.expiry_at) - earlyRefreshMargin) {
+    return token.access_token
+  }
+
+  return refreshGoogleAccessToken(c)
+}
+
+// ========================================
+// iCalendar Subscription Helper Functions
+// ========================================
+
+type IcsProperty = { name: string; params: Record<string, string>; value: string }
+
+// 日付と壁時計の時刻（終日なら time は null）
+type IcsTime = { date: string; time: string | null; timeZone: string }
+
+type IcsEvent = {
+  uid: string;
+  summary: string;
+  description: string | null;
+  location: string | null;
+  url: string | null;
+  status: string;
+  updated: string | null;
+  attendees: string[];
+  start: IcsTime;
+  durationMs: number | null; // DTEND / DURATION がなければ null
+  rrule: string | null;
+  exdates: string[];          // 除外する回の開始（保存する形）
+  recurrenceId: string | null; // 繰り返しの一部の回を変更した予定なら、元の回の開始
+}
+
+// 折り返しを戻して「名前;パラメータ:値」に分ける（引用符の中のコロンは区切りにしない）
+function parseIcsProperties(text: string): IcsProperty[] {
+  const properties: IcsProperty[] = []
+  for (const line of text.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n')) {
+    let inQuotes = false
+    let colon = -1
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '"') inQuotes = !inQuotes
+      else if (line[i] === ':' && !inQuotes) {
+        colon = i
+        break
+      }
+    }
+    if (colon <= 0) continue
+    const [name, ...rawParams] = line.slice(0, colon).split(';')
+    const params: Record<string, string> = {}
+    for (const param of rawParams) {
+      const eq = param.indexOf('=')
+      if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '')
+    }
+    properties.push({ name: name.trim().toUpperCase(), params, value: line.slice(colon + 1) })
+  }
+  return properties
+}
+
+// TEXT 値のエスケープを戻す（RFC 5545 3.3.11）
+function unescapeIcsText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch))
+}
+
+// DTSTART などの値を読む。Z 付きは UTC、TZID がないか Intl で使えない名前なら既定のタイムゾーンとして扱う
+function parseIcsTime(value: string, params: Record<string, string>, fallbackTimeZone: string): IcsTime | null {
+  const m = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/)
+  if (!m || !isValidDateString(`${m[1]}-${m[2]}-${m[3]}`)) return null
+  const date = `${m[1]}-${m[2]}-${m[3]}`
+  if (!m[4] || params.VALUE === 'DATE') return { date, time: null, timeZone: fallbackTimeZone }
+  const timeZone = m[7] ? 'UTC' : (params.TZID && isValidTimeZone(params.TZID) ? params.TZID : fallbackTimeZone)
+  return { date, time: `${m[4]}:${m[5]}:${m[6] || '00'}`, timeZone }
+}
+
+// calendar_events に保存する形（時刻付きは UTC の ISO 文字列、終日は日付）
+function icsTimeValue(time: IcsTime): string {
+  return time.time ? zonedDateTimeToUtc(time.date, time.time, time.timeZone).toISOString() : time.date
+}
+
+// DURATION（P1D, PT1H30M など）をミリ秒にする
+function parseIcsDuration(value: string): number | null {
+  const m = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/)
+  if (!m) return null
+  const ms = (((Number(m[2] || 0) * 7 + Number(m[3] || 0)) * 24 + Number(m[4] || 0)) * 60 + Number(m[5] || 0)) * 60000 + Number(m[6] || 0) * 1000
+  return m[1] === '-' ? -ms : ms
+}
+
+// VEVENT を読み出す（VALARM など入れ子の要素の項目は使わない）
+export function parseIcsEvents(text: string, fallbackTimeZone: string): IcsEvent[] {
+  const events: IcsEvent[] = []
+  const stack: string[] = []
+  let current: IcsProperty[] = []
+  for (const property of parseIcsProperties(text)) {
+    if (property.name === 'BEGIN') {
+      stack.push(property.value.trim().toUpperCase())
+      if (stack[stack.length - 1] === 'VEVENT') current = []
+      continue
+    }
+    if (property.name === 'END') {
+      if (stack.pop() === 'VEVENT') {
+        const event = toIcsEvent(current, fallbackTimeZone)
+        if (event) events.push(event)
+      }
+      continue
+    }
+    if (stack[stack.length - 1] === 'VEVENT') current.push(property)
+  }
+  return events
+}
+
+function toIcsEvent(properties: IcsProperty[], fallbackTimeZone: string): IcsEvent | null {
+  const get = (name: string) => properties.find((property) => property.name === name)
+  const text = (name: string) => {
+    const property = get(name)
+    return property ? unescapeIcsText(property.value) : null
+  }
+  const uid = get('UID')?.value.trim()
+  const startProperty = get('DTSTART')
+  const start = startProperty ? parseIcsTime(startProperty.value, startProperty.params, fallbackTimeZone) : null
+  if (!uid || !start) return null
+
+  let durationMs: number | null = null
+  const endProperty = get('DTEND')
+  const end = endProperty ? parseIcsTime(endProperty.value, endProperty.params, fallbackTimeZone) : null
+  if (end) {
+    durationMs = start.time && end.time
+      ? Date.parse(icsTimeValue(end)) - Date.parse(icsTimeValue(start))
+      : Date.parse(`${end.date}T00:00:00Z`) - Date.parse(`${start.date}T00:00:00Z`)
+  } else if (get('DURATION')) {
+    durationMs = parseIcsDuration(get('DURATION')!.value)
+  }
+
+  const exdates: string[] = []
+  for (const property of properties.filter((candidate) => candidate.name === 'EXDATE')) {
+    for (const value of property.value.split(',')) {
+      const time = parseIcsTime(value, property.params, fallbackTimeZone)
+      if (time) exdates.push(icsTimeValue(time))
+    }
+  }
+  const recurrenceProperty = get('RECURRENCE-ID')
+  const recurrenceTime = recurrenceProperty ? parseIcsTime(recurrenceProperty.value, recurrenceProperty.params, fallbackTimeZone) : null
+  const status = (get('STATUS')?.value.trim() || 'CONFIRMED').toLowerCase()
+  const updated = get('LAST-MODIFIED') || get('DTSTAMP')
+  const updatedTime = updated ? parseIcsTime(updated.value, updated.params, 'UTC') : null
+
+  return {
+    uid,
+    summary: text('SUMMARY')?.trim() || 'Untitled',
+    description: text('DESCRIPTION'),
+    location: text('LOCATION'),
+    url: get('URL')?.value.trim() || null,
+    status: CALENDAR_EVENT_STATUSES.includes(status) ? status : 'confirmed',
+    updated: updatedTime ? icsTimeValue(updatedTime) : null,
+    attendees: properties
+      .filter((property) => property.name === 'ATTENDEE')
+      .map((property) => property.value.trim().replace(/^mailto:/i, ''))
+      .filter((email) => email.includes('@')),
+    start,
+    durationMs: durationMs !== null && durationMs >= 0 ? durationMs : null,
+    rrule: get('RRULE')?.value.trim() || null,
+    exdates,
+    recurrenceId: recurrenceTime ? icsTimeValue(recurrenceTime) : null
+  }
+}
+
+// 予定を calendar_events の行の形にする（開始は保存する形の値）
+function toIcsOccurrence(event: IcsEvent, id: string, start: string, durationMs: number | null) {
+  const allDay = !event.start.time
+  const end = allDay
+    ? addDays(start, Math.max(1, Math.round((durationMs ?? 86400000) / 86400000)))
+    : new Date(Date.parse(start) + (durationMs ?? 0)).toISOString()
+  return {
+    id,
+    summary: event.summary,
+    description: event.description,
+    location: event.location,
+    html_link: event.url,
+    start_time: start,
+    end_time: end,
+    all_day: allDay ? 1 : 0,
+    status: event.status,
+    updated_at: event.updated,
+    attendees: event.attendees.length > 0 ? JSON.stringify(event.attendees) : null
+  }
+}
+
+// 繰り返しの回を targetDate の手前まで、何回分を読み飛ばしたかを数えながら周期ごとに進める（古い DTSTART から1回ずつ進めると展開範囲に届かないため）。
+// 毎日・毎週の次の回までの日数は曜日だけで決まるので、同じ曜日に戻るまでを1周期とする。毎月は interval か月ごとに1回
+function skipIcsRecurrence(rule: RecurrenceRule, startDate: string, targetDate: string): { date: string; skipped: number } {
+  if (startDate >= targetDate) return { date: startDate, skipped: 0 }
+  if (rule.freq === 'MONTHLY') {
+    const [year, month] = startDate.split('-').map(Number)
+    const [targetYear, targetMonth] = targetDate.split('-').map(Number)
+    const periods = Math.floor(((targetYear - year) * 12 + targetMonth - month) / rule.interval)
+    if (periods < 1) return { date: startDate, skipped: 0 }
+    return { date: nextRecurrenceDate({ ...rule, interval: rule.interval * periods }, startDate), skipped: periods }
+  }
+
+  const daysBetween = (from: string, to: string) => Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000)
+  const seen = new Map<number, { date: string; index: number }>()
+  let date = startDate
+  let index = 0
+  while (date < targetDate) {
+    const first = seen.get(weekdayOf(date))
+    if (first) {
+      const periodDays = daysBetween(first.date, date)
+      const periods = Math.floor(daysBetween(date, targetDate) / periodDays)
+      return { date: addDays(date, periods * periodDays), skipped: index + periods * (index - first.index) }
+    }
+    seen.set(weekdayOf(date), { date, index })
+    date = nextRecurrenceDate(rule, date)
+    index += 1
+  }
+  return { date, skipped: index }
+}
+
+// 繰り返しの予定を windowEnd までの回に展開する（RRULE は FREQ/INTERVAL/BYDAY/BYMONTHDAY/UNTIL/COUNT に対応、
+// それ以外の規則は初回だけ）。EXDATE の回は除き、RECURRENCE-ID のある予定でその回を置き換える。取消しの予定は含めない
+export function expandIcsEvents(events: IcsEvent[], windowStart: string, windowEnd: string) {
+  const overrides = new Map<string, IcsEvent>()
+  const masters = new Set<string>()
+  for (const event of events) {
+    if (event.recurrenceId) overrides.set(`${event.uid}|${event.recurrenceId}`, event)
+    else masters.add(event.uid)
+  }
+  const occurrenceId = (uid: string, start: string) => `${uid}_${start.replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`
+  const occurrences: Array<ReturnType<typeof toIcsOccurrence>> = []
+  const push = (occurrence: ReturnType<typeof toIcsOccurrence>) => {
+    if (occurrence.status !== 'cancelled' && occurrence.end_time >= windowStart) occurrences.push(occurrence)
+  }
+
+  for (const event of events) {
+    if (event.recurrenceId) {
+      // 元の予定がない変更分はそのまま1件の予定として扱う
+      if (!masters.has(event.uid)) {
+        push(toIcsOccurrence(event, occurrenceId(event.uid, event.recurrenceId), icsTimeValue(event.start), event.durationMs))
+      }
+      continue
+    }
+    const parsedRule = event.rrule ? parseRecurrenceRule(event.rrule) : null
+    const rule = parsedRule ? anchorMonthlyRule(parsedRule, event.start.date) : null
+    if (!rule) {
+      push(toIcsOccurrence(event, event.uid, icsTimeValue(event.start), event.durationMs))
+      continue
+    }
+
+    // 展開範囲より前に終わる回は読み飛ばす（期間の長い予定と時差の分だけ手前で止める）。上限は読み飛ばした後から数える
+    const count = Number(event.rrule?.match(/COUNT=(\d+)/i)?.[1]) || null
+    const durationDays = Math.ceil((event.durationMs ?? 0) / 86400000)
+    const skip = skipIcsRecurrence(rule, event.start.date, addDays(windowStart.slice(0, 10), -durationDays - 1))
+    let date = skip.date
+    for (let n = skip.skipped + 1; n <= skip.skipped + 5000; n++) {
+      if ((count && n > count) || (rule.until && date > rule.until)) break
+      const start = icsTimeValue({ ...event.start, date })
+      if (start >= windowEnd) break
+      if (!event.exdates.includes(start)) {
+        const override = overrides.get(`${event.uid}|${start}`)
+        push(override
+          ? toIcsOccurrence(override, occurrenceId(event.uid, start), icsTimeValue(override.start), override.durationMs ?? event.durationMs)
+          : toIcsOccurrence(event, occurrenceId(event.uid, start), start, event.durationMs))
+      }
+      date = nextRecurrenceDate(rule, date)
+    }
+  }
+  return occurrences
+}
+
+// ========================================
+// Calendar Sync Helper Functions
+// ========================================
+
+const DEFAULT_CALENDAR_SYNC_INTERVAL_MINUTES = 15
+// 全件取得（初回・同期トークン失効時）でさかのぼる日数。これより前に終わった予定はキャッシュから消す
+const CALENDAR_SYNC_PAST_DAYS = 30
+const CALENDAR_EVENT_STATUSES = ['confirmed', 'tentative', 'cancelled']
+// 環境変数 GOOGLE_CALENDAR_ID のカレンダー。キャッシュの予定IDは Google の ID のまま（他の連携先は「連携先ID:予定ID」）
+const DEFAULT_CALENDAR_SOURCE_ID = 'default'
+const CALENDAR_SOURCE_TYPES = ['google', 'ics']
+const CALENDAR_SOURCE_COLUMNS = ['type', 'name', 'calendar_id', 'url', 'color', 'enabled', 'blocks_schedule', 'position'] as const
+const MAX_CALENDAR_SOURCE_NAME_LENGTH = 50
+const MAX_CALENDAR_SOURCE_URL_LENGTH = 2048
+// ICS の繰り返しの予定を展開する日数と、1つのICSから取り込む予定（展開後）の上限
+const ICS_EXPAND_DAYS = 90
+const MAX_ICS_EVENTS = 2000
+
+type CalendarEventRow = {
+  id: string;
+  source_id: string | null;
+  calendar_id: string | null;
+  summary: string;
+  description: string | null;
+  location: string | null;
+  html_link: string | null;
+  start_time: string;
+  end_time: string;
+  all_day: number;
+  status: string;
+  updated_at: string | null;
+  attendees: string | null; // 参加者のメールアドレス（JSON配列）
+  synced_at: string;
+  converted_to_task: number;
+  task_id?: string | null; // この予定から作った（削除されていない）タスク
+  source_name?: string | null;
+  source_color?: string | null;
+  blocks_schedule?: number | null;
+}
+
+// 同期で書き込む行
+type CalendarCacheRow = Omit<CalendarEventRow, 'converted_to_task' | 'task_id' | 'source_name' | 'source_color' | 'blocks_schedule'>
+
+type CalendarSource = {
+  id: string;
+  type: 'google' | 'ics';
+  name: string;
+  calendar_id: string | null;
+  url: string | null;
+  color: string;
+  enabled: boolean;
+  blocks_schedule: boolean; // 予定表の生成で時間をふさぐか
+  position: number;
+  created_at: string;
+  updated_at: string | null;
+  builtin: boolean; // 環境変数で決まる既定の連携先（削除・種類やIDの変更はできない）
+}
+
+type CalendarSyncState = {
+  source_id: string;
+  sync_token: string | null; // Google は同期トークン、ICS は ETag
+  last_attempt_at: string | null;
+  last_synced_at: string | null;
+  last_full_sync_at: string | null;
+  last_status: 'ok' | 'error' | null;
+  last_error: string | null;
+  updated_count: number;
+  cancelled_count: number;
+}
+
+type CalendarFailure = { ok: false; status: number; body: Record<string, unknown> }
+
+// 取得した変更分。full なら見つからなかった予定を取消し扱いにする
+// truncatedAfter: 件数の上限で打ち切った全件取得で、取り込んだ最後の予定の開始（これより後の予定は取消し扱いにしない）
+type CalendarChanges = { rows: CalendarCacheRow[]; cancelledIds: string[]; full: boolean; syncToken: string | null; truncatedAfter?: string }
+
+async function ensureCalendarSourcesTable(DB: D1Database) {
+  await DB.prepare(`
+    CREATE TABLE IF NOT EXISTS calendar_sources (
+      id TEXT PRIMARY KEY,
+      type TEXT NOT NULL CHECK(type IN ('google', 'ics')),
+      name TEXT NOT NULL,
+      calendar_id TEXT,
+      url TEXT,
+      color TEXT NOT NULL DEFAULT '#ef4444',
+      enabled INTEGER NOT NULL DEFAULT 1,
+      blocks_schedule INTEGER NOT NULL DEFAULT 1,
+      position INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT
+    )
+  `).run()
+}
+
+async function ensureCalendarSyncStateTable(DB: D1Database) {
+  await DB.prepare(`
+    CREATE TABLE IF NOT EXISTS calendar_sync_state (
+      source_id TEXT PRIMARY KEY,
+      sync_token TEXT,
+      last_attempt_at TEXT,
+      last_synced_at TEXT,
+      last_full_sync_at TEXT,
+      last_status TEXT CHECK(last_status IN ('ok', 'error')),
+      last_error TEXT,
+      updated_count INTEGER NOT NULL DEFAULT 0,
+      cancelled_count INTEGER NOT NULL DEFAULT 0
+    )
+  `).run()
+}
+
+function toCalendarSource(row: any): CalendarSource {
+  return { ...row, enabled: !!row.enabled, blocks_schedule: !!row.blocks_schedule, builtin: row.id === DEFAULT_CALENDAR_SOURCE_ID }
+}
+
+// 連携先を並び順で返す。GOOGLE_CALENDAR_ID があれば既定の連携先として登録し、ID が変わったら古いキャッシュを捨てる
+async function getCalendarSources(env: Bindings, enabledOnly = false): Promise<CalendarSource[]> {
+  const { DB, GOOGLE_CALENDAR_ID } = env
+  await ensureCalendarSourcesTable(DB)
+  if (GOOGLE_CALENDAR_ID) {
+    const current = await DB.prepare('SELECT calendar_id FROM calendar_sources WHERE id = ?')
+      .bind(DEFAULT_CALENDAR_SOURCE_ID).first<{ calendar_id: string | null }>()
+    if (!current) {
+      await DB.prepare(
+        `INSERT INTO calendar_sources (id, type, name, calendar_id, color, enabled, blocks_schedule, position, created_at)
+         VALUES (?, 'google', 'Googleカレンダー', ?, '#ef4444', 1, 1, 0, ?)`
+      ).bind(DEFAULT_CALENDAR_SOURCE_ID, GOOGLE_CALENDAR_ID, new Date().toISOString()).run()
+    } else if (current.calendar_id !== GOOGLE_CALENDAR_ID) {
+      await ensureCalendarSyncStateTable(DB)
+      await DB.batch([
+        DB.prepare('UPDATE calendar_sources SET calendar_id = ?, updated_at = ? WHERE id = ?')
+          .bind(GOOGLE_CALENDAR_ID, new Date().toISOString(), DEFAULT_CALENDAR_SOURCE_ID),
+        DB.prepare('DELETE FROM calendar_events WHERE source_id = ?').bind(DEFAULT_CALENDAR_SOURCE_ID),
+        DB.prepare('DELETE FROM calendar_sync_state WHERE source_id = ?').bind(DEFAULT_CALENDAR_SOURCE_ID)
+      ])
+    }
+  }
+  const { results } = await DB.prepare(
+    `SELECT * FROM calendar_sources ${enabledOnly ? 'WHERE enabled = 1' : ''} ORDER BY position ASC, created_at ASC`
+  ).all()
+  return (results as any[]).map(toCalendarSource).filter((source) => !source.builtin || !!GOOGLE_CALENDAR_ID)
+}
+
+// 作成時は全項目、更新時は既存の値に重ねた全項目を検証する（種類ごとの必須項目を見るため）
+function parseCalendarSourceBody(body: Record<string, any>) {
+  const fields: Record<(typeof CALENDAR_SOURCE_COLUMNS)[number], string | number | null> = {
+    type: 'google', name: null, calendar_id: null, url: null, color: '#ef4444', enabled: 1, blocks_schedule: 1, position: 0
+  }
+  const errors: FieldErrors = {}
+
+  if (checkEnumField(errors, 'type', body.type, CALENDAR_SOURCE_TYPES)) fields.type = body.type
+  const name = typeof body.name === 'string' ? body.name.trim() : ''
+  if (!name || name.length > MAX_CALENDAR_SOURCE_NAME_LENGTH) errors.name = `表示名は1〜${MAX_CALENDAR_SOURCE_NAME_LENGTH}文字で入力してください`
+  else fields.name = name
+
+  if (fields.type === 'google') {
+    const calendarId = typeof body.calendar_id === 'string' ? body.calendar_id.trim() : ''
+    if (!calendarId || calendarId.length > 1024) errors.calendar_id = 'カレンダーIDを1024文字以内で入力してください'
+    else fields.calendar_id = calendarId
+  } else {
+    const url = typeof body.url === 'string' ? body.url.trim() : ''
+    let parsedUrl: URL | null = null
+    try {
+      parsedUrl = new URL(url)
+    } catch {
+      parsedUrl = null
+    }
+    if (!parsedUrl || !['http:', 'https:', 'webcal:'].includes(parsedUrl.protocol) || url.length > MAX_CALENDAR_SOURCE_URL_LENGTH) {
+      errors.url = `http(s):// または webcal:// で始まるURLを${MAX_CALENDAR_SOURCE_URL_LENGTH}文字以内で入力してください`
+    } else {
+      fields.url = url
+    }
+  }
+
+  if (body.color !== undefined) {
+    if (!isValidTagColor(body.color)) errors.color = '色は#RRGGBB形式で指定してください'
+    else fields.color = body.color
+  }
+  for (const key of ['enabled', 'blocks_schedule'] as const) {
+    if (body[key] === undefined) continue
+    if (typeof body[key] !== 'boolean') errors[key] = 'true または false を指定してください'
+    else fields[key] = body[key] ? 1 : 0
+  }
+  if (body.position !== undefined) {
+    if (!Number.isInteger(body.position) || body.position < 0) errors.position = '並び順は0以上の整数で指定してください'
+    else fields.position = body.position
+  }
+  return { fields, errors }
+}
+
+async function getCalendarSyncState(DB: D1Database, sourceId: string) {
+  await ensureCalendarSyncStateTable(DB)
+  return DB.prepare('SELECT * FROM calendar_sync_state WHERE source_id = ?').bind(sourceId).first<CalendarSyncState>()
+}
+
+function getCalendarSyncIntervalMinutes(env: Bindings): number {
+  const minutes = Number(env.CALENDAR_SYNC_INTERVAL_MINUTES)
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_CALENDAR_SYNC_INTERVAL_MINUTES
+}
+
+// 一度も同期に成功していないか、最後の試行から同期間隔が過ぎていれば古いとみなす
+function isCalendarSyncStale(state: CalendarSyncState | null, intervalMinutes: number): boolean {
+  if (!state?.last_synced_at || !state.last_attempt_at) return true
+  return Date.now() - Date.parse(state.last_attempt_at) >= intervalMinutes * 60000
+}
+
+// キャッシュに保存する予定ID（既定の連携先は Google の ID のままにして、作成済みのタスクとのつながりを保つ）
+function calendarEventKey(source: CalendarSource, eventId: string): string {
+  return source.id === DEFAULT_CALENDAR_SOURCE_ID ? eventId : `${source.id}:${eventId}`
+}
+
+// Google Calendar API の読み取り用の認証（OAuth 設定時はアクセストークン、なければ公開カレンダー用の API キー）
+async function getCalendarReadAuth(
+  c: { env: Bindings; req: { url: string } },
+  calendarId: string
+): Promise<CalendarFailure | { ok: true; calendarId: string; headers: Record<string, string>; key: string | null }> {
+  const { GOOGLE_CALENDAR_API_KEY } = c.env
+
+  if (isOAuthConfigured(c.env)) {
+    const accessToken = await getGoogleAccessToken(c)
+    if (!accessToken) {
+      return {
+        ok: false,
+        status: 401,
+        body: {
+          error: 'Google OAuth not connected',
+          message: 'Connect Google Calendar with OAuth to access private calendars',
+          authUrl: '/api/calendar/oauth/start'
+        }
+      }
+    }
+    return { ok: true, calendarId, headers: { Authorization: `Bearer ${accessToken}` }, key: null }
+  }
+  if (GOOGLE_CALENDAR_API_KEY) {
+    return { ok: true, calendarId, headers: {}, key: GOOGLE_CALENDAR_API_KEY }
+  }
+  return {
+    ok: false,
+    status: 400,
+    body: {
+      error: 'Google Calendar API not configured',
+      message: 'Set OAuth credentials for private calendars or API key for public calendars'
+    }
+  }
+}
+
+// 変更のあった予定をすべてのページから集める（syncToken なしなら timeMin 以降の全件）
+async function fetchCalendarChanges(
+  auth: { calendarId: string; headers: Record<string, string>; key: string | null },
+  syncToken: string | null,
+  timeMin: string
+) {
+  const items: any[] = []
+  let pageToken: string | null = null
+  do {
+    const params = new URLSearchParams({ singleEvents: 'true', maxResults: '250' })
+    if (syncToken) params.set('syncToken', syncToken)
+    else params.set('timeMin', timeMin)
+    if (pageToken) params.set('pageToken', pageToken)
+    if (auth.key) params.set('key', auth.key)
+
+    const response = await fetch(
+      `https://www.googleapis.com/calendar/v3/calendars/${encodeURIComponent(auth.calendarId)}/events?${params}`,
+      { headers: auth.headers }
+    )
+    if (!response.ok) {
+      const details = await response.json().catch(() => ({ message: 'Unknown Google API error' }))
+      return { ok: false as const, status: response.status, details }
+    }
+    const data = await response.json() as any
+    items.push(...(data.items || []))
+    pageToken = data.nextPageToken || null
+    if (!pageToken) return { ok: true as const, items, nextSyncToken: (data.nextSyncToken as string) || null }
+  } while (pageToken)
+  return { ok: true as const, items, nextSyncToken: null }
+}
+
+// 時刻付きの予定は UTC の ISO 文字列、終日の予定は日付のまま保存する（終日の予定は利用者のタイムゾーンでの日付と比べて範囲検索する）
+function toCalendarEventRow(event: any, source: CalendarSource, syncedAt: string): CalendarCacheRow {
+  const allDay = !event.start?.dateTime
+  const start = allDay ? event.start.date : new Date(event.start.dateTime).toISOString()
+  const endRaw = event.end?.dateTime || event.end?.date
+  const end = allDay ? (event.end?.date || start) : new Date(endRaw || event.start.dateTime).toISOString()
+  return {
+    id: calendarEventKey(source, String(event.id)),
+    source_id: source.id,
+    calendar_id: source.calendar_id,
+    summary: event.summary || 'Untitled',
+    description: event.description ?? null,
+    location: event.location ?? null,
+    html_link: event.htmlLink ?? null,
+    start_time: start,
+    end_time: end,
+    all_day: allDay ? 1 : 0,
+    status: CALENDAR_EVENT_STATUSES.includes(event.status) ? event.status : 'confirmed',
+    updated_at: event.updated ?? null,
+    attendees: Array.isArray(event.attendees)
+      ? JSON.stringify(event.attendees.map((attendee: any) => attendee?.email).filter((email: unknown) => typeof email === 'string'))
+      : null,
+    synced_at: syncedAt
+  }
+}
+
+// キャッシュの行を Google API と同じ形で返す（画面の表示や一括タスク化はこの形を前提にしている）
+function toCalendarApiEvent(row: CalendarEventRow) {
+  const time = (value: string) => (row.all_day ? { date: value } : { dateTime: value })
+  let attendees: string[] = []
+  try {
+    attendees = row.attendees ? JSON.parse(row.attendees) : []
+  } catch {
+    attendees = []
+  }
+  return {
+    id: row.id,
+    source_id: row.source_id,
+    source_name: row.source_name ?? null,
+    color: row.source_color ?? null,
+    blocks_schedule: row.blocks_schedule === undefined || row.blocks_schedule === null ? null : !!row.blocks_schedule,
+    calendar_id: row.calendar_id,
+    summary: row.summary,
+    description: row.description,
+    location: row.location,
+    htmlLink: row.html_link,
+    status: row.status,
+    start: time(row.start_time),
+    end: time(row.end_time),
+    updated: row.updated_at,
+    attendees: attendees.map((email) => ({ email })),
+    synced_at: row.synced_at,
+    converted_to_task: !!row.converted_to_task,
+    task_id: row.task_id ?? null
+  }
+}
+
+// Google カレンダーの変更分を取得する（同期トークンがあれば差分、410 Gone ならトークン失効として全件取得からやり直す）
+async function fetchGoogleSourceChanges(
+  c: { env: Bindings; req: { url: string } },
+  source: CalendarSource,
+  state: CalendarSyncState | null,
+  full: boolean,
+  syncedAt: string,
+  windowStart: string
+): Promise<CalendarFailure | { ok: true; changes: CalendarChanges }> {
+  const auth = await getCalendarReadAuth(c, source.calendar_id || '')
+  if (!auth.ok) return auth
+
+  let syncToken = full ? null : state?.sync_token || null
+  let result = await fetchCalendarChanges(auth, syncToken, windowStart)
+  if (!result.ok && result.status === 410 && syncToken) {
+    syncToken = null
+    result = await fetchCalendarChanges(auth, null, windowStart)
+  }
+  if (!result.ok) {
+    return {
+      ok: false,
+      status: result.status,
+      body: { error: 'Failed to fetch calendar events', message: `Google API error (${result.status})`, details: result.details }
+    }
+  }
+
+  const changes: CalendarChanges = { rows: [], cancelledIds: [], full: !syncToken, syncToken: result.nextSyncToken }
+  for (const event of result.items) {
+    if (!event?.id) continue
+    // 取消しの通知には id しか入っていないことがある
+    if (event.status === 'cancelled' || !event.start) changes.cancelledIds.push(calendarEventKey(source, String(event.id)))
+    else changes.rows.push(toCalendarEventRow(event, source, syncedAt))
+  }
+  return { ok: true, changes }
+}
+
+// ICS は差分を取れないので毎回全件を読み直す。ETag が変わっていなければ何もしない
+// （繰り返しの展開範囲を進めるため、前回の全件取得から1日たっていれば ETag を使わない）
+async function fetchIcsSourceChanges(
+  source: CalendarSource,
+  state: CalendarSyncState | null,
+  full: boolean,
+  syncedAt: string,
+  windowStart: string,
+  timeZone: string
+): Promise<CalendarFailure | { ok: true; changes: CalendarChanges }> {
+  const recentlyFull = !!state?.last_full_sync_at && Date.now() - Date.parse(state.last_full_sync_at) < 86400000
+  const etag = !full && recentlyFull ? state?.sync_token || null : null
+  const response = await fetch((source.url || '').replace(/^webcal:/i, 'https:'), {
+    headers: { Accept: 'text/calendar', ...(etag ? { 'If-None-Match': etag } : {}) }
+  })
+  if (response.status === 304 && etag) {
+    return { ok: true, changes: { rows: [], cancelledIds: [], full: false, syncToken: etag } }
+  }
+  if (!response.ok) {
+    return { ok: false, status: 502, body: { error: 'Failed to fetch calendar events', message: `ICS fetch error (${response.status})` } }
+  }
+  const text = await response.text()
+  if (!/BEGIN:VCALENDAR/i.test(text)) {
+    return { ok: false, status: 502, body: { error: 'Failed to fetch calendar events', message: 'The URL did not return an iCalendar file' } }
+  }
+
+  // 上限を超える分は開始の遅いものから落とす（終日の予定の日付は UTC の 0:00 として並べる）
+  const windowEnd = new Date(Date.now() + ICS_EXPAND_DAYS * 86400000).toISOString()
+  const occurrences = expandIcsEvents(parseIcsEvents(text, timeZone), windowStart, windowEnd)
+    .sort((a, b) => Date.parse(a.start_time) - Date.parse(b.start_time))
+  const rows = occurrences
+    .slice(0, MAX_ICS_EVENTS)
+    .map((occurrence) => ({
+      ...occurrence,
+      id: calendarEventKey(source, occurrence.id),
+      source_id: source.id,
+      calendar_id: null,
+      synced_at: syncedAt
+    }))
+  const truncatedAfter = occurrences.length > MAX_ICS_EVENTS ? rows[rows.length - 1].start_time : undefined
+  return { ok: true, changes: { rows, cancelledIds: [], full: true, syncToken: response.headers.get('ETag'), truncatedAfter } }
+}
+
+// 連携先から変更分を取り込んで calendar_events を更新する。
+// 取消しになった予定は status = 'cancelled' として残し、全件取得で見つからなくなった予定も取消し扱いにする
+async function syncCalendarSource(
+  c: { env: Bindings; req: { url: string } },
+  source: CalendarSource,
+  full = false
+): Promise<CalendarFailure | { ok: true; state: CalendarSyncState }> {
+  const { DB } = c.env
+  const timeZone = getUserTimeZone(c.env)
+  const state = await getCalendarSyncState(DB, source.id)
+  const attemptAt = new Date().toISOString()
+  const windowStart = new Date(Date.now() - CALENDAR_SYNC_PAST_DAYS * 86400000).toISOString()
+
+  try {
+    const result = source.type === 'ics'
+      ? await fetchIcsSourceChanges(source, state, full, attemptAt, windowStart, timeZone)
+      : await fetchGoogleSourceChanges(c, source, state, full, attemptAt, windowStart)
+    if (!result.ok) {
+      await recordCalendarSyncError(DB, source.id, attemptAt, String(result.body.message || result.body.error))
+      return result
+    }
+    const { changes } = result
+
+    const statements: D1PreparedStatement[] = []
+    // 予定ID → 変更後の行（取消しは null）。予定から作ったタスクを追従させるのに使う
+    const eventUpdates = new Map<string, CalendarCacheRow | null>()
+    for (const id of changes.cancelledIds) {
+      statements.push(
+        DB.prepare("UPDATE calendar_events SET status = 'cancelled', synced_at = ? WHERE id = ?").bind(attemptAt, id)
+      )
+      eventUpdates.set(id, null)
+    }
+    for (const row of changes.rows) {
+      eventUpdates.set(row.id, row)
+      statements.push(
+        DB.prepare(
+          `INSERT INTO calendar_events (id, source_id, calendar_id, summary, description, location, html_link, start_time, end_time, all_day, status, updated_at, attendees, synced_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT(id) DO UPDATE SET source_id = excluded.source_id, calendar_id = excluded.calendar_id, summary = excluded.summary,
+             description = excluded.description, location = excluded.location, html_link = excluded.html_link, start_time = excluded.start_time,
+             end_time = excluded.end_time, all_day = excluded.all_day, status = excluded.status, updated_at = excluded.updated_at,
+             attendees = excluded.attendees, synced_at = excluded.synced_at`
+        ).bind(
+          row.id, row.source_id, row.calendar_id, row.summary, row.description, row.location, row.html_link,
+          row.start_time, row.end_time, row.all_day, row.status, row.updated_at, row.attendees, row.synced_at
+        )
+      )
+    }
+    if (changes.full) {
+      // 上限で打ち切った場合、取り込まなかった後ろの予定は残しておく
+      const truncated = changes.truncatedAfter ? ' AND start_time <= ?' : ''
+      const truncatedParams = changes.truncatedAfter ? [changes.truncatedAfter] : []
+      const { results: cached } = await DB.prepare(
+        `SELECT id FROM calendar_events WHERE source_id = ? AND status != 'cancelled' AND end_time >= ?${truncated}`
+      ).bind(source.id, windowStart, ...truncatedParams).all()
+      for (const { id } of cached as Array<{ id: string }>) {
+        if (!eventUpdates.has(id)) eventUpdates.set(id, null)
+      }
+      statements.push(
+        DB.prepare(
+          `UPDATE calendar_events SET status = 'cancelled', synced_at = ? WHERE source_id = ? AND status != 'cancelled' AND synced_at < ?${truncated}`
+        ).bind(attemptAt, source.id, attemptAt, ...truncatedParams)
+      )
+    }
+    statements.push(...await buildLinkedTaskStatements(DB, eventUpdates, attemptAt, timeZone))
+    statements.push(
+      DB.prepare('DELETE FROM calendar_events WHERE source_id = ? AND end_time < ?').bind(source.id, windowStart),
+      DB.prepare(
+        `INSERT INTO calendar_sync_state (source_id, sync_token, last_attempt_at, last_synced_at, last_full_sync_at, last_status, last_error, updated_count, cancelled_count)
+         VALUES (?, ?, ?, ?, ?, 'ok', NULL, ?, ?)
+         ON CONFLICT(source_id) DO UPDATE SET sync_token = excluded.sync_token, last_attempt_at = excluded.last_attempt_at,
+           last_synced_at = excluded.last_synced_at, last_full_sync_at = COALESCE(excluded.last_full_sync_at, calendar_sync_state.last_full_sync_at),
+           last_status = 'ok', last_error = NULL, updated_count = excluded.updated_count, cancelled_count = excluded.cancelled_count`
+      ).bind(
+        source.id, changes.syncToken, attemptAt, attemptAt, changes.full ? attemptAt : null, changes.rows.length, changes.cancelledIds.length
+      )
+    )
+    await DB.batch(statements)
+
+    return { ok: true, state: (await getCalendarSyncState(DB, source.id)) as CalendarSyncState }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    await recordCalendarSyncError(DB, source.id, attemptAt, message)
+    return { ok: false, status: 500, body: { error: 'Failed to sync calendar events', message } }
+  }
+}
+
+// 予定の開始日をタスクの期日にする（変換時と同じく、時刻付きの予定は利用者のタイムゾーンでの開始日）
+function calendarEventDueDate(row: { start_time: string }, timeZone: string): string | null {
+  return toZonedDateString(row.start_time, timeZone)
+}
+
+// 予定から作ったタスクを予定の変更に追従させる。移動した予定は未完了タスクの期日を動かし、
+// 取消しになった予定はタスクを消さずに source_event_status = 'cancelled' として画面で知らせる
+async function buildLinkedTaskStatements(
+  DB: D1Database,
+  eventUpdates: Map<string, { start_time: string } | null>,
+  now: string,
+  timeZone: string
+): Promise<D1PreparedStatement[]> {
+  if (eventUpdates.size === 0) return []
+  await ensureTaskEventsTable(DB)
+  const { results } = await DB.prepare(
+    "SELECT id, status, due_date, source_event_id, source_event_status FROM tasks WHERE source_event_id IS NOT NULL AND status != 'deleted'"
+  ).all()
+
+  const statements: D1PreparedStatement[] = []
+  for (const task of results as Array<Pick<Task, 'id' | 'status' | 'due_date' | 'source_event_id' | 'source_event_status'>>) {
+    if (!eventUpdates.has(task.source_event_id as string)) continue
+    const event = eventUpdates.get(task.source_event_id as string)
+    const eventStatus = event ? 'confirmed' : 'cancelled'
+    const dueDate = event && task.status === 'todo' ? calendarEventDueDate(event, timeZone) : task.due_date ?? null
+
+    const changes: TaskFieldChange[] = []
+    if (task.source_event_status !== eventStatus) {
+      changes.push({ field: 'source_event_status', old_value: task.source_event_status ?? null, new_value: eventStatus })
+    }
+    if ((task.due_date ?? null) !== dueDate) {
+      changes.push({ field: 'due_date', old_value: task.due_date ?? null, new_value: dueDate })
+    }
+    if (changes.length === 0) continue
+
+    statements.push(
+      DB.prepare(
+        'UPDATE tasks SET source_event_status = ?, due_date = ?, version = version + 1, updated_at = ? WHERE id = ?'
+      ).bind(eventStatus, dueDate, now, task.id),
+      ...buildTaskEventStatements(DB, task.id, 'update', changes, 'calendar_sync')
+    )
+  }
+  return statements
+}
+
+async function recordCalendarSyncError(DB: D1Database, sourceId: string, attemptAt: string, message: string) {
+  await DB.prepare(
+    `INSERT INTO calendar_sync_state (source_id, last_attempt_at, last_status, last_error) VALUES (?, ?, 'error', ?)
+     ON CONFLICT(source_id) DO UPDATE SET last_attempt_at = excluded.last_attempt_at, last_status = 'error', last_error = excluded.last_error`
+  ).bind(sourceId, attemptAt, message).run()
+}
+
+// 有効な連携先（blockingOnly なら予定表をふさぐものだけ）の予定をまとめてキャッシュから返す。
+// 古い連携先は先に同期し、同期に失敗しても一度でも成功していればキャッシュを使う。どの連携先からも取れなければエラー
+async function getCachedCalendarEvents(
+  c: { env: Bindings; req: { url: string } },
+  timeMin: string,
+  timeMax: string,
+  blockingOnly = false
+): Promise<CalendarFailure | { ok: true; events: CalendarEventRow[] }> {
+  const { DB } = c.env
+  const allSources = await getCalendarSources(c.env)
+  if (allSources.length === 0) {
+    return {
+      ok: false,
+      status: 400,
+      body: {
+        error: 'Calendar not configured',
+        message: 'Set GOOGLE_CALENDAR_ID in your environment variables or add a calendar source'
+      }
+    }
+  }
+
+  const intervalMinutes = getCalendarSyncIntervalMinutes(c.env)
+  const sourceIds: string[] = []
+  let failure: CalendarFailure | null = null
+  for (const source of allSources) {
+    if (!source.enabled || (blockingOnly && !source.blocks_schedule)) continue
+    const state = await getCalendarSyncState(DB, source.id)
+    if (isCalendarSyncStale(state, intervalMinutes)) {
+      const result = await syncCalendarSource(c, source)
+      if (!result.ok && !state?.last_synced_at) {
+        failure ||= result
+        continue
+      }
+    }
+    sourceIds.push(source.id)
+  }
+  if (sourceIds.length === 0) return failure || { ok: true, events: [] }
+
+  // 終日の予定（終了日は含まない）は、範囲の始まりと終わりの直前を利用者のタイムゾーンでの日付にして比べる
+  const timeZone = getUserTimeZone(c.env)
+  const dateMin = toZonedParts(new Date(timeMin), timeZone).date
+  const dateMax = toZonedParts(new Date(Date.parse(timeMax) - 1), timeZone).date
+  const { results } = await DB.prepare(
+    `SELECT e.*, s.name AS source_name, s.color AS source_color, s.blocks_schedule,
+       (SELECT t.id FROM tasks t WHERE t.source_event_id = e.id AND t.status != 'deleted' LIMIT 1) AS task_id
+     FROM calendar_events e JOIN calendar_sources s ON s.id = e.source_id
+     WHERE e.source_id IN (${sourceIds.map(() => '?').join(', ')}) AND e.status != 'cancelled'
+       AND CASE WHEN e.all_day = 1 THEN e.start_time <= ? AND e.end_time > ? ELSE e.start_time < ? AND e.end_time > ? END
+     ORDER BY e.start_time ASC`
+  ).bind(...sourceIds, dateMax, dateMin, timeMax, timeMin).all()
+  return { ok: true, events: results as CalendarEventRow[] }
+}
+
+// ========================================
+// Google Calendar Write Helper Functions
+// ========================================
+
+// 専用カレンダーの作成とその中の予定の読み書きだけを許可するスコープ（既存のカレンダーには書き込まない）
+const GOOGLE_CALENDAR_WRITE_SCOPE = 'https://www.googleapis.com/auth/calendar.app.created'
+const SCHEDULE_CALENDAR_SUMMARY = 'task_kanri 予定表'
+// カレンダーに書き込む枠（タスクと食事）
+const SCHEDULE_CALENDAR_SLOT_TYPES = ['lunch', 'dinner', ...TASK_CATEGORIES]
+
+function hasCalendarWriteScope(scope: string | null | undefined): boolean {
+  return !!scope && scope.split(' ').includes(GOOGLE_CALENDAR_WRITE_SCOPE)
+}
+
+async function googleCalendarRequest(accessToken: string, method: string, path: string, body?: unknown) {
+  const response = await fetch(`https://www.googleapis.com/calendar/v3${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      ...(body === undefined ? {} : { 'Content-Type': 'application/json' })
+    },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  })
+  const data = response.status === 204 ? null : await response.json().catch(() => null) as any
+  return { ok: response.ok, status: response.status, data }
+}
+
+async function ensureScheduleCalendarTables(DB: D1Database) {
+  await DB.prepare(`
+    CREATE TABLE IF NOT EXISTS schedule_calendar (
+      id INTEGER PRIMARY KEY CHECK(id = 1),
+      calendar_id TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    )
+  `).run()
+  await DB.prepare(`
+    CREATE TABLE IF NOT EXISTS schedule_calendar_writes (
+      date TEXT PRIMARY KEY,
+      calendar_id TEXT NOT NULL,
+      event_count INTEGER NOT NULL DEFAULT 0,
+      written_at TEXT NOT NULL
+    )
+  `).run()
+}
+
+// 書き込み先の専用カレンダーを返す（未作成またはGoogle側で削除されていれば、利用者のタイムゾーンで作り直す）
+async function getScheduleCalendarId(DB: D1Database, accessToken: string, create: boolean, timeZone: string): Promise<string | null> {
+  await ensureScheduleCalendarTables(DB)
+  const stored = await DB.prepare('SELECT calendar_id FROM schedule_calendar WHERE id = 1').first<{ calendar_id: string }>()
+  if (stored) {
+    const check = await googleCalendarRequest(accessToken, 'GET', `/calendars/${encodeURIComponent(stored.calendar_id)}`)
+    if (check.ok) return stored.calendar_id
+    if (check.status !== 404) throw new Error(`Google Calendar API error (${check.status})`)
+  }
+  if (!create) return null
+
+  const created = await googleCalendarRequest(accessToken, 'POST', '/calendars', {
+    summary: SCHEDULE_CALENDAR_SUMMARY,
+    description: 'task_kanri が生成した予定表（再生成すると置き換わります）',
+    timeZone
+  })
+  if (!created.ok || !created.data?.id) throw new Error(`Failed to create calendar (${created.status})`)
+  await DB.prepare(
+    `INSERT INTO schedule_calendar (id, calendar_id, created_at) VALUES (1, ?, ?)
+     ON CONFLICT(id) DO UPDATE SET calendar_id = excluded.calendar_id, created_at = excluded.created_at`
+  ).bind(created.data.id, new Date().toISOString()).run()
+  return created.data.id as string
+}
+
+// このアプリが書き込んだ予定（拡張プロパティで印を付けたもの）だけを取得する
+async function listScheduleCalendarEvents(accessToken: string, calendarId: string, date?: string) {
+  const property = date ? `task_kanri_date=${date}` : 'task_kanri=schedule'
+  const items: any[] = []
+  let pageToken = ''
+  do {
+    const result = await googleCalendarRequest(
+      accessToken,
+      'GET',
+      `/calendars/${encodeURIComponent(calendarId)}/events?privateExtendedProperty=${encodeURIComponent(property)}&maxResults=250${pageToken ? `&pageToken=${encodeURIComponent(pageToken)}` : ''}`
+    )
+    if (!result.ok) throw new Error(`Failed to list events (${result.status})`)
+    items.push(...(result.data?.items || []))
+    pageToken = result.data?.nextPageToken || ''
+  } while (pageToken)
+  return items
+}
+
+// 枠をGoogleカレンダーの予定に変換（キーはタスクID／食事の種類。同じ日に作り直しても同じ予定を更新できる）。
+// 枠の時刻は生成時のタイムゾーンの壁時計なので、そのタイムゾーン名を付けて送る
+function buildScheduleCalendarEvents(date: string, slots: TimeSlot[], timeZone: string) {
+  const used = new Map<string, number>()
+  const toDateTime = (time: string) => (time === '24:00' ? `${addDays(date, 1)}T00:00:00` : `${date}T${time}:00`)
+  return slots
+    .filter((slot) => SCHEDULE_CALENDAR_SLOT_TYPES.includes(slot.type))
+    .map((slot) => {
+      const base = slot.task_id ? `task-${slot.task_id}` : slot.type
+      const count = (used.get(base) || 0) + 1
+      used.set(base, count)
+      const key = count > 1 ? `${base}-${count}` : base
+      return {
+        key,
+        body: {
+          summary: slot.title,
+          description: 'task_kanri で生成した予定表（再生成すると置き換わります）',
+          start: { dateTime: toDateTime(slot.start), timeZone },
+          end: { dateTime: toDateTime(slot.end), timeZone },
+          extendedProperties: { private: { task_kanri: 'schedule', task_kanri_date: date, task_kanri_key: key } }
+        }
+      }
+    })
+}
+
+function extractJsonArray(text: string): any[] {
+  const trimmed = text.trim()
+  try {
+    const parsed = JSON.parse(trimmed)
+    if (Array.isArray(parsed)) return parsed
+  } catch {}
+
+  const start = trimmed.indexOf('[')
+  const end = trimmed.lastIndexOf(']')
+  if (start >= 0 && end > start) {
+    const snippet = trimmed.slice(start, end + 1)
+    try {
+      const parsed = JSON.parse(snippet)
+      if (Array.isArray(parsed)) return parsed
+    } catch {}
+  }
+  return []
+}
+
+async function callOpenAIDecompose(env: Bindings, prompt: string) {
+  if (!env.OPENAI_API_KEY) return null
+  const model = env.OPENAI_MODEL || 'gpt-4.1-mini'
+  const response = await fetch('https://api.openai.com/v1/chat/completions', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${env.OPENAI_API_KEY}`
+    },
+    body: JSON.stringify({
+      model,
+      temperature: 0.2,
+      messages: [
+        {
+          role: 'system',
+          content:
+            'You are a task decomposition assistant. Return ONLY JSON array. Each item: {"title":string,"minutes":number}.'
+        },
+        { role: 'user', content: prompt }
+      ]
+    })
+  })
+
+  if (!response.ok) {
+    const detail = await response.text()
+    throw new Error(`OpenAI API error: ${response.status} ${detail}`)
+  }
+  const data = await response.json() as any
+  const text = data?.choices?.[0]?.message?.content || '[]'
+  return extractJsonArray(text)
+}
+
+async function callGeminiDecompose(env: Bindings, prompt: string) {
+  if (!env.GEMINI_API_KEY) return null
+  const model = env.GEMINI_MODEL || 'gemini-1.5-flash'
+  const url = `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(model)}:generateContent?key=${encodeURIComponent(env.GEMINI_API_KEY)}`
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      generationConfig: { temperature: 0.2 },
+      contents: [{ role: 'user', parts: [{ text: prompt }] }],
+      systemInstruction: {
+        parts: [
+          {
+            text:
+              'Return ONLY JSON array. Each item: {"title":string,"minutes":number}.'
+          }
+        ]
+      }
+    })
+  })
+
+  if (!response.ok) {
+    const detail = await response.text()
+    throw new Error(`Gemini API error: ${response.status} ${detail}`)
+  }
+  const data = await response.json() as any
+  const text = data?.candidates?.[0]?.content?.parts?.[0]?.text || '[]'
+  return extractJsonArray(text)
+}
+
+function normalizeSubtasks(raw: any[], totalMinutes: number): Array<{ title: string; minutes: number }> {
+  const cleaned = raw
+    .map((x) => ({
+      title: typeof x?.title === 'string' ? x.title.trim() : '',
+      minutes: Number(x?.minutes)
+    }))
+    .filter((x) => x.title.length > 0 && Number.isFinite(x.minutes) && x.minutes > 0)
+    .slice(0, 12)
+
+  if (cleaned.length === 0) return []
+
+  const minPerStep = 10
+  const normalized = cleaned.map((x) => ({ ...x, minutes: Math.max(minPerStep, Math.round(x.minutes)) }))
+  const sum = normalized.reduce((acc, x) => acc + x.minutes, 0)
+  const target = Math.max(totalMinutes || 30, minPerStep * normalized.length)
+  const scale = sum > 0 ? target / sum : 1
+
+  return normalized.map((x) => ({
+    title: x.title,
+    minutes: Math.max(minPerStep, Math.round(x.minutes * scale))
+  }))
+}
+
+type TaskListFilters = {
+  q: string;
+  status: string;
+  category: string;
+  priority: string;
+  due: string;
+  sort: string;
+  tag: string[];
+  tag_mode: string;
+}
+
+type TaskSortKey = { expr: string; dir: 'ASC' | 'DESC' }
+
+// 並び順ごとの比較キー（末尾の id で順序が一意になり、カーソルが安定する。NULL は比較できないので COALESCE する）
+const TASK_LIST_SORT_KEYS: Record<string, TaskSortKey[]> = {
+  due_asc: [
+    { expr: 'CASE WHEN due_date IS NULL THEN 1 ELSE 0 END', dir: 'ASC' },
+    { expr: "COALESCE(due_date, '')", dir: 'ASC' },
+    { expr: 'created_at', dir: 'DESC' },
+    { expr: 'tasks.id', dir: 'ASC' }
+  ],
+  due_desc: [
+    { expr: 'CASE WHEN due_date IS NULL THEN 1 ELSE 0 END', dir: 'ASC' },
+    { expr: "COALESCE(due_date, '')", dir: 'DESC' },
+    { expr: 'created_at', dir: 'DESC' },
+    { expr: 'tasks.id', dir: 'ASC' }
+  ],
+  priority: [
+    { expr: "CASE priority WHEN 'high' THEN 3 WHEN 'medium' THEN 2 WHEN 'low' THEN 1 ELSE 0 END", dir: 'DESC' },
+    { expr: "COALESCE(due_date, '')", dir: 'ASC' },
+    { expr: 'created_at', dir: 'DESC' },
+    { expr: 'tasks.id', dir: 'ASC' }
+  ],
+  created_desc: [
+    { expr: 'created_at', dir: 'DESC' },
+    { expr: 'tasks.id', dir: 'ASC' }
+  ],
+  created_asc: [
+    { expr: 'created_at', dir: 'ASC' },
+    { expr: 'tasks.id', dir: 'ASC' }
+  ],
+  // ボードで並べ替えた順（位置未設定のタスクは末尾に作成順）
+  manual: [
+    { expr: 'CASE WHEN position IS NULL THEN 1 ELSE 0 END', dir: 'ASC' },
+    { expr: 'COALESCE(position, 0)', dir: 'ASC' },
+    { expr: 'created_at', dir: 'ASC' },
+    { expr: 'tasks.id', dir: 'ASC' }
+  ]
+}
+
+// fields= で指定できる項目（blocked_by_count / tracked_minutes / tags / search_match は計算項目）
+const TASK_LIST_FIELDS = [
+  'id', 'title', 'category', 'minutes', 'status', 'created_at', 'due_date', 'priority',
+  'recurrence_rule', 'recurrence_parent_id', 'goal_id', 'deleted_at', 'status_before_delete',
+  'version', 'updated_at', 'notes', 'position', 'source_event_id', 'source_event_status',
+  'blocked_by_count', 'tracked_minutes', 'tags', 'search_match'
+]
+const DEFAULT_TASK_PAGE_SIZE = 50
+const MAX_TASK_PAGE_SIZE = 200
+
+// クエリパラメータ（または保存済みビュー）からタスク一覧の絞り込み条件を読み取る
+function readTaskListFilters(raw: Record<string, unknown>, errors: FieldErrors): TaskListFilters {
+  const text = (key: string) => (typeof raw[key] === 'string' ? (raw[key] as string).trim() : '')
+  const q = text('q')
+  const filters: TaskListFilters = {
+    q,
+    status: text('status') || 'all',
+    category: text('category') || 'all',
+    priority: text('priority') || 'all',
+    due: text('due') || 'all',
+    sort: text('sort') || (q ? 'relevance' : 'due_asc'),
+    tag: normalizeTagNames(Array.isArray(raw.tag) ? raw.tag : text('tag')),
+    tag_mode: text('tag_mode') || 'or'
+  }
+
+  if (q.length > MAX_TITLE_LENGTH) errors.q = `検索語は${MAX_TITLE_LENGTH}文字以内で入力してください`
+  checkEnumField(errors, 'status', filters.status, ['all', 'todo', 'done'])
+  checkEnumField(errors, 'category', filters.category, ['all', ...TASK_CATEGORIES])
+  checkEnumField(errors, 'priority', filters.priority, ['all', ...TASK_PRIORITIES])
+  checkEnumField(errors, 'due', filters.due, ['all', 'overdue', 'today', 'three_days', 'week', 'none'])
+  checkEnumField(errors, 'sort', filters.sort, [...Object.keys(TASK_LIST_SORT_KEYS), 'relevance'])
+  checkEnumField(errors, 'tag_mode', filters.tag_mode, ['and', 'or'])
+  return filters
+}
+
+// 絞り込み条件を WHERE 句に変換する（一覧と保存済みビューの件数集計で共通）。期日の絞り込みは today（利用者のタイムゾーンでの今日）が基準
+async function buildTaskListConditions(DB: D1Database, filters: TaskListFilters, today: string) {
+  const clauses: string[] = ['status != ?']
+  const values: (string | number)[] = ['deleted']
+
+  // q はタスク名・メモ・サブタスク名を全文検索する
+  const searchTerms = splitSearchTerms(filters.q)
+  if (searchTerms.length > 0) {
+    await ensureTaskSearchIndex(DB)
+    const condition = buildSearchCondition(searchTerms)
+    clauses.push(`tasks.id IN (SELECT task_id FROM task_search WHERE ${condition.sql})`)
+    values.push(...condition.values)
+  }
+
+  if (filters.status === 'todo' || filters.status === 'done') {
+    clauses.push('status = ?')
+    values.push(filters.status)
+  }
+
+  if (TASK_CATEGORIES.includes(filters.category)) {
+    clauses.push('category = ?')
+    values.push(filters.category)
+  }
+
+  if (TASK_PRIORITIES.includes(filters.priority)) {
+    clauses.push('priority = ?')
+    values.push(filters.priority)
+  }
+
+  if (filters.due === 'overdue') {
+    clauses.push('due_date IS NOT NULL AND due_date < ?')
+    values.push(today)
+  } else if (filters.due === 'today') {
+    clauses.push('due_date = ?')
+    values.push(today)
+  } else if (filters.due === 'three_days') {
+    clauses.push('due_date IS NOT NULL AND due_date BETWEEN ? AND date(?, \'+3 day\')')
+    values.push(today, today)
+  } else if (filters.due === 'week') {
+    clauses.push('due_date IS NOT NULL AND due_date BETWEEN ? AND date(?, \'+7 day\')')
+    values.push(today, today)
+  } else if (filters.due === 'none') {
+    clauses.push('due_date IS NULL')
+  }
+
+  // tag=A社,採用（tag_mode=and で全タグ一致、既定は いずれか一致）
+  if (filters.tag.length > 0) {
+    await ensureTagsTables(DB)
+    const placeholders = filters.tag.map(() => '?').join(', ')
+    const having = filters.tag_mode === 'and' ? ' GROUP BY tt.task_id HAVING COUNT(DISTINCT g.id) = ?' : ''
+    clauses.push(
+      `tasks.id IN (SELECT tt.task_id FROM task_tags tt JOIN tags g ON g.id = tt.tag_id WHERE g.name IN (${placeholders})${having})`
+    )
+    values.push(...filters.tag)
+    if (filters.tag_mode === 'and') values.push(filters.tag.length)
+  }
+
+  return { clauses, values }
+}
+
+// カーソルは並び順と最後の行のキー値（関連度順は件数オフセット）を base64url にしたもの
+function encodeTaskCursor(sort: string, values: unknown[]): string {
+  const bytes = new TextEncoder().encode(JSON.stringify({ s: sort, v: values }))
+  let binary = ''
+  bytes.forEach((byte) => { binary += String.fromCharCode(byte) })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function decodeTaskCursor(cursor: string, sort: string): unknown[] | null {
+  try {
+    const binary = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'))
+    const bytes = Uint8Array.from(binary, (ch) => ch.charCodeAt(0))
+    const parsed = JSON.parse(new TextDecoder().decode(bytes))
+    const expectedLength = sort === 'relevance' ? 1 : TASK_LIST_SORT_KEYS[sort].length
+    if (parsed?.s !== sort || !Array.isArray(parsed.v) || parsed.v.length !== expectedLength) return null
+    return parsed.v
+  } catch {
+    return null
+  }
+}
+
+// (k1, k2, ...) が前ページ最後の行より後ろに来る条件（キーごとに昇順・降順が異なるため展開して書く）
+function buildCursorCondition(keys: TaskSortKey[], values: unknown[]) {
+  const ors: string[] = []
+  const params: unknown[] = []
+  keys.forEach((key, i) => {
+    const ands = keys.slice(0, i).map((prev) => `${prev.expr} = ?`)
+    ands.push(`${key.expr} ${key.dir === 'ASC' ? '>' : '<'} ?`)
+    ors.push(`(${ands.join(' AND ')})`)
+    params.push(...values.slice(0, i), values[i])
+  })
+  return { sql: `(${ors.join(' OR ')})`, values: params }
+}
+
+// API Routes
+
+// Get tasks with filters/search/sort (view=<id> applies a saved view, limit/cursor paginate)
+app.get('/api/tasks', async (c) => {
+  const { DB } = c.env
+  const raw: Record<string, unknown> = { ...c.req.query() }
+  if (c.req.queries('tag')) raw.tag = c.req.queries('tag')!.join(',')
+
+  const viewId = c.req.query('view')
+  let base: Record<string, unknown> = {}
+  if (viewId) {
+    const view = await getSavedView(DB, viewId)
+    if (!view) {
+      return c.json({ error: 'View not found' }, 404)
+    }
+    base = view.filters
+  }
+
+  // 明示したクエリパラメータは保存済みビューの条件より優先する
+  const errors: FieldErrors = {}
+  const filters = readTaskListFilters({ ...base, ...raw }, errors)
+
+  // limit か cursor を指定するとページ単位で返す（未指定なら従来どおり全件の配列）
+  const limitRaw = c.req.query('limit')
+  const cursor = c.req.query('cursor')
+  const paginated = limitRaw !== undefined || cursor !== undefined
+  const limit = limitRaw === undefined ? DEFAULT_TASK_PAGE_SIZE : Number(limitRaw)
+  if (paginated && (!Number.isInteger(limit) || limit < 1 || limit > MAX_TASK_PAGE_SIZE)) {
+    errors.limit = `limit は1〜${MAX_TASK_PAGE_SIZE}の整数で指定してください`
+  }
+  const fieldsRaw = c.req.query('fields')
+  const fields = fieldsRaw
+    ? Array.from(new Set(['id', ...fieldsRaw.split(',').map((field) => field.trim()).filter(Boolean)]))
+    : null
+  const unknownFields = (fields || []).filter((field) => !TASK_LIST_FIELDS.includes(field))
+  if (unknownFields.length > 0) {
+    errors.fields = `指定できない項目です: ${unknownFields.join(', ')}`
+  }
+  const cursorValues = cursor && !errors.sort ? decodeTaskCursor(cursor, filters.sort) : null
+  if (cursor && !cursorValues) {
+    errors.cursor = 'カーソルが不正です。並び順を変えた場合は最初のページから取得してください'
+  }
+  if (hasErrors(errors)) return validationError(c, errors)
+
+  const want = (field: string) => !fields || fields.includes(field)
+  const relevance = filters.sort === 'relevance'
+  const sortKeys = TASK_LIST_SORT_KEYS[relevance ? 'due_asc' : filters.sort]
+  const { clauses, values } = await buildTaskListConditions(DB, filters, todayInTimeZone(getUserTimeZone(c.env)))
+
+  const columns = fields
+    ? fields.filter((field) => !['blocked_by_count', 'tracked_minutes', 'tags', 'search_match'].includes(field)).map((field) => `tasks.${field}`)
+    : ['tasks.*']
+  if (want('blocked_by_count')) {
+    await ensureTaskDependenciesTable(DB)
+    columns.push(
+      "(SELECT COUNT(*) FROM task_dependencies d JOIN tasks p ON p.id = d.depends_on_id WHERE d.task_id = tasks.id AND p.status = 'todo') AS blocked_by_count"
+    )
+  }
+  if (want('tracked_minutes')) {
+    await ensureTimeEntriesTable(DB)
+    columns.push(
+      '(SELECT CAST(ROUND(COALESCE(SUM(e.duration_seconds), 0) / 60.0) AS INTEGER) FROM time_entries e WHERE e.task_id = tasks.id AND e.ended_at IS NOT NULL) AS tracked_minutes'
+    )
+  }
+  sortKeys.forEach((key, i) => columns.push(`${key.expr} AS _sort_${i}`))
+
+  // 関連度順は検索索引の順位を結合して並べ、同順位は期日順にする（ページは件数オフセット）
+  const searchTerms = splitSearchTerms(filters.q)
+  let from = 'tasks'
+  const pageValues: unknown[] = []
+  const orderBy = sortKeys.map((key) => `${key.expr} ${key.dir}`)
+  if (relevance && searchTerms.length > 0) {
+    const rank = buildSearchRankQuery(searchTerms)
+    from = `tasks LEFT JOIN (${rank.sql}) search_rank ON search_rank.task_id = tasks.id`
+    pageValues.push(...rank.values)
+    orderBy.unshift('COALESCE(search_rank.rank, 0) ASC')
+  }
+  const pageClauses = [...clauses]
+  pageValues.push(...values)
+  if (cursorValues && !relevance) {
+    const condition = buildCursorCondition(sortKeys, cursorValues)
+    pageClauses.push(condition.sql)
+    pageValues.push(...condition.values)
+  }
+  const offset = relevance && cursorValues ? Number(cursorValues[0]) || 0 : 0
+  let sql = `SELECT ${columns.join(', ')} FROM ${from} WHERE ${pageClauses.join(' AND ')} ORDER BY ${orderBy.join(', ')}`
+  if (paginated) {
+    sql += relevance ? ' LIMIT ? OFFSET ?' : ' LIMIT ?'
+    pageValues.push(limit + 1, ...(relevance ? [offset] : []))
+  }
+  const { results } = await DB.prepare(sql).bind(...pageValues).all()
+  let rows = results as Array<Record<string, any> & { id: string }>
+
+  const searchHits = searchTerms.length > 0 && want('search_match')
+    ? await searchTaskIndex(DB, searchTerms)
+    : null
+
+  const hasMore = paginated && rows.length > limit
+  if (hasMore) rows = rows.slice(0, limit)
+  const last = rows[rows.length - 1]
+  const nextCursor = hasMore
+    ? encodeTaskCursor(filters.sort, relevance ? [offset + limit] : sortKeys.map((_, i) => last[`_sort_${i}`]))
+    : null
+  rows.forEach((row) => sortKeys.forEach((_, i) => { delete row[`_sort_${i}`] }))
+
+  let tasks: Array<Record<string, any>> = want('tags') ? await attachTags(DB, rows) : rows
+  if (searchHits && want('search_match')) {
+    tasks = tasks.map((task) => ({ ...task, search_match: searchHits.get(task.id) || null }))
+  }
+
+  let total = tasks.length
+  if (paginated) {
+    const { results: countRows } = await DB.prepare(
+      `SELECT COUNT(*) AS total FROM tasks WHERE ${clauses.join(' AND ')}`
+    ).bind(...values).all()
+    total = Number(countRows[0]?.total) || 0
+    return c.json({ tasks, total, next_cursor: nextCursor, has_more: hasMore })
+  }
+
+  c.header('X-Total-Count', String(total))
+  return c.json(tasks)
+})
+
+// Task statistics
+app.get('/api/tasks/stats', async (c) => {
+  const { DB } = c.env
+  // 期限切れと「今日」の集計は利用者のタイムゾーンの日付が基準（記録の開始日時は UTC なので今日の 0:00 を UTC にして比べる）
+  const timeZone = getUserTimeZone(c.env)
+  const today = todayInTimeZone(timeZone)
+  const todayStart = parseTime('00:00', today, timeZone).toISOString()
+
+  const { results } = await DB.prepare(
+    'SELECT category, status, due_date FROM tasks WHERE status != ?'
+  ).bind('deleted').all()
+
+  const tasks = results as Array<{ category: string; status: string; due_date?: string | null }>
+  const total = tasks.length
+  const done = tasks.filter((t) => t.status === 'done').length
+  const todo = tasks.filter((t) => t.status === 'todo').length
+  const overdue = tasks.filter((t) => t.status === 'todo' && t.due_date && t.due_date < today).length
+  const completionRate = total > 0 ? Math.round((done / total) * 100) : 0
+
+  const byCategory = {
+    future: tasks.filter((t) => t.category === 'future').length,
+    now: tasks.filter((t) => t.category === 'now').length,
+    maintain: tasks.filter((t) => t.category === 'maintain').length,
+    chore: tasks.filter((t) => t.category === 'chore').length
+  }
+
+  // 実績時間（計測中のタイマーは含めない）をカテゴリ別に集計
+  await ensureTimeEntriesTable(DB)
+  const { results: timeRows } = await DB.prepare(
+    `SELECT t.category,
+       COALESCE(SUM(e.duration_seconds), 0) AS seconds,
+       COALESCE(SUM(CASE WHEN e.started_at >= ? THEN e.duration_seconds ELSE 0 END), 0) AS today_seconds
+     FROM time_entries e JOIN tasks t ON t.id = e.task_id
+     WHERE e.ended_at IS NOT NULL AND t.status != 'deleted'
+     GROUP BY t.category`
+  ).bind(todayStart).all()
+  const trackedByCategory: Record<string, number> = { future: 0, now: 0, maintain: 0, chore: 0 }
+  let trackedSeconds = 0
+  let trackedTodaySeconds = 0
+  for (const row of timeRows as Array<{ category: string; seconds: number; today_seconds: number }>) {
+    trackedByCategory[row.category] = Math.round(Number(row.seconds) / 60)
+    trackedSeconds += Number(row.seconds)
+    trackedTodaySeconds += Number(row.today_seconds)
+  }
+
+  // 完了タスクの見積もりに対する実績の割合（実績のあるタスクのみ）
+  const { results: accuracyRows } = await DB.prepare(
+    `SELECT COALESCE(SUM(t.minutes), 0) AS estimated, COALESCE(SUM(x.seconds), 0) AS actual
+     FROM tasks t
+     JOIN (SELECT task_id, SUM(duration_seconds) AS seconds FROM time_entries WHERE ended_at IS NOT NULL GROUP BY task_id) x ON x.task_id = t.id
+     WHERE t.status = 'done'`
+  ).all()
+  const estimated = Number(accuracyRows[0]?.estimated) || 0
+  const actual = Number(accuracyRows[0]?.actual) || 0
+
+  // 集中モードで完了したセッション数（カテゴリ未設定の枠は other）
+  await ensureFocusSessionsTable(DB)
+  const { results: focusRows } = await DB.prepare(
+    `SELECT COALESCE(category, 'other') AS category, COUNT(*) AS sessions,
+       SUM(CASE WHEN started_at >= ? THEN 1 ELSE 0 END) AS today_sessions
+     FROM focus_sessions WHERE status = 'completed'
+     GROUP BY COALESCE(category, 'other')`
+  ).bind(todayStart).all()
+  const focusByCategory: Record<string, number> = { future: 0, now: 0, maintain: 0, chore: 0, other: 0 }
+  let focusTodaySessions = 0
+  for (const row of focusRows as Array<{ category: string; sessions: number; today_sessions: number }>) {
+    focusByCategory[row.category] = Number(row.sessions)
+    focusTodaySessions += Number(row.today_sessions)
+  }
+
+  return c.json({
+    total,
+    todo,
+    done,
+    overdue,
+    completionRate,
+    byCategory,
+    trackedMinutes: Math.round(trackedSeconds / 60),
+    trackedTodayMinutes: Math.round(trackedTodaySeconds / 60),
+    trackedByCategory,
+    actualToEstimateRate: estimated > 0 && actual > 0 ? Math.round((actual / 60 / estimated) * 100) : null,
+    focusTodaySessions,
+    focusByCategory
+  })
+})
+
+async function ensureSubtasksTable(DB: D1Database) {
+  await DB.prepare(`
+    CREATE TABLE IF NOT EXISTS subtasks (
+      id TEXT PRIMARY KEY,
+      task_id TEXT NOT NULL,
+      title TEXT NOT NULL,
+      minutes INTEGER NOT NULL DEFAULT 15,
+      order_index INTEGER NOT NULL DEFAULT 0,
+      status TEXT NOT NULL DEFAULT 'todo' CHECK(status IN ('todo', 'done')),
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      version INTEGER NOT NULL DEFAULT 1,
+      updated_at TEXT
+    )
+  `).run()
+}
+
+// Get subtasks by task
+app.get('/api/tasks/:id/subtasks', async (c) => {
+  const { DB } = c.env
+  const taskId = c.req.param('id')
+  await ensureSubtasksTable(DB)
+
+  const { results } = await DB.prepare(
+    'SELECT * FROM subtasks WHERE task_id = ? ORDER BY order_index ASC, created_at ASC'
+  ).bind(taskId).all()
+
+  return c.json(results)
+})
+
+// Toggle subtask done/todo
+app.post('/api/subtasks/:id/toggle', async (c) => {
+  const { DB } = c.env
+  const subtaskId = c.req.param('id')
+  await ensureSubtasksTable(DB)
+
+  const { results } = await DB.prepare(
+    'SELECT status, version FROM subtasks WHERE id = ?'
+  ).bind(subtaskId).all()
+
+  if (results.length === 0) {
+    return c.json({ error: 'Subtask not found' }, 404)
+  }
+
+  const current = results[0].status as string
+  const next = current === 'done' ? 'todo' : 'done'
+  await DB.prepare(
+    'UPDATE subtasks SET status = ?, version = version + 1, updated_at = ? WHERE id = ?'
+  ).bind(next, new Date().toISOString(), subtaskId).run()
+
+  c.header('ETag', versionEtag(Number(results[0].version) + 1))
+  return c.json({ status: next })
+})
+
+// Get single subtask (ETag = version)
+app.get('/api/subtasks/:id', async (c) => {
+  const { DB } = c.env
+  const subtaskId = c.req.param('id')
+  await ensureSubtasksTable(DB)
+
+  const { results } = await DB.prepare('SELECT * FROM subtasks WHERE id = ?').bind(subtaskId).all()
+  if (results.length === 0) {
+    return c.json({ error: 'Subtask not found' }, 404)
+  }
+
+  const etag = versionEtag(results[0].version)
+  if (c.req.header('If-None-Match') === etag) {
+    return c.body(null, 304, { ETag: etag })
+  }
+  c.header('ETag', etag)
+  return c.json(results[0])
+})
+
+// Update subtask (If-Match で競合を検出)
+app.put('/api/subtasks/:id', async (c) => {
+  const { DB } = c.env
+  const subtaskId = c.req.param('id')
+  const body = await readJsonObject(c)
+  if (!body) return invalidBodyError(c)
+
+  const errors: FieldErrors = {}
+  const updates: string[] = []
+  const values: any[] = []
+  if (body.title !== undefined) {
+    const title = typeof body.title === 'string' ? body.title.trim() : ''
+    if (!title || title.length > MAX_TITLE_LENGTH) {
+      errors.title = `サブタスク名は1〜${MAX_TITLE_LENGTH}文字で入力してください`
+    } else {
+      updates.push('title = ?')
+      values.push(title)
+    }
+  }
+  if (body.minutes !== undefined) {
+    if (!Number.isInteger(body.minutes) || body.minutes < 1 || body.minutes > MAX_TASK_MINUTES) {
+      errors.minutes = `時間は1〜${MAX_TASK_MINUTES}分の整数で入力してください`
+    } else {
+      updates.push('minutes = ?')
+      values.push(body.minutes)
+    }
+  }
+  if (body.status !== undefined && checkEnumField(errors, 'status', body.status, ['todo', 'done'])) {
+    updates.push('status = ?')
+    values.push(body.status)
+  }
+  if (body.order_index !== undefined) {
+    if (!Number.isInteger(body.order_index) || body.order_index < 0) {
+      errors.order_index = '並び順は0以上の整数で指定してください'
+    } else {
+      updates.push('order_index = ?')
+      values.push(body.order_index)
+    }
+  }
+  const expected = parseIfMatch(c.req.header('If-Match'))
+  if (expected && expected.length === 0) errors.if_match = 'If-Match ヘッダーが不正です'
+  if (!hasErrors(errors) && updates.length === 0) errors.body = '更新する項目がありません'
+  if (hasErrors(errors)) return validationError(c, errors)
+
+  await ensureSubtasksTable(DB)
+  const { results: beforeRows } = await DB.prepare('SELECT * FROM subtasks WHERE id = ?').bind(subtaskId).all()
+  if (beforeRows.length === 0) {
+    return c.json({ error: 'Subtask not found' }, 404)
+  }
+  if (expected && !expected.includes(Number(beforeRows[0].version))) {
+    return conflictError(c, beforeRows[0])
+  }
+
+  updates.push('version = version + 1', 'updated_at = ?')
+  values.push(new Date().toISOString(), subtaskId, beforeRows[0].version)
+  const result = await DB.prepare(
+    `UPDATE subtasks SET ${updates.join(', ')} WHERE id = ? AND version = ?`
+  ).bind(...values).run()
+
+  const { results } = await DB.prepare('SELECT * FROM subtasks WHERE id = ?').bind(subtaskId).all()
+  // 読み込みから更新までの間に別の更新が入った場合
+  if (!result.meta.changes) {
+    return conflictError(c, results[0])
+  }
+
+  c.header('ETag', versionEtag(results[0].version))
+  return c.json(results[0])
+})
+
+// AI decomposition and save subtasks
+app.post('/api/tasks/:id/decompose', async (c) => {
+  const { DB } = c.env
+  const taskId = c.req.param('id')
+  const body = await readJsonObject(c, true)
+  if (!body) return invalidBodyError(c)
+
+  const errors: FieldErrors = {}
+  const provider = body.provider ?? 'auto'
+  checkEnumField(errors, 'provider', provider, ['auto', 'openai', 'gemini'])
+  if (hasErrors(errors)) return validationError(c, errors)
+
+  const { results } = await DB.prepare(
+    'SELECT id, title, minutes, category, priority, due_date FROM tasks WHERE id = ? AND status != ?'
+  ).bind(taskId, 'deleted').all()
+
+  if (results.length === 0) {
+    return c.json({ error: 'Task not found' }, 404)
+  }
+
+  const task = results[0] as any
+  const totalMinutes = Number(task.minutes) || 30
+  const prompt =
+    `以下のタスクを「実行可能な最小単位」に分解してください。\n` +
+    `条件:\n` +
+    `- 1ステップは10〜45分\n` +
+    `- 行動が明確で、今すぐ着手できる表現\n` +
+    `- 最大8ステップ\n` +
+    `- 出力はJSON配列のみ: [{"title":"...","minutes":15}]\n\n` +
+    `タスク名: ${task.title}\n` +
+    `想定時間: ${totalMinutes}分\n` +
+    `カテゴリ: ${task.category || 'now'}\n` +
+    `優先度: ${task.priority || 'medium'}\n` +
+    `期日: ${task.due_date || '未設定'}`
+
+  let rawSteps: any[] | null = null
+
+  if (provider === 'openai') {
+    rawSteps = await callOpenAIDecompose(c.env, prompt)
+  } else if (provider === 'gemini') {
+    rawSteps = await callGeminiDecompose(c.env, prompt)
+  } else {
+    try {
+      rawSteps = await callOpenAIDecompose(c.env, prompt)
+    } catch {
+      rawSteps = null
+    }
+    if (!rawSteps || rawSteps.length === 0) {
+      rawSteps = await callGeminiDecompose(c.env, prompt)
+    }
+  }
+
+  if (!rawSteps || rawSteps.length === 0) {
+    return c.json({
+      error: 'AI decomposition unavailable',
+      message: 'Set OPENAI_API_KEY or GEMINI_API_KEY and try again'
+    }, 400)
+  }
+
+  const steps = normalizeSubtasks(rawSteps, totalMinutes)
+  if (steps.length === 0) {
+    return c.json({ error: 'Failed to parse AI response' }, 500)
+  }
+
+  await ensureSubtasksTable(DB)
+  await ensureTimeEntriesTable(DB)
+  await ensureFocusSessionsTable(DB)
+  // 作り直すサブタスクに付いていた記録は、消えるサブタスクを指したままにせずタスク全体の記録として残す
+  const oldSubtasks = 'SELECT id FROM subtasks WHERE task_id = ?'
+  await DB.batch([
+    DB.prepare(`UPDATE time_entries SET subtask_id = NULL WHERE subtask_id IN (${oldSubtasks})`).bind(taskId),
+    DB.prepare(`UPDATE focus_sessions SET subtask_id = NULL WHERE subtask_id IN (${oldSubtasks})`).bind(taskId),
+    DB.prepare('DELETE FROM subtasks WHERE task_id = ?').bind(taskId)
+  ])
+
+  const createdAt = new Date().toISOString()
+  for (let i = 0; i < steps.length; i += 1) {
+    await DB.prepare(
+      'INSERT INTO subtasks (id, task_id, title, minutes, order_index, status, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+    ).bind(
+      uuidv4(),
+      taskId,
+      steps[i].title,
+      steps[i].minutes,
+      i + 1,
+      'todo',
+      createdAt,
+      createdAt
+    ).run()
+  }
+
+  const { results: saved } = await DB.prepare(
+    'SELECT * FROM subtasks WHERE task_id = ? ORDER BY order_index ASC'
+  ).bind(taskId).all()
+
+  await recordTaskEvents(DB, taskId, 'decompose', [{
+    field: 'subtasks',
+    old_value: null,
+    new_value: steps.map((step) => `${step.title} (${step.minutes}分)`).join(' / ')
+  }], 'ai')
+
+  return c.json({ provider, subtasks: saved })
+})
+
+async function ensureTaskDependenciesTable(DB: D1Database) {
+  await DB.prepare(`
+    CREATE TABLE IF NOT EXISTS task_dependencies (
+      task_id TEXT NOT NULL,
+      depends_on_id TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (task_id, depends_on_id)
+    )
+  `).run()
+}
+
+// taskId を dependsOnId の完了待ちにすると循環になるか（dependsOnId から辿って taskId に着くか）
+async function wouldCreateDependencyCycle(DB: D1Database, taskId: string, dependsOnId: string): Promise<boolean> {
+  const { results } = await DB.prepare('SELECT task_id, depends_on_id FROM task_dependencies').all()
+  return hasDependencyPath(results as Array<{ task_id: string; depends_on_id: string }>, dependsOnId, taskId)
+}
+
+// 依存関係の行（task_id は depends_on_id の完了待ち）を from から辿って taskId に着くか
+export function hasDependencyPath(rows: Array<{ task_id: string; depends_on_id: string }>, from: string, taskId: string): boolean {
+  const edges: Record<string, string[]> = {}
+  for (const row of rows) {
+    (edges[row.task_id] ||= []).push(row.depends_on_id)
+  }
+
+  const stack = [from]
+  const visited = new Set<string>()
+  while (stack.length > 0) {
+    const current = stack.pop() as string
+    if (current === taskId) return true
+    if (visited.has(current)) continue
+    visited.add(current)
+    stack.push(...(edges[current] || []))
+  }
+  return false
+}
+
+// Get dependencies of a task (prerequisites and dependents)
+app.get('/api/tasks/:id/dependencies', async (c) => {
+  const { DB } = c.env
+  const taskId = c.req.param('id')
+  await ensureTaskDependenciesTable(DB)
+
+  const { results: blockedBy } = await DB.prepare(
+    `SELECT t.* FROM task_dependencies d JOIN tasks t ON t.id = d.depends_on_id
+     WHERE d.task_id = ? AND t.status != ? ORDER BY d.created_at ASC`
+  ).bind(taskId, 'deleted').all()
+
+  const { results: blocking } = await DB.prepare(
+    `SELECT t.* FROM task_dependencies d JOIN tasks t ON t.id = d.task_id
+     WHERE d.depends_on_id = ? AND t.status != ? ORDER BY d.created_at ASC`
+  ).bind(taskId, 'deleted').all()
+
+  return c.json({ blockedBy, blocking })
+})
+
+// Link a prerequisite task
+app.post('/api/tasks/:id/dependencies', async (c) => {
+  const { DB } = c.env
+  const taskId = c.req.param('id')
+  const body = await readJsonObject(c)
+  if (!body) return invalidBodyError(c)
+  const dependsOnId = typeof body.depends_on_id === 'string' ? body.depends_on_id : ''
+
+  if (!dependsOnId) {
+    return validationError(c, { depends_on_id: '前提タスクを指定してください' })
+  }
+  if (dependsOnId === taskId) {
+    return validationError(c, { depends_on_id: '自分自身を前提タスクにはできません' })
+  }
+
+  const { results } = await DB.prepare(
+    'SELECT id FROM tasks WHERE id IN (?, ?) AND status != ?'
+  ).bind(taskId, dependsOnId, 'deleted').all()
+  if (results.length < 2) {
+    return c.json({ error: 'Task not found' }, 404)
+  }
+
+  await ensureTaskDependenciesTable(DB)
+  if (await wouldCreateDependencyCycle(DB, taskId, dependsOnId)) {
+    return c.json({
+      error: 'Dependency cycle detected',
+      message: 'The prerequisite already depends on this task'
+    }, 409)
+  }
+
+  await DB.prepare(
+    'INSERT OR IGNORE INTO task_dependencies (task_id, depends_on_id, created_at) VALUES (?, ?, ?)'
+  ).bind(taskId, dependsOnId, new Date().toISOString()).run()
+
+  return c.json({ task_id: taskId, depends_on_id: dependsOnId }, 201)
+})
+
+// Unlink a prerequisite task
+app.delete('/api/tasks/:id/dependencies/:dependsOnId', async (c) => {
+  const { DB } = c.env
+  await ensureTaskDependenciesTable(DB)
+  await DB.prepare(
+    'DELETE FROM task_dependencies WHERE task_id = ? AND depends_on_id = ?'
+  ).bind(c.req.param('id'), c.req.param('dependsOnId')).run()
+
+  return c.json({ success: true })
+})
+
+async function ensureTagsTables(DB: D1Database) {
+  await DB.prepare(`
+    CREATE TABLE IF NOT EXISTS tags (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL UNIQUE,
+      color TEXT NOT NULL DEFAULT '#6b7280',
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )
+  `).run()
+  await DB.prepare(`
+    CREATE TABLE IF NOT EXISTS task_tags (
+      task_id TEXT NOT NULL,
+      tag_id TEXT NOT NULL,
+      PRIMARY KEY (task_id, tag_id)
+    )
+  `).run()
+}
+
+const TAG_COLOR_PALETTE = ['#ef4444', '#f59e0b', '#10b981', '#3b82f6', '#8b5cf6', '#ec4899', '#14b8a6', '#6b7280']
+
+function normalizeTagNames(raw: unknown): string[] {
+  const list = Array.isArray(raw) ? raw : (typeof raw === 'string' ? raw.split(',') : [])
+  const names = list
+    .map((x) => (typeof x === 'string' ? x.trim().replace(/^#/, '') : ''))
+    .filter((x) => x.length > 0 && x.length <= 30)
+  return Array.from(new Set(names))
+}
+
+function isValidTagColor(color: unknown): color is string {
+  return typeof color === 'string' && /^#[0-9a-fA-F]{6}$/.test(color)
+}
+
+// タスクのタグを名前で置き換え（未登録のタグは自動作成）
+async function setTaskTags(DB: D1Database, taskId: string, names: string[]) {
+  await ensureTagsTables(DB)
+  await DB.prepare('DELETE FROM task_tags WHERE task_id = ?').bind(taskId).run()
+
+  for (const name of names) {
+    let tag = await DB.prepare('SELECT id FROM tags WHERE name = ?').bind(name).first<{ id: string }>()
+    if (!tag) {
+      const { results: countRows } = await DB.prepare('SELECT COUNT(*) AS count FROM tags').all()
+      const color = TAG_COLOR_PALETTE[Number(countRows[0]?.count || 0) % TAG_COLOR_PALETTE.length]
+      tag = { id: uuidv4() }
+      await DB.prepare(
+        'INSERT INTO tags (id, name, color, created_at) VALUES (?, ?, ?, ?)'
+      ).bind(tag.id, name, color, new Date().toISOString()).run()
+    }
+    await DB.prepare(
+      'INSERT OR IGNORE INTO task_tags (task_id, tag_id) VALUES (?, ?)'
+    ).bind(taskId, tag.id).run()
+  }
+}
+
+// タスク一覧にタグ情報を付与（渡されたタスクの分だけ読む）
+async function attachTags<T extends { id: string }>(DB: D1Database, tasks: T[]) {
+  await ensureTagsTables(DB)
+  const tagsByTask: Record<string, Array<{ id: string; name: string; color: string }>> = {}
+
+  // D1のバインド数上限を避けるため分割して実行
+  const chunkSize = 50
+  for (let i = 0; i < tasks.length; i += chunkSize) {
+    const chunk = tasks.slice(i, i + chunkSize).map((task) => task.id)
+    const { results } = await DB.prepare(
+      `SELECT tt.task_id, g.id, g.name, g.color FROM task_tags tt JOIN tags g ON g.id = tt.tag_id
+       WHERE tt.task_id IN (${chunk.map(() => '?').join(', ')}) ORDER BY g.name ASC`
+    ).bind(...chunk).all()
+    for (const row of results as Array<{ task_id: string; id: string; name: string; color: string }>) {
+      (tagsByTask[row.task_id] ||= []).push({ id: row.id, name: row.name, color: row.color })
+    }
+  }
+  return tasks.map((task) => ({ ...task, tags: tagsByTask[task.id] || [] }))
+}
+
+// List tags with task counts
+app.get('/api/tags', async (c) => {
+  const { DB } = c.env
+  await ensureTagsTables(DB)
+  const { results } = await DB.prepare(
+    `SELECT g.*, (SELECT COUNT(*) FROM task_tags tt JOIN tasks t ON t.id = tt.task_id
+       WHERE tt.tag_id = g.id AND t.status != 'deleted') AS task_count
+     FROM tags g ORDER BY g.name ASC`
+  ).all()
+  return c.json(results)
+})
+
+// Create tag
+app.post('/api/tags', async (c) => {
+  const { DB } = c.env
+  const body = await readJsonObject(c)
+  if (!body) return invalidBodyError(c)
+  const [name] = normalizeTagNames([body.name])
+
+  const errors: FieldErrors = {}
+  if (!name) errors.name = 'タグ名を30文字以内で入力してください'
+  if (body.color !== undefined && !isValidTagColor(body.color)) errors.color = '色は#RRGGBB形式で指定してください'
+  if (hasErrors(errors)) return validationError(c, errors)
+
+  await ensureTagsTables(DB)
+  const { results: existing } = await DB.prepare('SELECT id FROM tags WHERE name = ?').bind(name).all()
+  if (existing.length > 0) {
+    return c.json({ error: 'Tag already exists' }, 409)
+  }
+
+  const tag = {
+    id: uuidv4(),
+    name,
+    color: body.color || TAG_COLOR_PALETTE[0],
+    created_at: new Date().toISOString()
+  }
+  await DB.prepare(
+    'INSERT INTO tags (id, name, color, created_at) VALUES (?, ?, ?, ?)'
+  ).bind(tag.id, tag.name, tag.color, tag.created_at).run()
+
+  return c.json(tag, 201)
+})
+
+// Update tag name/color
+app.put('/api/tags/:id', async (c) => {
+  const { DB } = c.env
+  const id = c.req.param('id')
+  const body = await readJsonObject(c)
+  if (!body) return invalidBodyError(c)
+  await ensureTagsTables(DB)
+
+  const updates: string[] = []
+  const values: any[] = []
+
+  if (body.name !== undefined) {
+    const [name] = normalizeTagNames([body.name])
+    if (!name) {
+      return validationError(c, { name: 'タグ名を30文字以内で入力してください' })
+    }
+    const { results: existing } = await DB.prepare('SELECT id FROM tags WHERE name = ? AND id != ?').bind(name, id).all()
+    if (existing.length > 0) {
+      return c.json({ error: 'Tag already exists' }, 409)
+    }
+    updates.push('name = ?')
+    values.push(name)
+  }
+  if (body.color !== undefined) {
+    if (!isValidTagColor(body.color)) {
+      return validationError(c, { color: '色は#RRGGBB形式で指定してください' })
+    }
+    updates.push('color = ?')
+    values.push(body.color)
+  }
+
+  if (updates.length === 0) {
+    return c.json({ error: 'No fields to update' }, 400)
+  }
+
+  values.push(id)
+  await DB.prepare(`UPDATE tags SET ${updates.join(', ')} WHERE id = ?`).bind(...values).run()
+
+  const { results } = await DB.prepare('SELECT * FROM tags WHERE id = ?').bind(id).all()
+  if (results.length === 0) {
+    return c.json({ error: 'Tag not found' }, 404)
+  }
+  return c.json(results[0])
+})
+
+// Delete tag (detaches it from all tasks)
+app.delete('/api/tags/:id', async (c) => {
+  const { DB } = c.env
+  const id = c.req.param('id')
+  await ensureTagsTables(DB)
+  await DB.prepare('DELETE FROM task_tags WHERE tag_id = ?').bind(id).run()
+  await DB.prepare('DELETE FROM tags WHERE id = ?').bind(id).run()
+  return c.json({ success: true })
+})
+
+async function ensureGoalsTable(DB: D1Database) {
+  await DB.prepare(`
+    CREATE TABLE IF NOT EXISTS goals (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      target_revenue INTEGER,
+      target_date TEXT,
+      status TEXT NOT NULL DEFAULT 'active' CHECK(status IN ('active', 'archived')),
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )
+  `).run()
+}
+
+// 紐づくタスクの完了数・所要時間から進捗を集計（残り日数は today が基準）。
+// 見積もり（done_minutes / total_minutes）と作業記録の実績（actual_minutes）は分けて返す
+async function getGoalsWithProgress(DB: D1Database, today: string, options: { id?: string; includeArchived?: boolean } = {}) {
+  await ensureGoalsTable(DB)
+  await ensureTimeEntriesTable(DB)
+  const whereClauses: string[] = []
+  const values: string[] = []
+  if (options.id) {
+    whereClauses.push('g.id = ?')
+    values.push(options.id)
+  }
+  if (!options.includeArchived) {
+    whereClauses.push("g.status = 'active'")
+  }
+
+  const where = whereClauses.length > 0 ? `WHERE ${whereClauses.join(' AND ')}` : ''
+  const { results } = await DB.prepare(
+    `SELECT g.*,
+       COUNT(t.id) AS task_count,
+       COALESCE(SUM(CASE WHEN t.status = 'done' THEN 1 ELSE 0 END), 0) AS done_count,
+       COALESCE(SUM(t.minutes), 0) AS total_minutes,
+       COALESCE(SUM(CASE WHEN t.status = 'done' THEN t.minutes ELSE 0 END), 0) AS done_minutes,
+       COALESCE(SUM(x.seconds), 0) AS actual_seconds
+     FROM goals g
+     LEFT JOIN tasks t ON t.goal_id = g.id AND t.status != 'deleted'
+     LEFT JOIN (SELECT task_id, SUM(duration_seconds) AS seconds FROM time_entries WHERE ended_at IS NOT NULL GROUP BY task_id) x ON x.task_id = t.id
+     ${where}
+     GROUP BY g.id
+     ORDER BY CASE WHEN g.target_date IS NULL THEN 1 ELSE 0 END, g.target_date ASC, g.created_at ASC`
+  ).bind(...values).all()
+
+  return (results as any[]).map((goal) => {
+    const totalMinutes = Number(goal.total_minutes) || 0
+    const doneMinutes = Number(goal.done_minutes) || 0
+    const daysLeft = goal.target_date
+      ? Math.round((Date.parse(`${goal.target_date}T00:00:00Z`) - Date.parse(`${today}T00:00:00Z`)) / 86400000)
+      : null
+    const { actual_seconds: actualSeconds, ...rest } = goal
+    return {
+      ...rest,
+      progress: totalMinutes > 0 ? Math.round((doneMinutes / totalMinutes) * 100) : 0,
+      actual_minutes: Math.round((Number(actualSeconds) || 0) / 60),
+      days_left: daysLeft
+    }
+  })
+}
+
+async function goalExists(DB: D1Database, goalId: string): Promise<boolean> {
+  await ensureGoalsTable(DB)
+  const { results } = await DB.prepare('SELECT id FROM goals WHERE id = ?').bind(String(goalId)).all()
+  return results.length > 0
+}
+
+function parseGoalBody(body: Record<string, any>, partial: boolean) {
+  const fields: { name?: string; target_revenue?: number | null; target_date?: string | null; status?: string } = {}
+  const errors: FieldErrors = {}
+
+  if (body.name !== undefined || !partial) {
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+    if (!name) errors.name = '目標名を入力してください'
+    else if (name.length > MAX_TITLE_LENGTH) errors.name = `目標名は${MAX_TITLE_LENGTH}文字以内で入力してください`
+    else fields.name = name
+  }
+  if (body.target_revenue !== undefined) {
+    if (body.target_revenue === null || body.target_revenue === '') {
+      fields.target_revenue = null
+    } else {
+      const revenue = Number(body.target_revenue)
+      if (!Number.isFinite(revenue) || revenue < 0) errors.target_revenue = '目標売上は0以上の数値で入力してください'
+      else fields.target_revenue = Math.round(revenue)
+    }
+  }
+  if (body.target_date !== undefined) {
+    if (body.target_date && !isValidDateString(body.target_date)) errors.target_date = '目標日はYYYY-MM-DD形式で入力してください'
+    else fields.target_date = body.target_date || null
+  }
+  if (body.status !== undefined && checkEnumField(errors, 'status', body.status, ['active', 'archived'])) {
+    fields.status = body.status
+  }
+  return { fields, errors }
+}
+
+// List goals with progress
+app.get('/api/goals', async (c) => {
+  const goals = await getGoalsWithProgress(c.env.DB, todayInTimeZone(getUserTimeZone(c.env)), { includeArchived: c.req.query('status') === 'all' })
+  return c.json(goals)
+})
+
+// Get goal with its tasks
+app.get('/api/goals/:id', async (c) => {
+  const { DB } = c.env
+  const id = c.req.param('id')
+  const [goal] = await getGoalsWithProgress(DB, todayInTimeZone(getUserTimeZone(c.env)), { id, includeArchived: true })
+  if (!goal) {
+    return c.json({ error: 'Goal not found' }, 404)
+  }
+
+  const { results: tasks } = await DB.prepare(
+    "SELECT * FROM tasks WHERE goal_id = ? AND status != 'deleted' ORDER BY CASE WHEN due_date IS NULL THEN 1 ELSE 0 END, due_date ASC"
+  ).bind(id).all()
+
+  return c.json({ ...goal, tasks })
+})
+
+// Create goal
+app.post('/api/goals', async (c) => {
+  const { DB } = c.env
+  const body = await readJsonObject(c)
+  if (!body) return invalidBodyError(c)
+  const parsed = parseGoalBody(body, false)
+  if (hasErrors(parsed.errors)) return validationError(c, parsed.errors)
+
+  await ensureGoalsTable(DB)
+  const id = uuidv4()
+  await DB.prepare(
+    'INSERT INTO goals (id, name, target_revenue, target_date, status, created_at) VALUES (?, ?, ?, ?, ?, ?)'
+  ).bind(
+    id,
+    parsed.fields.name,
+    parsed.fields.target_revenue ?? null,
+    parsed.fields.target_date ?? null,
+    parsed.fields.status || 'active',
+    new Date().toISOString()
+  ).run()
+
+  const [goal] = await getGoalsWithProgress(DB, todayInTimeZone(getUserTimeZone(c.env)), { id, includeArchived: true })
+  return c.json(goal, 201)
+})
+
+// Update goal
+app.put('/api/goals/:id', async (c) => {
+  const { DB } = c.env
+  const id = c.req.param('id')
+  const body = await readJsonObject(c)
+  if (!body) return invalidBodyError(c)
+  const parsed = parseGoalBody(body, true)
+  if (hasErrors(parsed.errors)) return validationError(c, parsed.errors)
+
+  const entries = Object.entries(parsed.fields)
+  if (entries.length === 0) {
+    return c.json({ error: 'No fields to update' }, 400)
+  }
+
+  await ensureGoalsTable(DB)
+  await DB.prepare(
+    `UPDATE goals SET ${entries.map(([key]) => `${key} = ?`).join(', ')} WHERE id = ?`
+  ).bind(...entries.map(([, value]) => value), id).run()
+
+  const [goal] = await getGoalsWithProgress(DB, todayInTimeZone(getUserTimeZone(c.env)), { id, includeArchived: true })
+  if (!goal) {
+    return c.json({ error: 'Goal not found' }, 404)
+  }
+  return c.json(goal)
+})
+
+// Delete goal (tasks are kept and unlinked)
+app.delete('/api/goals/:id', async (c) => {
+  const { DB } = c.env
+  const id = c.req.param('id')
+  await ensureGoalsTable(DB)
+  await DB.prepare(
+    'UPDATE tasks SET goal_id = NULL, version = version + 1, updated_at = ? WHERE goal_id = ?'
+  ).bind(new Date().toISOString(), id).run()
+  await DB.prepare('DELETE FROM goals WHERE id = ?').bind(id).run()
+  return c.json({ success: true })
+})
+
+type SavedView = {
+  id: string;
+  name: string;
+  filters: TaskListFilters;
+  position: number;
+  created_at: string;
+  updated_at: string | null;
+}
+
+const MAX_VIEW_NAME_LENGTH = 50
+
+async function ensureSavedViewsTable(DB: D1Database) {
+  await DB.prepare(`
+    CREATE TABLE IF NOT EXISTS saved_views (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      filters TEXT NOT NULL,
+      position INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT
+    )
+  `).run()
+}
+
+function toSavedView(row: any): SavedView {
+  let filters: Record<string, unknown> = {}
+  try {
+    filters = JSON.parse(row.filters)
+  } catch {
+    filters = {}
+  }
+  // 保存後に選択肢が変わっていても一覧は壊さない（不正な項目は既定値として扱う）
+  return { ...row, filters: readTaskListFilters(filters, {}) }
+}
+
+async function getSavedView(DB: D1Database, id: string): Promise<SavedView | null> {
+  await ensureSavedViewsTable(DB)
+  const { results } = await DB.prepare('SELECT * FROM saved_views WHERE id = ?').bind(id).all()
+  return results.length > 0 ? toSavedView(results[0]) : null
+}
+
+async function countTasksForView(DB: D1Database, filters: TaskListFilters, today: string): Promise<number> {
+  const { clauses, values } = await buildTaskListConditions(DB, filters, today)
+  const { results } = await DB.prepare(
+    `SELECT COUNT(*) AS count FROM tasks WHERE ${clauses.join(' AND ')}`
+  ).bind(...values).all()
+  return Number(results[0]?.count) || 0
+}
+
+function parseViewBody(body: Record<string, any>, partial: boolean) {
+  const fields: { name?: string; filters?: TaskListFilters; position?: number } = {}
+  const errors: FieldErrors = {}
+
+  if (body.name !== undefined || !partial) {
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+    if (!name || name.length > MAX_VIEW_NAME_LENGTH) errors.name = `ビュー名は1〜${MAX_VIEW_NAME_LENGTH}文字で入力してください`
+    else fields.name = name
+  }
+  if (body.filters !== undefined || !partial) {
+    if (!body.filters || typeof body.filters !== 'object' || Array.isArray(body.filters)) {
+      errors.filters = '絞り込み条件をオブジェクトで指定してください'
+    } else {
+      const filterErrors: FieldErrors = {}
+      const filters = readTaskListFilters(body.filters, filterErrors)
+      Object.entries(filterErrors).forEach(([key, message]) => { errors[`filters.${key}`] = message })
+      if (!hasErrors(filterErrors)) fields.filters = filters
+    }
+  }
+  if (body.position !== undefined) {
+    if (!Number.isInteger(body.position) || body.position < 0) errors.position = '並び順は0以上の整数で指定してください'
+    else fields.position = body.position
+  }
+  return { fields, errors }
+}
+
+// List saved views with task counts
+app.get('/api/views', async (c) => {
+  const { DB } = c.env
+  await ensureSavedViewsTable(DB)
+  const { results } = await DB.prepare(
+    'SELECT * FROM saved_views ORDER BY position ASC, created_at ASC'
+  ).all()
+
+  const views = (results as any[]).map(toSavedView)
+  const today = todayInTimeZone(getUserTimeZone(c.env))
+  const counts = await Promise.all(views.map((view) => countTasksForView(DB, view.filters, today)))
+  return c.json(views.map((view, i) => ({ ...view, count: counts[i] })))
+})
+
+// Create saved view
+app.post('/api/views', async (c) => {
+  const { DB } = c.env
+  const body = await readJsonObject(c)
+  if (!body) return invalidBodyError(c)
+  const parsed = parseViewBody(body, false)
+  if (hasErrors(parsed.errors)) return validationError(c, parsed.errors)
+
+  await ensureSavedViewsTable(DB)
+  let position = parsed.fields.position
+  if (position === undefined) {
+    const { results } = await DB.prepare('SELECT COALESCE(MAX(position), -1) + 1 AS next FROM saved_views').all()
+    position = Number(results[0]?.next) || 0
+  }
+
+  const id = uuidv4()
+  const now = new Date().toISOString()
+  await DB.prepare(
+    'INSERT INTO saved_views (id, name, filters, position, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)'
+  ).bind(id, parsed.fields.name, JSON.stringify(parsed.fields.filters), position, now, now).run()
+
+  const view = await getSavedView(DB, id)
+  return c.json({ ...view, count: await countTasksForView(DB, view!.filters, todayInTimeZone(getUserTimeZone(c.env))) }, 201)
+})
+
+// Update saved view (name / filters / position)
+app.put('/api/views/:id', async (c) => {
+  const { DB } = c.env
+  const id = c.req.param('id')
+  const body = await readJsonObject(c)
+  if (!body) return invalidBodyError(c)
+  const parsed = parseViewBody(body, true)
+  if (hasErrors(parsed.errors)) return validationError(c, parsed.errors)
+
+  const entries = Object.entries(parsed.fields).map(([key, value]) =>
+    [key, key === 'filters' ? JSON.stringify(value) : value] as const
+  )
+  if (entries.length === 0) {
+    return validationError(c, { body: '更新する項目がありません' })
+  }
+
+  await ensureSavedViewsTable(DB)
+  await DB.prepare(
+    `UPDATE saved_views SET ${entries.map(([key]) => `${key} = ?`).join(', ')}, updated_at = ? WHERE id = ?`
+  ).bind(...entries.map(([, value]) => value), new Date().toISOString(), id).run()
+
+  const view = await getSavedView(DB, id)
+  if (!view) {
+    return c.json({ error: 'View not found' }, 404)
+  }
+  return c.json({ ...view, count: await countTasksForView(DB, view.filters, todayInTimeZone(getUserTimeZone(c.env))) })
+})
+
+// Delete saved view
+app.delete('/api/views/:id', async (c) => {
+  const { DB } = c.env
+  await ensureSavedViewsTable(DB)
+  await DB.prepare('DELETE FROM saved_views WHERE id = ?').bind(c.req.param('id')).run()
+  return c.json({ success: true })
+})
+
+type TaskEventSource = 'ui' | 'api' | 'calendar' | 'calendar_sync' | 'ai' | 'recurrence' | 'import'
+
+type TaskFieldChange = {
+  field: string;
+  old_value: unknown;
+  new_value: unknown;
+}
+
+const TASK_AUDIT_FIELDS = ['title', 'category', 'minutes', 'status', 'due_date', 'priority', 'recurrence_rule', 'goal_id', 'notes']
+
+async function ensureTaskEventsTable(DB: D1Database) {
+  await DB.prepare(`
+    CREATE TABLE IF NOT EXISTS task_events (
+      id TEXT PRIMARY KEY,
+      task_id TEXT NOT NULL,
+      action TEXT NOT NULL CHECK(action IN ('create', 'update', 'toggle', 'delete', 'decompose')),
+      field TEXT,
+      old_value TEXT,
+      new_value TEXT,
+      source TEXT NOT NULL DEFAULT 'api',
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )
+  `).run()
+}
+
+// 呼び出し元（X-Task-Source ヘッダー）から変更元を判定
+function getEventSource(c: { req: { header: (name: string) => string | undefined } }): TaskEventSource {
+  const source = c.req.header('X-Task-Source')
+  return source === 'ui' || source === 'calendar' || source === 'ai' ? source : 'api'
+}
+
+// 変更前後の行を比較して変更されたフィールドを抽出
+function diffTaskFields(before: Record<string, unknown>, after: Record<string, unknown>): TaskFieldChange[] {
+  return TASK_AUDIT_FIELDS
+    .filter((field) => (before[field] ?? null) !== (after[field] ?? null))
+    .map((field) => ({ field, old_value: before[field] ?? null, new_value: after[field] ?? null }))
+}
+
+// 履歴のINSERT文を組み立て（他の更新と同じバッチで実行できるよう文だけ返す）
+function buildTaskEventStatements(
+  DB: D1Database,
+  taskId: string,
+  action: 'create' | 'update' | 'toggle' | 'delete' | 'decompose',
+  changes: TaskFieldChange[],
+  source: TaskEventSource
+): D1PreparedStatement[] {
+  const createdAt = new Date().toISOString()
+  const rows = changes.length > 0 ? changes : [{ field: null, old_value: null, new_value: null }]
+  const toText = (value: unknown) => (value === null || value === undefined ? null : String(value))
+
+  return rows.map((change) =>
+    DB.prepare(
+      'INSERT INTO task_events (id, task_id, action, field, old_value, new_value, source, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+    ).bind(uuidv4(), taskId, action, change.field, toText(change.old_value), toText(change.new_value), source, createdAt)
+  )
+}
+
+async function recordTaskEvents(
+  DB: D1Database,
+  taskId: string,
+  action: 'create' | 'update' | 'toggle' | 'delete' | 'decompose',
+  changes: TaskFieldChange[],
+  source: TaskEventSource
+) {
+  await ensureTaskEventsTable(DB)
+  await DB.batch(buildTaskEventStatements(DB, taskId, action, changes, source))
+}
+
+// 完了した繰り返しタスクの次回分を組み立て（再完了で重複しないよう既存の次回分を確認）。today は利用者のタイムゾーンでの今日
+async function buildNextOccurrence(DB: D1Database, current: Task, today: string): Promise<{ next: Task; statements: D1PreparedStatement[] } | null> {
+  const parsed = current.recurrence_rule ? parseRecurrenceRule(current.recurrence_rule) : null
+  if (!parsed) return null
+  // 日付を固定していない毎月の繰り返しは今回の期日で固定し、次回分にも固定した規則を引き継ぐ
+  const rule = anchorMonthlyRule(parsed, current.due_date || today)
+
+  const { results: spawned } = await DB.prepare(
+    'SELECT id FROM tasks WHERE recurrence_parent_id = ? AND status != ? LIMIT 1'
+  ).bind(current.id, 'deleted').all()
+  const nextDueDate = nextDueDateAfterCompletion(rule, current.due_date, today)
+  if (spawned.length > 0 || !nextDueDate) return null
+
+  const now = new Date().toISOString()
+  const next: Task = {
+    id: uuidv4(),
+    title: current.title,
+    category: current.category,
+    minutes: current.minutes,
+    status: 'todo',
+    created_at: now,
+    updated_at: now,
+    version: 1,
+    due_date: nextDueDate,
+    priority: current.priority || 'medium',
+    recurrence_rule: serializeRecurrenceRule(rule),
+    recurrence_parent_id: current.id,
+    goal_id: current.goal_id || null,
+    notes: current.notes || null
+  }
+
+  await ensureTaskEventsTable(DB)
+  await ensureTagsTables(DB)
+  return {
+    next,
+    statements: [
+      DB.prepare(
+        'INSERT INTO tasks (id, title, category, minutes, status, created_at, updated_at, due_date, priority, recurrence_rule, recurrence_parent_id, goal_id, notes) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+      ).bind(
+        next.id,
+        next.title,
+        next.category,
+        next.minutes,
+        next.status,
+        next.created_at,
+        next.updated_at,
+        next.due_date,
+        next.priority,
+        next.recurrence_rule,
+        next.recurrence_parent_id,
+        next.goal_id,
+        next.notes
+      ),
+      // タグも引き継ぐ（タグで絞り込んだ一覧から次回分が消えないように）
+      DB.prepare('INSERT INTO task_tags (task_id, tag_id) SELECT ?, tag_id FROM task_tags WHERE task_id = ?').bind(next.id, current.id),
+      ...buildTaskEventStatements(DB, next.id, 'create', [{ field: 'due_date', old_value: null, new_value: next.due_date }], 'recurrence')
+    ]
+  }
+}
+
+// Task change history
+app.get('/api/tasks/:id/history', async (c) => {
+  const { DB } = c.env
+  await ensureTaskEventsTable(DB)
+  const { results } = await DB.prepare(
+    'SELECT * FROM task_events WHERE task_id = ? ORDER BY created_at DESC, rowid DESC'
+  ).bind(c.req.param('id')).all()
+  return c.json(results)
+})
+
+type BulkAction = 'complete' | 'reopen' | 'delete' | 'set_category' | 'set_priority' | 'shift_due'
+
+const BULK_ACTIONS: BulkAction[] = ['complete', 'reopen', 'delete', 'set_category', 'set_priority', 'shift_due']
+const MAX_BULK_TASKS = 200
+
+// Apply one action to many tasks in a single D1 batch
+app.post('/api/tasks/bulk', async (c) => {
+  const { DB } = c.env
+  const body = await readJsonObject(c)
+  if (!body) return invalidBodyError(c)
+
+  const errors: FieldErrors = {}
+  const action = body.action as BulkAction
+  const ids: string[] = Array.isArray(body.ids)
+    ? Array.from(new Set((body.ids as unknown[]).filter((id): id is string => typeof id === 'string' && id.length > 0)))
+    : []
+
+  checkEnumField(errors, 'action', action, BULK_ACTIONS)
+  if (ids.length === 0 || ids.length > MAX_BULK_TASKS) {
+    errors.ids = `タスクIDを1〜${MAX_BULK_TASKS}件指定してください`
+  }
+  if (action === 'set_category') checkEnumField(errors, 'category', body.category, TASK_CATEGORIES)
+  if (action === 'set_priority') checkEnumField(errors, 'priority', body.priority, TASK_PRIORITIES)
+  const shiftDays = body.days
+  if (action === 'shift_due' && (!Number.isInteger(shiftDays) || shiftDays === 0 || Math.abs(shiftDays) > 365)) {
+    errors.days = '日数は-365〜365の0以外の整数で指定してください'
+  }
+  if (hasErrors(errors)) return validationError(c, errors)
+
+  const tasksById: Record<string, Task> = {}
+  for (let i = 0; i < ids.length; i += 50) {
+    const chunk = ids.slice(i, i + 50)
+    const { results } = await DB.prepare(
+      `SELECT * FROM tasks WHERE status != 'deleted' AND id IN (${chunk.map(() => '?').join(', ')})`
+    ).bind(...chunk).all()
+    for (const row of results as Task[]) tasksById[row.id] = row
+  }
+
+  await ensureTaskEventsTable(DB)
+  await ensureTimeEntriesTable(DB)
+  const source = getEventSource(c)
+  const now = new Date().toISOString()
+  const today = todayInTimeZone(getUserTimeZone(c.env))
+  const statements: D1PreparedStatement[] = []
+  const results: Array<{ id: string; ok: boolean; changed?: boolean; error?: string; next_id?: string }> = []
+
+  for (const id of ids) {
+    const task = tasksById[id]
+    if (!task) {
+      results.push({ id, ok: false, error: 'Task not found' })
+      continue
+    }
+
+    if (action === 'complete' || action === 'reopen') {
+      const status = action === 'complete' ? 'done' : 'todo'
+      if (task.status === status) {
+        results.push({ id, ok: true, changed: false })
+        continue
+      }
+      statements.push(
+        DB.prepare('UPDATE tasks SET status = ?, version = version + 1, updated_at = ? WHERE id = ?').bind(status, now, id),
+        ...buildTaskEventStatements(DB, id, 'toggle', [{ field: 'status', old_value: task.status, new_value: status }], source)
+      )
+      if (status === 'done') statements.push(buildStopTimerStatement(DB, now, [id]))
+      const occurrence = status === 'done' ? await buildNextOccurrence(DB, task, today) : null
+      if (occurrence) statements.push(...occurrence.statements)
+      results.push({ id, ok: true, changed: true, ...(occurrence ? { next_id: occurrence.next.id } : {}) })
+    } else if (action === 'delete') {
+      statements.push(
+        DB.prepare(
+          'UPDATE tasks SET status = ?, deleted_at = ?, status_before_delete = ?, version = version + 1, updated_at = ? WHERE id = ?'
+        ).bind('deleted', now, task.status, now, id),
+        ...buildTaskEventStatements(DB, id, 'delete', [{ field: 'status', old_value: task.status, new_value: 'deleted' }], source),
+        buildStopTimerStatement(DB, now, [id])
+      )
+      results.push({ id, ok: true, changed: true })
+    } else if (action === 'set_category' || action === 'set_priority') {
+      const field = action === 'set_category' ? 'category' : 'priority'
+      const value = body[field] as string
+      if (task[field] === value) {
+        results.push({ id, ok: true, changed: false })
+        continue
+      }
+      statements.push(
+        DB.prepare(`UPDATE tasks SET ${field} = ?, version = version + 1, updated_at = ? WHERE id = ?`).bind(value, now, id),
+        ...buildTaskEventStatements(DB, id, 'update', [{ field, old_value: task[field] ?? null, new_value: value }], source)
+      )
+      results.push({ id, ok: true, changed: true })
+    } else {
+      if (!task.due_date) {
+        results.push({ id, ok: false, error: 'Task has no due date' })
+        continue
+      }
+      const dueDate = addDays(task.due_date, shiftDays)
+      statements.push(
+        DB.prepare('UPDATE tasks SET due_date = ?, version = version + 1, updated_at = ? WHERE id = ?').bind(dueDate, now, id),
+        ...buildTaskEventStatements(DB, id, 'update', [{ field: 'due_date', old_value: task.due_date, new_value: dueDate }], source)
+      )
+      results.push({ id, ok: true, changed: true })
+    }
+  }
+
+  if (statements.length > 0) {
+    try {
+      await DB.batch(statements)
+    } catch (error) {
+      return c.json({
+        error: 'Bulk update failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        results: ids.map((id) => ({ id, ok: false, error: 'Rolled back' }))
+      }, 500)
+    }
+  }
+
+  return c.json({
+    action,
+    updated: results.filter((r) => r.ok && r.changed).length,
+    failed: results.filter((r) => !r.ok).length,
+    results
+  })
+})
+
+// Get single task
+app.get('/api/tasks/:id', async (c) => {
+  const { DB } = c.env
+  const id = c.req.param('id')
+  
+  const { results } = await DB.prepare(
+    'SELECT * FROM tasks WHERE id = ?'
+  ).bind(id).all()
+  
+  if (results.length === 0) {
+    return c.json({ error: 'Task not found' }, 404)
+  }
+  
+  const etag = versionEtag(results[0].version)
+  if (c.req.header('If-None-Match') === etag) {
+    return c.body(null, 304, { ETag: etag })
+  }
+
+  const [task] = await attachTags(DB, results as Array<{ id: string }>)
+  c.header('ETag', etag)
+  return c.json(task)
+})
+
+// 検証済みの入力からタスクを作成し、タグと作成履歴を記録する
+async function insertTask(DB: D1Database, data: TaskInput, source: TaskEventSource) {
+  const id = uuidv4()
+  const now = new Date().toISOString()
+  const task: Task = {
+    id,
+    title: data.title as string,
+    category: data.category || 'chore',
+    minutes: data.minutes || 15,
+    status: 'todo',
+    created_at: now,
+    updated_at: now,
+    version: 1,
+    due_date: data.due_date || null,
+    priority: data.priority || 'medium',
+    recurrence_rule: data.recurrence_rule || null,
+    recurrence_parent_id: null,
+    goal_id: data.goal_id || null,
+    notes: data.notes || null
+  }
+  
+  await DB.prepare(
+    'INSERT INTO tasks (id, title, category, minutes, status, created_at, updated_at, due_date, priority, recurrence_rule, recurrence_parent_id, goal_id, notes) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+  ).bind(
+    task.id,
+    task.title,
+    task.category,
+    task.minutes,
+    task.status,
+    task.created_at,
+    task.updated_at,
+    task.due_date,
+    task.priority,
+    task.recurrence_rule,
+    task.recurrence_parent_id,
+    task.goal_id,
+    task.notes
+  ).run()
+
+  if (data.tags && data.tags.length > 0) {
+    await setTaskTags(DB, id, data.tags)
+  }
+  await recordTaskEvents(DB, id, 'create', [{ field: 'title', old_value: null, new_value: task.title }], source)
+  const [created] = await attachTags(DB, [task])
+  return created
+}
+
+// Create new task
+app.post('/api/tasks', async (c) => {
+  const { DB } = c.env
+  const body = await readJsonObject(c)
+  if (!body) return invalidBodyError(c)
+
+  const { data, errors } = validateTaskInput(body, 'create')
+  if (data.goal_id && !(await goalExists(DB, data.goal_id))) {
+    errors.goal_id = '目標が見つかりません'
+  }
+  if (hasErrors(errors)) return validationError(c, errors)
+
+  const created = await insertTask(DB, data, getEventSource(c))
+  c.header('ETag', versionEtag(created.version))
+  return c.json(created, 201)
+})
+
+// クイック追加の文字列を検証して解析する（プレビューと作成で共通）
+async function readQuickAddBody(c: Context) {
+  const body = await readJsonObject(c)
+  if (!body) return { response: invalidBodyError(c) }
+  if (typeof body.text !== 'string' || !body.text.trim() || body.text.length > 500) {
+    return { response: validationError(c, { text: '1〜500文字で入力してください' }) }
+  }
+  const parsed = parseQuickAddText(body.text, todayInTimeZone(getUserTimeZone(c.env)))
+  if (hasErrors(parsed.errors)) return { response: validationError(c, parsed.errors) }
+  return { parsed }
+}
+
+// Preview how a quick-add phrase will be saved (nothing is written)
+app.post('/api/tasks/parse', async (c) => {
+  const result = await readQuickAddBody(c)
+  if ('response' in result) return result.response
+  const { parsed } = result
+
+  const { data, recognized } = parsed
+  return c.json({
+    task: {
+      title: data.title,
+      category: data.category || 'chore',
+      minutes: data.minutes || 15,
+      due_date: data.due_date || null,
+      priority: data.priority || 'medium',
+      tags: data.tags || []
+    },
+    recognized
+  })
+})
+
+// Create a task from a quick-add phrase
+app.post('/api/tasks/quick-add', async (c) => {
+  const result = await readQuickAddBody(c)
+  if ('response' in result) return result.response
+  const { parsed } = result
+
+  const created = await insertTask(c.env.DB, parsed.data, getEventSource(c))
+  c.header('ETag', versionEtag(created.version))
+  return c.json({ ...created, recognized: parsed.recognized }, 201)
+})
+
+// Import tasks from CSV / TSV (including text pasted from a spreadsheet).
+// dry_run returns the validation report only; otherwise every row is written in one D1 batch
+app.post('/api/tasks/import', async (c) => {
+  const { DB } = c.env
+  const body = await readJsonObject(c)
+  if (!body) return invalidBodyError(c)
+
+  const errors: FieldErrors = {}
+  const options = parseImportOptions(body, errors)
+  if (hasErrors(errors)) return validationError(c, errors)
+
+  const delimiter = options.delimiter === 'auto' ? detectDelimiter(options.text) : IMPORT_DELIMITERS[options.delimiter]
+  const parsedRows = parseDelimitedText(options.text, delimiter)
+  if (parsedRows.length === 0) return validationError(c, { text: '取り込める行がありません' })
+  const hasHeader = options.hasHeader ?? looksLikeHeader(parsedRows[0].cells)
+  const headers = hasHeader ? parsedRows[0].cells.map((header) => header.trim()) : null
+  const dataRows = hasHeader ? parsedRows.slice(1) : parsedRows
+  if (dataRows.length === 0) return validationError(c, { text: '見出し行の下にデータがありません' })
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    return validationError(c, { text: `一度に取り込めるのは${MAX_IMPORT_ROWS}行までです（${dataRows.length}行あります）` })
+  }
+  const columnCount = parsedRows.reduce((max, row) => Math.max(max, row.cells.length), 0)
+
+  // 見出し名で指定された列は列番号に直す
+  const mapping: Partial<Record<ImportField, number>> = {}
+  for (const [field, column] of Object.entries(options.mapping ?? suggestImportMapping(headers))) {
+    const index = typeof column === 'number'
+      ? column
+      : (headers ?? []).findIndex((header) => normalizeImportKey(header) === normalizeImportKey(column))
+    if (index < 0 || index >= columnCount) {
+      errors[`mapping.${field}`] = `列「${column}」が見つかりません`
+    } else {
+      mapping[field as ImportField] = index
+    }
+  }
+  if (mapping.title === undefined && !errors['mapping.title']) errors['mapping.title'] = 'タスク名の列を指定してください'
+  if (hasErrors(errors)) return validationError(c, errors)
+
+  const today = todayInTimeZone(getUserTimeZone(c.env))
+  const unmapped = { category: new Set<string>(), priority: new Set<string>(), status: new Set<string>() }
+  const rows: ImportRow[] = dataRows.map(({ line, cells }) => {
+    const { data, errors: rowErrors } = buildImportTask(cells, mapping, options.valueMap, today, unmapped)
+    return hasErrors(rowErrors)
+      ? { row: line, status: 'error', task: data, errors: rowErrors }
+      : { row: line, status: 'ok', task: data }
+  })
+
+  // 重複判定: 削除済み以外の既存タスクとファイル内の先の行を、タスク名＋期日で照合
+  const rowKey = (task: TaskInput) => `${task.title}\n${task.due_date ?? ''}`
+  const titles = Array.from(new Set(rows.filter((row) => row.status === 'ok').map((row) => row.task!.title as string)))
+  const existing = new Map<string, string>()
+  for (let i = 0; i < titles.length; i += 50) {
+    const chunk = titles.slice(i, i + 50)
+    const { results } = await DB.prepare(
+      `SELECT id, title, due_date FROM tasks WHERE status != 'deleted' AND title IN (${chunk.map(() => '?').join(', ')})`
+    ).bind(...chunk).all()
+    for (const task of results as Array<{ id: string; title: string; due_date: string | null }>) {
+      existing.set(`${task.title}\n${task.due_date ?? ''}`, task.id)
+    }
+  }
+  const seen = new Map<string, number>()
+  for (const row of rows) {
+    if (row.status !== 'ok') continue
+    const key = rowKey(row.task!)
+    if (existing.has(key)) {
+      row.status = 'duplicate'
+      row.duplicate_of = existing.get(key)
+    } else if (seen.has(key)) {
+      row.status = 'duplicate'
+      row.duplicate_of = `row:${seen.get(key)}`
+    } else {
+      seen.set(key, row.row)
+    }
+  }
+
+  const count = (status: ImportRow['status']) => rows.filter((row) => row.status === status).length
+  const toImport = rows.filter((row) => row.status === 'ok' || (row.status === 'duplicate' && options.duplicates === 'import'))
+  const report = {
+    dry_run: body.dry_run === true,
+    delimiter: Object.keys(IMPORT_DELIMITERS).find((key) => IMPORT_DELIMITERS[key] === delimiter),
+    has_header: hasHeader,
+    columns: Array.from({ length: columnCount }, (_, index) => ({
+      index,
+      header: headers ? headers[index] ?? '' : null,
+      samples: dataRows.slice(0, 3).map((row) => row.cells[index] ?? '')
+    })),
+    mapping,
+    summary: { total: rows.length, ok: count('ok'), duplicate: count('duplicate'), error: count('error'), importable: toImport.length, imported: 0 },
+    unmapped_values: {
+      category: Array.from(unmapped.category),
+      priority: Array.from(unmapped.priority),
+      status: Array.from(unmapped.status)
+    },
+    rows
+  }
+  if (report.dry_run) return c.json(report)
+
+  if (report.summary.error > 0 && !options.skipErrors) {
+    return c.json({
+      ...report,
+      error: 'Validation failed',
+      message: '入力内容に誤りがあります',
+      fields: { rows: `${report.summary.error}行に誤りがあります（skip_errors を指定すると誤りのある行を除いて取り込みます）` }
+    }, 400)
+  }
+  if (toImport.length === 0) return c.json(report)
+
+  await ensureTagsTables(DB)
+  await ensureTaskEventsTable(DB)
+  const { results: tagRows } = await DB.prepare('SELECT id, name FROM tags').all()
+  const tagIds = new Map((tagRows as Array<{ id: string; name: string }>).map((tag) => [tag.name, tag.id]))
+  let tagCount = tagIds.size
+
+  const now = new Date().toISOString()
+  const statements: D1PreparedStatement[] = []
+  const taskIds: string[] = []
+  for (const { task } of toImport) {
+    const id = uuidv4()
+    taskIds.push(id)
+    statements.push(DB.prepare(
+      'INSERT INTO tasks (id, title, category, minutes, status, created_at, updated_at, due_date, priority, notes) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+    ).bind(
+      id,
+      task!.title,
+      task!.category || 'chore',
+      task!.minutes || 15,
+      task!.status || 'todo',
+      now,
+      now,
+      task!.due_date || null,
+      task!.priority || 'medium',
+      task!.notes || null
+    ))
+    for (const name of task!.tags || []) {
+      let tagId = tagIds.get(name)
+      if (!tagId) {
+        tagId = uuidv4()
+        tagIds.set(name, tagId)
+        statements.push(DB.prepare(
+          'INSERT INTO tags (id, name, color, created_at) VALUES (?, ?, ?, ?)'
+        ).bind(tagId, name, TAG_COLOR_PALETTE[tagCount++ % TAG_COLOR_PALETTE.length], now))
+      }
+      statements.push(DB.prepare('INSERT OR IGNORE INTO task_tags (task_id, tag_id) VALUES (?, ?)').bind(id, tagId))
+    }
+    statements.push(...buildTaskEventStatements(DB, id, 'create', [{ field: 'title', old_value: null, new_value: task!.title }], 'import'))
+  }
+
+  // D1 のバッチは1トランザクションで実行されるため、途中で失敗した場合は1行も取り込まれない
+  try {
+    await DB.batch(statements)
+  } catch (error) {
+    return c.json({
+      error: 'Import failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500)
+  }
+
+  return c.json({ ...report, summary: { ...report.summary, imported: taskIds.length }, task_ids: taskIds }, 201)
+})
+
+// Update task
+app.put('/api/tasks/:id', async (c) => {
+  const { DB } = c.env
+  const id = c.req.param('id')
+  const body = await readJsonObject(c)
+  if (!body) return invalidBodyError(c)
+
+  const { data, errors } = validateTaskInput(body, 'update')
+  if (data.goal_id && !(await goalExists(DB, data.goal_id))) {
+    errors.goal_id = '目標が見つかりません'
+  }
+  const expected = parseIfMatch(c.req.header('If-Match'))
+  if (expected && expected.length === 0) {
+    errors.if_match = 'If-Match ヘッダーが不正です'
+  }
+  if (hasErrors(errors)) return validationError(c, errors)
+
+  const { results: beforeRows } = await DB.prepare(
+    'SELECT * FROM tasks WHERE id = ?'
+  ).bind(id).all()
+  if (beforeRows.length === 0) {
+    return c.json({ error: 'Task not found' }, 404)
+  }
+  const [before] = await attachTags(DB, beforeRows as Task[])
+  if (expected && !expected.includes(Number(before.version))) {
+    return conflictError(c, before)
+  }
+  
+  const updates: string[] = []
+  const values: any[] = []
+
+  const columns = ['title', 'category', 'minutes', 'status', 'due_date', 'priority', 'recurrence_rule', 'goal_id', 'notes'] as const
+  for (const column of columns) {
+    if (data[column] === undefined) continue
+    updates.push(`${column} = ?`)
+    values.push(data[column])
+  }
+
+  // 復元時に元のステータスへ戻せるよう記録しておく
+  if (data.status === 'deleted' && before.status !== 'deleted') {
+    updates.push('deleted_at = ?', 'status_before_delete = ?')
+    values.push(new Date().toISOString(), before.status)
+  } else if (data.status && data.status !== 'deleted' && before.status === 'deleted') {
+    updates.push('deleted_at = NULL', 'status_before_delete = NULL')
+  }
+  
+  if (updates.length === 0 && data.tags === undefined) {
+    return validationError(c, { body: '更新する項目がありません' })
+  }
+  
+  // タグだけの変更でもバージョンを進める（読み込み後に他の更新が入っていれば0件になる）
+  updates.push('version = version + 1', 'updated_at = ?')
+  values.push(new Date().toISOString(), id, before.version)
+  const result = await DB.prepare(
+    `UPDATE tasks SET ${updates.join(', ')} WHERE id = ? AND version = ?`
+  ).bind(...values).run()
+  if (!result.meta.changes) {
+    const { results: latest } = await DB.prepare('SELECT * FROM tasks WHERE id = ?').bind(id).all()
+    const [current] = await attachTags(DB, latest as Task[])
+    return conflictError(c, current)
+  }
+
+  if (data.tags !== undefined) {
+    await setTaskTags(DB, id, data.tags)
+  }
+  
+  const { results } = await DB.prepare(
+    'SELECT * FROM tasks WHERE id = ?'
+  ).bind(id).all()
+  
+  const [updated] = await attachTags(DB, results as Task[])
+
+  const changes = diffTaskFields(before, updated)
+  const tagNamesOf = (task: { tags: Array<{ name: string }> }) => task.tags.map((tag) => tag.name).join(', ')
+  if (tagNamesOf(before) !== tagNamesOf(updated)) {
+    changes.push({ field: 'tags', old_value: tagNamesOf(before) || null, new_value: tagNamesOf(updated) || null })
+  }
+  if (changes.length > 0) {
+    await recordTaskEvents(DB, id, 'update', changes, getEventSource(c))
+  }
+
+  // ボードで完了列へ移した場合もタイマーを止め、繰り返しタスクは次回分を生成する
+  if (before.status !== 'done' && updated.status === 'done') {
+    await ensureTimeEntriesTable(DB)
+    await buildStopTimerStatement(DB, new Date().toISOString(), [id]).run()
+    const occurrence = await buildNextOccurrence(DB, updated, todayInTimeZone(getUserTimeZone(c.env)))
+    if (occurrence) {
+      await DB.batch(occurrence.statements)
+    }
+  }
+
+  c.header('ETag', versionEtag(updated.version))
+  return c.json(updated)
+})
+
+// Delete task (soft delete)
+app.delete('/api/tasks/:id', async (c) => {
+  const { DB } = c.env
+  const id = c.req.param('id')
+
+  const { results } = await DB.prepare(
+    'SELECT status FROM tasks WHERE id = ?'
+  ).bind(id).all()
+
+  // 復元時に元のステータスへ戻せるよう記録しておく
+  if (results.length > 0 && results[0].status !== 'deleted') {
+    const now = new Date().toISOString()
+    await DB.prepare(
+      'UPDATE tasks SET status = ?, deleted_at = ?, status_before_delete = ?, version = version + 1, updated_at = ? WHERE id = ?'
+    ).bind('deleted', now, results[0].status, now, id).run()
+    await recordTaskEvents(DB, id, 'delete', [{ field: 'status', old_value: results[0].status, new_value: 'deleted' }], getEventSource(c))
+    await ensureTimeEntriesTable(DB)
+    await buildStopTimerStatement(DB, now, [id]).run()
+  }
+  
+  return c.json({ success: true })
+})
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30
+
+// ゴミ箱のタスクと子レコード（サブタスク・依存関係・タグ・履歴・作業記録）を完全削除
+async function purgeTasks(DB: D1Database, ids: string[]) {
+  if (ids.length === 0) return 0
+  await ensureSubtasksTable(DB)
+  await ensureTaskDependenciesTable(DB)
+  await ensureTagsTables(DB)
+  await ensureTaskEventsTable(DB)
+  await ensureTimeEntriesTable(DB)
+  await ensureFocusSessionsTable(DB)
+
+  // D1のバインド数上限を避けるため分割して実行
+  const chunkSize = 50
+  for (let i = 0; i < ids.length; i += chunkSize) {
+    const chunk = ids.slice(i, i + chunkSize)
+    const placeholders = chunk.map(() => '?').join(', ')
+    // 途中で復元されたタスクの子の行を消さないよう、どの削除もゴミ箱にあるタスクだけに絞る
+    const trashed = `SELECT id FROM tasks WHERE status = 'deleted' AND id IN (${placeholders})`
+    await DB.batch([
+      DB.prepare(`DELETE FROM subtasks WHERE task_id IN (${trashed})`).bind(...chunk),
+      DB.prepare(`DELETE FROM task_dependencies WHERE task_id IN (${trashed}) OR depends_on_id IN (${trashed})`).bind(...chunk, ...chunk),
+      DB.prepare(`DELETE FROM task_tags WHERE task_id IN (${trashed})`).bind(...chunk),
+      DB.prepare(`DELETE FROM task_events WHERE task_id IN (${trashed})`).bind(...chunk),
+      DB.prepare(`DELETE FROM time_entries WHERE task_id IN (${trashed})`).bind(...chunk),
+      // 集中セッションは統計に残し、タスクへの参照だけ外す
+      DB.prepare(`UPDATE focus_sessions SET task_id = NULL, subtask_id = NULL WHERE task_id IN (${trashed})`).bind(...chunk),
+      DB.prepare(`UPDATE tasks SET recurrence_parent_id = NULL WHERE recurrence_parent_id IN (${trashed})`).bind(...chunk),
+      DB.prepare(`DELETE FROM tasks WHERE status = 'deleted' AND id IN (${placeholders})`).bind(...chunk)
+    ])
+  }
+  return ids.length
+}
+
+// 保持期間を過ぎたゴミ箱のタスクを完全削除
+async function purgeExpiredTrash(DB: D1Database, retentionDays: number) {
+  const { results } = await DB.prepare(
+    "SELECT id FROM tasks WHERE status = 'deleted' AND COALESCE(deleted_at, created_at) < ?"
+  ).bind(new Date(Date.now() - retentionDays * 86400000).toISOString()).all()
+  return purgeTasks(DB, (results as Array<{ id: string }>).map((row) => row.id))
+}
+
+function getTrashRetentionDays(env: Bindings): number {
+  const days = Number(env.TRASH_RETENTION_DAYS)
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS
+}
+
+// List soft-deleted tasks (expired items are purged first)
+app.get('/api/trash', async (c) => {
+  const { DB } = c.env
+  const retentionDays = getTrashRetentionDays(c.env)
+  const purged = await purgeExpiredTrash(DB, retentionDays)
+
+  const { results } = await DB.prepare(
+    "SELECT * FROM tasks WHERE status = 'deleted' ORDER BY COALESCE(deleted_at, created_at) DESC"
+  ).all()
+
+  return c.json({ tasks: results, retentionDays, purged })
+})
+
+// Restore a soft-deleted task to its previous status
+app.post('/api/tasks/:id/restore', async (c) => {
+  const { DB } = c.env
+  const id = c.req.param('id')
+
+  const { results } = await DB.prepare(
+    "SELECT status_before_delete FROM tasks WHERE id = ? AND status = 'deleted'"
+  ).bind(id).all()
+  if (results.length === 0) {
+    return c.json({ error: 'Task not found in trash' }, 404)
+  }
+
+  const previous = results[0].status_before_delete === 'done' ? 'done' : 'todo'
+  await DB.prepare(
+    'UPDATE tasks SET status = ?, deleted_at = NULL, status_before_delete = NULL, version = version + 1, updated_at = ? WHERE id = ?'
+  ).bind(previous, new Date().toISOString(), id).run()
+  await recordTaskEvents(DB, id, 'update', [{ field: 'status', old_value: 'deleted', new_value: previous }], getEventSource(c))
+
+  const { results: restored } = await DB.prepare('SELECT * FROM tasks WHERE id = ?').bind(id).all()
+  return c.json(restored[0])
+})
+
+// Permanently delete one task from trash
+app.delete('/api/trash/:id', async (c) => {
+  const { DB } = c.env
+  const id = c.req.param('id')
+
+  const { results } = await DB.prepare(
+    "SELECT id FROM tasks WHERE id = ? AND status = 'deleted'"
+  ).bind(id).all()
+  if (results.length === 0) {
+    return c.json({ error: 'Task not found in trash' }, 404)
+  }
+
+  await purgeTasks(DB, [id])
+  return c.json({ success: true, purged: 1 })
+})
+
+// Empty trash (optionally only items older than N days)
+app.delete('/api/trash', async (c) => {
+  const { DB } = c.env
+  const olderThanRaw = c.req.query('older_than_days')
+
+  if (olderThanRaw !== undefined) {
+    const olderThanDays = Number(olderThanRaw)
+    if (!Number.isInteger(olderThanDays) || olderThanDays <= 0) {
+      return validationError(c, { older_than_days: '日数は1以上の整数で指定してください' })
+    }
+    const purged = await purgeExpiredTrash(DB, olderThanDays)
+    return c.json({ success: true, purged })
+  }
+
+  const { results } = await DB.prepare("SELECT id FROM tasks WHERE status = 'deleted'").all()
+  const purged = await purgeTasks(DB, (results as Array<{ id: string }>).map((row) => row.id))
+  return c.json({ success: true, purged })
+})
+
+// Toggle task completion
+app.post('/api/tasks/:id/toggle', async (c) => {
+  const { DB } = c.env
+  const id = c.req.param('id')
+  
+  // ゴミ箱のタスクは切り替えない（戻すのは復元で行う）
+  const { results } = await DB.prepare(
+    "SELECT * FROM tasks WHERE id = ? AND status != 'deleted'"
+  ).bind(id).all()
+  
+  if (results.length === 0) {
+    return c.json({ error: 'Task not found' }, 404)
   }
-
-  if (status === 'todo' || status === 'done') {
-    whereClauses.push('status = ?')
-    values.push(status)
+  
+  const current = results[0] as Task
+  const expected = parseIfMatch(c.req.header('If-Match'))
+  if (expected && expected.length === 0) {
+    return validationError(c, { if_match: 'If-Match ヘッダーが不正です' })
   }
-
-  if (['future', 'now', 'maintain', 'chore'].includes(category)) {
-    whereClauses.push('category = ?')
-    values.push(category)
+  if (expected && !expected.includes(Number(current.version))) {
+    const [latest] = await attachTags(DB, [current])
+    return conflictError(c, latest)
   }
-
-  if (['high', 'medium', 'low'].includes(priority)) {
-    whereClauses.push('priority = ?')
-    values.push(priority)
+  const newStatus = current.status === 'done' ? 'todo' : 'done'
+  
+  // 読み込み後に他の更新が入っていれば0件になる（同時に切り替えても片方の変更を黙って打ち消さない）
+  const updated = await DB.prepare(
+    'UPDATE tasks SET status = ?, version = version + 1, updated_at = ? WHERE id = ? AND version = ? RETURNING version'
+  ).bind(newStatus, new Date().toISOString(), id, current.version).first<{ version: number }>()
+  if (!updated) {
+    const { results: latestRows } = await DB.prepare('SELECT * FROM tasks WHERE id = ?').bind(id).all()
+    const [latest] = await attachTags(DB, latestRows as Task[])
+    return conflictError(c, latest)
   }
+  await recordTaskEvents(DB, id, 'toggle', [{ field: 'status', old_value: current.status, new_value: newStatus }], getEventSource(c))
 
-  const today = new Date().toISOString().split('T')[0]
-  if (due === 'overdue') {
-    whereClauses.push('due_date IS NOT NULL AND due_date < ?')
-    values.push(today)
-  } else if (due === 'today') {
-    whereClauses.push('due_date = ?')
-    values.push(today)
-  } else if (due === 'three_days') {
-    whereClauses.push('due_date IS NOT NULL AND due_date BETWEEN ? AND date(?, \'+3 day\')')
-    values.push(today, today)
-  } else if (due === 'week') {
-    whereClauses.push('due_date IS NOT NULL AND due_date BETWEEN ? AND date(?, \'+7 day\')')
-    values.push(today, today)
-  } else if (due === 'none') {
-    whereClauses.push('due_date IS NULL')
+  // 完了したタスクのタイマーは止め、繰り返しタスクなら次回分を生成
+  if (newStatus === 'done') {
+    await ensureTimeEntriesTable(DB)
+    await buildStopTimerStatement(DB, new Date().toISOString(), [id]).run()
   }
-
-  const orderByMap: Record<string, string> = {
-    due_asc: 'CASE WHEN due_date IS NULL THEN 1 ELSE 0 END, due_date ASC, created_at DESC',
-    due_desc: 'CASE WHEN due_date IS NULL THEN 1 ELSE 0 END, due_date DESC, created_at DESC',
-    priority: "CASE priority WHEN 'high' THEN 3 WHEN 'medium' THEN 2 WHEN 'low' THEN 1 ELSE 0 END DESC, due_date ASC",
-    created_desc: 'created_at DESC',
-    created_asc: 'created_at ASC'
+  const occurrence = newStatus === 'done' ? await buildNextOccurrence(DB, current, todayInTimeZone(getUserTimeZone(c.env))) : null
+  if (occurrence) {
+    await DB.batch(occurrence.statements)
   }
-  const orderBy = orderByMap[sort] || orderByMap.due_asc
-
-  const sql = `SELECT * FROM tasks WHERE ${whereClauses.join(' AND ')} ORDER BY ${orderBy}`
-  const { results } = await DB.prepare(sql).bind(...values).all()
-  return c.json(results)
+  
+  c.header('ETag', versionEtag(updated.version))
+  return c.json({ status: newStatus, next: occurrence?.next || null })
 })
 
-// Task statistics
-app.get('/api/tasks/stats', async (c) => {
+const TASK_POSITION_GAP = 1024
+
+// ボードの列（status または category が同じタスク）を手動順に並べ直し、位置を振り直す
+async function renumberTaskColumn(DB: D1Database, groupBy: 'status' | 'category', value: string) {
+  const { results } = await DB.prepare(
+    `SELECT id FROM tasks WHERE status != 'deleted' AND ${groupBy} = ?
+     ORDER BY CASE WHEN position IS NULL THEN 1 ELSE 0 END, position ASC, created_at ASC, id ASC`
+  ).bind(value).all()
+  const ids = (results as Array<{ id: string }>).map((row) => row.id)
+  if (ids.length === 0) return
+  await DB.batch(ids.map((id, i) => DB.prepare('UPDATE tasks SET position = ? WHERE id = ?').bind((i + 1) * TASK_POSITION_GAP, id)))
+}
+
+// Move task within its board column (after_id = null puts it at the top)
+app.post('/api/tasks/:id/move', async (c) => {
   const { DB } = c.env
-  const today = new Date().toISOString().split('T')[0]
+  const id = c.req.param('id')
+  const body = await readJsonObject(c)
+  if (!body) return invalidBodyError(c)
+
+  const errors: FieldErrors = {}
+  const groupBy = (body.group_by ?? 'status') as 'status' | 'category'
+  checkEnumField(errors, 'group_by', groupBy, ['status', 'category'])
+  const afterId = body.after_id ?? null
+  if (afterId !== null && typeof afterId !== 'string') errors.after_id = '直前のタスクIDを文字列で指定してください'
+  if (afterId === id) errors.after_id = '自分自身の後ろには移動できません'
+  if (hasErrors(errors)) return validationError(c, errors)
 
   const { results } = await DB.prepare(
-    'SELECT category, status, due_date FROM tasks WHERE status != ?'
-  ).bind('deleted').all()
+    "SELECT * FROM tasks WHERE id = ? AND status != 'deleted'"
+  ).bind(id).all()
+  if (results.length === 0) {
+    return c.json({ error: 'Task not found' }, 404)
+  }
+  const task = results[0] as Task
+  const columnValue = task[groupBy]
+
+  // 同じ列の直前・直後のタスクの位置（after_id が列にない場合は null）
+  const loadNeighbors = async () => {
+    const { results: column } = await DB.prepare(
+      `SELECT id, position FROM tasks WHERE status != 'deleted' AND ${groupBy} = ? AND id != ?
+       ORDER BY CASE WHEN position IS NULL THEN 1 ELSE 0 END, position ASC, created_at ASC, id ASC`
+    ).bind(columnValue, id).all()
+    const rows = column as Array<{ id: string; position: number | null }>
+    const index = afterId === null ? -1 : rows.findIndex((row) => row.id === afterId)
+    if (afterId !== null && index < 0) return null
+    return { prev: index >= 0 ? rows[index] : null, next: rows[index + 1] || null }
+  }
 
-  const tasks = results as Array<{ category: string; status: string; due_date?: string | null }>
-  const total = tasks.length
-  const done = tasks.filter((t) => t.status === 'done').length
-  const todo = tasks.filter((t) => t.status === 'todo').length
-  const overdue = tasks.filter((t) => t.status === 'todo' && t.due_date && t.due_date < today).length
-  const completionRate = total > 0 ? Math.round((done / total) * 100) : 0
+  let neighbors = await loadNeighbors()
+  if (!neighbors) {
+    return validationError(c, { after_id: '直前のタスクが同じ列にありません' })
+  }
 
-  const byCategory = {
-    future: tasks.filter((t) => t.category === 'future').length,
-    now: tasks.filter((t) => t.category === 'now').length,
-    maintain: tasks.filter((t) => t.category === 'maintain').length,
-    chore: tasks.filter((t) => t.category === 'chore').length
+  // 位置が未設定、または間隔が詰まりすぎている場合は列全体を振り直してから計算する
+  const { prev, next } = neighbors
+  if (
+    (prev && prev.position === null) ||
+    (next && next.position === null) ||
+    (prev && next && (next.position as number) - (prev.position as number) < 1e-6)
+  ) {
+    await renumberTaskColumn(DB, groupBy, columnValue as string)
+    neighbors = (await loadNeighbors())!
   }
 
-  return c.json({
-    total,
-    todo,
-    done,
-    overdue,
-    completionRate,
-    byCategory
-  })
+  const prevPosition = neighbors.prev?.position ?? null
+  const nextPosition = neighbors.next?.position ?? null
+  let position: number
+  if (prevPosition === null && nextPosition === null) position = TASK_POSITION_GAP
+  else if (prevPosition === null) position = (nextPosition as number) - TASK_POSITION_GAP
+  else if (nextPosition === null) position = prevPosition + TASK_POSITION_GAP
+  else position = (prevPosition + nextPosition) / 2
+
+  await DB.prepare('UPDATE tasks SET position = ? WHERE id = ?').bind(position, id).run()
+  return c.json({ id, position, group_by: groupBy, column: columnValue })
 })
 
-async function ensureSubtasksTable(DB: D1Database) {
+type TimeEntry = {
+  id: string;
+  task_id: string;
+  subtask_id: string | null;
+  started_at: string;
+  ended_at: string | null;
+  duration_seconds: number | null;
+  note: string | null;
+  source: 'timer' | 'manual';
+  created_at: string;
+  updated_at: string | null;
+}
+
+const MAX_TIME_ENTRY_NOTE_LENGTH = 500
+
+async function ensureTimeEntriesTable(DB: D1Database) {
   await DB.prepare(`
-    CREATE TABLE IF NOT EXISTS subtasks (
+    CREATE TABLE IF NOT EXISTS time_entries (
       id TEXT PRIMARY KEY,
       task_id TEXT NOT NULL,
-      title TEXT NOT NULL,
-      minutes INTEGER NOT NULL DEFAULT 15,
-      order_index INTEGER NOT NULL DEFAULT 0,
-      status TEXT NOT NULL DEFAULT 'todo' CHECK(status IN ('todo', 'done')),
-      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      subtask_id TEXT,
+      started_at TEXT NOT NULL,
+      ended_at TEXT,
+      duration_seconds INTEGER,
+      note TEXT,
+      source TEXT NOT NULL DEFAULT 'timer' CHECK(source IN ('timer', 'manual')),
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT
     )
   `).run()
+  await DB.prepare(
+    'CREATE UNIQUE INDEX IF NOT EXISTS idx_time_entries_running ON time_entries((ended_at IS NULL)) WHERE ended_at IS NULL'
+  ).run()
 }
 
-// Get subtasks by task
-app.get('/api/tasks/:id/subtasks', async (c) => {
-  const { DB } = c.env
-  const taskId = c.req.param('id')
-  await ensureSubtasksTable(DB)
+// 計測中のタイマーを止める文（taskIds を指定するとそのタスクのタイマーだけ止める）
+function buildStopTimerStatement(DB: D1Database, now: string, taskIds?: string[]) {
+  const filter = taskIds ? ` AND task_id IN (${taskIds.map(() => '?').join(', ')})` : ''
+  return DB.prepare(
+    `UPDATE time_entries
+     SET ended_at = ?, duration_seconds = MAX(0, CAST(ROUND((julianday(?) - julianday(started_at)) * 86400) AS INTEGER)), updated_at = ?
+     WHERE ended_at IS NULL${filter}`
+  ).bind(now, now, now, ...(taskIds || []))
+}
 
+// 秒数を分に丸め、計測中なら経過秒数を付けて返す
+function toTimeEntry(row: any, now = Date.now()) {
+  const entry = row as TimeEntry & { task_title?: string; subtask_title?: string | null }
+  const running = !entry.ended_at
+  const seconds = running
+    ? Math.max(0, Math.round((now - Date.parse(entry.started_at)) / 1000))
+    : Number(entry.duration_seconds) || 0
+  return { ...entry, running, elapsed_seconds: seconds, minutes: Math.round(seconds / 60) }
+}
+
+async function getRunningTimer(DB: D1Database) {
+  await ensureTimeEntriesTable(DB)
+  await ensureSubtasksTable(DB)
   const { results } = await DB.prepare(
-    'SELECT * FROM subtasks WHERE task_id = ? ORDER BY order_index ASC, created_at ASC'
-  ).bind(taskId).all()
+    `SELECT e.*, t.title AS task_title, t.category AS task_category, s.title AS subtask_title
+     FROM time_entries e
+     JOIN tasks t ON t.id = e.task_id
+     LEFT JOIN subtasks s ON s.id = e.subtask_id
+     WHERE e.ended_at IS NULL`
+  ).all()
+  return results.length > 0 ? toTimeEntry(results[0]) : null
+}
 
-  return c.json(results)
-})
+async function getTimeEntry(DB: D1Database, id: string) {
+  await ensureTimeEntriesTable(DB)
+  const { results } = await DB.prepare('SELECT * FROM time_entries WHERE id = ?').bind(id).all()
+  return results.length > 0 ? (results[0] as TimeEntry) : null
+}
 
-// Toggle subtask done/todo
-app.post('/api/subtasks/:id/toggle', async (c) => {
-  const { DB } = c.env
-  const subtaskId = c.req.param('id')
+// サブタスクIDが指定されたタスクのものか確認（null は「タスク全体」）
+async function checkSubtaskOfTask(DB: D1Database, errors: FieldErrors, taskId: string, subtaskId: unknown) {
+  if (subtaskId === undefined || subtaskId === null) return
+  if (typeof subtaskId !== 'string') {
+    errors.subtask_id = 'サブタスクIDを文字列で指定してください'
+    return
+  }
   await ensureSubtasksTable(DB)
-
   const { results } = await DB.prepare(
-    'SELECT status FROM subtasks WHERE id = ?'
-  ).bind(subtaskId).all()
+    'SELECT id FROM subtasks WHERE id = ? AND task_id = ?'
+  ).bind(subtaskId, taskId).all()
+  if (results.length === 0) errors.subtask_id = 'このタスクのサブタスクではありません'
+}
 
-  if (results.length === 0) {
-    return c.json({ error: 'Subtask not found' }, 404)
+// 手動追加・編集のボディを検証（開始・終了か、開始と分数のどちらかで期間を指定）
+function parseTimeEntryBody(body: Record<string, any>, current: TimeEntry | null) {
+  const fields: { started_at?: string; ended_at?: string; duration_seconds?: number; note?: string | null; subtask_id?: string | null } = {}
+  const errors: FieldErrors = {}
+
+  if (body.started_at !== undefined && !isValidDateTimeString(body.started_at)) {
+    errors.started_at = '開始日時をISO形式で指定してください'
+  }
+  if (body.ended_at !== undefined && !isValidDateTimeString(body.ended_at)) {
+    errors.ended_at = '終了日時をISO形式で指定してください'
+  }
+  if (body.minutes !== undefined && (!Number.isInteger(body.minutes) || body.minutes < 1 || body.minutes > MAX_TASK_MINUTES)) {
+    errors.minutes = `時間は1〜${MAX_TASK_MINUTES}分の整数で指定してください`
+  }
+  if (body.ended_at !== undefined && body.minutes !== undefined) {
+    errors.minutes = '終了日時と分数はどちらか一方を指定してください'
+  }
+  if (body.note !== undefined && body.note !== null && (typeof body.note !== 'string' || body.note.length > MAX_TIME_ENTRY_NOTE_LENGTH)) {
+    errors.note = `メモは${MAX_TIME_ENTRY_NOTE_LENGTH}文字以内で入力してください`
+  }
+  if (body.subtask_id !== undefined) fields.subtask_id = body.subtask_id
+  if (body.note !== undefined) fields.note = typeof body.note === 'string' && body.note.trim() ? body.note.trim() : null
+  if (hasErrors(errors)) return { fields, errors }
+
+  // 計測中のタイマーは開始日時とメモ・サブタスクだけ変更できる
+  if (current && !current.ended_at) {
+    if (body.ended_at !== undefined || body.minutes !== undefined) {
+      errors.ended_at = '計測中の記録は終了日時を変更できません。先にタイマーを止めてください'
+    }
+    if (body.started_at !== undefined) {
+      if (Date.parse(body.started_at) > Date.now()) errors.started_at = '開始日時は現在より前にしてください'
+      else fields.started_at = new Date(body.started_at).toISOString()
+    }
+    return { fields, errors }
   }
 
-  const current = results[0].status as string
-  const next = current === 'done' ? 'todo' : 'done'
-  await DB.prepare('UPDATE subtasks SET status = ? WHERE id = ?').bind(next, subtaskId).run()
+  if (!current && body.ended_at === undefined && body.minutes === undefined) {
+    errors.minutes = '分数または終了日時を指定してください'
+    return { fields, errors }
+  }
 
-  return c.json({ status: next })
+  let startedAtMs = body.started_at !== undefined ? Date.parse(body.started_at) : current ? Date.parse(current.started_at) : null
+  let endedAtMs = body.ended_at !== undefined ? Date.parse(body.ended_at) : current ? Date.parse(current.ended_at!) : null
+  if (body.minutes !== undefined) {
+    // 分数だけの手動追加は「今終わった作業」として記録する
+    if (startedAtMs === null) startedAtMs = Date.now() - body.minutes * 60000
+    endedAtMs = startedAtMs + body.minutes * 60000
+  }
+  if (startedAtMs === null || endedAtMs === null) {
+    errors.started_at = '開始日時を指定してください'
+    return { fields, errors }
+  }
+
+  if (endedAtMs <= startedAtMs) {
+    errors.ended_at = '終了日時は開始日時より後にしてください'
+  } else if (endedAtMs - startedAtMs > MAX_TASK_MINUTES * 60000) {
+    errors.ended_at = `1件の記録は${MAX_TASK_MINUTES}分以内にしてください`
+  } else {
+    fields.started_at = new Date(startedAtMs).toISOString()
+    fields.ended_at = new Date(endedAtMs).toISOString()
+    fields.duration_seconds = Math.round((endedAtMs - startedAtMs) / 1000)
+  }
+  return { fields, errors }
+}
+
+// Get the running timer (null when idle)
+app.get('/api/timer', async (c) => {
+  return c.json({ running: await getRunningTimer(c.env.DB) })
 })
 
-// AI decomposition and save subtasks
-app.post('/api/tasks/:id/decompose', async (c) => {
+// Start a timer for a task / subtask (a running timer on another task is stopped first)
+app.post('/api/timer/start', async (c) => {
   const { DB } = c.env
-  const taskId = c.req.param('id')
-  const body = await c.req.json().catch(() => ({}))
-  const provider = body?.provider || 'auto'
+  const body = await readJsonObject(c)
+  if (!body) return invalidBodyError(c)
+
+  const errors: FieldErrors = {}
+  const taskId = body.task_id
+  if (typeof taskId !== 'string' || !taskId) errors.task_id = 'タスクIDを指定してください'
+  if (body.note !== undefined && body.note !== null && (typeof body.note !== 'string' || body.note.length > MAX_TIME_ENTRY_NOTE_LENGTH)) {
+    errors.note = `メモは${MAX_TIME_ENTRY_NOTE_LENGTH}文字以内で入力してください`
+  }
+  if (hasErrors(errors)) return validationError(c, errors)
 
   const { results } = await DB.prepare(
-    'SELECT id, title, minutes, category, priority, due_date FROM tasks WHERE id = ? AND status != ?'
-  ).bind(taskId, 'deleted').all()
-
+    "SELECT id FROM tasks WHERE id = ? AND status != 'deleted'"
+  ).bind(taskId).all()
   if (results.length === 0) {
     return c.json({ error: 'Task not found' }, 404)
   }
+  await checkSubtaskOfTask(DB, errors, taskId, body.subtask_id)
+  if (hasErrors(errors)) return validationError(c, errors)
 
-  const task = results[0] as any
-  const totalMinutes = Number(task.minutes) || 30
-  const prompt =
-    `以下のタスクを「実行可能な最小単位」に分解してください。\n` +
-    `条件:\n` +
-    `- 1ステップは10〜45分\n` +
-    `- 行動が明確で、今すぐ着手できる表現\n` +
-    `- 最大8ステップ\n` +
-    `- 出力はJSON配列のみ: [{"title":"...","minutes":15}]\n\n` +
-    `タスク名: ${task.title}\n` +
-    `想定時間: ${totalMinutes}分\n` +
-    `カテゴリ: ${task.category || 'now'}\n` +
-    `優先度: ${task.priority || 'medium'}\n` +
-    `期日: ${task.due_date || '未設定'}`
-
-  let rawSteps: any[] | null = null
-
-  if (provider === 'openai') {
-    rawSteps = await callOpenAIDecompose(c.env, prompt)
-  } else if (provider === 'gemini') {
-    rawSteps = await callGeminiDecompose(c.env, prompt)
-  } else {
-    try {
-      rawSteps = await callOpenAIDecompose(c.env, prompt)
-    } catch {
-      rawSteps = null
-    }
-    if (!rawSteps || rawSteps.length === 0) {
-      rawSteps = await callGeminiDecompose(c.env, prompt)
-    }
+  const subtaskId = body.subtask_id ?? null
+  const previous = await getRunningTimer(DB)
+  if (previous && previous.task_id === taskId && previous.subtask_id === subtaskId) {
+    return c.json({ running: previous, stopped: null })
   }
 
-  if (!rawSteps || rawSteps.length === 0) {
-    return c.json({
-      error: 'AI decomposition unavailable',
-      message: 'Set OPENAI_API_KEY or GEMINI_API_KEY and try again'
-    }, 400)
+  const id = uuidv4()
+  const now = new Date().toISOString()
+  try {
+    await DB.batch([
+      buildStopTimerStatement(DB, now),
+      DB.prepare(
+        "INSERT INTO time_entries (id, task_id, subtask_id, started_at, note, source, created_at, updated_at) VALUES (?, ?, ?, ?, ?, 'timer', ?, ?)"
+      ).bind(id, taskId, subtaskId, now, typeof body.note === 'string' && body.note.trim() ? body.note.trim() : null, now, now)
+    ])
+  } catch {
+    // 別の端末が同時に開始した場合は一意制約で弾かれる
+    return c.json({ error: 'Conflict', message: '別の端末でタイマーが開始されました。再読み込みしてください' }, 409)
   }
 
-  const steps = normalizeSubtasks(rawSteps, totalMinutes)
-  if (steps.length === 0) {
-    return c.json({ error: 'Failed to parse AI response' }, 500)
+  const stopped = previous ? await getTimeEntry(DB, previous.id) : null
+  return c.json({ running: await getRunningTimer(DB), stopped: stopped ? toTimeEntry(stopped) : null }, 201)
+})
+
+// Stop the running timer
+app.post('/api/timer/stop', async (c) => {
+  const { DB } = c.env
+  const running = await getRunningTimer(DB)
+  if (!running) {
+    return c.json({ error: 'No running timer' }, 404)
   }
+  await buildStopTimerStatement(DB, new Date().toISOString()).run()
+  return c.json(toTimeEntry(await getTimeEntry(DB, running.id)))
+})
 
+// List time entries of a task with totals (per subtask as well)
+app.get('/api/tasks/:id/time-entries', async (c) => {
+  const { DB } = c.env
+  const id = c.req.param('id')
+  await ensureTimeEntriesTable(DB)
   await ensureSubtasksTable(DB)
-  await DB.prepare('DELETE FROM subtasks WHERE task_id = ?').bind(taskId).run()
+  const { results } = await DB.prepare(
+    `SELECT e.*, s.title AS subtask_title
+     FROM time_entries e LEFT JOIN subtasks s ON s.id = e.subtask_id
+     WHERE e.task_id = ?
+     ORDER BY e.started_at DESC`
+  ).bind(id).all()
 
-  for (let i = 0; i < steps.length; i += 1) {
-    await DB.prepare(
-      'INSERT INTO subtasks (id, task_id, title, minutes, order_index, status, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
-    ).bind(
-      uuidv4(),
-      taskId,
-      steps[i].title,
-      steps[i].minutes,
-      i + 1,
-      'todo',
-      new Date().toISOString()
-    ).run()
+  const entries = (results as any[]).map((row) => toTimeEntry(row))
+  const bySubtask: Record<string, number> = {}
+  let totalSeconds = 0
+  for (const entry of entries) {
+    totalSeconds += entry.elapsed_seconds
+    if (entry.subtask_id) bySubtask[entry.subtask_id] = (bySubtask[entry.subtask_id] || 0) + entry.elapsed_seconds
   }
-
-  const { results: saved } = await DB.prepare(
-    'SELECT * FROM subtasks WHERE task_id = ? ORDER BY order_index ASC'
-  ).bind(taskId).all()
-
-  return c.json({ provider, subtasks: saved })
+  return c.json({
+    entries,
+    total_minutes: Math.round(totalSeconds / 60),
+    by_subtask: Object.fromEntries(Object.entries(bySubtask).map(([subtaskId, seconds]) => [subtaskId, Math.round(seconds / 60)]))
+  })
 })
 
-// Get single task
-app.get('/api/tasks/:id', async (c) => {
+// Add a manual time entry
+app.post('/api/tasks/:id/time-entries', async (c) => {
   const { DB } = c.env
-  const id = c.req.param('id')
-  
+  const taskId = c.req.param('id')
+  const body = await readJsonObject(c)
+  if (!body) return invalidBodyError(c)
+
   const { results } = await DB.prepare(
-    'SELECT * FROM tasks WHERE id = ?'
-  ).bind(id).all()
-  
+    "SELECT id FROM tasks WHERE id = ? AND status != 'deleted'"
+  ).bind(taskId).all()
   if (results.length === 0) {
     return c.json({ error: 'Task not found' }, 404)
   }
-  
-  return c.json(results[0])
+
+  const parsed = parseTimeEntryBody(body, null)
+  await checkSubtaskOfTask(DB, parsed.errors, taskId, body.subtask_id)
+  if (hasErrors(parsed.errors)) return validationError(c, parsed.errors)
+
+  await ensureTimeEntriesTable(DB)
+  const id = uuidv4()
+  const now = new Date().toISOString()
+  const { fields } = parsed
+  await DB.prepare(
+    `INSERT INTO time_entries (id, task_id, subtask_id, started_at, ended_at, duration_seconds, note, source, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, 'manual', ?, ?)`
+  ).bind(id, taskId, fields.subtask_id ?? null, fields.started_at, fields.ended_at, fields.duration_seconds, fields.note ?? null, now, now).run()
+
+  return c.json(toTimeEntry(await getTimeEntry(DB, id)), 201)
 })
 
-// Create new task
-app.post('/api/tasks', async (c) => {
+// Edit a time entry (start / end / minutes / note / subtask)
+app.put('/api/time-entries/:id', async (c) => {
   const { DB } = c.env
-  const body = await c.req.json()
-  
-  const id = uuidv4()
-  const task: Task = {
-    id,
-    title: body.title,
-    category: body.category || 'chore',
-    minutes: body.minutes || 15,
-    status: 'todo',
-    created_at: new Date().toISOString(),
-    due_date: body.due_date || null,
-    priority: body.priority || 'medium'
+  const id = c.req.param('id')
+  const body = await readJsonObject(c)
+  if (!body) return invalidBodyError(c)
+
+  const current = await getTimeEntry(DB, id)
+  if (!current) {
+    return c.json({ error: 'Time entry not found' }, 404)
+  }
+  const parsed = parseTimeEntryBody(body, current)
+  await checkSubtaskOfTask(DB, parsed.errors, current.task_id, body.subtask_id)
+  if (hasErrors(parsed.errors)) return validationError(c, parsed.errors)
+
+  const entries = Object.entries(parsed.fields)
+  if (entries.length === 0) {
+    return validationError(c, { body: '更新する項目がありません' })
   }
-  
   await DB.prepare(
-    'INSERT INTO tasks (id, title, category, minutes, status, created_at, due_date, priority) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
-  ).bind(
-    task.id,
-    task.title,
-    task.category,
-    task.minutes,
-    task.status,
-    task.created_at,
-    task.due_date,
-    task.priority
-  ).run()
-  
-  return c.json(task, 201)
+    `UPDATE time_entries SET ${entries.map(([key]) => `${key} = ?`).join(', ')}, updated_at = ? WHERE id = ?`
+  ).bind(...entries.map(([, value]) => value), new Date().toISOString(), id).run()
+
+  return c.json(toTimeEntry(await getTimeEntry(DB, id)))
+})
+
+// Delete a time entry
+app.delete('/api/time-entries/:id', async (c) => {
+  const { DB } = c.env
+  await ensureTimeEntriesTable(DB)
+  await DB.prepare('DELETE FROM time_entries WHERE id = ?').bind(c.req.param('id')).run()
+  return c.json({ success: true })
+})
+
+type FocusSession = {
+  id: string;
+  task_id: string | null;
+  subtask_id: string | null;
+  title: string;
+  category: Task['category'] | null;
+  work_minutes: number;
+  break_minutes: number;
+  block_start: string | null;
+  block_end: string | null;
+  status: 'running' | 'completed' | 'interrupted';
+  started_at: string;
+  ended_at: string | null;
+  created_at: string;
+}
+
+const DEFAULT_FOCUS_WORK_MINUTES = 25
+const DEFAULT_FOCUS_BREAK_MINUTES = 5
+const MAX_FOCUS_WORK_MINUTES = 180
+const MAX_FOCUS_BREAK_MINUTES = 60
+
+async function ensureFocusSessionsTable(DB: D1Database) {
+  await DB.prepare(`
+    CREATE TABLE IF NOT EXISTS focus_sessions (
+      id TEXT PRIMARY KEY,
+      task_id TEXT,
+      subtask_id TEXT,
+      title TEXT NOT NULL,
+      category TEXT CHECK(category IN ('future', 'now', 'maintain', 'chore')),
+      work_minutes INTEGER NOT NULL,
+      break_minutes INTEGER NOT NULL,
+      block_start TEXT,
+      block_end TEXT,
+      status TEXT NOT NULL DEFAULT 'running' CHECK(status IN ('running', 'completed', 'interrupted')),
+      started_at TEXT NOT NULL,
+      ended_at TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )
+  `).run()
+}
+
+async function getFocusSession(DB: D1Database, id: string): Promise<FocusSession | null> {
+  await ensureFocusSessionsTable(DB)
+  const { results } = await DB.prepare('SELECT * FROM focus_sessions WHERE id = ?').bind(id).all()
+  return results.length > 0 ? (results[0] as FocusSession) : null
+}
+
+// 中断扱いにする文（新しいセッションを始めるときに実行中のものを閉じる）
+function buildInterruptFocusStatement(DB: D1Database, now: string) {
+  return DB.prepare(
+    "UPDATE focus_sessions SET status = 'interrupted', ended_at = ? WHERE status = 'running'"
+  ).bind(now)
+}
+
+// Get the running focus session (null when idle)
+app.get('/api/focus/current', async (c) => {
+  const { DB } = c.env
+  await ensureFocusSessionsTable(DB)
+  const { results } = await DB.prepare(
+    "SELECT * FROM focus_sessions WHERE status = 'running' ORDER BY started_at DESC LIMIT 1"
+  ).all()
+  return c.json({ session: results[0] || null })
 })
 
-// Update task
-app.put('/api/tasks/:id', async (c) => {
+// List focus sessions of a day (date=YYYY-MM-DD, default today)
+app.get('/api/focus/sessions', async (c) => {
   const { DB } = c.env
-  const id = c.req.param('id')
-  const body = await c.req.json()
-  
-  const updates: string[] = []
-  const values: any[] = []
-  
-  if (body.title !== undefined) {
-    updates.push('title = ?')
-    values.push(body.title)
+  const timeZone = getUserTimeZone(c.env)
+  const date = c.req.query('date') ?? todayInTimeZone(timeZone)
+  if (!isValidDateString(date)) {
+    return validationError(c, { date: '日付はYYYY-MM-DD形式で指定してください' })
   }
-  if (body.category !== undefined) {
-    updates.push('category = ?')
-    values.push(body.category)
-  }
-  if (body.minutes !== undefined) {
-    updates.push('minutes = ?')
-    values.push(body.minutes)
+
+  // 日付は利用者のタイムゾーンの1日（0:00〜24:00）として開始日時で絞り込む
+  await ensureFocusSessionsTable(DB)
+  const { results } = await DB.prepare(
+    'SELECT * FROM focus_sessions WHERE started_at >= ? AND started_at < ? ORDER BY started_at ASC'
+  ).bind(parseTime('00:00', date, timeZone).toISOString(), parseTime('24:00', date, timeZone).toISOString()).all()
+  const sessions = results as FocusSession[]
+  const completed = sessions.filter((session) => session.status === 'completed')
+  return c.json({
+    date,
+    sessions,
+    completed: completed.length,
+    focus_minutes: completed.reduce((sum, session) => sum + session.work_minutes, 0)
+  })
+})
+
+// Start a focus session from a task or a schedule block (a running session is interrupted)
+app.post('/api/focus/sessions', async (c) => {
+  const { DB } = c.env
+  const body = await readJsonObject(c)
+  if (!body) return invalidBodyError(c)
+
+  const errors: FieldErrors = {}
+  const workMinutes = body.work_minutes ?? DEFAULT_FOCUS_WORK_MINUTES
+  const breakMinutes = body.break_minutes ?? DEFAULT_FOCUS_BREAK_MINUTES
+  if (!Number.isInteger(workMinutes) || workMinutes < 1 || workMinutes > MAX_FOCUS_WORK_MINUTES) {
+    errors.work_minutes = `作業時間は1〜${MAX_FOCUS_WORK_MINUTES}分の整数で指定してください`
   }
-  if (body.status !== undefined) {
-    updates.push('status = ?')
-    values.push(body.status)
+  if (!Number.isInteger(breakMinutes) || breakMinutes < 0 || breakMinutes > MAX_FOCUS_BREAK_MINUTES) {
+    errors.break_minutes = `休憩時間は0〜${MAX_FOCUS_BREAK_MINUTES}分の整数で指定してください`
   }
-  if (body.due_date !== undefined) {
-    updates.push('due_date = ?')
-    values.push(body.due_date)
+  if (body.task_id !== undefined && body.task_id !== null && typeof body.task_id !== 'string') {
+    errors.task_id = 'タスクIDを文字列で指定してください'
   }
-  if (body.priority !== undefined) {
-    updates.push('priority = ?')
-    values.push(body.priority)
+  if (body.category !== undefined && body.category !== null) checkEnumField(errors, 'category', body.category, TASK_CATEGORIES)
+  for (const field of ['block_start', 'block_end']) {
+    if (body[field] !== undefined && body[field] !== null && !isValidTimeString(body[field])) {
+      errors[field] = '時刻はHH:mm形式で指定してください'
+    }
   }
-  
-  if (updates.length === 0) {
-    return c.json({ error: 'No fields to update' }, 400)
+  if (hasErrors(errors)) return validationError(c, errors)
+
+  // タスクから始める場合はタイトルとカテゴリをタスクから引き継ぐ
+  let task: Task | null = null
+  if (body.task_id) {
+    const { results } = await DB.prepare(
+      "SELECT * FROM tasks WHERE id = ? AND status != 'deleted'"
+    ).bind(body.task_id).all()
+    if (results.length === 0) {
+      return c.json({ error: 'Task not found' }, 404)
+    }
+    task = results[0] as Task
+    await checkSubtaskOfTask(DB, errors, task.id, body.subtask_id)
+  } else if (body.subtask_id !== undefined && body.subtask_id !== null) {
+    errors.subtask_id = 'サブタスクを指定する場合はタスクIDも指定してください'
   }
-  
-  values.push(id)
-  
-  await DB.prepare(
-    `UPDATE tasks SET ${updates.join(', ')} WHERE id = ?`
-  ).bind(...values).run()
-  
-  const { results } = await DB.prepare(
-    'SELECT * FROM tasks WHERE id = ?'
-  ).bind(id).all()
-  
-  return c.json(results[0])
+  const title = typeof body.title === 'string' && body.title.trim() ? body.title.trim() : task?.title
+  if (!title || title.length > MAX_TITLE_LENGTH) errors.title = `タイトルは1〜${MAX_TITLE_LENGTH}文字で入力してください`
+  if (hasErrors(errors)) return validationError(c, errors)
+
+  await ensureFocusSessionsTable(DB)
+  const id = uuidv4()
+  const now = new Date().toISOString()
+  await DB.batch([
+    buildInterruptFocusStatement(DB, now),
+    DB.prepare(
+      `INSERT INTO focus_sessions (id, task_id, subtask_id, title, category, work_minutes, break_minutes, block_start, block_end, status, started_at, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'running', ?, ?)`
+    ).bind(
+      id, task?.id ?? null, body.subtask_id ?? null, title, body.category ?? task?.category ?? null,
+      workMinutes, breakMinutes, body.block_start ?? null, body.block_end ?? null, now, now
+    )
+  ])
+
+  return c.json(await getFocusSession(DB, id), 201)
 })
 
-// Delete task (soft delete)
-app.delete('/api/tasks/:id', async (c) => {
+// Finish a focus session (completed when the work interval ran out, interrupted when stopped early)
+app.post('/api/focus/sessions/:id/finish', async (c) => {
   const { DB } = c.env
   const id = c.req.param('id')
-  
+  const body = await readJsonObject(c, true)
+  if (!body) return invalidBodyError(c)
+
+  const errors: FieldErrors = {}
+  const status = body.status ?? 'completed'
+  checkEnumField(errors, 'status', status, ['completed', 'interrupted'])
+  if (hasErrors(errors)) return validationError(c, errors)
+
+  const session = await getFocusSession(DB, id)
+  if (!session) {
+    return c.json({ error: 'Focus session not found' }, 404)
+  }
+  if (session.status !== 'running') {
+    return c.json({ error: 'Conflict', message: 'このセッションはすでに終了しています', current: session }, 409)
+  }
+
   await DB.prepare(
-    'UPDATE tasks SET status = ? WHERE id = ?'
-  ).bind('deleted', id).run()
-  
-  return c.json({ success: true })
+    "UPDATE focus_sessions SET status = ?, ended_at = ? WHERE id = ? AND status = 'running'"
+  ).bind(status, new Date().toISOString(), id).run()
+  return c.json(await getFocusSession(DB, id))
 })
 
-// Toggle task completion
-app.post('/api/tasks/:id/toggle', async (c) => {
+type BackupTable = {
+  key: string[];
+  columns: string[];
+  required: string[];
+  enums?: Record<string, string[]>;
+}
+
+const BACKUP_FORMAT = 'task_kanri-backup'
+// migrations/ の最新番号。バックアップ対象のテーブルや列を増やしたら合わせて上げる
+const BACKUP_SCHEMA_VERSION = 21
+const MAX_BACKUP_ERRORS = 20
+
+// バックアップ対象（OAuthトークンとフィード用トークンは認証情報なので含めない。検索インデックスはトリガーで作り直される）
+const BACKUP_TABLES: Record<string, BackupTable> = {
+  tasks: {
+    key: ['id'],
+    columns: ['id', 'title', 'category', 'minutes', 'status', 'created_at', 'due_date', 'priority', 'recurrence_rule', 'recurrence_parent_id',
+      'goal_id', 'deleted_at', 'status_before_delete', 'version', 'updated_at', 'notes', 'position', 'source_event_id', 'source_event_status'],
+    required: ['id', 'title', 'category', 'status'],
+    enums: { category: TASK_CATEGORIES, status: TASK_STATUSES, priority: TASK_PRIORITIES, source_event_status: ['confirmed', 'cancelled'] }
+  },
+  subtasks: {
+    key: ['id'],
+    columns: ['id', 'task_id', 'title', 'minutes', 'order_index', 'status', 'created_at', 'version', 'updated_at'],
+    required: ['id', 'task_id', 'title'],
+    enums: { status: ['todo', 'done'] }
+  },
+  task_dependencies: { key: ['task_id', 'depends_on_id'], columns: ['task_id', 'depends_on_id', 'created_at'], required: ['task_id', 'depends_on_id'] },
+  tags: { key: ['id'], columns: ['id', 'name', 'color', 'created_at'], required: ['id', 'name'] },
+  task_tags: { key: ['task_id', 'tag_id'], columns: ['task_id', 'tag_id'], required: ['task_id', 'tag_id'] },
+  goals: {
+    key: ['id'],
+    columns: ['id', 'name', 'target_revenue', 'target_date', 'status', 'created_at'],
+    required: ['id', 'name'],
+    enums: { status: ['active', 'archived'] }
+  },
+  saved_views: { key: ['id'], columns: ['id', 'name', 'filters', 'position', 'created_at', 'updated_at'], required: ['id', 'name', 'filters'] },
+  time_entries: {
+    key: ['id'],
+    columns: ['id', 'task_id', 'subtask_id', 'started_at', 'ended_at', 'duration_seconds', 'note', 'source', 'created_at', 'updated_at'],
+    required: ['id', 'task_id', 'started_at'],
+    enums: { source: ['timer', 'manual'] }
+  },
+  focus_sessions: {
+    key: ['id'],
+    columns: ['id', 'task_id', 'subtask_id', 'title', 'category', 'work_minutes', 'break_minutes', 'block_start', 'block_end', 'status',
+      'started_at', 'ended_at', 'created_at'],
+    required: ['id', 'title', 'work_minutes', 'break_minutes', 'started_at'],
+    enums: { category: TASK_CATEGORIES, status: ['running', 'completed', 'interrupted'] }
+  },
+  task_events: {
+    key: ['id'],
+    columns: ['id', 'task_id', 'action', 'field', 'old_value', 'new_value', 'source', 'created_at'],
+    required: ['id', 'task_id', 'action'],
+    enums: { action: ['create', 'update', 'toggle', 'delete', 'decompose'] }
+  },
+  calendar_events: {
+    key: ['id'],
+    columns: ['id', 'source_id', 'calendar_id', 'summary', 'description', 'location', 'html_link', 'start_time', 'end_time', 'all_day',
+      'status', 'updated_at', 'attendees', 'synced_at', 'converted_to_task'],
+    required: ['id', 'summary', 'start_time', 'end_time'],
+    enums: { status: CALENDAR_EVENT_STATUSES }
+  },
+  schedules: { key: ['date'], columns: ['date', 'slots', 'warnings', 'metadata', 'generated_at'], required: ['date', 'slots', 'generated_at'] },
+  calendar_rules: {
+    key: ['id'],
+    columns: ['id', 'name', 'position', 'enabled', 'match_summary', 'match_mode', 'attendee_domain', 'calendar_id',
+      'min_minutes', 'max_minutes', 'action', 'category', 'priority', 'minutes', 'created_at', 'updated_at'],
+    required: ['id', 'name'],
+    enums: { match_mode: ['keyword', 'regex'], action: ['convert', 'skip'], category: TASK_CATEGORIES, priority: TASK_PRIORITIES }
+  },
+  calendar_sources: {
+    key: ['id'],
+    columns: ['id', 'type', 'name', 'calendar_id', 'url', 'color', 'enabled', 'blocks_schedule', 'position', 'created_at', 'updated_at'],
+    required: ['id', 'type', 'name'],
+    enums: { type: CALENDAR_SOURCE_TYPES }
+  }
+}
+
+// 遅延作成しているテーブルを揃えてから読み書きする
+async function ensureBackupTables(DB: D1Database) {
+  await ensureSubtasksTable(DB)
+  await ensureTaskSearchIndex(DB)
+  await ensureTaskDependenciesTable(DB)
+  await ensureTagsTables(DB)
+  await ensureGoalsTable(DB)
+  await ensureSavedViewsTable(DB)
+  await ensureTimeEntriesTable(DB)
+  await ensureFocusSessionsTable(DB)
+  await ensureTaskEventsTable(DB)
+  await ensureSchedulesTable(DB)
+  await ensureCalendarRulesTable(DB)
+  await ensureCalendarSourcesTable(DB)
+}
+
+function toCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// バックアップの行を検証する（列名は既知のものだけ使い、必須列と選択肢を確認）
+function validateBackupRows(table: string, rows: unknown, errors: FieldErrors): Array<Record<string, unknown>> {
+  const spec = BACKUP_TABLES[table]
+  if (!Array.isArray(rows)) {
+    errors[`tables.${table}`] = '行の配列を指定してください'
+    return []
+  }
+  const addError = (field: string, message: string) => {
+    if (Object.keys(errors).length < MAX_BACKUP_ERRORS) errors[field] = message
+  }
+  return rows.flatMap((row, index) => {
+    if (!row || typeof row !== 'object' || Array.isArray(row)) {
+      addError(`tables.${table}[${index}]`, 'オブジェクトを指定してください')
+      return []
+    }
+    const record = row as Record<string, unknown>
+    for (const column of spec.required) {
+      if (record[column] === undefined || record[column] === null || record[column] === '') {
+        addError(`tables.${table}[${index}].${column}`, '必須項目です')
+      }
+    }
+    for (const [column, allowed] of Object.entries(spec.enums || {})) {
+      const value = record[column]
+      if (value !== undefined && value !== null && !allowed.includes(value as string)) {
+        addError(`tables.${table}[${index}].${column}`, `${allowed.join(' / ')} のいずれかを指定してください`)
+      }
+    }
+    return [Object.fromEntries(spec.columns.filter((column) => record[column] !== undefined).map((column) => [column, record[column]]))]
+  })
+}
+
+// Export every table as a versioned JSON archive, or one table as CSV (?format=csv&table=tasks)
+app.get('/api/export', async (c) => {
   const { DB } = c.env
-  const id = c.req.param('id')
-  
-  const { results } = await DB.prepare(
-    'SELECT status FROM tasks WHERE id = ?'
-  ).bind(id).all()
-  
-  if (results.length === 0) {
-    return c.json({ error: 'Task not found' }, 404)
+  const format = c.req.query('format') || 'json'
+  const table = c.req.query('table')
+  const errors: FieldErrors = {}
+  checkEnumField(errors, 'format', format, ['json', 'csv'])
+  if (format === 'csv') checkEnumField(errors, 'table', table, Object.keys(BACKUP_TABLES))
+  if (hasErrors(errors)) return validationError(c, errors)
+
+  await ensureBackupTables(DB)
+  const date = todayInTimeZone(getUserTimeZone(c.env))
+
+  if (format === 'csv') {
+    const { columns, key } = BACKUP_TABLES[table as string]
+    const { results } = await DB.prepare(`SELECT ${columns.join(', ')} FROM ${table} ORDER BY ${key.join(', ')}`).all()
+    const lines = [columns.join(','), ...(results as Array<Record<string, unknown>>).map((row) => columns.map((column) => toCsvValue(row[column])).join(','))]
+    // Excel で文字化けしないよう BOM を付ける
+    return c.body(`\uFEFF${lines.join('\r\n')}\r\n`, 200, {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="task_kanri-${table}-${date}.csv"`
+    })
   }
-  
-  const currentStatus = results[0].status as string
-  const newStatus = currentStatus === 'done' ? 'todo' : 'done'
-  
-  await DB.prepare(
-    'UPDATE tasks SET status = ? WHERE id = ?'
-  ).bind(newStatus, id).run()
-  
-  return c.json({ status: newStatus })
+
+  const tables: Record<string, unknown[]> = {}
+  for (const [name, { columns, key }] of Object.entries(BACKUP_TABLES)) {
+    const { results } = await DB.prepare(`SELECT ${columns.join(', ')} FROM ${name} ORDER BY ${key.join(', ')}`).all()
+    tables[name] = results
+  }
+  c.header('Content-Disposition', `attachment; filename="task_kanri-backup-${date}.json"`)
+  return c.json({
+    format: BACKUP_FORMAT,
+    schema_version: BACKUP_SCHEMA_VERSION,
+    exported_at: new Date().toISOString(),
+    counts: Object.fromEntries(Object.entries(tables).map(([name, rows]) => [name, rows.length])),
+    tables
+  })
+})
+
+// Restore a JSON archive. mode=merge upserts rows by primary key; mode=replace wipes the backed-up tables first.
+// Everything runs in one D1 batch, so a failure leaves the database untouched
+app.post('/api/import', async (c) => {
+  const { DB } = c.env
+  const mode = c.req.query('mode') || 'merge'
+  const archive = await readJsonObject(c)
+  if (!archive) return invalidBodyError(c)
+
+  const errors: FieldErrors = {}
+  checkEnumField(errors, 'mode', mode, ['merge', 'replace'])
+  if (archive.format !== BACKUP_FORMAT) {
+    errors.format = `${BACKUP_FORMAT} 形式のバックアップではありません`
+  }
+  if (!Number.isInteger(archive.schema_version) || archive.schema_version < 1) {
+    errors.schema_version = 'schema_version が不正です'
+  } else if (archive.schema_version > BACKUP_SCHEMA_VERSION) {
+    errors.schema_version = `このアプリ（schema_version ${BACKUP_SCHEMA_VERSION}）より新しいバックアップ（${archive.schema_version}）は復元できません。アプリを更新してください`
+  }
+  if (!archive.tables || typeof archive.tables !== 'object' || Array.isArray(archive.tables)) {
+    errors.tables = 'tables にテーブル名ごとの行の配列を指定してください'
+  }
+  if (hasErrors(errors)) return validationError(c, errors)
+
+  const rowsByTable: Record<string, Array<Record<string, unknown>>> = {}
+  for (const table of Object.keys(BACKUP_TABLES)) {
+    if (archive.tables[table] !== undefined) rowsByTable[table] = validateBackupRows(table, archive.tables[table], errors)
+  }
+  const running = (rowsByTable.time_entries || []).filter((entry) => !entry.ended_at)
+  if (running.length > 1) errors['tables.time_entries'] = '計測中の作業記録は1件までです'
+  if (hasErrors(errors)) return validationError(c, errors)
+
+  await ensureBackupTables(DB)
+  const statements: D1PreparedStatement[] = []
+
+  if (mode === 'replace') {
+    // バックアップに含まれないテーブルも空にして、バックアップ時点の状態にそろえる
+    for (const table of Object.keys(BACKUP_TABLES)) statements.push(DB.prepare(`DELETE FROM ${table}`))
+    // カレンダーのキャッシュも入れ替わるので、次回の同期は全件取得からやり直す
+    await ensureCalendarSyncStateTable(DB)
+    statements.push(DB.prepare('DELETE FROM calendar_sync_state'))
+  } else {
+    // 同名のタグは既存のIDに寄せる（タグ名は一意のため）
+    const { results: localTags } = await DB.prepare('SELECT id, name FROM tags').all()
+    const tagIdByName = new Map((localTags as Array<{ id: string; name: string }>).map((tag) => [tag.name, tag.id]))
+    const remap = new Map<string, string>()
+    rowsByTable.tags = (rowsByTable.tags || []).filter((tag) => {
+      const localId = tagIdByName.get(tag.name as string)
+      if (localId && localId !== tag.id) {
+        remap.set(tag.id as string, localId)
+        return false
+      }
+      return true
+    })
+    if (rowsByTable.task_tags) {
+      rowsByTable.task_tags = rowsByTable.task_tags.map((link) => ({ ...link, tag_id: remap.get(link.tag_id as string) ?? link.tag_id }))
+    }
+    // 計測中のタイマーは1つだけなので、別の記録が計測中なら止めてから取り込む
+    if (running.length > 0) statements.push(buildStopTimerStatement(DB, new Date().toISOString()))
+  }
+
+  const restored: Record<string, number> = {}
+  for (const [table, rows] of Object.entries(rowsByTable)) {
+    const { key } = BACKUP_TABLES[table]
+    for (const row of rows) {
+      const columns = Object.keys(row)
+      const updates = columns.filter((column) => !key.includes(column))
+      const upsert = mode === 'merge'
+        ? ` ON CONFLICT(${key.join(', ')}) DO ${updates.length > 0 ? `UPDATE SET ${updates.map((column) => `${column} = excluded.${column}`).join(', ')}` : 'NOTHING'}`
+        : ''
+      statements.push(DB.prepare(
+        `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})${upsert}`
+      ).bind(...columns.map((column) => row[column] ?? null)))
+    }
+    restored[table] = rows.length
+  }
+
+  try {
+    await DB.batch(statements)
+  } catch (error) {
+    return c.json({
+      error: 'Restore failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500)
+  }
+
+  return c.json({
+    mode,
+    schema_version: archive.schema_version,
+    restored,
+    skipped_tables: Object.keys(archive.tables).filter((table) => !BACKUP_TABLES[table])
+  })
 })
 
 // Google OAuth status
@@ -841,12 +5517,13 @@ app.get('/api/calendar/oauth/status', async (c) => {
   return c.json({
     mode,
     connected: !!token,
+    canWrite: hasCalendarWriteScope(token?.scope),
     hasCalendarId: !!c.env.GOOGLE_CALENDAR_ID,
     authUrl: '/api/calendar/oauth/start'
   })
 })
 
-// Start OAuth flow
+// Start OAuth flow (?write=1 also asks for permission to write schedules)
 app.get('/api/calendar/oauth/start', async (c) => {
   const { GOOGLE_OAUTH_CLIENT_ID } = c.env
   if (!isOAuthConfigured(c.env) || !GOOGLE_OAUTH_CLIENT_ID) {
@@ -857,7 +5534,11 @@ app.get('/api/calendar/oauth/start', async (c) => {
   }
 
   const redirectUri = getOAuthRedirectUri(c)
-  const scope = 'https://www.googleapis.com/auth/calendar.readonly'
+  // ?write=1 のときだけ予定表の書き込み用スコープも求める（include_granted_scopes で既存の許可は引き継ぐ）
+  const scope = [
+    'https://www.googleapis.com/auth/calendar.readonly',
+    ...(c.req.query('write') === '1' ? [GOOGLE_CALENDAR_WRITE_SCOPE] : [])
+  ].join(' ')
   const authUrl = `https://accounts.google.com/o/oauth2/v2/auth?client_id=${encodeURIComponent(GOOGLE_OAUTH_CLIENT_ID)}&redirect_uri=${encodeURIComponent(redirectUri)}&response_type=code&scope=${encodeURIComponent(scope)}&access_type=offline&prompt=consent&include_granted_scopes=true`
   return c.redirect(authUrl)
 })
@@ -897,110 +5578,645 @@ app.get('/api/calendar/oauth/callback', async (c) => {
     return c.html(`<h1>OAuth failed</h1><pre>${safeErrorData}</pre><p><a href="/">戻る</a></p>`, 400)
   }
 
-  const data = await response.json() as any
-  const existing = await getStoredOAuthToken(DB)
-  const refreshToken = data.refresh_token || existing?.refresh_token
+  const data = await response.json() as any
+  const existing = await getStoredOAuthToken(DB)
+  const refreshToken = data.refresh_token || existing?.refresh_token
+
+  if (!data.access_token || !refreshToken || !data.expires_in) {
+    return c.html('<h1>OAuth failed</h1><p>Invalid token response.</p><p><a href="/">戻る</a></p>', 400)
+  }
+
+  await saveOAuthToken(DB, {
+    access_token: data.access_token,
+    refresh_token: refreshToken,
+    expiry_at: Date.now() + Number(data.expires_in) * 1000,
+    scope: data.scope,
+    token_type: data.token_type || 'Bearer'
+  })
+
+  return c.redirect('/?oauth=success')
+})
+
+// Disconnect OAuth
+app.post('/api/calendar/oauth/disconnect', async (c) => {
+  const { DB } = c.env
+  await ensureOAuthTokensTable(DB)
+  await DB.prepare('DELETE FROM oauth_tokens WHERE id = 1').run()
+  return c.json({ success: true })
+})
+
+// Google Calendar Integration (served from the calendar_events cache, resynced when stale)
+app.get('/api/calendar/events', async (c) => {
+  try {
+    const now = new Date()
+    const futureDate = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000)
+    const result = await getCachedCalendarEvents(c, now.toISOString(), futureDate.toISOString())
+    if (!result.ok) {
+      return c.json(result.body, result.status as 400 | 401 | 403 | 500)
+    }
+    return c.json(result.events.map(toCalendarApiEvent))
+  } catch (error) {
+    return c.json({
+      error: 'Failed to fetch calendar events',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500)
+  }
+})
+
+// 予定表をふさぐ連携先の今日の予定を固定予定の形で返す（終日の予定は時間をふさがないので除く）
+async function getTodayFixedEvents(
+  c: { env: Bindings; req: { url: string } }
+): Promise<CalendarFailure | { ok: true; events: Array<FixedEvent & { source_id: string | null; source_name: string | null }> }> {
+  // 「今日」は利用者のタイムゾーンの 0:00〜24:00。日付をまたぐ予定はその範囲に収める
+  const timeZone = getUserTimeZone(c.env)
+  const today = todayInTimeZone(timeZone)
+  const todayStart = parseTime('00:00', today, timeZone)
+  const todayEnd = parseTime('24:00', today, timeZone)
+
+  const result = await getCachedCalendarEvents(c, todayStart.toISOString(), todayEnd.toISOString(), true)
+  if (!result.ok) return result
+  return {
+    ok: true,
+    events: result.events.filter((event) => !event.all_day).map((event) => ({
+      start: Date.parse(event.start_time) <= todayStart.getTime() ? '00:00' : formatTime(new Date(event.start_time), timeZone),
+      end: Date.parse(event.end_time) >= todayEnd.getTime() ? '24:00' : formatTime(new Date(event.end_time), timeZone),
+      title: event.summary,
+      color: event.source_color || undefined,
+      source_id: event.source_id,
+      source_name: event.source_name ?? null
+    }))
+  }
+}
+
+// Get today's calendar events (for schedule generation; only sources that block the schedule)
+app.get('/api/calendar/today', async (c) => {
+  try {
+    const result = await getTodayFixedEvents(c)
+    if (!result.ok) {
+      return c.json(result.body, result.status as 400 | 401 | 403 | 500)
+    }
+    return c.json(result.events)
+  } catch (error) {
+    return c.json({
+      error: 'Failed to fetch today\'s calendar events',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500)
+  }
+})
+
+// Last sync status of every calendar source
+app.get('/api/calendar/sync', async (c) => {
+  return c.json(await buildCalendarSyncStatus(c.env, await getCalendarSources(c.env)))
+})
+
+// Resync now ({"full": true} drops the sync token and refetches everything, {"source_id": "..."} limits it to one source).
+// Also meant to be called from an external scheduler, since Pages has no cron triggers
+app.post('/api/calendar/sync', async (c) => {
+  const body = await readJsonObject(c, true)
+  if (!body) return invalidBodyError(c)
+  const errors: FieldErrors = {}
+  if (body.full !== undefined && typeof body.full !== 'boolean') errors.full = 'true または false を指定してください'
+  if (body.source_id !== undefined && typeof body.source_id !== 'string') errors.source_id = '連携先のIDを文字列で指定してください'
+  if (hasErrors(errors)) return validationError(c, errors)
+
+  const sources = await getCalendarSources(c.env)
+  if (sources.length === 0) {
+    return c.json({
+      error: 'Calendar not configured',
+      message: 'Set GOOGLE_CALENDAR_ID in your environment variables or add a calendar source'
+    }, 400)
+  }
+  const targets = body.source_id !== undefined
+    ? sources.filter((source) => source.id === body.source_id)
+    : sources.filter((source) => source.enabled)
+  if (body.source_id !== undefined && targets.length === 0) {
+    return c.json({ error: 'Calendar source not found' }, 404)
+  }
+
+  // 失敗は連携先ごとの last_error に残る。すべて失敗したときだけエラーを返す
+  let failure: CalendarFailure | null = null
+  let succeeded = 0
+  for (const source of targets) {
+    const result = await syncCalendarSource(c, source, body.full === true)
+    if (result.ok) succeeded += 1
+    else failure ||= result
+  }
+  if (failure && succeeded === 0) {
+    return c.json(failure.body, failure.status as 400 | 401 | 403 | 500)
+  }
+  return c.json(await buildCalendarSyncStatus(c.env, sources))
+})
+
+async function buildCalendarSyncStatus(env: Bindings, sources: CalendarSource[]) {
+  const { DB } = env
+  const intervalMinutes = getCalendarSyncIntervalMinutes(env)
+  const statuses = []
+  for (const source of sources) {
+    const state = await getCalendarSyncState(DB, source.id)
+    const counts = await DB.prepare(
+      "SELECT COUNT(*) AS total, SUM(CASE WHEN status = 'cancelled' THEN 1 ELSE 0 END) AS cancelled FROM calendar_events WHERE source_id = ?"
+    ).bind(source.id).first<{ total: number; cancelled: number | null }>()
+    statuses.push({
+      source_id: source.id,
+      name: source.name,
+      type: source.type,
+      color: source.color,
+      enabled: source.enabled,
+      stale: isCalendarSyncStale(state, intervalMinutes),
+      incremental: source.type === 'google' && !!state?.sync_token,
+      last_attempt_at: state?.last_attempt_at ?? null,
+      last_synced_at: state?.last_synced_at ?? null,
+      last_full_sync_at: state?.last_full_sync_at ?? null,
+      last_status: state?.last_status ?? null,
+      last_error: state?.last_error ?? null,
+      updated_count: state?.updated_count ?? 0,
+      cancelled_count: state?.cancelled_count ?? 0,
+      cached_events: counts?.total ?? 0,
+      cached_cancelled: counts?.cancelled ?? 0
+    })
+  }
+  return { configured: sources.length > 0, interval_minutes: intervalMinutes, sources: statuses }
+}
+
+// List calendar sources (GOOGLE_CALENDAR_ID is always listed first as the built-in source)
+app.get('/api/calendar/sources', async (c) => {
+  return c.json(await getCalendarSources(c.env))
+})
+
+// Add a Google calendar or an ICS / webcal subscription (appended to the end unless position is given)
+app.post('/api/calendar/sources', async (c) => {
+  const { DB } = c.env
+  const body = await readJsonObject(c)
+  if (!body) return invalidBodyError(c)
+  const sources = await getCalendarSources(c.env)
+  if (body.position === undefined) {
+    const { results } = await DB.prepare('SELECT COALESCE(MAX(position), -1) + 1 AS next FROM calendar_sources').all()
+    body.position = Number(results[0]?.next) || 0
+  }
+  if (body.color === undefined) body.color = TAG_COLOR_PALETTE[sources.length % TAG_COLOR_PALETTE.length]
+  const parsed = parseCalendarSourceBody(body)
+  if (hasErrors(parsed.errors)) return validationError(c, parsed.errors)
+
+  const id = uuidv4()
+  const now = new Date().toISOString()
+  await DB.prepare(
+    `INSERT INTO calendar_sources (id, ${CALENDAR_SOURCE_COLUMNS.join(', ')}, created_at, updated_at)
+     VALUES (?, ${CALENDAR_SOURCE_COLUMNS.map(() => '?').join(', ')}, ?, ?)`
+  ).bind(id, ...CALENDAR_SOURCE_COLUMNS.map((column) => parsed.fields[column]), now, now).run()
+
+  const source = await DB.prepare('SELECT * FROM calendar_sources WHERE id = ?').bind(id).first()
+  return c.json(toCalendarSource(source), 201)
+})
+
+// Update a calendar source. Changing the calendar ID or URL drops its cached events so the next sync starts over
+app.put('/api/calendar/sources/:id', async (c) => {
+  const { DB } = c.env
+  const id = c.req.param('id')
+  const body = await readJsonObject(c)
+  if (!body) return invalidBodyError(c)
+
+  const current = (await getCalendarSources(c.env)).find((source) => source.id === id)
+  if (!current) {
+    return c.json({ error: 'Calendar source not found' }, 404)
+  }
+  if (current.builtin) {
+    const locked = (['type', 'calendar_id', 'url'] as const).filter((key) => body[key] !== undefined && body[key] !== current[key])
+    if (locked.length > 0) {
+      return validationError(c, Object.fromEntries(locked.map((key) => [key, '既定のカレンダーは環境変数 GOOGLE_CALENDAR_ID で設定します'])))
+    }
+  }
+  const parsed = parseCalendarSourceBody({ ...current, ...body })
+  if (hasErrors(parsed.errors)) return validationError(c, parsed.errors)
+
+  const moved = parsed.fields.type !== current.type || parsed.fields.calendar_id !== current.calendar_id || parsed.fields.url !== current.url
+  await ensureCalendarSyncStateTable(DB)
+  await DB.batch([
+    DB.prepare(
+      `UPDATE calendar_sources SET ${CALENDAR_SOURCE_COLUMNS.map((column) => `${column} = ?`).join(', ')}, updated_at = ? WHERE id = ?`
+    ).bind(...CALENDAR_SOURCE_COLUMNS.map((column) => parsed.fields[column]), new Date().toISOString(), id),
+    ...(moved
+      ? [
+          DB.prepare('DELETE FROM calendar_events WHERE source_id = ?').bind(id),
+          DB.prepare('DELETE FROM calendar_sync_state WHERE source_id = ?').bind(id)
+        ]
+      : [])
+  ])
+
+  const source = await DB.prepare('SELECT * FROM calendar_sources WHERE id = ?').bind(id).first()
+  return c.json(toCalendarSource(source))
+})
+
+// Delete a calendar source with its cached events (tasks converted from them are kept)
+app.delete('/api/calendar/sources/:id', async (c) => {
+  const { DB } = c.env
+  const id = c.req.param('id')
+  if (id === DEFAULT_CALENDAR_SOURCE_ID) {
+    return c.json({
+      error: 'Built-in calendar source',
+      message: '既定のカレンダーは削除できません（使わない場合は無効にしてください）'
+    }, 400)
+  }
+  await ensureCalendarSourcesTable(DB)
+  await ensureCalendarSyncStateTable(DB)
+  await DB.batch([
+    DB.prepare('DELETE FROM calendar_events WHERE source_id = ?').bind(id),
+    DB.prepare('DELETE FROM calendar_sync_state WHERE source_id = ?').bind(id),
+    DB.prepare('DELETE FROM calendar_sources WHERE id = ?').bind(id)
+  ])
+  return c.json({ success: true })
+})
+
+type CalendarRule = {
+  id: string;
+  name: string;
+  position: number;
+  enabled: boolean;
+  match_summary: string | null;
+  match_mode: 'keyword' | 'regex';
+  attendee_domain: string | null;
+  calendar_id: string | null;
+  min_minutes: number | null;
+  max_minutes: number | null;
+  action: 'convert' | 'skip';
+  category: Task['category'] | null;
+  priority: Task['priority'] | null;
+  minutes: number | null;
+  created_at: string;
+  updated_at: string | null;
+}
+
+// ルールの判定に使う予定の情報
+type CalendarRuleSubject = {
+  summary: string;
+  attendees: string[];
+  calendar_id: string | null;
+  source_id: string | null;
+  duration_minutes: number | null;
+}
+
+const MAX_RULE_NAME_LENGTH = 50
+const MAX_RULE_PATTERN_LENGTH = 200
+// どのルールにも当てはまらない予定の変換内容（以前の固定値）
+const CALENDAR_CONVERSION_DEFAULTS = { category: 'now' as Task['category'], priority: 'medium' as Task['priority'], minutes: 60 }
+const CALENDAR_RULE_COLUMNS = [
+  'name', 'position', 'enabled', 'match_summary', 'match_mode', 'attendee_domain', 'calendar_id',
+  'min_minutes', 'max_minutes', 'action', 'category', 'priority', 'minutes'
+] as const
+
+async function ensureCalendarRulesTable(DB: D1Database) {
+  await DB.prepare(`
+    CREATE TABLE IF NOT EXISTS calendar_rules (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      position INTEGER NOT NULL DEFAULT 0,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      match_summary TEXT,
+      match_mode TEXT NOT NULL DEFAULT 'keyword' CHECK(match_mode IN ('keyword', 'regex')),
+      attendee_domain TEXT,
+      calendar_id TEXT,
+      min_minutes INTEGER,
+      max_minutes INTEGER,
+      action TEXT NOT NULL DEFAULT 'convert' CHECK(action IN ('convert', 'skip')),
+      category TEXT CHECK(category IN ('future', 'now', 'maintain', 'chore')),
+      priority TEXT CHECK(priority IN ('high', 'medium', 'low')),
+      minutes INTEGER,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT
+    )
+  `).run()
+}
+
+function toCalendarRule(row: any): CalendarRule {
+  return { ...row, enabled: !!row.enabled }
+}
+
+async function getCalendarRules(DB: D1Database, enabledOnly = false): Promise<CalendarRule[]> {
+  await ensureCalendarRulesTable(DB)
+  const { results } = await DB.prepare(
+    `SELECT * FROM calendar_rules ${enabledOnly ? 'WHERE enabled = 1' : ''} ORDER BY position ASC, created_at ASC`
+  ).all()
+  return (results as any[]).map(toCalendarRule)
+}
+
+// 作成時は全項目、更新時は既存の値に重ねた全項目を検証する（条件どうしの整合を見るため）
+function parseCalendarRuleBody(body: Record<string, any>) {
+  const fields: Record<(typeof CALENDAR_RULE_COLUMNS)[number], string | number | null> = {
+    name: null, position: 0, enabled: 1, match_summary: null, match_mode: 'keyword', attendee_domain: null, calendar_id: null,
+    min_minutes: null, max_minutes: null, action: 'convert', category: null, priority: null, minutes: null
+  }
+  const errors: FieldErrors = {}
+  const optionalText = (key: 'match_summary' | 'attendee_domain' | 'calendar_id', maxLength: number, label: string) => {
+    const value = body[key]
+    if (value === undefined || value === null || value === '') return
+    if (typeof value !== 'string' || !value.trim() || value.trim().length > maxLength) {
+      errors[key] = `${label}は${maxLength}文字以内の文字列で指定してください`
+      return
+    }
+    fields[key] = value.trim()
+  }
+  const optionalMinutes = (key: 'min_minutes' | 'max_minutes' | 'minutes', min: number, max: number) => {
+    const value = body[key]
+    if (value === undefined || value === null || value === '') return
+    if (!Number.isInteger(value) || value < min || value > max) {
+      errors[key] = `${min}〜${max}分の整数で指定してください`
+      return
+    }
+    fields[key] = value
+  }
+
+  const name = typeof body.name === 'string' ? body.name.trim() : ''
+  if (!name || name.length > MAX_RULE_NAME_LENGTH) errors.name = `ルール名は1〜${MAX_RULE_NAME_LENGTH}文字で入力してください`
+  else fields.name = name
+  if (body.position !== undefined) {
+    if (!Number.isInteger(body.position) || body.position < 0) errors.position = '並び順は0以上の整数で指定してください'
+    else fields.position = body.position
+  }
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== 'boolean') errors.enabled = 'true または false を指定してください'
+    else fields.enabled = body.enabled ? 1 : 0
+  }
+  if (body.match_mode !== undefined && checkEnumField(errors, 'match_mode', body.match_mode, ['keyword', 'regex'])) {
+    fields.match_mode = body.match_mode
+  }
+  optionalText('match_summary', MAX_RULE_PATTERN_LENGTH, '予定名の条件')
+  if (fields.match_mode === 'regex' && typeof fields.match_summary === 'string') {
+    try {
+      new RegExp(fields.match_summary, 'i')
+    } catch {
+      errors.match_summary = '正規表現が不正です'
+    }
+  }
+  optionalText('attendee_domain', 253, '参加者のドメイン')
+  if (typeof fields.attendee_domain === 'string') {
+    fields.attendee_domain = fields.attendee_domain.replace(/^@/, '').toLowerCase()
+  }
+  optionalText('calendar_id', 1024, 'カレンダーID')
+  optionalMinutes('min_minutes', 0, 7 * 24 * 60)
+  optionalMinutes('max_minutes', 0, 7 * 24 * 60)
+  if (typeof fields.min_minutes === 'number' && typeof fields.max_minutes === 'number' && fields.min_minutes > fields.max_minutes) {
+    errors.max_minutes = '最長の時間は最短の時間以上にしてください'
+  }
+  if (body.action !== undefined && checkEnumField(errors, 'action', body.action, ['convert', 'skip'])) {
+    fields.action = body.action
+  }
+  if (body.category !== undefined && body.category !== null && body.category !== '' && checkEnumField(errors, 'category', body.category, TASK_CATEGORIES)) {
+    fields.category = body.category
+  }
+  if (body.priority !== undefined && body.priority !== null && body.priority !== '' && checkEnumField(errors, 'priority', body.priority, TASK_PRIORITIES)) {
+    fields.priority = body.priority
+  }
+  optionalMinutes('minutes', 1, MAX_TASK_MINUTES)
+  return { fields, errors }
+}
+
+// Google Calendar API 形式の予定からルールの判定に使う情報を取り出す
+function toCalendarRuleSubject(event: any, defaultCalendarId: string | null): CalendarRuleSubject {
+  const start = getCalendarEventStart(event)
+  const end = event?.end?.dateTime || event?.end?.date
+  const duration = start && typeof end === 'string' ? Math.round((Date.parse(end) - Date.parse(start)) / 60000) : NaN
+  return {
+    summary: typeof event?.summary === 'string' ? event.summary : '',
+    attendees: Array.isArray(event?.attendees)
+      ? event.attendees.map((attendee: any) => attendee?.email).filter((email: unknown): email is string => typeof email === 'string')
+        .map((email: string) => email.toLowerCase())
+      : [],
+    calendar_id: typeof event?.calendar_id === 'string' ? event.calendar_id : defaultCalendarId,
+    source_id: typeof event?.source_id === 'string' ? event.source_id : null,
+    duration_minutes: Number.isFinite(duration) ? duration : null
+  }
+}
 
-  if (!data.access_token || !refreshToken || !data.expires_in) {
-    return c.html('<h1>OAuth failed</h1><p>Invalid token response.</p><p><a href="/">戻る</a></p>', 400)
+// 指定された条件をすべて満たすか（条件のないルールはすべての予定に当てはまる）。
+// キーワードはカンマ区切りのいずれかを含めば一致、大文字小文字は区別しない
+function calendarRuleMatches(rule: CalendarRule, subject: CalendarRuleSubject): boolean {
+  if (rule.match_summary) {
+    if (rule.match_mode === 'regex') {
+      let pattern: RegExp
+      try {
+        pattern = new RegExp(rule.match_summary, 'i')
+      } catch {
+        return false
+      }
+      if (!pattern.test(subject.summary)) return false
+    } else {
+      const summary = subject.summary.toLowerCase()
+      const keywords = rule.match_summary.split(/[,、]/).map((keyword) => keyword.trim().toLowerCase()).filter(Boolean)
+      if (!keywords.some((keyword) => summary.includes(keyword))) return false
+    }
   }
+  if (rule.attendee_domain) {
+    const domain = rule.attendee_domain
+    if (!subject.attendees.some((email) => email.endsWith(`@${domain}`) || email.endsWith(`.${domain}`))) return false
+  }
+  // カレンダーの条件は Google のカレンダーIDか連携先のID（ICS の連携先はこちら）
+  if (rule.calendar_id && subject.calendar_id !== rule.calendar_id && subject.source_id !== rule.calendar_id) return false
+  if (rule.min_minutes !== null && (subject.duration_minutes === null || subject.duration_minutes < rule.min_minutes)) return false
+  if (rule.max_minutes !== null && (subject.duration_minutes === null || subject.duration_minutes > rule.max_minutes)) return false
+  return true
+}
 
-  await saveOAuthToken(DB, {
-    access_token: data.access_token,
-    refresh_token: refreshToken,
-    expiry_at: Date.now() + Number(data.expires_in) * 1000,
-    scope: data.scope,
-    token_type: data.token_type || 'Bearer'
-  })
+// 最初に当てはまったルールで変換内容を決める。ルールで決めていない項目は既定値
+function resolveCalendarConversion(rules: CalendarRule[], subject: CalendarRuleSubject) {
+  const rule = rules.find((candidate) => calendarRuleMatches(candidate, subject)) || null
+  return {
+    action: rule?.action || 'convert',
+    rule: rule ? { id: rule.id, name: rule.name } : null,
+    category: rule?.category || CALENDAR_CONVERSION_DEFAULTS.category,
+    priority: rule?.priority || CALENDAR_CONVERSION_DEFAULTS.priority,
+    minutes: rule?.minutes || CALENDAR_CONVERSION_DEFAULTS.minutes
+  }
+}
 
-  return c.redirect('/?oauth=success')
+// List calendar conversion rules in evaluation order
+app.get('/api/calendar/rules', async (c) => {
+  return c.json(await getCalendarRules(c.env.DB))
 })
 
-// Disconnect OAuth
-app.post('/api/calendar/oauth/disconnect', async (c) => {
+// Create calendar conversion rule (appended to the end unless position is given)
+app.post('/api/calendar/rules', async (c) => {
   const { DB } = c.env
-  await ensureOAuthTokensTable(DB)
-  await DB.prepare('DELETE FROM oauth_tokens WHERE id = 1').run()
-  return c.json({ success: true })
+  const body = await readJsonObject(c)
+  if (!body) return invalidBodyError(c)
+  await ensureCalendarRulesTable(DB)
+  if (body.position === undefined) {
+    const { results } = await DB.prepare('SELECT COALESCE(MAX(position), -1) + 1 AS next FROM calendar_rules').all()
+    body.position = Number(results[0]?.next) || 0
+  }
+  const parsed = parseCalendarRuleBody(body)
+  if (hasErrors(parsed.errors)) return validationError(c, parsed.errors)
+
+  const id = uuidv4()
+  const now = new Date().toISOString()
+  await DB.prepare(
+    `INSERT INTO calendar_rules (id, ${CALENDAR_RULE_COLUMNS.join(', ')}, created_at, updated_at)
+     VALUES (?, ${CALENDAR_RULE_COLUMNS.map(() => '?').join(', ')}, ?, ?)`
+  ).bind(id, ...CALENDAR_RULE_COLUMNS.map((column) => parsed.fields[column]), now, now).run()
+
+  const rule = await DB.prepare('SELECT * FROM calendar_rules WHERE id = ?').bind(id).first()
+  return c.json(toCalendarRule(rule), 201)
 })
 
-// Google Calendar Integration
-app.get('/api/calendar/events', async (c) => {
-  try {
-    const now = new Date()
-    const futureDate = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000)
-    const result = await fetchCalendarEvents(c, now.toISOString(), futureDate.toISOString())
-    return c.json(result.body, result.status as 200 | 400 | 401 | 403 | 500)
-  } catch (error) {
-    return c.json({
-      error: 'Failed to fetch calendar events',
-      message: error instanceof Error ? error.message : 'Unknown error'
-    }, 500)
+// Update calendar conversion rule (send null to clear a condition)
+app.put('/api/calendar/rules/:id', async (c) => {
+  const { DB } = c.env
+  const id = c.req.param('id')
+  const body = await readJsonObject(c)
+  if (!body) return invalidBodyError(c)
+
+  await ensureCalendarRulesTable(DB)
+  const current = await DB.prepare('SELECT * FROM calendar_rules WHERE id = ?').bind(id).first()
+  if (!current) {
+    return c.json({ error: 'Rule not found' }, 404)
   }
+  const parsed = parseCalendarRuleBody({ ...toCalendarRule(current), ...body })
+  if (hasErrors(parsed.errors)) return validationError(c, parsed.errors)
+
+  await DB.prepare(
+    `UPDATE calendar_rules SET ${CALENDAR_RULE_COLUMNS.map((column) => `${column} = ?`).join(', ')}, updated_at = ? WHERE id = ?`
+  ).bind(...CALENDAR_RULE_COLUMNS.map((column) => parsed.fields[column]), new Date().toISOString(), id).run()
+
+  const rule = await DB.prepare('SELECT * FROM calendar_rules WHERE id = ?').bind(id).first()
+  return c.json(toCalendarRule(rule))
 })
 
-// Get today's calendar events (for schedule generation)
-app.get('/api/calendar/today', async (c) => {
-  try {
-    const now = new Date()
-    const todayStart = new Date(now)
-    todayStart.setHours(0, 0, 0, 0)
-    const todayEnd = new Date(now)
-    todayEnd.setHours(23, 59, 59, 999)
+// Delete calendar conversion rule
+app.delete('/api/calendar/rules/:id', async (c) => {
+  const { DB } = c.env
+  await ensureCalendarRulesTable(DB)
+  await DB.prepare('DELETE FROM calendar_rules WHERE id = ?').bind(c.req.param('id')).run()
+  return c.json({ success: true })
+})
 
-    const result = await fetchCalendarEvents(c, todayStart.toISOString(), todayEnd.toISOString())
+// Preview what each event would become under the current rules
+// (body.events to preview given events, otherwise the cached events of the next 7 days)
+app.post('/api/calendar/rules/preview', async (c) => {
+  const { DB } = c.env
+  const body = await readJsonObject(c, true)
+  if (!body) return invalidBodyError(c)
+
+  let events: any[]
+  if (body.events !== undefined) {
+    const errors: FieldErrors = {}
+    events = validateCalendarEvents(body.events, errors)
+    if (hasErrors(errors)) return validationError(c, errors)
+  } else {
+    const now = new Date()
+    const result = await getCachedCalendarEvents(c, now.toISOString(), new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000).toISOString())
     if (!result.ok) {
-      return c.json(result.body, result.status as 200 | 400 | 401 | 403 | 500)
+      return c.json(result.body, result.status as 400 | 401 | 403 | 500)
     }
-
-    const fixedEvents = (result.body as any[]).map((event: any) => {
-      const start = new Date(event.start.dateTime || event.start.date)
-      const end = new Date(event.end.dateTime || event.end.date)
-      return {
-        start: formatTime(start),
-        end: formatTime(end),
-        title: event.summary || 'Untitled'
-      }
-    })
-
-    return c.json(fixedEvents)
-  } catch (error) {
-    return c.json({
-      error: 'Failed to fetch today\'s calendar events',
-      message: error instanceof Error ? error.message : 'Unknown error'
-    }, 500)
+    events = result.events.map(toCalendarApiEvent)
   }
+
+  const rules = await getCalendarRules(DB, true)
+  return c.json({
+    rules: rules.length,
+    events: events.map((event) => ({
+      event_id: typeof event.id === 'string' ? event.id : null,
+      summary: event.summary || 'Untitled Event',
+      start: getCalendarEventStart(event),
+      task_id: event.task_id ?? null,
+      ...resolveCalendarConversion(rules, toCalendarRuleSubject(event, c.env.GOOGLE_CALENDAR_ID || null))
+    }))
+  })
 })
 
 // Convert calendar event to task
 app.post('/api/calendar/convert', async (c) => {
   const { DB } = c.env
-  const body = await c.req.json()
+  const body = await readJsonObject(c)
+  if (!body) return invalidBodyError(c)
+
+  const { data, errors } = validateTaskInput(
+    { category: body.category, minutes: body.minutes, priority: body.priority },
+    'update'
+  )
+  if (body.summary !== undefined && (typeof body.summary !== 'string' || body.summary.length > MAX_TITLE_LENGTH)) {
+    errors.summary = `予定名は${MAX_TITLE_LENGTH}文字以内の文字列で指定してください`
+  }
+  if (body.start !== undefined && body.start !== null && !isValidDateTimeString(body.start)) {
+    errors.start = '開始日時が不正です'
+  }
+  if (body.event_id !== undefined && body.event_id !== null && (typeof body.event_id !== 'string' || body.event_id.length === 0 || body.event_id.length > 1024)) {
+    errors.event_id = '予定IDは1024文字以内の文字列で指定してください'
+  }
+  if (body.end !== undefined && body.end !== null && !isValidDateTimeString(body.end)) {
+    errors.end = '終了日時が不正です'
+  }
+  if (body.attendees !== undefined && (!Array.isArray(body.attendees) || body.attendees.length > 1000 ||
+    body.attendees.some((email: unknown) => typeof email !== 'string' || email.length > 320))) {
+    errors.attendees = '参加者はメールアドレスの配列で指定してください'
+  }
+  for (const field of ['calendar_id', 'source_id'] as const) {
+    if (body[field] !== undefined && body[field] !== null && (typeof body[field] !== 'string' || body[field].length > 1024)) {
+      errors[field] = '1024文字以内の文字列で指定してください'
+    }
+  }
+  if (hasErrors(errors)) return validationError(c, errors)
+
+  // 同じ予定から作ったタスクがあれば作らない（予定名や日時が変わっていても予定IDで判定）
+  const eventId: string | null = body.event_id || null
+  if (eventId) {
+    const existing = await DB.prepare(
+      "SELECT * FROM tasks WHERE source_event_id = ? AND status != 'deleted' LIMIT 1"
+    ).bind(eventId).first<Task>()
+    if (existing) {
+      return c.json({ error: 'Event already converted', message: 'この予定はすでにタスクになっています', task: existing }, 409)
+    }
+  }
+
+  // 指定されなかった項目は変換ルールで決める（手動の変換なので「変換しない」ルールは適用しない）
+  const cached = eventId
+    ? await DB.prepare('SELECT * FROM calendar_events WHERE id = ?').bind(eventId).first<CalendarEventRow>()
+    : null
+  // キャッシュにない予定は、一括タスク化と同じ項目（終了日時・参加者・カレンダー）を送られた値から組み立てる
+  const rules = (await getCalendarRules(DB, true)).filter((rule) => rule.action === 'convert')
+  const event = cached ? toCalendarApiEvent(cached) : {
+    summary: body.summary,
+    start: body.start ? { dateTime: body.start } : undefined,
+    end: body.end ? { dateTime: body.end } : undefined,
+    attendees: (body.attendees || []).map((email: string) => ({ email })),
+    calendar_id: body.calendar_id ?? undefined,
+    source_id: body.source_id ?? undefined
+  }
+  const conversion = resolveCalendarConversion(rules, toCalendarRuleSubject(event, c.env.GOOGLE_CALENDAR_ID || null))
   
   const id = uuidv4()
+  const now = new Date().toISOString()
   const task: Task = {
     id,
     title: body.summary || 'Untitled Event',
-    category: body.category || 'now',
-    minutes: body.minutes || 60,
+    category: data.category || conversion.category,
+    minutes: data.minutes || conversion.minutes,
     status: 'todo',
-    created_at: new Date().toISOString(),
-    due_date: body.start ? new Date(body.start).toISOString().split('T')[0] : null,
-    priority: body.priority || 'medium'
+    created_at: now,
+    updated_at: now,
+    version: 1,
+    due_date: body.start ? toZonedDateString(body.start, getUserTimeZone(c.env)) : null,
+    priority: data.priority || conversion.priority,
+    source_event_id: eventId,
+    source_event_status: eventId ? 'confirmed' : null
   }
   
-  await DB.prepare(
-    'INSERT INTO tasks (id, title, category, minutes, status, created_at, due_date, priority) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
-  ).bind(
-    task.id,
-    task.title,
-    task.category,
-    task.minutes,
-    task.status,
-    task.created_at,
-    task.due_date,
-    task.priority
-  ).run()
+  await DB.batch([
+    DB.prepare(
+      'INSERT INTO tasks (id, title, category, minutes, status, created_at, updated_at, due_date, priority, source_event_id, source_event_status) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+    ).bind(
+      task.id,
+      task.title,
+      task.category,
+      task.minutes,
+      task.status,
+      task.created_at,
+      task.updated_at,
+      task.due_date,
+      task.priority,
+      task.source_event_id,
+      task.source_event_status
+    ),
+    ...(eventId ? [DB.prepare('UPDATE calendar_events SET converted_to_task = 1 WHERE id = ?').bind(eventId)] : [])
+  ])
+  await recordTaskEvents(DB, id, 'create', [{ field: 'title', old_value: null, new_value: task.title }], 'calendar')
   
   return c.json(task, 201)
 })
@@ -1008,8 +6224,12 @@ app.post('/api/calendar/convert', async (c) => {
 // Convert multiple calendar events to tasks
 app.post('/api/calendar/convert-all', async (c) => {
   const { DB } = c.env
-  const body = await c.req.json()
-  const events = Array.isArray(body.events) ? body.events : []
+  const body = await readJsonObject(c)
+  if (!body) return invalidBodyError(c)
+
+  const errors: FieldErrors = {}
+  const events = validateCalendarEvents(body.events, errors)
+  if (hasErrors(errors)) return validationError(c, errors)
 
   if (events.length === 0) {
     return c.json({ created: 0, skipped: 0, message: 'No events provided' })
@@ -1017,86 +6237,147 @@ app.post('/api/calendar/convert-all', async (c) => {
 
   let created = 0
   let skipped = 0
+  let linked = 0
+  let excluded = 0
+  const rules = await getCalendarRules(DB, true)
+  const timeZone = getUserTimeZone(c.env)
 
   for (const event of events) {
-    const summary = event.summary || 'Untitled Event'
-    const startRaw = event.start?.dateTime || event.start?.date
-    const dueDate = startRaw ? new Date(startRaw).toISOString().split('T')[0] : null
+    const conversion = resolveCalendarConversion(rules, toCalendarRuleSubject(event, c.env.GOOGLE_CALENDAR_ID || null))
+    if (conversion.action === 'skip') {
+      excluded += 1
+      continue
+    }
+    // タスク名の上限を超える予定名は切り詰める（1件のために一括変換全体を止めない）
+    const summary = (event.summary || 'Untitled Event').slice(0, MAX_TITLE_LENGTH)
+    const startRaw = getCalendarEventStart(event)
+    const dueDate = startRaw ? toZonedDateString(startRaw, timeZone) : null
+    const eventId = typeof event.id === 'string' && event.id ? event.id : null
+
+    if (eventId) {
+      const { results: converted } = await DB.prepare(
+        "SELECT id FROM tasks WHERE source_event_id = ? AND status != 'deleted' LIMIT 1"
+      ).bind(eventId).all()
+      if (converted.length > 0) {
+        skipped += 1
+        continue
+      }
+    }
 
+    // 予定IDを持たない以前の変換分は名前と期日で探し、見つかれば予定IDを結び付ける
     const checkSql = dueDate
-      ? 'SELECT id FROM tasks WHERE title = ? AND due_date = ? AND status != ? LIMIT 1'
-      : 'SELECT id FROM tasks WHERE title = ? AND due_date IS NULL AND status != ? LIMIT 1'
+      ? 'SELECT id FROM tasks WHERE title = ? AND due_date = ? AND status != ? AND source_event_id IS NULL LIMIT 1'
+      : 'SELECT id FROM tasks WHERE title = ? AND due_date IS NULL AND status != ? AND source_event_id IS NULL LIMIT 1'
     const checkStmt = dueDate
       ? DB.prepare(checkSql).bind(summary, dueDate, 'deleted')
       : DB.prepare(checkSql).bind(summary, 'deleted')
     const { results } = await checkStmt.all()
 
     if (results.length > 0) {
+      if (eventId) {
+        await DB.batch([
+          DB.prepare("UPDATE tasks SET source_event_id = ?, source_event_status = 'confirmed' WHERE id = ?").bind(eventId, results[0].id),
+          DB.prepare('UPDATE calendar_events SET converted_to_task = 1 WHERE id = ?').bind(eventId)
+        ])
+        linked += 1
+      }
       skipped += 1
       continue
     }
 
-    await DB.prepare(
-      'INSERT INTO tasks (id, title, category, minutes, status, created_at, due_date, priority) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
-    ).bind(
-      uuidv4(),
-      summary,
-      'now',
-      60,
-      'todo',
-      new Date().toISOString(),
-      dueDate,
-      'medium'
-    ).run()
+    const taskId = uuidv4()
+    const createdAt = new Date().toISOString()
+    await DB.batch([
+      DB.prepare(
+        'INSERT INTO tasks (id, title, category, minutes, status, created_at, updated_at, due_date, priority, source_event_id, source_event_status) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+      ).bind(
+        taskId,
+        summary,
+        conversion.category,
+        conversion.minutes,
+        'todo',
+        createdAt,
+        createdAt,
+        dueDate,
+        conversion.priority,
+        eventId,
+        eventId ? 'confirmed' : null
+      ),
+      ...(eventId ? [DB.prepare('UPDATE calendar_events SET converted_to_task = 1 WHERE id = ?').bind(eventId)] : [])
+    ])
+    await recordTaskEvents(DB, taskId, 'create', [{ field: 'title', old_value: null, new_value: summary }], 'calendar')
 
     created += 1
   }
 
-  return c.json({ created, skipped })
+  return c.json({ created, skipped, linked, excluded })
 })
 
 // Generate today's schedule
 app.post('/api/schedule/generate', async (c) => {
   const { DB } = c.env
-  const body = await c.req.json()
+  const body = await readJsonObject(c, true)
+  if (!body) return invalidBodyError(c)
+
+  const errors: FieldErrors = {}
+  const fixedEvents = validateFixedEvents(body.fixedEvents, errors)
+  if (body.include_calendar !== undefined && typeof body.include_calendar !== 'boolean') {
+    errors.include_calendar = 'true または false を指定してください'
+  }
+  if (hasErrors(errors)) return validationError(c, errors)
+
+  // include_calendar: true なら予定表をふさぐカレンダーの今日の予定も固定予定にする（送られた予定と同じものは除く）
+  let calendarFailed = false
+  if (body.include_calendar === true) {
+    const calendar = await getTodayFixedEvents(c)
+    if (!calendar.ok) {
+      calendarFailed = true
+    } else {
+      for (const event of calendar.events) {
+        const duplicate = fixedEvents.some((fixed) => fixed.start === event.start && fixed.end === event.end && fixed.title === event.title)
+        if (!duplicate) fixedEvents.push({ start: event.start, end: event.end, title: event.title, ...(event.color ? { color: event.color } : {}) })
+      }
+    }
+  }
   
+  // 時刻はすべて利用者のタイムゾーンの今日の壁時計として扱う（サーバーの時計のタイムゾーンには依存しない）
+  const timeZone = getUserTimeZone(c.env)
   const now = new Date()
   const t0 = now
-  const baseDate = new Date(now)
-  baseDate.setHours(0, 0, 0, 0)
+  const baseDate = todayInTimeZone(timeZone, now)
   
   // 1. 計画開始時刻を決定（t0 + 15分、15分刻みに切り上げ）
   const planStartTime = new Date(t0.getTime() + 15 * 60000)
   const planStart = ceil15(planStartTime)
   
   // 2. 固定予定を配置
-  const fixedEvents = body.fixedEvents || []
-  const blocks: ScheduleBlock[] = fixedEvents.map((event: any) => ({
-    start: parseTime(event.start, baseDate),
-    end: parseTime(event.end, baseDate),
+  const blocks: ScheduleBlock[] = fixedEvents.map((event) => ({
+    start: parseTime(event.start, baseDate, timeZone),
+    end: parseTime(event.end, baseDate, timeZone),
     title: event.title,
     type: 'fixed',
-    minutes: Math.round((parseTime(event.end, baseDate).getTime() - parseTime(event.start, baseDate).getTime()) / 60000)
+    minutes: Math.round((parseTime(event.end, baseDate, timeZone).getTime() - parseTime(event.start, baseDate, timeZone).getTime()) / 60000)
   }))
   
   const result: TimeSlot[] = []
   const warnings: string[] = []
+  if (calendarFailed) warnings.push('⚠️ カレンダーの予定を取得できませんでした（固定予定は入力分のみ）')
   
   // 固定予定を結果に追加
-  fixedEvents.forEach((event: any) => {
+  fixedEvents.forEach((event) => {
     result.push({
       start: event.start,
       end: event.end,
       title: event.title,
       type: 'fixed',
-      color: '#ef4444'
+      color: event.color || '#ef4444'
     })
   })
   
   // 3. 返信枠を配置（3時間ごと、15分）
   const replyInterval = 3 * 60 // 3時間（分）
   let currentReplyTime = new Date(planStart)
-  const endOfDay = parseTime('20:00', baseDate) // 20時まで
+  const endOfDay = parseTime('20:00', baseDate, timeZone) // 20時まで
   
   while (currentReplyTime < endOfDay) {
     const replyEnd = new Date(currentReplyTime.getTime() + 15 * 60000)
@@ -1128,8 +6409,8 @@ app.post('/api/schedule/generate', async (c) => {
     if (!checkConflict(replyBlock, blocks)) {
       blocks.push(replyBlock)
       result.push({
-        start: formatTime(replyBlock.start),
-        end: formatTime(replyBlock.end),
+        start: formatTime(replyBlock.start, timeZone),
+        end: formatTime(replyBlock.end, timeZone),
         title: '返信枠',
         type: 'reply',
         color: '#3b82f6'
@@ -1142,7 +6423,7 @@ app.post('/api/schedule/generate', async (c) => {
   // 4. ランチを配置（t0 + 6時間、60分）
   const lunchPreferred = new Date(t0.getTime() + 6 * 60 * 60000)
   const lunchStart = ceil15(lunchPreferred)
-  const dinnerTimeStart = parseTime('20:00', baseDate)
+  const dinnerTimeStart = parseTime('20:00', baseDate, timeZone)
   
   const availableLunchStart = findAvailableSlot(
     lunchStart,
@@ -1162,8 +6443,8 @@ app.post('/api/schedule/generate', async (c) => {
     }
     blocks.push(lunchBlock)
     result.push({
-      start: formatTime(lunchBlock.start),
-      end: formatTime(lunchBlock.end),
+      start: formatTime(lunchBlock.start, timeZone),
+      end: formatTime(lunchBlock.end, timeZone),
       title: 'ランチ 🍽️',
       type: 'lunch',
       color: '#10b981'
@@ -1173,7 +6454,7 @@ app.post('/api/schedule/generate', async (c) => {
   }
   
   // 5. 夜ご飯を配置（20:00〜24:00の間で60分）
-  const dinnerStart = findDinnerSlot(baseDate, blocks)
+  const dinnerStart = findDinnerSlot(baseDate, timeZone, blocks)
   
   if (dinnerStart) {
     const dinnerBlock: ScheduleBlock = {
@@ -1185,8 +6466,8 @@ app.post('/api/schedule/generate', async (c) => {
     }
     blocks.push(dinnerBlock)
     result.push({
-      start: formatTime(dinnerBlock.start),
-      end: formatTime(dinnerBlock.end),
+      start: formatTime(dinnerBlock.start, timeZone),
+      end: formatTime(dinnerBlock.end, timeZone),
       title: '夜ご飯 🍽️',
       type: 'dinner',
       color: '#f59e0b'
@@ -1196,35 +6477,64 @@ app.post('/api/schedule/generate', async (c) => {
   }
   
   // 6. 家族時間（20:00〜24:00）
-  const familyStart = parseTime('20:00', baseDate)
-  const familyEnd = parseTime('24:00', baseDate)
+  const familyStart = parseTime('20:00', baseDate, timeZone)
+  const familyEnd = parseTime('24:00', baseDate, timeZone)
   result.push({
-    start: formatTime(familyStart),
-    end: formatTime(familyEnd),
+    start: formatTime(familyStart, timeZone),
+    end: formatTime(familyEnd, timeZone),
     title: '家族時間',
     type: 'family',
     color: '#8b5cf6'
   })
   
   // 7. タスクDBから今日やるべきタスクを取得
-  const { results: tasks } = await DB.prepare(
-    "SELECT * FROM tasks WHERE status = ? AND (due_date IS NULL OR due_date <= ?) ORDER BY CASE priority WHEN 'high' THEN 3 WHEN 'medium' THEN 2 WHEN 'low' THEN 1 ELSE 0 END DESC, created_at ASC"
-  ).bind('todo', new Date().toISOString().split('T')[0]).all()
+  await ensureTimeEntriesTable(DB)
+  const { results: taskRows } = await DB.prepare(
+    "SELECT tasks.*, (SELECT COALESCE(SUM(e.duration_seconds), 0) FROM time_entries e WHERE e.task_id = tasks.id AND e.ended_at IS NOT NULL) AS tracked_seconds FROM tasks WHERE status = ? AND (due_date IS NULL OR due_date <= ?) ORDER BY CASE priority WHEN 'high' THEN 3 WHEN 'medium' THEN 2 WHEN 'low' THEN 1 ELSE 0 END DESC, created_at ASC"
+  ).bind('todo', baseDate).all()
+
+  // 作業記録があるタスクは見積もりから実績を引いた残り時間（15分刻み、最低15分）で配置する
+  const tasks = (taskRows as Array<Task & { tracked_seconds: number }>).map((task) => {
+    const trackedMinutes = Math.round(Number(task.tracked_seconds) / 60)
+    const minutes = trackedMinutes > 0 ? Math.max(15, Math.ceil((task.minutes - trackedMinutes) / 15) * 15) : task.minutes
+    return { ...task, minutes, tracked_minutes: trackedMinutes }
+  })
   
   // タスクを深い作業（45-90分）と軽作業（15-30分）に分類
-  const deepTasks = (tasks as Task[]).filter(t => t.minutes >= 45)
-  const lightTasks = (tasks as Task[]).filter(t => t.minutes < 45)
+  const deepTasks = tasks.filter(t => t.minutes >= 45)
+  const lightTasks = tasks.filter(t => t.minutes < 45)
   
   // 8. 残りの空き時間にタスクを配置
-  const dayEnd = parseTime('20:00', baseDate)
+  const dayEnd = parseTime('20:00', baseDate, timeZone)
+  
+  // 未完了の前提タスクを取得（前提が完了済みなら制約なし）
+  await ensureTaskDependenciesTable(DB)
+  const { results: dependencyRows } = await DB.prepare(
+    'SELECT d.task_id, d.depends_on_id FROM task_dependencies d JOIN tasks p ON p.id = d.depends_on_id WHERE p.status = ?'
+  ).bind('todo').all()
+  const prerequisites: Record<string, string[]> = {}
+  for (const row of dependencyRows as Array<{ task_id: string; depends_on_id: string }>) {
+    (prerequisites[row.task_id] ||= []).push(row.depends_on_id)
+  }
   
   // 空き時間を15分刻みで探してタスクを配置
   let currentTime = new Date(planStart)
   
-  const tasksToPlace = [...deepTasks, ...lightTasks]
+  const tasksToPlace = orderTasksByDependencies([...deepTasks, ...lightTasks], prerequisites)
+  const placedEnds: Record<string, Date> = {}
   
   for (const task of tasksToPlace) {
     let placed = false
+
+    // 前提タスクが本日の予定内で先に配置されていなければ配置しない
+    const pending = prerequisites[task.id] || []
+    if (pending.some((id) => !placedEnds[id])) {
+      warnings.push(`⚠️ タスク「${task.title}」は前提タスクが未完了のため配置しませんでした`)
+      continue
+    }
+    for (const id of pending) {
+      if (currentTime < placedEnds[id]) currentTime = new Date(placedEnds[id])
+    }
     
     while (currentTime < dayEnd && !placed) {
       const taskEnd = new Date(currentTime.getTime() + task.minutes * 60000)
@@ -1250,14 +6560,16 @@ app.post('/api/schedule/generate', async (c) => {
         }
         
         result.push({
-          start: formatTime(taskBlock.start),
-          end: formatTime(taskBlock.end),
-          title: `${task.title} (${task.minutes}分)`,
+          start: formatTime(taskBlock.start, timeZone),
+          end: formatTime(taskBlock.end, timeZone),
+          title: `${task.title} (${task.tracked_minutes > 0 ? `残り${task.minutes}分` : `${task.minutes}分`})`,
           type: task.category,
-          color: categoryColors[task.category] || '#9ca3af'
+          color: categoryColors[task.category] || '#9ca3af',
+          task_id: task.id
         })
         
         placed = true
+        placedEnds[task.id] = taskEnd
         currentTime = taskEnd
       } else {
         currentTime = new Date(currentTime.getTime() + 15 * 60000)
@@ -1273,32 +6585,304 @@ app.post('/api/schedule/generate', async (c) => {
   result.sort((a, b) => a.start.localeCompare(b.start))
   
   // 押下時刻とランチ予定時刻を計算
-  const pressedHour = t0.getHours()
-  const pressedMinute = t0.getMinutes()
+  const [pressedHour, pressedMinute] = formatTime(t0, timeZone).split(':').map(Number)
   const lunchTime = new Date(t0.getTime() + 6 * 60 * 60000)
-  const lunchHour = lunchTime.getHours()
-  const lunchMinute = lunchTime.getMinutes()
+  const [lunchHour, lunchMinute] = formatTime(lunchTime, timeZone).split(':').map(Number)
+  const generatedAt = new Date().toISOString()
+  const metadata = {
+    planStart: formatTime(planStart, timeZone),
+    generatedAt,
+    timeZone,
+    pressedTime: `${pressedHour}時${pressedMinute}分`,
+    lunchPlannedTime: `${lunchHour}時${lunchMinute}分頃`,
+    pressedAt: {
+      hour: pressedHour,
+      minute: pressedMinute
+    },
+    lunchPlanned: {
+      hour: lunchHour,
+      minute: lunchMinute
+    }
+  }
+
+  // 日付ごとに最新の予定表を保存（iCalendar フィードや再読み込み後の表示に使う）
+  await ensureSchedulesTable(DB)
+  await DB.prepare(
+    `INSERT INTO schedules (date, slots, warnings, metadata, generated_at) VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT(date) DO UPDATE SET slots = excluded.slots, warnings = excluded.warnings, metadata = excluded.metadata, generated_at = excluded.generated_at`
+  ).bind(baseDate, JSON.stringify(result), JSON.stringify(warnings), JSON.stringify(metadata), generatedAt).run()
   
   return c.json({
+    date: baseDate,
     schedule: result,
     warnings,
-    metadata: {
-      planStart: formatTime(planStart),
-      generatedAt: new Date().toISOString(),
-      pressedTime: `${pressedHour}時${pressedMinute}分`,
-      lunchPlannedTime: `${lunchHour}時${lunchMinute}分頃`,
-      pressedAt: {
-        hour: pressedHour,
-        minute: pressedMinute
-      },
-      lunchPlanned: {
-        hour: lunchHour,
-        minute: lunchMinute
+    metadata
+  })
+})
+
+async function ensureSchedulesTable(DB: D1Database) {
+  await DB.prepare(`
+    CREATE TABLE IF NOT EXISTS schedules (
+      date TEXT PRIMARY KEY,
+      slots TEXT NOT NULL,
+      warnings TEXT NOT NULL DEFAULT '[]',
+      metadata TEXT,
+      generated_at TEXT NOT NULL
+    )
+  `).run()
+}
+
+// 保存した予定表を返す（日付を省略すると最後に生成したもの）。カレンダーへの書き込み状況も付ける
+async function getSavedSchedule(DB: D1Database, date?: string) {
+  await ensureSchedulesTable(DB)
+  await ensureScheduleCalendarTables(DB)
+  const row = await DB.prepare(
+    `SELECT s.date, s.slots, s.warnings, s.metadata, s.generated_at, w.event_count, w.written_at
+     FROM schedules s LEFT JOIN schedule_calendar_writes w ON w.date = s.date
+     ${date ? 'WHERE s.date = ?' : ''} ORDER BY s.generated_at DESC LIMIT 1`
+  ).bind(...(date ? [date] : [])).first<{
+    date: string; slots: string; warnings: string; metadata: string | null; generated_at: string;
+    event_count: number | null; written_at: string | null
+  }>()
+  if (!row) return null
+  return {
+    date: row.date,
+    schedule: JSON.parse(row.slots) as TimeSlot[],
+    warnings: JSON.parse(row.warnings) as string[],
+    metadata: row.metadata ? JSON.parse(row.metadata) : null,
+    generated_at: row.generated_at,
+    calendar: row.written_at ? { event_count: row.event_count, written_at: row.written_at } : null
+  }
+}
+
+// 予定表の時刻のタイムゾーン（生成時のものを metadata に残している。残っていない予定表は利用者のタイムゾーン）
+function getScheduleTimeZone(saved: { metadata: { timeZone?: string } | null }, env: Bindings): string {
+  const timeZone = saved.metadata?.timeZone
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : getUserTimeZone(env)
+}
+
+// Most recently generated schedule (survives page reloads)
+app.get('/api/schedule/latest', async (c) => {
+  const latest = await getSavedSchedule(c.env.DB)
+  if (!latest) {
+    return c.json({ error: 'Schedule not found', message: 'まだ予定表が生成されていません' }, 404)
+  }
+  return c.json(latest)
+})
+
+// 書き込み用のアクセストークン（未接続なら401、書き込みを許可していなければ403で再認可URLを返す）
+async function getCalendarWriteAccess(c: Context) {
+  const authUrl = '/api/calendar/oauth/start?write=1'
+  if (!isOAuthConfigured(c.env)) {
+    return {
+      response: c.json({
+        error: 'Google OAuth not configured',
+        message: 'Set GOOGLE_OAUTH_CLIENT_ID, GOOGLE_OAUTH_CLIENT_SECRET, GOOGLE_CALENDAR_ID'
+      }, 400)
+    }
+  }
+  const accessToken = await getGoogleAccessToken(c)
+  const token = accessToken ? await getStoredOAuthToken(c.env.DB) : null
+  if (!accessToken || !token) {
+    return {
+      response: c.json({ error: 'Google OAuth not connected', message: 'Googleカレンダーに接続してください', authUrl }, 401)
+    }
+  }
+  if (!hasCalendarWriteScope(token.scope)) {
+    return {
+      response: c.json({ error: 'Calendar write access not granted', message: 'カレンダーへの書き込みを許可してください', authUrl }, 403)
+    }
+  }
+  return { accessToken }
+}
+
+// Write a saved schedule (default: the latest) to the dedicated Google calendar.
+// Events we wrote earlier for that date are updated or removed; nothing else in the calendar is touched
+app.post('/api/schedule/calendar', async (c) => {
+  const { DB } = c.env
+  const body = await readJsonObject(c, true)
+  if (!body) return invalidBodyError(c)
+  if (body.date !== undefined && !isValidDateString(body.date)) {
+    return validationError(c, { date: '日付は YYYY-MM-DD 形式で指定してください' })
+  }
+
+  const saved = await getSavedSchedule(DB, body.date)
+  if (!saved) {
+    return c.json({ error: 'Schedule not found', message: '先に予定表を生成してください' }, 404)
+  }
+  const access = await getCalendarWriteAccess(c)
+  if ('response' in access) return access.response
+  const { accessToken } = access
+
+  try {
+    const timeZone = getScheduleTimeZone(saved, c.env)
+    const calendarId = (await getScheduleCalendarId(DB, accessToken, true, timeZone)) as string
+    const eventsPath = `/calendars/${encodeURIComponent(calendarId)}/events`
+    const existingByKey = new Map<string, any>()
+    const stale: any[] = []
+    for (const event of await listScheduleCalendarEvents(accessToken, calendarId, saved.date)) {
+      const key = event.extendedProperties?.private?.task_kanri_key
+      if (key && !existingByKey.has(key)) existingByKey.set(key, event)
+      else stale.push(event)
+    }
+
+    let created = 0
+    let updated = 0
+    const desired = buildScheduleCalendarEvents(saved.date, saved.schedule, timeZone)
+    for (const event of desired) {
+      const current = existingByKey.get(event.key)
+      const result = current
+        ? await googleCalendarRequest(accessToken, 'PUT', `${eventsPath}/${encodeURIComponent(current.id)}`, event.body)
+        : await googleCalendarRequest(accessToken, 'POST', eventsPath, event.body)
+      if (!result.ok) throw new Error(`Failed to write event "${event.body.summary}" (${result.status})`)
+      if (current) updated += 1
+      else created += 1
+      existingByKey.delete(event.key)
+    }
+
+    // 今回の予定表にない枠（完了したタスクなど）を消す
+    stale.push(...existingByKey.values())
+    for (const event of stale) {
+      const result = await googleCalendarRequest(accessToken, 'DELETE', `${eventsPath}/${encodeURIComponent(event.id)}`)
+      if (!result.ok && result.status !== 404 && result.status !== 410) throw new Error(`Failed to delete event (${result.status})`)
+    }
+
+    const writtenAt = new Date().toISOString()
+    await DB.prepare(
+      `INSERT INTO schedule_calendar_writes (date, calendar_id, event_count, written_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT(date) DO UPDATE SET calendar_id = excluded.calendar_id, event_count = excluded.event_count, written_at = excluded.written_at`
+    ).bind(saved.date, calendarId, desired.length, writtenAt).run()
+
+    return c.json({ date: saved.date, calendar_id: calendarId, created, updated, deleted: stale.length, event_count: desired.length, written_at: writtenAt })
+  } catch (error) {
+    return c.json({
+      error: 'Failed to write calendar events',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 502)
+  }
+})
+
+// Remove the events we wrote (one date with ?date=, otherwise every date)
+app.delete('/api/schedule/calendar', async (c) => {
+  const { DB } = c.env
+  const date = c.req.query('date')
+  if (date !== undefined && !isValidDateString(date)) {
+    return validationError(c, { date: '日付は YYYY-MM-DD 形式で指定してください' })
+  }
+  const access = await getCalendarWriteAccess(c)
+  if ('response' in access) return access.response
+  const { accessToken } = access
+
+  try {
+    const calendarId = await getScheduleCalendarId(DB, accessToken, false, getUserTimeZone(c.env))
+    let deleted = 0
+    if (calendarId) {
+      for (const event of await listScheduleCalendarEvents(accessToken, calendarId, date)) {
+        const result = await googleCalendarRequest(
+          accessToken,
+          'DELETE',
+          `/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(event.id)}`
+        )
+        if (!result.ok && result.status !== 404 && result.status !== 410) throw new Error(`Failed to delete event (${result.status})`)
+        deleted += 1
       }
     }
+    await (date
+      ? DB.prepare('DELETE FROM schedule_calendar_writes WHERE date = ?').bind(date)
+      : DB.prepare('DELETE FROM schedule_calendar_writes')
+    ).run()
+    return c.json({ deleted })
+  } catch (error) {
+    return c.json({
+      error: 'Failed to remove calendar events',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 502)
+  }
+})
+
+async function ensureIcalTokensTable(DB: D1Database) {
+  await DB.prepare(`
+    CREATE TABLE IF NOT EXISTS ical_tokens (
+      id INTEGER PRIMARY KEY CHECK(id = 1),
+      token TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    )
+  `).run()
+}
+
+// フィード用のトークンを返す（未発行または rotate 指定なら新しく発行）
+async function getIcalToken(DB: D1Database, rotate = false) {
+  await ensureIcalTokensTable(DB)
+  const current = await DB.prepare('SELECT token, created_at FROM ical_tokens WHERE id = 1').first<{ token: string; created_at: string }>()
+  if (current && !rotate) return current
+
+  const next = { token: `${uuidv4()}${uuidv4()}`.replace(/-/g, ''), created_at: new Date().toISOString() }
+  await DB.prepare(
+    `INSERT INTO ical_tokens (id, token, created_at) VALUES (1, ?, ?)
+     ON CONFLICT(id) DO UPDATE SET token = excluded.token, created_at = excluded.created_at`
+  ).bind(next.token, next.created_at).run()
+  return next
+}
+
+async function isValidIcalToken(DB: D1Database, token: string | undefined): Promise<boolean> {
+  if (!token) return false
+  await ensureIcalTokensTable(DB)
+  const row = await DB.prepare('SELECT token FROM ical_tokens WHERE id = 1').first<{ token: string }>()
+  return !!row && row.token === token
+}
+
+function icalFeedUrls(c: { req: { url: string } }, token: { token: string; created_at: string }) {
+  const origin = new URL(c.req.url).origin
+  return {
+    tasks_url: `${origin}/ical/tasks.ics?token=${token.token}`,
+    tasks_todo_url: `${origin}/ical/tasks.ics?token=${token.token}&type=todo`,
+    schedule_url: `${origin}/ical/schedule.ics?token=${token.token}`,
+    created_at: token.created_at
+  }
+}
+
+// Subscription URLs for the iCalendar feeds (issues a token on first use)
+app.get('/api/ical', async (c) => {
+  return c.json(icalFeedUrls(c, await getIcalToken(c.env.DB)))
+})
+
+// Issue a new token; the old URLs stop working
+app.post('/api/ical/rotate', async (c) => {
+  return c.json(icalFeedUrls(c, await getIcalToken(c.env.DB, true)))
+})
+
+function icsResponse(c: Context, body: string) {
+  return c.body(body, 200, {
+    'Content-Type': 'text/calendar; charset=utf-8',
+    'Cache-Control': 'private, max-age=300'
   })
+}
+
+// Tasks with a due date as all-day VEVENTs (default) or VTODOs (?type=todo)
+app.get('/ical/tasks.ics', async (c) => {
+  const { DB } = c.env
+  if (!(await isValidIcalToken(DB, c.req.query('token')))) return c.text('Not found', 404)
+
+  const type = c.req.query('type') === 'todo' ? 'todo' : 'event'
+  const { results } = await DB.prepare(
+    "SELECT * FROM tasks WHERE status != 'deleted' AND due_date IS NOT NULL ORDER BY due_date ASC, created_at ASC"
+  ).all()
+  const components = (results as Task[]).map((task) => buildTaskIcsComponent(task, type))
+  return icsResponse(c, buildIcsCalendar('タスクの期日', components, getUserTimeZone(c.env)))
+})
+
+// The most recently generated schedule as timed VEVENTs (fixed events are left out; they already live in the source calendar)
+app.get('/ical/schedule.ics', async (c) => {
+  const { DB } = c.env
+  if (!(await isValidIcalToken(DB, c.req.query('token')))) return c.text('Not found', 404)
+
+  const latest = await getSavedSchedule(DB)
+  const timeZone = latest ? getScheduleTimeZone(latest, c.env) : getUserTimeZone(c.env)
+  const components = latest ? buildScheduleIcsComponents(latest.date, latest.schedule, latest.generated_at, timeZone) : []
+  return icsResponse(c, buildIcsCalendar('本日の予定表', components, timeZone))
 })
 
+
 // Frontend
 app.get('/', (c) => {
   return c.html(`
@@ -1323,21 +6907,51 @@ app.get('/', (c) => {
           .category-now { border-left: 4px solid rgb(59, 130, 246); }
           .category-maintain { border-left: 4px solid rgb(34, 197, 94); }
           .category-chore { border-left: 4px solid rgb(156, 163, 175); }
+          .board-column.drag-over { background-color: rgb(237, 233, 254); }
+          .board-card.dragging { opacity: 0.4; }
+          .search-match mark { background-color: rgb(254, 240, 138); padding: 0 1px; border-radius: 2px; }
         </style>
     </head>
     <body class="bg-gray-50 min-h-screen">
         <div class="container mx-auto px-4 py-8 max-w-6xl">
             <!-- Header -->
-            <div class="mb-8">
-                <h1 class="text-3xl font-bold text-gray-800 mb-2">
-                    <i class="fas fa-rocket mr-2 text-blue-600"></i>
-                    未来投資型タスク管理
-                </h1>
-                <p class="text-gray-600">「目の前の忙しさ」に埋没せず、「未来の売上（種まき）」を確実に実行</p>
+            <div class="mb-8 flex items-start justify-between gap-4">
+                <div>
+                    <h1 class="text-3xl font-bold text-gray-800 mb-2">
+                        <i class="fas fa-rocket mr-2 text-blue-600"></i>
+                        未来投資型タスク管理
+                    </h1>
+                    <p class="text-gray-600">「目の前の忙しさ」に埋没せず、「未来の売上（種まき）」を確実に実行</p>
+                </div>
+                <button onclick="openBackup()" class="flex-shrink-0 text-sm bg-white hover:bg-gray-100 border border-gray-300 text-gray-700 px-3 py-1 rounded transition">
+                    <i class="fas fa-database mr-1"></i>バックアップ
+                </button>
             </div>
 
-            <!-- Stats -->
-            <div id="statsCards" class="grid grid-cols-2 md:grid-cols-5 gap-3 mb-6"></div>
+            <!-- Stats & Goals -->
+            <div class="grid grid-cols-1 lg:grid-cols-3 gap-4 mb-6">
+                <div id="statsCards" class="lg:col-span-2 grid grid-cols-2 md:grid-cols-5 gap-3 content-start"></div>
+                <div class="bg-white rounded-lg shadow-md p-4">
+                    <div class="flex items-center justify-between mb-2">
+                        <h2 class="text-sm font-semibold text-gray-800">
+                            <i class="fas fa-bullseye mr-1 text-red-600"></i>未来の売上目標
+                        </h2>
+                        <button id="toggleGoalForm" class="text-xs bg-gray-200 hover:bg-gray-300 text-gray-800 px-2 py-1 rounded transition">
+                            <i class="fas fa-plus"></i>
+                        </button>
+                    </div>
+                    <form id="goalForm" class="hidden space-y-2 mb-3">
+                        <input type="text" id="goalName" required placeholder="目標名（例: A社 新規契約）" class="w-full px-2 py-1 text-sm border border-gray-300 rounded">
+                        <div class="flex gap-2">
+                            <input type="number" id="goalRevenue" min="0" placeholder="目標売上（円）" class="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded">
+                            <input type="date" id="goalDate" class="px-2 py-1 text-sm border border-gray-300 rounded">
+                        </div>
+                        <p data-error-for="_general" class="hidden text-xs text-red-600"></p>
+                        <button type="submit" class="w-full text-sm bg-red-600 hover:bg-red-700 text-white py-1 rounded transition">目標を追加</button>
+                    </form>
+                    <div id="goalsPanel" class="space-y-3"></div>
+                </div>
+            </div>
 
             <!-- Google Calendar Section -->
             <div class="bg-white rounded-lg shadow-md p-6 mb-6">
@@ -1362,19 +6976,132 @@ app.get('/', (c) => {
                     </div>
                 </div>
                 <div id="oauthStatus" class="text-sm mb-3 text-gray-600"></div>
+                <div id="calendarSyncRow" class="hidden flex flex-wrap items-center gap-2 text-xs text-gray-500 mb-3">
+                    <span id="calendarSyncStatus"></span>
+                    <button id="resyncCalendar" class="text-blue-600 hover:text-blue-800 underline">今すぐ同期</button>
+                </div>
+                <div class="mb-3 flex gap-4">
+                    <button id="toggleCalendarSources" class="text-sm text-blue-700 hover:text-blue-900">
+                        <i class="fas fa-layer-group mr-1"></i>連携するカレンダー
+                    </button>
+                    <button id="toggleCalendarRules" class="text-sm text-blue-700 hover:text-blue-900">
+                        <i class="fas fa-filter mr-1"></i>変換ルール
+                    </button>
+                </div>
+                <div id="calendarSourcesPanel" class="hidden mb-4 p-4 bg-blue-50 border border-blue-200 rounded-lg space-y-3">
+                    <p class="text-xs text-gray-600">複数のGoogleカレンダーやICS（webcal）のURLの予定をまとめて表示します。「予定表をふさぐ」連携先の予定は、予定表の生成で固定予定として扱います</p>
+                    <div id="calendarSourcesList" class="space-y-2"></div>
+                    <form id="calendarSourceForm" class="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm">
+                        <select id="sourceType" class="px-2 py-1 border border-gray-300 rounded">
+                            <option value="ics">ICS / webcal のURL</option>
+                            <option value="google">Googleカレンダー</option>
+                        </select>
+                        <div>
+                            <input type="text" id="sourceName" placeholder="表示名（例: 祝日・チームの予定）" class="w-full px-2 py-1 border border-gray-300 rounded">
+                            <p data-error-for="name" class="hidden text-xs text-red-600 mt-1"></p>
+                        </div>
+                        <div>
+                            <input type="text" id="sourceTarget" placeholder="https://… または webcal://…" class="w-full px-2 py-1 border border-gray-300 rounded">
+                            <p data-error-for="url" class="hidden text-xs text-red-600 mt-1"></p>
+                            <p data-error-for="calendar_id" class="hidden text-xs text-red-600 mt-1"></p>
+                        </div>
+                        <div class="flex items-center gap-3">
+                            <input type="color" id="sourceColor" value="#10b981" class="w-8 h-8 border border-gray-300 rounded" title="色">
+                            <label class="text-xs text-gray-600"><input type="checkbox" id="sourceBlocks" class="mr-1" checked>予定表をふさぐ</label>
+                        </div>
+                        <p data-error-for="_general" class="hidden text-xs text-red-600 md:col-span-3"></p>
+                        <button type="submit" class="md:col-span-2 bg-blue-600 hover:bg-blue-700 text-white py-1 rounded transition">
+                            <i class="fas fa-plus mr-1"></i>連携先を追加
+                        </button>
+                    </form>
+                </div>
+                <div id="calendarRulesPanel" class="hidden mb-4 p-4 bg-blue-50 border border-blue-200 rounded-lg space-y-3">
+                    <p class="text-xs text-gray-600">タスク化するときに上から順に調べ、最初に当てはまったルールでカテゴリ・優先度・時間を決めます。どれにも当てはまらない予定は「直近・中・60分」になります</p>
+                    <div id="calendarRulesList" class="space-y-2"></div>
+                    <form id="calendarRuleForm" class="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm">
+                        <div>
+                            <input type="text" id="ruleName" placeholder="ルール名（例: 社内定例）" class="w-full px-2 py-1 border border-gray-300 rounded">
+                            <p data-error-for="name" class="hidden text-xs text-red-600 mt-1"></p>
+                        </div>
+                        <div>
+                            <input type="text" id="ruleSummary" placeholder="予定名に含む語（カンマ区切り）" class="w-full px-2 py-1 border border-gray-300 rounded">
+                            <label class="text-xs text-gray-600"><input type="checkbox" id="ruleRegex" class="mr-1">正規表現として扱う</label>
+                            <p data-error-for="match_summary" class="hidden text-xs text-red-600 mt-1"></p>
+                        </div>
+                        <div>
+                            <input type="text" id="ruleDomain" placeholder="参加者のドメイン（例: example.co.jp）" class="w-full px-2 py-1 border border-gray-300 rounded">
+                            <p data-error-for="attendee_domain" class="hidden text-xs text-red-600 mt-1"></p>
+                        </div>
+                        <div>
+                            <input type="text" id="ruleCalendarId" placeholder="カレンダーID（空欄ならすべて）" class="w-full px-2 py-1 border border-gray-300 rounded">
+                            <p data-error-for="calendar_id" class="hidden text-xs text-red-600 mt-1"></p>
+                        </div>
+                        <div>
+                            <div class="flex items-center gap-1">
+                                <input type="number" id="ruleMinMinutes" min="0" placeholder="最短（分）" class="w-full px-2 py-1 border border-gray-300 rounded">
+                                <span>〜</span>
+                                <input type="number" id="ruleMaxMinutes" min="0" placeholder="最長（分）" class="w-full px-2 py-1 border border-gray-300 rounded">
+                            </div>
+                            <p data-error-for="min_minutes" class="hidden text-xs text-red-600 mt-1"></p>
+                            <p data-error-for="max_minutes" class="hidden text-xs text-red-600 mt-1"></p>
+                        </div>
+                        <select id="ruleAction" class="px-2 py-1 border border-gray-300 rounded">
+                            <option value="convert">タスク化する</option>
+                            <option value="skip">タスク化しない</option>
+                        </select>
+                        <select id="ruleCategory" class="px-2 py-1 border border-gray-300 rounded">
+                            <option value="">カテゴリ（既定）</option>
+                            <option value="future">🟥 未来</option>
+                            <option value="now">🟦 直近</option>
+                            <option value="maintain">🟩 維持</option>
+                            <option value="chore">⬜ 雑務</option>
+                        </select>
+                        <select id="rulePriority" class="px-2 py-1 border border-gray-300 rounded">
+                            <option value="">優先度（既定）</option>
+                            <option value="high">🔥 高</option>
+                            <option value="medium">⚡ 中</option>
+                            <option value="low">☁️ 低</option>
+                        </select>
+                        <div>
+                            <input type="number" id="ruleMinutes" min="1" placeholder="見積もり（分）" class="w-full px-2 py-1 border border-gray-300 rounded">
+                            <p data-error-for="minutes" class="hidden text-xs text-red-600 mt-1"></p>
+                        </div>
+                        <p data-error-for="_general" class="hidden text-xs text-red-600 md:col-span-3"></p>
+                        <button type="submit" class="md:col-span-3 bg-blue-600 hover:bg-blue-700 text-white py-1 rounded transition">
+                            <i class="fas fa-plus mr-1"></i>ルールを追加
+                        </button>
+                    </form>
+                    <button id="previewCalendarRules" class="text-sm bg-white hover:bg-blue-100 border border-blue-300 text-blue-700 px-3 py-1 rounded transition">
+                        <i class="fas fa-eye mr-1"></i>今後7日間の予定でプレビュー
+                    </button>
+                    <div id="calendarRulesPreview" class="space-y-1"></div>
+                </div>
                 <div id="calendarEvents" class="space-y-2"></div>
             </div>
 
             <!-- Schedule Generation Section -->
             <div class="bg-gradient-to-r from-purple-50 to-pink-50 rounded-lg shadow-md p-6 mb-6 border-2 border-purple-200">
                 <div class="mb-4">
-                    <h2 class="text-xl font-semibold text-gray-800 mb-2">
-                        <i class="fas fa-clock mr-2 text-purple-600"></i>
-                        本日の予定表を自動生成
-                    </h2>
+                    <div class="flex items-center justify-between mb-2">
+                        <h2 class="text-xl font-semibold text-gray-800">
+                            <i class="fas fa-clock mr-2 text-purple-600"></i>
+                            本日の予定表を自動生成
+                        </h2>
+                        <button id="toggleIcal" class="text-sm bg-white hover:bg-purple-100 border border-purple-200 text-purple-700 px-3 py-1 rounded transition">
+                            <i class="fas fa-rss mr-1"></i>カレンダーで購読
+                        </button>
+                    </div>
                     <p class="text-sm text-gray-600">食事時間（ランチ・夜ご飯）を自動配置し、タスクを最適なスケジュールに変換します</p>
                 </div>
 
+                <div id="icalPanel" class="hidden mb-4 p-4 bg-white rounded-lg border border-purple-200 space-y-3">
+                    <p class="text-xs text-gray-600">Googleカレンダーの「URLで追加」やiPhoneの「照会するカレンダーを追加」に貼り付けると、期日と予定表が表示されます（URLを知っている人は誰でも見られるので共有しないでください）</p>
+                    <div id="icalUrls" class="space-y-2"></div>
+                    <button id="rotateIcal" class="text-xs text-red-600 hover:text-red-800">
+                        <i class="fas fa-sync-alt mr-1"></i>URLを再発行（今のURLは使えなくなります）
+                    </button>
+                </div>
+
                 <!-- Pressed Time Display -->
                 <div id="pressedTimeDisplay" class="mb-4 p-3 bg-white rounded-lg border border-purple-200 hidden">
                     <p class="text-sm text-gray-600">
@@ -1412,6 +7139,11 @@ app.get('/', (c) => {
                             <i class="fas fa-plus"></i>
                         </button>
                     </div>
+                    <p id="fixedEventsError" class="hidden text-xs text-red-600 mt-1"></p>
+                    <label class="flex items-center gap-2 text-sm text-gray-700 mt-2">
+                        <input type="checkbox" id="includeCalendar">
+                        生成時にカレンダーの今日の予定も固定予定にする（「予定表をふさぐ」連携先のみ）
+                    </label>
                 </div>
 
                 <button id="generateSchedule" 
@@ -1422,26 +7154,56 @@ app.get('/', (c) => {
 
             <!-- Generated Schedule Display -->
             <div id="scheduleDisplay" class="bg-white rounded-lg shadow-md p-6 mb-6 hidden">
-                <h2 class="text-xl font-semibold text-gray-800 mb-4">
-                    <i class="fas fa-calendar-check mr-2 text-green-600"></i>
-                    生成された本日の予定表
-                </h2>
+                <div class="flex flex-wrap items-center justify-between gap-2 mb-4">
+                    <h2 class="text-xl font-semibold text-gray-800">
+                        <i class="fas fa-calendar-check mr-2 text-green-600"></i>
+                        生成された本日の予定表
+                    </h2>
+                    <div class="flex gap-2">
+                        <button id="writeScheduleCalendar" class="text-sm bg-green-600 hover:bg-green-700 text-white px-3 py-1 rounded transition">
+                            <i class="fab fa-google mr-1"></i>カレンダーに書き込む
+                        </button>
+                        <button id="removeScheduleCalendar" class="hidden text-sm bg-gray-200 hover:bg-gray-300 text-gray-800 px-3 py-1 rounded transition">
+                            <i class="fas fa-calendar-minus mr-1"></i>カレンダーから削除
+                        </button>
+                    </div>
+                </div>
+                <p id="scheduleCalendarStatus" class="hidden text-xs text-gray-500 mb-3"></p>
                 <div id="scheduleWarnings" class="mb-4"></div>
                 <div id="scheduleTimeline" class="space-y-1"></div>
             </div>
 
             <!-- Task Input Form -->
             <div class="bg-white rounded-lg shadow-md p-6 mb-6">
-                <h2 class="text-xl font-semibold text-gray-800 mb-4">
-                    <i class="fas fa-plus-circle mr-2 text-green-600"></i>
-                    新しいタスク
-                </h2>
+                <div class="flex items-center justify-between mb-4">
+                    <h2 class="text-xl font-semibold text-gray-800">
+                        <i class="fas fa-plus-circle mr-2 text-green-600"></i>
+                        新しいタスク
+                    </h2>
+                    <button type="button" onclick="openImport()" class="text-sm bg-gray-200 hover:bg-gray-300 text-gray-800 px-3 py-1 rounded transition">
+                        <i class="fas fa-file-import mr-1"></i>CSV取り込み
+                    </button>
+                </div>
+                <form id="quickAddForm" class="mb-4 pb-4 border-b border-gray-200">
+                    <label class="block text-sm font-medium text-gray-700 mb-2">
+                        <i class="fas fa-bolt mr-1 text-yellow-500"></i>クイック追加
+                    </label>
+                    <div class="flex gap-2">
+                        <input type="text" id="quickAddInput" autocomplete="off"
+                               class="flex-1 min-w-0 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-400 focus:border-transparent"
+                               placeholder="例: 明日 A社見積 60分 #future !高 ／ fri proposal 90m high">
+                        <button type="submit" class="bg-yellow-500 hover:bg-yellow-600 text-white px-4 py-2 rounded-lg transition flex-shrink-0">追加</button>
+                    </div>
+                    <div id="quickAddPreview" class="hidden mt-2 flex flex-wrap items-center gap-2 text-xs"></div>
+                    <p data-error-for="_general" class="hidden text-xs text-red-600 mt-1"></p>
+                </form>
                 <form id="taskForm" class="space-y-4">
                     <div>
                         <label class="block text-sm font-medium text-gray-700 mb-2">タスク名</label>
                         <input type="text" id="taskTitle" required 
                                class="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                                placeholder="例: 新規事業提案資料作成">
+                        <p data-error-for="title" class="hidden text-xs text-red-600 mt-1"></p>
                     </div>
                     
                     <div class="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -1454,6 +7216,7 @@ app.get('/', (c) => {
                                 <option value="maintain">🟩 維持・ルーティン</option>
                                 <option value="chore">⬜ 雑務</option>
                             </select>
+                            <p data-error-for="category" class="hidden text-xs text-red-600 mt-1"></p>
                         </div>
                         
                         <div>
@@ -1464,21 +7227,62 @@ app.get('/', (c) => {
                                 <option value="medium" selected>⚡ 中</option>
                                 <option value="low">☁️ 低</option>
                             </select>
+                            <p data-error-for="priority" class="hidden text-xs text-red-600 mt-1"></p>
                         </div>
                         
                         <div>
                             <label class="block text-sm font-medium text-gray-700 mb-2">期日</label>
                             <input type="date" id="taskDueDate" 
                                    class="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500">
+                            <p data-error-for="due_date" class="hidden text-xs text-red-600 mt-1"></p>
                         </div>
                         
                         <div>
                             <label class="block text-sm font-medium text-gray-700 mb-2">時間（分）</label>
                             <input type="number" id="taskMinutes" value="15" min="1" 
                                    class="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500">
+                            <p data-error-for="minutes" class="hidden text-xs text-red-600 mt-1"></p>
+                        </div>
+                    </div>
+
+                    <div class="grid grid-cols-1 md:grid-cols-4 gap-4">
+                        <div>
+                            <label class="block text-sm font-medium text-gray-700 mb-2">繰り返し</label>
+                            <select id="taskRecurrence" 
+                                    class="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500">
+                                <option value="" selected>なし</option>
+                                <option value="FREQ=DAILY">毎日</option>
+                                <option value="FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR">平日</option>
+                                <option value="FREQ=WEEKLY">毎週（期日の曜日）</option>
+                                <option value="FREQ=MONTHLY">毎月（期日の日付）</option>
+                                <option value="custom">カスタム（RRULE）</option>
+                            </select>
+                            <p data-error-for="recurrence_rule" class="hidden text-xs text-red-600 mt-1"></p>
+                        </div>
+                        <div>
+                            <label class="block text-sm font-medium text-gray-700 mb-2">目標</label>
+                            <select id="taskGoal" 
+                                    class="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500">
+                                <option value="">なし</option>
+                            </select>
+                            <p data-error-for="goal_id" class="hidden text-xs text-red-600 mt-1"></p>
+                        </div>
+                        <div class="md:col-span-2">
+                            <label class="block text-sm font-medium text-gray-700 mb-2">タグ（カンマ区切り）</label>
+                            <input type="text" id="taskTags" list="tagOptions"
+                                   class="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                                   placeholder="例: A社, 採用">
+                            <p data-error-for="tags" class="hidden text-xs text-red-600 mt-1"></p>
+                        </div>
+                        <div id="taskRecurrenceCustomWrap" class="md:col-span-4 hidden">
+                            <label class="block text-sm font-medium text-gray-700 mb-2">RRULE</label>
+                            <input type="text" id="taskRecurrenceCustom" 
+                                   class="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                                   placeholder="例: FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH">
                         </div>
                     </div>
                     
+                    <p data-error-for="_general" class="hidden text-sm text-red-600"></p>
                     <button type="submit" 
                             class="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 rounded-lg transition">
                         <i class="fas fa-plus mr-2"></i>タスクを追加
@@ -1488,12 +7292,42 @@ app.get('/', (c) => {
 
             <!-- Task List -->
             <div class="bg-white rounded-lg shadow-md p-6">
-                <h2 class="text-xl font-semibold text-gray-800 mb-4">
-                    <i class="fas fa-tasks mr-2 text-purple-600"></i>
-                    タスク一覧
-                </h2>
+                <div class="flex items-center justify-between mb-4">
+                    <h2 class="text-xl font-semibold text-gray-800">
+                        <i class="fas fa-tasks mr-2 text-purple-600"></i>
+                        タスク一覧
+                    </h2>
+                    <div class="flex items-center gap-2">
+                        <div class="inline-flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+                            <button id="listModeButton" onclick="setTaskViewMode('list')" class="px-3 py-1 bg-purple-600 text-white transition">
+                                <i class="fas fa-list mr-1"></i>リスト
+                            </button>
+                            <button id="boardModeButton" onclick="setTaskViewMode('board')" class="px-3 py-1 bg-white text-gray-700 hover:bg-gray-100 transition">
+                                <i class="fas fa-columns mr-1"></i>ボード
+                            </button>
+                        </div>
+                        <button id="toggleTrash" class="text-sm bg-gray-200 hover:bg-gray-300 text-gray-800 px-3 py-1 rounded transition">
+                            <i class="fas fa-trash-restore mr-1"></i>ゴミ箱
+                        </button>
+                    </div>
+                </div>
+                <div id="trashPanel" class="hidden mb-4 p-4 bg-gray-50 rounded-lg border border-gray-200">
+                    <div class="flex items-center justify-between mb-2">
+                        <p id="trashInfo" class="text-sm text-gray-600"></p>
+                        <button id="emptyTrash" class="text-sm bg-red-600 hover:bg-red-700 text-white px-3 py-1 rounded transition">
+                            <i class="fas fa-dumpster mr-1"></i>ゴミ箱を空にする
+                        </button>
+                    </div>
+                    <div id="trashList" class="space-y-2"></div>
+                </div>
+                <div class="flex flex-wrap items-center gap-2 mb-3">
+                    <div id="viewsBar" class="flex flex-wrap items-center gap-2"></div>
+                    <button id="saveView" class="text-xs bg-purple-100 hover:bg-purple-200 text-purple-800 px-2 py-1 rounded transition">
+                        <i class="fas fa-bookmark mr-1"></i>現在の条件をビューに保存
+                    </button>
+                </div>
                 <div class="grid grid-cols-1 md:grid-cols-7 gap-3 mb-4">
-                    <input id="searchInput" type="text" placeholder="検索（タスク名）" class="md:col-span-2 px-3 py-2 border border-gray-300 rounded-lg">
+                    <input id="searchInput" type="text" placeholder="検索（タスク名・メモ・サブタスク）" class="md:col-span-2 px-3 py-2 border border-gray-300 rounded-lg">
                     <select id="statusFilter" class="px-3 py-2 border border-gray-300 rounded-lg">
                         <option value="all">ステータス: すべて</option>
                         <option value="todo" selected>未完了</option>
@@ -1526,91 +7360,1199 @@ app.get('/', (c) => {
                         <option value="due_desc">並び: 期日が遠い順</option>
                         <option value="created_desc">並び: 新しい順</option>
                         <option value="created_asc">並び: 古い順</option>
+                        <option value="relevance">並び: 関連度順（検索時）</option>
+                        <option value="manual">並び: 手動（ボード順）</option>
+                    </select>
+                </div>
+                <div class="grid grid-cols-1 md:grid-cols-7 gap-3 mb-4">
+                    <input id="tagFilter" type="text" list="tagOptions" placeholder="タグで絞り込み（カンマ区切り）" class="md:col-span-2 px-3 py-2 border border-gray-300 rounded-lg">
+                    <select id="tagModeFilter" class="px-3 py-2 border border-gray-300 rounded-lg">
+                        <option value="or" selected>タグ: いずれか</option>
+                        <option value="and">タグ: すべて</option>
                     </select>
+                    <datalist id="tagOptions"></datalist>
+                </div>
+                <div id="listView">
+                    <div id="bulkBar" class="hidden sticky top-0 z-10 mb-3 p-3 bg-indigo-50 border border-indigo-200 rounded-lg flex flex-wrap items-center gap-2 text-sm">
+                        <span id="bulkCount" class="font-semibold text-indigo-800"></span>
+                        <button onclick="runBulk('complete')" class="bg-green-600 hover:bg-green-700 text-white px-3 py-1 rounded transition">完了</button>
+                        <button onclick="runBulk('reopen')" class="bg-gray-500 hover:bg-gray-600 text-white px-3 py-1 rounded transition">未完了に戻す</button>
+                        <select id="bulkCategory" class="px-2 py-1 border border-gray-300 rounded">
+                            <option value="">カテゴリ変更…</option>
+                            <option value="future">未来</option>
+                            <option value="now">直近</option>
+                            <option value="maintain">維持</option>
+                            <option value="chore">雑務</option>
+                        </select>
+                        <select id="bulkPriority" class="px-2 py-1 border border-gray-300 rounded">
+                            <option value="">優先度変更…</option>
+                            <option value="high">高</option>
+                            <option value="medium">中</option>
+                            <option value="low">低</option>
+                        </select>
+                        <input id="bulkShiftDays" type="number" value="1" class="w-16 px-2 py-1 border border-gray-300 rounded">
+                        <button onclick="runBulk('shift_due')" class="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded transition">日 期日をずらす</button>
+                        <button onclick="runBulk('delete')" class="bg-red-600 hover:bg-red-700 text-white px-3 py-1 rounded transition">削除</button>
+                        <button onclick="clearSelection()" class="text-indigo-700 hover:text-indigo-900 ml-auto">選択解除</button>
+                    </div>
+                    <label class="flex items-center gap-2 text-sm text-gray-600 mb-2">
+                        <input type="checkbox" id="selectAllTasks"> 表示中のタスクをすべて選択
+                    </label>
+                    <div id="taskList" class="space-y-3"></div>
+                    <div id="taskListSentinel" class="h-1"></div>
+                    <p id="taskListSummary" class="text-xs text-gray-500 text-center mt-3"></p>
+                </div>
+                <div id="boardView" class="hidden">
+                    <div class="flex items-center gap-2 mb-3 text-sm">
+                        <label for="boardGroupBy" class="text-gray-600">列:</label>
+                        <select id="boardGroupBy" onchange="loadBoard()" class="px-2 py-1 border border-gray-300 rounded">
+                            <option value="status" selected>ステータス</option>
+                            <option value="category">カテゴリ</option>
+                        </select>
+                        <span class="text-xs text-gray-500">カードをドラッグして列の移動・並べ替えができます</span>
+                    </div>
+                    <div id="taskBoard" class="grid grid-cols-1 gap-3"></div>
+                    <p id="taskBoardSummary" class="text-xs text-gray-500 text-center mt-3"></p>
+                </div>
+            </div>
+        </div>
+
+        <!-- History Drawer -->
+        <div id="historyDrawer" class="fixed inset-0 z-40 hidden">
+            <div class="absolute inset-0 bg-black bg-opacity-30" onclick="closeHistory()"></div>
+            <div class="absolute right-0 top-0 h-full w-full max-w-md bg-white shadow-xl p-6 overflow-y-auto">
+                <div class="flex items-center justify-between mb-4">
+                    <h2 class="text-lg font-semibold text-gray-800">
+                        <i class="fas fa-history mr-2 text-gray-600"></i>変更履歴
+                    </h2>
+                    <button onclick="closeHistory()" class="text-gray-500 hover:text-gray-800"><i class="fas fa-times"></i></button>
+                </div>
+                <p id="historyTaskTitle" class="text-sm text-gray-600 mb-4"></p>
+                <div id="historyList" class="space-y-2"></div>
+            </div>
+        </div>
+
+        <!-- Backup Drawer -->
+        <div id="backupDrawer" class="fixed inset-0 z-40 hidden">
+            <div class="absolute inset-0 bg-black bg-opacity-30" onclick="closeBackup()"></div>
+            <div id="backupPanel" class="absolute right-0 top-0 h-full w-full max-w-md bg-white shadow-xl p-6 overflow-y-auto">
+                <div class="flex items-center justify-between mb-4">
+                    <h2 class="text-lg font-semibold text-gray-800">
+                        <i class="fas fa-database mr-2 text-gray-600"></i>バックアップと復元
+                    </h2>
+                    <button onclick="closeBackup()" class="text-gray-500 hover:text-gray-800"><i class="fas fa-times"></i></button>
+                </div>
+                <p class="text-sm font-semibold text-gray-700 mb-2">書き出し</p>
+                <a href="/api/export" class="block text-center text-sm bg-blue-600 hover:bg-blue-700 text-white py-2 rounded transition mb-2">
+                    <i class="fas fa-download mr-1"></i>すべてをJSONで保存
+                </a>
+                <p class="text-xs text-gray-500 mb-1">テーブルごとのCSV</p>
+                <div id="backupCsvLinks" class="flex flex-wrap gap-2 mb-6"></div>
+                <p class="text-sm font-semibold text-gray-700 mb-2">復元</p>
+                <div class="space-y-2">
+                    <input type="file" id="backupFile" accept=".json,application/json" class="block w-full text-sm text-gray-600">
+                    <div class="text-sm text-gray-700 space-y-1">
+                        <label class="block"><input type="radio" name="backupMode" value="merge" checked class="mr-1">統合（同じIDは上書き、それ以外は残す）</label>
+                        <label class="block"><input type="radio" name="backupMode" value="replace" class="mr-1">置き換え（今のデータを消してバックアップの状態に戻す）</label>
+                    </div>
+                    <p data-error-for="_general" class="hidden text-xs text-red-600"></p>
+                    <button type="button" onclick="restoreBackup()" class="w-full text-sm bg-gray-800 hover:bg-gray-900 text-white py-2 rounded transition">
+                        <i class="fas fa-upload mr-1"></i>復元する
+                    </button>
+                    <p id="backupResult" class="text-xs text-gray-600"></p>
+                </div>
+            </div>
+        </div>
+
+        <!-- Import Drawer -->
+        <div id="importDrawer" class="fixed inset-0 z-40 hidden">
+            <div class="absolute inset-0 bg-black bg-opacity-30" onclick="closeImport()"></div>
+            <div id="importPanel" class="absolute right-0 top-0 h-full w-full max-w-2xl bg-white shadow-xl p-6 overflow-y-auto">
+                <div class="flex items-center justify-between mb-4">
+                    <h2 class="text-lg font-semibold text-gray-800">
+                        <i class="fas fa-file-import mr-2 text-gray-600"></i>CSV / スプレッドシートから取り込み
+                    </h2>
+                    <button onclick="closeImport()" class="text-gray-500 hover:text-gray-800"><i class="fas fa-times"></i></button>
+                </div>
+                <div class="space-y-2 mb-4">
+                    <input type="file" id="importFile" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" class="block w-full text-sm text-gray-600">
+                    <textarea id="importText" rows="6" class="w-full px-3 py-2 text-sm font-mono border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                              placeholder="CSVファイルを選ぶか、スプレッドシートの範囲をコピーして貼り付け（1行目が見出しなら自動で項目を対応付けます）"></textarea>
+                    <p data-error-for="text" class="hidden text-xs text-red-600"></p>
+                    <div class="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+                        <label>区切り
+                            <select id="importDelimiter" class="px-2 py-1 border border-gray-300 rounded">
+                                <option value="auto">自動</option>
+                                <option value="comma">カンマ</option>
+                                <option value="tab">タブ</option>
+                                <option value="semicolon">セミコロン</option>
+                            </select>
+                        </label>
+                        <label>見出し行
+                            <select id="importHeader" class="px-2 py-1 border border-gray-300 rounded">
+                                <option value="">自動</option>
+                                <option value="true">あり</option>
+                                <option value="false">なし</option>
+                            </select>
+                        </label>
+                        <label>重複
+                            <select id="importDuplicates" class="px-2 py-1 border border-gray-300 rounded">
+                                <option value="skip">スキップ</option>
+                                <option value="import">取り込む</option>
+                            </select>
+                        </label>
+                        <label><input type="checkbox" id="importSkipErrors" class="mr-1">誤りのある行を除いて取り込む</label>
+                    </div>
+                    <button type="button" onclick="previewImport()" class="w-full text-sm bg-blue-600 hover:bg-blue-700 text-white py-2 rounded transition">
+                        <i class="fas fa-search mr-1"></i>確認（まだ保存しません）
+                    </button>
+                </div>
+                <div id="importMapping" class="hidden mb-4"></div>
+                <div id="importValueMap" class="hidden mb-4"></div>
+                <div id="importReport" class="hidden mb-4"></div>
+                <p data-error-for="rows" class="hidden text-sm text-red-600 mb-2"></p>
+                <p data-error-for="_general" class="hidden text-sm text-red-600 mb-2"></p>
+                <button type="button" id="importCommitButton" onclick="commitImport()" disabled
+                        class="w-full bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white font-semibold py-2 rounded-lg transition">
+                    <i class="fas fa-file-import mr-1"></i>取り込む
+                </button>
+            </div>
+        </div>
+
+        <!-- Time Entries Drawer -->
+        <div id="timeDrawer" class="fixed inset-0 z-40 hidden">
+            <div class="absolute inset-0 bg-black bg-opacity-30" onclick="closeTimeEntries()"></div>
+            <div class="absolute right-0 top-0 h-full w-full max-w-md bg-white shadow-xl p-6 overflow-y-auto">
+                <div class="flex items-center justify-between mb-4">
+                    <h2 class="text-lg font-semibold text-gray-800">
+                        <i class="fas fa-stopwatch mr-2 text-gray-600"></i>作業記録
+                    </h2>
+                    <button onclick="closeTimeEntries()" class="text-gray-500 hover:text-gray-800"><i class="fas fa-times"></i></button>
+                </div>
+                <p id="timeTaskTitle" class="text-sm text-gray-600 mb-1"></p>
+                <p id="timeSummary" class="text-sm font-semibold text-gray-800 mb-4"></p>
+                <form id="timeEntryForm" class="space-y-2 mb-4 p-3 bg-gray-50 rounded-lg border border-gray-200">
+                    <p class="text-xs font-semibold text-gray-600">手動で追加</p>
+                    <div class="flex gap-2">
+                        <input type="number" id="timeEntryMinutes" min="1" max="1440" required placeholder="分" class="w-20 px-2 py-1 text-sm border border-gray-300 rounded">
+                        <input type="datetime-local" id="timeEntryStartedAt" class="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded" title="開始日時（未入力なら今終わった作業として記録）">
+                    </div>
+                    <p data-error-for="minutes" class="hidden text-xs text-red-600"></p>
+                    <p data-error-for="started_at" class="hidden text-xs text-red-600"></p>
+                    <input type="text" id="timeEntryNote" placeholder="メモ（任意）" class="w-full px-2 py-1 text-sm border border-gray-300 rounded">
+                    <p data-error-for="_general" class="hidden text-xs text-red-600"></p>
+                    <button type="submit" class="w-full text-sm bg-teal-600 hover:bg-teal-700 text-white py-1 rounded transition">記録を追加</button>
+                </form>
+                <div id="timeEntryList" class="space-y-2"></div>
+            </div>
+        </div>
+
+        <!-- Focus Mode -->
+        <div id="focusModal" class="fixed inset-0 z-50 hidden">
+            <div class="absolute inset-0 bg-gray-900 bg-opacity-80"></div>
+            <div id="focusPanel" class="relative max-w-lg mx-auto mt-16 bg-white rounded-lg shadow-xl p-6 max-h-[85vh] overflow-y-auto">
+                <div class="flex items-center justify-between mb-2">
+                    <h2 class="text-lg font-semibold text-gray-800">
+                        <i class="fas fa-bullseye mr-2 text-rose-600"></i>集中モード
+                    </h2>
+                    <button onclick="closeFocus()" class="text-gray-500 hover:text-gray-800"><i class="fas fa-times"></i></button>
+                </div>
+                <p id="focusTitle" class="font-medium text-gray-800"></p>
+                <p id="focusBlock" class="text-xs text-gray-500 mb-4"></p>
+                <div class="text-center mb-4">
+                    <p id="focusPhase" class="text-sm font-semibold text-rose-600"></p>
+                    <p id="focusCountdown" class="text-6xl font-bold font-mono text-gray-800"></p>
+                    <p id="focusCycles" class="text-xs text-gray-500 mt-1"></p>
+                </div>
+                <div id="focusSettings" class="flex items-center justify-center gap-3 text-sm text-gray-700 mb-2">
+                    <label>作業 <input type="number" id="focusWorkMinutes" min="1" max="180" class="w-16 px-2 py-1 border border-gray-300 rounded"> 分</label>
+                    <label>休憩 <input type="number" id="focusBreakMinutes" min="0" max="60" class="w-16 px-2 py-1 border border-gray-300 rounded"> 分</label>
+                </div>
+                <p data-error-for="work_minutes" class="hidden text-xs text-red-600 text-center"></p>
+                <p data-error-for="break_minutes" class="hidden text-xs text-red-600 text-center"></p>
+                <p data-error-for="_general" class="hidden text-xs text-red-600 text-center"></p>
+                <div class="flex justify-center gap-2 my-4">
+                    <button id="focusStartButton" onclick="startFocusWork()" class="bg-rose-600 hover:bg-rose-700 text-white px-4 py-2 rounded-lg transition">
+                        <i class="fas fa-play mr-1"></i>開始
+                    </button>
+                    <button id="focusSkipBreakButton" onclick="skipFocusBreak()" class="hidden bg-teal-600 hover:bg-teal-700 text-white px-4 py-2 rounded-lg transition">
+                        <i class="fas fa-forward mr-1"></i>休憩をスキップ
+                    </button>
+                    <button id="focusStopButton" onclick="stopFocus()" class="hidden bg-gray-200 hover:bg-gray-300 text-gray-800 px-4 py-2 rounded-lg transition">
+                        <i class="fas fa-stop mr-1"></i>中断
+                    </button>
+                </div>
+                <div id="focusSubtasks"></div>
+                <p id="focusTodaySummary" class="text-xs text-gray-500 mt-4 text-center"></p>
+            </div>
+        </div>
+
+        <!-- Running Timer -->
+        <div id="timerBar" class="hidden fixed bottom-4 right-4 z-30 bg-teal-700 text-white rounded-lg shadow-lg px-4 py-3 flex items-center gap-3 max-w-sm">
+            <i class="fas fa-stopwatch animate-pulse"></i>
+            <div class="min-w-0">
+                <p id="timerTitle" class="text-sm font-medium truncate"></p>
+                <p id="timerElapsed" class="text-lg font-bold font-mono"></p>
+            </div>
+            <button onclick="stopTimer()" class="bg-white text-teal-800 hover:bg-teal-50 px-3 py-1 rounded text-sm font-semibold transition">
+                <i class="fas fa-stop mr-1"></i>停止
+            </button>
+        </div>
+
+        <div id="editTaskModal" class="fixed inset-0 z-40 hidden">
+            <div class="absolute inset-0 bg-black bg-opacity-30" onclick="closeEditTask()"></div>
+            <div class="absolute right-0 top-0 h-full w-full max-w-md bg-white shadow-xl p-6 overflow-y-auto">
+                <div class="flex items-center justify-between mb-4">
+                    <h2 class="text-lg font-semibold text-gray-800">
+                        <i class="fas fa-edit mr-2 text-gray-600"></i>タスクを編集
+                    </h2>
+                    <button onclick="closeEditTask()" class="text-gray-500 hover:text-gray-800"><i class="fas fa-times"></i></button>
+                </div>
+                <div id="editConflict" class="hidden mb-4 p-3 bg-yellow-50 border border-yellow-300 rounded-lg text-sm">
+                    <p class="font-semibold text-yellow-800 mb-2"><i class="fas fa-exclamation-triangle mr-1"></i>他の端末で更新されています</p>
+                    <div id="editConflictList" class="space-y-1 mb-3"></div>
+                    <div class="flex gap-2">
+                        <button type="button" onclick="applyMyEdits()" class="flex-1 text-xs bg-blue-600 hover:bg-blue-700 text-white py-1 rounded transition">自分の変更を反映して保存</button>
+                        <button type="button" onclick="reloadEditTask()" class="flex-1 text-xs bg-gray-200 hover:bg-gray-300 text-gray-800 py-1 rounded transition">最新の内容を読み込む</button>
+                    </div>
+                </div>
+                <form id="editTaskForm" class="space-y-3">
+                    <div>
+                        <label class="block text-sm font-medium text-gray-700 mb-1">タスク名</label>
+                        <input type="text" id="editTitle" required class="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500">
+                        <p data-error-for="title" class="hidden text-xs text-red-600 mt-1"></p>
+                    </div>
+                    <div class="grid grid-cols-2 gap-3">
+                        <div>
+                            <label class="block text-sm font-medium text-gray-700 mb-1">カテゴリ</label>
+                            <select id="editCategory" class="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500">
+                                <option value="future">🟥 未来（最優先）</option>
+                                <option value="now">🟦 直近の売上</option>
+                                <option value="maintain">🟩 維持・ルーティン</option>
+                                <option value="chore">⬜ 雑務</option>
+                            </select>
+                            <p data-error-for="category" class="hidden text-xs text-red-600 mt-1"></p>
+                        </div>
+                        <div>
+                            <label class="block text-sm font-medium text-gray-700 mb-1">優先度</label>
+                            <select id="editPriority" class="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500">
+                                <option value="high">🔥 高</option>
+                                <option value="medium">⚡ 中</option>
+                                <option value="low">☁️ 低</option>
+                            </select>
+                            <p data-error-for="priority" class="hidden text-xs text-red-600 mt-1"></p>
+                        </div>
+                        <div>
+                            <label class="block text-sm font-medium text-gray-700 mb-1">期日</label>
+                            <input type="date" id="editDueDate" class="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500">
+                            <p data-error-for="due_date" class="hidden text-xs text-red-600 mt-1"></p>
+                        </div>
+                        <div>
+                            <label class="block text-sm font-medium text-gray-700 mb-1">時間（分）</label>
+                            <input type="number" id="editMinutes" min="1" class="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500">
+                            <p data-error-for="minutes" class="hidden text-xs text-red-600 mt-1"></p>
+                        </div>
+                    </div>
+                    <div>
+                        <label class="block text-sm font-medium text-gray-700 mb-1">メモ</label>
+                        <textarea id="editNotes" rows="4" class="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"></textarea>
+                        <p data-error-for="notes" class="hidden text-xs text-red-600 mt-1"></p>
+                    </div>
+                    <p data-error-for="_general" class="hidden text-sm text-red-600"></p>
+                    <button type="submit" class="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 rounded-lg transition">保存</button>
+                </form>
+            </div>
+        </div>
+
+        <script src="https://cdn.jsdelivr.net/npm/axios@1.6.0/dist/axios.min.js"></script>
+        <script>
+          const API_BASE = '/api';
+          // 「今日」や予定表の時刻の基準（サーバーの TIMEZONE 設定。ブラウザのタイムゾーンではなくこちらを使う）
+          const USER_TIMEZONE = ${JSON.stringify(getUserTimeZone(c.env))};
+          axios.defaults.headers.common['X-Task-Source'] = 'ui';
+          const calendarEventsCache = [];
+          let currentTasks = [];
+          const subtasksByTaskId = {};
+          const dependenciesByTaskId = {};
+          const expandedSubtasks = {};
+          let goalsById = {};
+          const selectedTaskIds = new Set();
+          let savedViews = [];
+          let activeViewId = '';
+
+          function escapeHtml(str) {
+            return String(str).replace(/&/g,'&amp;').replace(/</g,'&lt;').replace(/>/g,'&gt;').replace(/"/g,'&quot;').replace(/'/g,'&#039;');
+          }
+
+          function clearFieldErrors(container) {
+            container.querySelectorAll('[data-error-for]').forEach(el => {
+              el.textContent = '';
+              el.classList.add('hidden');
+            });
+          }
+
+          // Show field-level messages from a 400 response; unmatched fields fall back to _general
+          function showFieldErrors(container, error, fallbackMessage) {
+            clearFieldErrors(container);
+            const data = error?.response?.data || {};
+            const fields = data.fields || {};
+            const general = [];
+            Object.entries(fields).forEach(([field, message]) => {
+              const el = container.querySelector(\`[data-error-for="\${field}"]\`);
+              if (el) {
+                el.textContent = message;
+                el.classList.remove('hidden');
+              } else {
+                general.push(\`\${field}: \${message}\`);
+              }
+            });
+            if (Object.keys(fields).length === 0) general.push(data.message || fallbackMessage);
+            const generalEl = container.querySelector('[data-error-for="_general"]');
+            if (general.length === 0) return;
+            if (generalEl) {
+              generalEl.textContent = general.join(' / ');
+              generalEl.classList.remove('hidden');
+            } else {
+              alert(general.join('\\n'));
+            }
+          }
+          
+          function getTaskFilters() {
+            return {
+              q: document.getElementById('searchInput').value.trim(),
+              status: document.getElementById('statusFilter').value,
+              category: document.getElementById('categoryFilter').value,
+              priority: document.getElementById('priorityFilter').value,
+              due: document.getElementById('dueFilter').value,
+              sort: document.getElementById('sortSelect').value,
+              tag: document.getElementById('tagFilter').value.trim(),
+              tag_mode: document.getElementById('tagFilter').value.trim() ? document.getElementById('tagModeFilter').value : ''
+            };
+          }
+
+          function isOAuthError(error) {
+            return error?.response?.status === 401 && error?.response?.data?.authUrl;
+          }
+
+          async function loadOAuthStatus() {
+            try {
+              const res = await axios.get(\`\${API_BASE}/calendar/oauth/status\`);
+              const statusEl = document.getElementById('oauthStatus');
+              const connectBtn = document.getElementById('oauthConnect');
+              const disconnectBtn = document.getElementById('oauthDisconnect');
+
+              if (res.data.mode === 'oauth') {
+                if (res.data.connected) {
+                  statusEl.textContent = 'OAuth接続済み: 非公開カレンダーを取得できます。';
+                  statusEl.className = 'text-sm mb-3 text-green-700';
+                  connectBtn.classList.add('hidden');
+                  disconnectBtn.classList.remove('hidden');
+                } else {
+                  statusEl.textContent = 'OAuth未接続: 「Google接続」から認可してください。';
+                  statusEl.className = 'text-sm mb-3 text-amber-700';
+                  connectBtn.classList.remove('hidden');
+                  disconnectBtn.classList.add('hidden');
+                }
+              } else if (res.data.mode === 'api_key') {
+                statusEl.textContent = 'APIキー方式: 公開カレンダーのみ取得可能です。';
+                statusEl.className = 'text-sm mb-3 text-blue-700';
+                connectBtn.classList.remove('hidden');
+                disconnectBtn.classList.add('hidden');
+              } else {
+                statusEl.textContent = 'Googleカレンダー未設定: OAuth設定またはAPIキー設定が必要です。';
+                statusEl.className = 'text-sm mb-3 text-red-700';
+                connectBtn.classList.remove('hidden');
+                disconnectBtn.classList.add('hidden');
+              }
+            } catch (error) {
+              console.error('Failed to load OAuth status:', error);
+            }
+          }
+          
+          // Load tasks
+          // 一覧はページ単位で取得し、末尾までスクロールしたら続きを読み込む
+          const TASK_PAGE_SIZE = 50;
+          const TASK_LIST_FIELDS = 'id,title,category,minutes,status,due_date,priority,recurrence_rule,goal_id,notes,version,source_event_status,blocked_by_count,tracked_minutes,tags,search_match';
+          const taskPaging = { nextCursor: null, total: 0, loading: false, requestId: 0 };
+          let taskViewMode = 'list';
+
+          function buildTaskListParams(cursor) {
+            const params = new URLSearchParams();
+            if (activeViewId) {
+              params.append('view', activeViewId);
+            } else {
+              Object.entries(getTaskFilters()).forEach(([key, value]) => {
+                if (value && value !== 'all') params.append(key, value);
+              });
+            }
+            params.append('limit', String(TASK_PAGE_SIZE));
+            params.append('fields', TASK_LIST_FIELDS);
+            if (cursor) params.append('cursor', cursor);
+            return params;
+          }
+
+          async function loadTasks() {
+            if (taskViewMode === 'board') return loadBoard();
+            const requestId = ++taskPaging.requestId;
+            taskPaging.loading = true;
+            try {
+              const response = await axios.get(\`\${API_BASE}/tasks?\${buildTaskListParams().toString()}\`);
+              if (requestId !== taskPaging.requestId) return;
+              taskPaging.nextCursor = response.data.next_cursor;
+              taskPaging.total = response.data.total;
+              renderTasks(response.data.tasks);
+            } catch (error) {
+              console.error('Failed to load tasks:', error);
+            } finally {
+              if (requestId === taskPaging.requestId) taskPaging.loading = false;
+            }
+          }
+
+          async function loadMoreTasks() {
+            if (taskPaging.loading || !taskPaging.nextCursor) return;
+            const requestId = taskPaging.requestId;
+            taskPaging.loading = true;
+            try {
+              const response = await axios.get(\`\${API_BASE}/tasks?\${buildTaskListParams(taskPaging.nextCursor).toString()}\`);
+              if (requestId !== taskPaging.requestId) return;
+              taskPaging.nextCursor = response.data.next_cursor;
+              taskPaging.total = response.data.total;
+              appendTasks(response.data.tasks);
+            } catch (error) {
+              console.error('Failed to load more tasks:', error);
+            } finally {
+              if (requestId === taskPaging.requestId) taskPaging.loading = false;
+            }
+          }
+
+          new IntersectionObserver((entries) => {
+            if (entries.some(entry => entry.isIntersecting)) loadMoreTasks();
+          }, { rootMargin: '400px' }).observe(document.getElementById('taskListSentinel'));
+
+          function renderTaskListSummary() {
+            const el = document.getElementById('taskListSummary');
+            el.textContent = taskPaging.total > 0
+              ? \`全\${taskPaging.total}件中 \${currentTasks.length}件を表示\${taskPaging.nextCursor ? '（スクロールで続きを読み込み）' : ''}\`
+              : '';
+          }
+
+          // Time tracking
+          // タイマーは同時に1つだけ。開始すると計測中の別のタイマーはサーバー側で止まる
+          let runningTimer = null;
+          let runningTimerInterval = null;
+          let timeEntriesTaskId = null;
+
+          function formatMinutes(minutes) {
+            const value = Number(minutes) || 0;
+            return value >= 60 ? \`\${Math.floor(value / 60)}時間\${value % 60 ? (value % 60) + '分' : ''}\` : \`\${value}分\`;
+          }
+
+          function formatElapsed(seconds) {
+            const h = Math.floor(seconds / 3600);
+            const m = Math.floor((seconds % 3600) / 60);
+            const sec = seconds % 60;
+            return \`\${h}:\${String(m).padStart(2, '0')}:\${String(sec).padStart(2, '0')}\`;
+          }
+
+          function isTimerRunningFor(taskId, subtaskId = null) {
+            return !!runningTimer && runningTimer.task_id === taskId && (subtaskId === null || runningTimer.subtask_id === subtaskId);
+          }
+
+          async function loadTimer() {
+            const previousId = runningTimer?.id || null;
+            try {
+              const response = await axios.get(\`\${API_BASE}/timer\`);
+              runningTimer = response.data.running;
+            } catch (error) {
+              console.error('Failed to load timer:', error);
+            }
+            renderTimerBar();
+            // 他の端末やタスク完了でタイマーが変わった場合はカードの再生・停止ボタンを描き直す
+            if ((runningTimer?.id || null) !== previousId) renderTasks(currentTasks);
+          }
+
+          function renderTimerBar() {
+            const bar = document.getElementById('timerBar');
+            clearInterval(runningTimerInterval);
+            if (!runningTimer) {
+              bar.classList.add('hidden');
+              return;
+            }
+            bar.classList.remove('hidden');
+            document.getElementById('timerTitle').textContent = runningTimer.task_title + (runningTimer.subtask_title ? ' / ' + runningTimer.subtask_title : '');
+            // 端末の時計のずれに影響されないよう、サーバーが返した経過秒数を起点に数える
+            const startedAt = Date.now() - runningTimer.elapsed_seconds * 1000;
+            const tick = () => {
+              document.getElementById('timerElapsed').textContent = formatElapsed(Math.floor((Date.now() - startedAt) / 1000));
+            };
+            tick();
+            runningTimerInterval = setInterval(tick, 1000);
+          }
+
+          window.startTimer = async (taskId, subtaskId = null) => {
+            try {
+              const response = await axios.post(\`\${API_BASE}/timer/start\`, { task_id: taskId, subtask_id: subtaskId });
+              runningTimer = response.data.running;
+              renderTimerBar();
+              renderTasks(currentTasks);
+              if (response.data.stopped) loadTasks();
+            } catch (error) {
+              console.error('Failed to start timer:', error);
+              alert(error.response?.data?.message || 'タイマーの開始に失敗しました');
+            }
+          };
+
+          window.stopTimer = async () => {
+            try {
+              await axios.post(\`\${API_BASE}/timer/stop\`);
+            } catch (error) {
+              if (error.response?.status !== 404) {
+                console.error('Failed to stop timer:', error);
+                alert('タイマーの停止に失敗しました');
+                return;
+              }
+            }
+            const taskId = runningTimer?.task_id;
+            runningTimer = null;
+            renderTimerBar();
+            loadTasks();
+            loadStats();
+            if (taskId && timeEntriesTaskId === taskId) loadTimeEntries();
+          };
+
+          window.openTimeEntries = async (taskId) => {
+            timeEntriesTaskId = taskId;
+            const task = currentTasks.find(t => t.id === taskId);
+            document.getElementById('timeTaskTitle').textContent = task ? task.title : '';
+            document.getElementById('timeSummary').textContent = '';
+            document.getElementById('timeEntryList').innerHTML = '<p class="text-sm text-gray-500">読み込み中...</p>';
+            document.getElementById('timeEntryForm').reset();
+            clearFieldErrors(document.getElementById('timeEntryForm'));
+            document.getElementById('timeDrawer').classList.remove('hidden');
+            await loadTimeEntries();
+          };
+
+          window.closeTimeEntries = () => {
+            timeEntriesTaskId = null;
+            document.getElementById('timeDrawer').classList.add('hidden');
+          };
+
+          async function loadTimeEntries() {
+            if (!timeEntriesTaskId) return;
+            try {
+              const response = await axios.get(\`\${API_BASE}/tasks/\${timeEntriesTaskId}/time-entries\`);
+              renderTimeEntries(response.data);
+            } catch (error) {
+              console.error('Failed to load time entries:', error);
+              document.getElementById('timeEntryList').innerHTML = '<p class="text-sm text-red-600">作業記録の取得に失敗しました</p>';
+            }
+          }
+
+          function renderTimeEntries(data) {
+            const task = currentTasks.find(t => t.id === timeEntriesTaskId);
+            document.getElementById('timeSummary').textContent = task
+              ? \`実績 \${formatMinutes(data.total_minutes)} / 見積 \${formatMinutes(task.minutes)}\`
+              : \`実績 \${formatMinutes(data.total_minutes)}\`;
+
+            const el = document.getElementById('timeEntryList');
+            if (data.entries.length === 0) {
+              el.innerHTML = '<p class="text-sm text-gray-500">作業記録はありません</p>';
+              return;
+            }
+            const formatAt = (value) => new Date(value).toLocaleString('ja-JP', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+            el.innerHTML = data.entries.map(entry => \`
+              <div class="border rounded-lg p-3 text-sm \${entry.running ? 'border-teal-400 bg-teal-50' : ''}">
+                <div class="flex items-center justify-between text-xs text-gray-500 mb-1">
+                  <span>\${formatAt(entry.started_at)} 〜 \${entry.running ? '計測中' : formatAt(entry.ended_at)}</span>
+                  <span class="bg-gray-100 px-2 py-0.5 rounded">\${entry.source === 'manual' ? '手動' : 'タイマー'}</span>
                 </div>
-                <div id="taskList" class="space-y-3"></div>
-            </div>
-        </div>
+                <div class="flex items-center justify-between gap-2">
+                  <p class="font-medium text-gray-800">
+                    \${formatMinutes(entry.minutes)}\${entry.subtask_title ? \` ・ \${escapeHtml(entry.subtask_title)}\` : ''}
+                  </p>
+                  \${entry.running
+                    ? '<button onclick="stopTimer()" class="text-xs bg-teal-600 hover:bg-teal-700 text-white px-2 py-1 rounded transition">停止</button>'
+                    : \`<div class="flex items-center gap-2">
+                        <button onclick="editTimeEntry('\${entry.id}', \${entry.minutes})" title="時間を修正" class="text-gray-400 hover:text-gray-700"><i class="fas fa-pen text-xs"></i></button>
+                        <button onclick="deleteTimeEntry('\${entry.id}')" title="削除" class="text-red-500 hover:text-red-700"><i class="fas fa-trash text-xs"></i></button>
+                      </div>\`}
+                </div>
+                \${entry.note ? \`<p class="text-xs text-gray-600 mt-1 break-words">📝 \${escapeHtml(entry.note)}</p>\` : ''}
+              </div>
+            \`).join('');
+          }
 
-        <script src="https://cdn.jsdelivr.net/npm/axios@1.6.0/dist/axios.min.js"></script>
-        <script>
-          const API_BASE = '/api';
-          const calendarEventsCache = [];
-          let currentTasks = [];
-          const subtasksByTaskId = {};
-          const expandedSubtasks = {};
+          function refreshAfterTimeEntryChange() {
+            loadTimeEntries();
+            loadTasks();
+            loadStats();
+          }
 
-          function escapeHtml(str) {
-            return String(str).replace(/&/g,'&amp;').replace(/</g,'&lt;').replace(/>/g,'&gt;').replace(/"/g,'&quot;').replace(/'/g,'&#039;');
+          document.getElementById('timeEntryForm').addEventListener('submit', async (e) => {
+            e.preventDefault();
+            const form = document.getElementById('timeEntryForm');
+            clearFieldErrors(form);
+            const startedAt = document.getElementById('timeEntryStartedAt').value;
+            try {
+              await axios.post(\`\${API_BASE}/tasks/\${timeEntriesTaskId}/time-entries\`, {
+                minutes: Number(document.getElementById('timeEntryMinutes').value),
+                started_at: startedAt ? new Date(startedAt).toISOString() : undefined,
+                note: document.getElementById('timeEntryNote').value || null
+              });
+              form.reset();
+              refreshAfterTimeEntryChange();
+            } catch (error) {
+              console.error('Failed to add time entry:', error);
+              showFieldErrors(form, error, '作業記録の追加に失敗しました');
+            }
+          });
+
+          window.editTimeEntry = async (entryId, minutes) => {
+            const value = prompt('作業時間（分）', String(minutes));
+            if (value === null) return;
+            try {
+              await axios.put(\`\${API_BASE}/time-entries/\${entryId}\`, { minutes: Number(value) });
+              refreshAfterTimeEntryChange();
+            } catch (error) {
+              console.error('Failed to update time entry:', error);
+              const fields = error.response?.data?.fields;
+              alert(fields ? Object.values(fields).join('\\n') : '作業記録の更新に失敗しました');
+            }
+          };
+
+          window.deleteTimeEntry = async (entryId) => {
+            if (!confirm('この作業記録を削除しますか？')) return;
+            try {
+              await axios.delete(\`\${API_BASE}/time-entries/\${entryId}\`);
+              refreshAfterTimeEntryChange();
+            } catch (error) {
+              console.error('Failed to delete time entry:', error);
+              alert('作業記録の削除に失敗しました');
+            }
+          };
+
+          // Focus mode
+          // 作業→休憩を繰り返し、作業1回ごとにセッションとして記録する（タスクの作業中はタイマーも動かす）
+          const FOCUS_SETTINGS_KEY = 'focusSettings';
+          const focus = { target: null, session: null, phase: 'idle', endsAt: 0, cycle: 0, plannedCycles: null, interval: null };
+          const baseDocumentTitle = document.title;
+
+          function readFocusSettings() {
+            try {
+              const saved = JSON.parse(localStorage.getItem(FOCUS_SETTINGS_KEY) || '{}');
+              return { work: Number(saved.work) || 25, break: saved.break === undefined ? 5 : Number(saved.break) };
+            } catch (error) {
+              return { work: 25, break: 5 };
+            }
           }
-          
-          function getTaskFilters() {
-            return {
-              q: document.getElementById('searchInput').value.trim(),
-              status: document.getElementById('statusFilter').value,
-              category: document.getElementById('categoryFilter').value,
-              priority: document.getElementById('priorityFilter').value,
-              due: document.getElementById('dueFilter').value,
-              sort: document.getElementById('sortSelect').value
-            };
+
+          function minutesBetween(start, end) {
+            const [sh, sm] = start.split(':').map(Number);
+            const [eh, em] = end.split(':').map(Number);
+            return (eh * 60 + em) - (sh * 60 + sm);
           }
 
-          function isOAuthError(error) {
-            return error?.response?.status === 401 && error?.response?.data?.authUrl;
+          // 予定表の枠から始めた場合は、枠に収まる回数だけ作業を繰り返す
+          function planFocusCycles(target, settings) {
+            if (!target.block_start || !target.block_end) return null;
+            const minutes = minutesBetween(target.block_start, target.block_end);
+            return Math.max(1, Math.floor((minutes + settings.break) / (settings.work + settings.break)));
           }
 
-          async function loadOAuthStatus() {
+          async function openFocus(target) {
+            if (focus.phase !== 'idle' && focus.target && (focus.target.task_id !== target.task_id || focus.target.block_start !== target.block_start)) {
+              if (!confirm('実行中の集中モードを中断して切り替えますか？')) {
+                document.getElementById('focusModal').classList.remove('hidden');
+                return;
+              }
+              await stopFocus();
+            }
+            if (focus.phase === 'idle') {
+              focus.target = target;
+              focus.cycle = 0;
+              const settings = readFocusSettings();
+              document.getElementById('focusWorkMinutes').value = settings.work;
+              document.getElementById('focusBreakMinutes').value = settings.break;
+              focus.plannedCycles = planFocusCycles(target, settings);
+            }
+            clearFieldErrors(document.getElementById('focusPanel'));
+            document.getElementById('focusModal').classList.remove('hidden');
+            renderFocus();
+            loadFocusToday();
+            if (focus.target.task_id) {
+              await loadSubtasks(focus.target.task_id);
+              renderFocusSubtasks();
+            }
+          }
+
+          window.openFocusForTask = (taskId) => {
+            const task = currentTasks.find(t => t.id === taskId);
+            openFocus({ task_id: taskId, title: task ? task.title : '' });
+          };
+
+          window.openFocusForSlot = (index) => {
+            const slot = currentSchedule[index];
+            if (!slot) return;
+            openFocus({ task_id: slot.task_id, title: slot.title, block_start: slot.start, block_end: slot.end });
+          };
+
+          function renderFocus() {
+            const target = focus.target || {};
+            const running = focus.phase !== 'idle';
+            document.getElementById('focusTitle').textContent = target.title || '';
+            document.getElementById('focusBlock').textContent = target.block_start ? \`予定表の枠 \${target.block_start} - \${target.block_end}\` : '';
+            document.getElementById('focusPhase').textContent = { idle: '待機中', work: '作業中', break: '休憩中' }[focus.phase];
+            document.getElementById('focusPhase').className = \`text-sm font-semibold \${focus.phase === 'break' ? 'text-teal-600' : 'text-rose-600'}\`;
+            document.getElementById('focusCycles').textContent = focus.plannedCycles
+              ? \`\${focus.cycle} / \${focus.plannedCycles} セット完了\`
+              : \`\${focus.cycle} セット完了\`;
+            document.getElementById('focusSettings').classList.toggle('hidden', running);
+            document.getElementById('focusStartButton').classList.toggle('hidden', running);
+            document.getElementById('focusStopButton').classList.toggle('hidden', !running);
+            document.getElementById('focusSkipBreakButton').classList.toggle('hidden', focus.phase !== 'break');
+            renderFocusCountdown();
+          }
+
+          function renderFocusCountdown() {
+            const settings = readFocusSettings();
+            const remaining = focus.phase === 'idle'
+              ? (Number(document.getElementById('focusWorkMinutes').value) || settings.work) * 60
+              : Math.max(0, Math.ceil((focus.endsAt - Date.now()) / 1000));
+            const text = \`\${String(Math.floor(remaining / 60)).padStart(2, '0')}:\${String(remaining % 60).padStart(2, '0')}\`;
+            document.getElementById('focusCountdown').textContent = text;
+            document.title = focus.phase === 'idle' ? baseDocumentTitle : \`\${text} \${focus.phase === 'work' ? '作業中' : '休憩中'} - \${baseDocumentTitle}\`;
+          }
+
+          function renderFocusSubtasks() {
+            const el = document.getElementById('focusSubtasks');
+            const taskId = focus.target?.task_id;
+            const subtasks = taskId ? (subtasksByTaskId[taskId] || []) : [];
+            if (subtasks.length === 0) {
+              el.innerHTML = '';
+              return;
+            }
+            el.innerHTML = \`
+              <p class="text-xs font-semibold text-gray-600 mb-2">実行ステップ</p>
+              <div class="space-y-1">
+                \${subtasks.map(s => \`
+                  <label class="flex items-center gap-2 text-sm bg-gray-50 rounded px-2 py-1 border cursor-pointer">
+                    <input type="checkbox" onchange="toggleFocusSubtask('\${s.id}')" \${s.status === 'done' ? 'checked' : ''}>
+                    <span class="flex-1 \${s.status === 'done' ? 'line-through text-gray-400' : 'text-gray-800'}">\${escapeHtml(s.title)}</span>
+                    <span class="text-xs text-gray-500">\${s.minutes}分</span>
+                  </label>
+                \`).join('')}
+              </div>
+            \`;
+          }
+
+          window.toggleFocusSubtask = async (subtaskId) => {
+            await toggleSubtask(subtaskId, focus.target.task_id);
+            renderFocusSubtasks();
+          };
+
+          async function loadFocusToday() {
             try {
-              const res = await axios.get(\`\${API_BASE}/calendar/oauth/status\`);
-              const statusEl = document.getElementById('oauthStatus');
-              const connectBtn = document.getElementById('oauthConnect');
-              const disconnectBtn = document.getElementById('oauthDisconnect');
+              const response = await axios.get(\`\${API_BASE}/focus/sessions\`);
+              document.getElementById('focusTodaySummary').textContent = \`今日の集中: \${response.data.completed}回（\${formatMinutes(response.data.focus_minutes)}）\`;
+            } catch (error) {
+              console.error('Failed to load focus sessions:', error);
+            }
+          }
 
-              if (res.data.mode === 'oauth') {
-                if (res.data.connected) {
-                  statusEl.textContent = 'OAuth接続済み: 非公開カレンダーを取得できます。';
-                  statusEl.className = 'text-sm mb-3 text-green-700';
-                  connectBtn.classList.add('hidden');
-                  disconnectBtn.classList.remove('hidden');
-                } else {
-                  statusEl.textContent = 'OAuth未接続: 「Google接続」から認可してください。';
-                  statusEl.className = 'text-sm mb-3 text-amber-700';
-                  connectBtn.classList.remove('hidden');
-                  disconnectBtn.classList.add('hidden');
-                }
-              } else if (res.data.mode === 'api_key') {
-                statusEl.textContent = 'APIキー方式: 公開カレンダーのみ取得可能です。';
-                statusEl.className = 'text-sm mb-3 text-blue-700';
-                connectBtn.classList.remove('hidden');
-                disconnectBtn.classList.add('hidden');
+          window.startFocusWork = async () => {
+            const panel = document.getElementById('focusPanel');
+            clearFieldErrors(panel);
+            const settings = focus.phase === 'idle'
+              ? { work: Number(document.getElementById('focusWorkMinutes').value), break: Number(document.getElementById('focusBreakMinutes').value) }
+              : readFocusSettings();
+            try {
+              const response = await axios.post(\`\${API_BASE}/focus/sessions\`, {
+                task_id: focus.target.task_id || null,
+                title: focus.target.task_id ? undefined : focus.target.title,
+                work_minutes: settings.work,
+                break_minutes: settings.break,
+                block_start: focus.target.block_start || null,
+                block_end: focus.target.block_end || null
+              });
+              localStorage.setItem(FOCUS_SETTINGS_KEY, JSON.stringify(settings));
+              if (focus.phase === 'idle') focus.plannedCycles = planFocusCycles(focus.target, settings);
+              beginFocusWork(response.data);
+              if (focus.target.task_id && !isTimerRunningFor(focus.target.task_id)) startTimer(focus.target.task_id);
+            } catch (error) {
+              console.error('Failed to start focus session:', error);
+              focus.phase = 'idle';
+              renderFocus();
+              showFieldErrors(panel, error, '集中モードを開始できませんでした');
+            }
+          };
+
+          function beginFocusWork(session) {
+            focus.session = session;
+            focus.phase = 'work';
+            focus.endsAt = Date.parse(session.started_at) + session.work_minutes * 60000;
+            runFocusClock();
+          }
+
+          function runFocusClock() {
+            clearInterval(focus.interval);
+            renderFocus();
+            focus.interval = setInterval(() => {
+              if (Date.now() >= focus.endsAt) {
+                onFocusPhaseEnd();
               } else {
-                statusEl.textContent = 'Googleカレンダー未設定: OAuth設定またはAPIキー設定が必要です。';
-                statusEl.className = 'text-sm mb-3 text-red-700';
-                connectBtn.classList.remove('hidden');
-                disconnectBtn.classList.add('hidden');
+                renderFocusCountdown();
+              }
+            }, 1000);
+          }
+
+          async function onFocusPhaseEnd() {
+            clearInterval(focus.interval);
+            if (focus.phase === 'work') {
+              await finishFocusSession('completed');
+              focus.cycle++;
+              const settings = readFocusSettings();
+              if (focus.plannedCycles && focus.cycle >= focus.plannedCycles) {
+                focus.phase = 'idle';
+                renderFocus();
+                alert('予定の枠の集中セッションが完了しました。お疲れさまでした！');
+                return;
               }
+              if (settings.break === 0) {
+                startFocusWork();
+                return;
+              }
+              focus.phase = 'break';
+              focus.endsAt = Date.now() + settings.break * 60000;
+              runFocusClock();
+            } else if (focus.phase === 'break') {
+              startFocusWork();
+            }
+          }
+
+          async function finishFocusSession(status) {
+            const session = focus.session;
+            focus.session = null;
+            if (!session) return;
+            try {
+              await axios.post(\`\${API_BASE}/focus/sessions/\${session.id}/finish\`, { status });
             } catch (error) {
-              console.error('Failed to load OAuth status:', error);
+              if (error.response?.status !== 409) console.error('Failed to finish focus session:', error);
             }
+            if (session.task_id && isTimerRunningFor(session.task_id)) await stopTimer();
+            loadFocusToday();
+            loadStats();
           }
-          
-          // Load tasks
-          async function loadTasks() {
+
+          window.skipFocusBreak = () => {
+            focus.endsAt = Date.now();
+            onFocusPhaseEnd();
+          };
+
+          async function stopFocus() {
+            clearInterval(focus.interval);
+            if (focus.phase === 'work') await finishFocusSession('interrupted');
+            focus.phase = 'idle';
+            renderFocus();
+          }
+          window.stopFocus = stopFocus;
+
+          window.closeFocus = async () => {
+            if (focus.phase !== 'idle') {
+              if (!confirm('集中モードを中断しますか？')) return;
+              await stopFocus();
+            }
+            document.getElementById('focusModal').classList.add('hidden');
+          };
+
+          // 再読み込みしても実行中のセッションから再開する（作業時間を過ぎていれば完了として記録）
+          async function resumeFocus() {
             try {
-              const filters = getTaskFilters();
-              const params = new URLSearchParams();
-              Object.entries(filters).forEach(([key, value]) => {
-                if (value && value !== 'all') params.append(key, value);
+              const response = await axios.get(\`\${API_BASE}/focus/current\`);
+              const session = response.data.session;
+              if (!session) return;
+              focus.target = { task_id: session.task_id, title: session.title, block_start: session.block_start, block_end: session.block_end };
+              focus.plannedCycles = planFocusCycles(focus.target, { work: session.work_minutes, break: session.break_minutes });
+              localStorage.setItem(FOCUS_SETTINGS_KEY, JSON.stringify({ work: session.work_minutes, break: session.break_minutes }));
+              beginFocusWork(session);
+              await openFocus(focus.target);
+            } catch (error) {
+              console.error('Failed to resume focus session:', error);
+            }
+          }
+
+          // Kanban board
+          // ボードは手動順（position）で列ごとに並べ、ドロップ位置の直前のカードを after_id として送る
+          const BOARD_PAGE_SIZE = 200;
+          const BOARD_COLUMNS = {
+            status: [
+              { value: 'todo', label: '未完了' },
+              { value: 'done', label: '完了' }
+            ],
+            category: [
+              { value: 'future', label: '🟥 未来' },
+              { value: 'now', label: '🟦 直近' },
+              { value: 'maintain', label: '🟩 維持' },
+              { value: 'chore', label: '⬜ 雑務' }
+            ]
+          };
+          let boardTasks = [];
+          let boardRequestId = 0;
+          let draggedCard = null;
+
+          window.setTaskViewMode = (mode) => {
+            taskViewMode = mode;
+            const isBoard = mode === 'board';
+            document.getElementById('listView').classList.toggle('hidden', isBoard);
+            document.getElementById('boardView').classList.toggle('hidden', !isBoard);
+            document.getElementById('listModeButton').className = \`px-3 py-1 transition \${isBoard ? 'bg-white text-gray-700 hover:bg-gray-100' : 'bg-purple-600 text-white'}\`;
+            document.getElementById('boardModeButton').className = \`px-3 py-1 transition \${isBoard ? 'bg-purple-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}\`;
+            loadTasks();
+          };
+
+          function buildBoardParams(groupBy) {
+            const params = buildTaskListParams();
+            params.set('sort', 'manual');
+            params.set('limit', String(BOARD_PAGE_SIZE));
+            params.set('fields', 'id,title,category,minutes,status,due_date,priority,version,position,source_event_status,blocked_by_count,tags');
+            // ステータス列で並べるときは完了タスクも列として表示する
+            if (groupBy === 'status') params.set('status', 'all');
+            return params;
+          }
+
+          async function loadBoard() {
+            const groupBy = document.getElementById('boardGroupBy').value;
+            const requestId = ++boardRequestId;
+            try {
+              const response = await axios.get(\`\${API_BASE}/tasks?\${buildBoardParams(groupBy).toString()}\`);
+              if (requestId !== boardRequestId) return;
+              boardTasks = response.data.tasks;
+              renderBoard(groupBy, response.data);
+            } catch (error) {
+              console.error('Failed to load board:', error);
+            }
+          }
+          window.loadBoard = loadBoard;
+
+          function renderBoard(groupBy, data) {
+            const columns = BOARD_COLUMNS[groupBy];
+            const board = document.getElementById('taskBoard');
+            board.className = \`grid grid-cols-1 gap-3 \${groupBy === 'status' ? 'md:grid-cols-2' : 'md:grid-cols-4'}\`;
+            board.innerHTML = columns.map((column) => {
+              const tasks = boardTasks.filter(task => task[groupBy] === column.value);
+              return \`
+                <div class="bg-gray-50 border border-gray-200 rounded-lg p-3">
+                  <div class="flex items-center justify-between mb-2">
+                    <h3 class="text-sm font-semibold text-gray-700">\${column.label}</h3>
+                    <span class="text-xs bg-gray-200 text-gray-700 px-2 py-0.5 rounded">\${tasks.length}</span>
+                  </div>
+                  <div class="board-column space-y-2 min-h-[80px] rounded transition" data-column="\${column.value}"
+                       ondragover="onBoardDragOver(event)" ondragleave="onBoardDragLeave(event)" ondrop="onBoardDrop(event)">
+                    \${tasks.map(renderBoardCard).join('')}
+                  </div>
+                </div>
+              \`;
+            }).join('');
+            document.getElementById('taskBoardSummary').textContent = data.has_more
+              ? \`全\${data.total}件のうち先頭\${boardTasks.length}件を表示しています。条件で絞り込んでください。\`
+              : '';
+          }
+
+          function renderBoardCard(task) {
+            const urgency = getUrgencyInfo(task.due_date, task.status);
+            const isDone = task.status === 'done';
+            return \`
+              <div class="board-card bg-white border rounded p-2 shadow-sm cursor-move category-\${task.category} \${isDone ? 'opacity-60' : ''}"
+                   draggable="true" data-task-id="\${task.id}"
+                   ondragstart="onBoardDragStart(event)" ondragend="onBoardDragEnd(event)">
+                <div class="flex items-start justify-between gap-2">
+                  <p class="text-sm font-medium \${isDone ? 'line-through text-gray-500' : 'text-gray-800'}">\${escapeHtml(task.title)}</p>
+                  <button onclick="openEditTask('\${task.id}')" title="編集" class="text-gray-400 hover:text-gray-700 text-xs flex-shrink-0">
+                    <i class="fas fa-edit"></i>
+                  </button>
+                </div>
+                <div class="flex flex-wrap gap-1 mt-1 text-xs text-gray-600">
+                  <span>⏱️ \${task.minutes}分</span>
+                  \${task.due_date ? \`<span>📅 \${escapeHtml(task.due_date)}</span>\` : ''}
+                  \${task.blocked_by_count > 0 && !isDone ? '<span class="text-yellow-700">⛓️ ブロック中</span>' : ''}
+                  \${task.source_event_status === 'cancelled' ? '<span class="text-red-700">🚫 予定が取消し</span>' : ''}
+                  \${(task.tags || []).map(tag => \`<span class="px-1 rounded text-white" style="background-color: \${escapeHtml(tag.color)};">#\${escapeHtml(tag.name)}</span>\`).join('')}
+                  \${urgency.label ? \`<span class="font-semibold text-red-600">\${urgency.label}</span>\` : ''}
+                </div>
+              </div>
+            \`;
+          }
+
+          window.onBoardDragStart = (event) => {
+            draggedCard = event.currentTarget;
+            draggedCard.classList.add('dragging');
+            event.dataTransfer.effectAllowed = 'move';
+            event.dataTransfer.setData('text/plain', draggedCard.dataset.taskId);
+          };
+
+          window.onBoardDragEnd = (event) => {
+            event.currentTarget.classList.remove('dragging');
+            document.querySelectorAll('.board-column.drag-over').forEach(el => el.classList.remove('drag-over'));
+          };
+
+          // マウス位置より下にある最初のカードの直前へ、ドラッグ中のカードを差し込んで見せる
+          window.onBoardDragOver = (event) => {
+            if (!draggedCard) return;
+            event.preventDefault();
+            const column = event.currentTarget;
+            column.classList.add('drag-over');
+            const next = Array.from(column.querySelectorAll('.board-card:not(.dragging)')).find((card) => {
+              const rect = card.getBoundingClientRect();
+              return event.clientY < rect.top + rect.height / 2;
+            });
+            if (next) {
+              if (next.previousElementSibling !== draggedCard) column.insertBefore(draggedCard, next);
+            } else if (column.lastElementChild !== draggedCard) {
+              column.appendChild(draggedCard);
+            }
+          };
+
+          window.onBoardDragLeave = (event) => {
+            if (!event.currentTarget.contains(event.relatedTarget)) event.currentTarget.classList.remove('drag-over');
+          };
+
+          window.onBoardDrop = async (event) => {
+            event.preventDefault();
+            if (!draggedCard) return;
+            const column = event.currentTarget;
+            column.classList.remove('drag-over');
+            const groupBy = document.getElementById('boardGroupBy').value;
+            const taskId = draggedCard.dataset.taskId;
+            const previous = draggedCard.previousElementSibling;
+            const afterId = previous ? previous.dataset.taskId : null;
+            const task = boardTasks.find(t => t.id === taskId);
+            draggedCard = null;
+            if (!task) return;
+
+            try {
+              // 列が変わった場合は先に更新APIでステータス／カテゴリを変更する
+              if (task[groupBy] !== column.dataset.column) {
+                await axios.put(\`\${API_BASE}/tasks/\${taskId}\`, { [groupBy]: column.dataset.column }, {
+                  headers: { 'If-Match': \`"\${task.version}"\` }
+                });
+              }
+              await axios.post(\`\${API_BASE}/tasks/\${taskId}/move\`, { group_by: groupBy, after_id: afterId });
+            } catch (error) {
+              if (error.response?.status === 409) {
+                alert('他の端末でこのタスクが更新されています。ボードを再読み込みします。');
+              } else {
+                alert(error.response?.data?.message || 'タスクの移動に失敗しました');
+              }
+            }
+            loadBoard();
+            loadStats();
+          };
+
+          // Load goals
+          async function loadGoals() {
+            try {
+              const response = await axios.get(\`\${API_BASE}/goals\`);
+              goalsById = {};
+              response.data.forEach(goal => { goalsById[goal.id] = goal; });
+              renderGoals(response.data);
+              if (currentTasks.length > 0) renderTasks(currentTasks);
+            } catch (error) {
+              console.error('Failed to load goals:', error);
+            }
+          }
+
+          function renderGoals(goals) {
+            const select = document.getElementById('taskGoal');
+            const selected = select.value;
+            select.innerHTML = '<option value="">なし</option>' + goals
+              .map(goal => \`<option value="\${goal.id}">\${escapeHtml(goal.name)}</option>\`)
+              .join('');
+            select.value = goalsById[selected] ? selected : '';
+
+            const el = document.getElementById('goalsPanel');
+            if (goals.length === 0) {
+              el.innerHTML = '<p class="text-xs text-gray-500">目標が未設定です。「未来」タスクを目標に紐づけましょう。</p>';
+              return;
+            }
+
+            el.innerHTML = goals.map(goal => {
+              const revenue = goal.target_revenue != null ? '¥' + Number(goal.target_revenue).toLocaleString('ja-JP') : '';
+              const deadline = goal.target_date
+                ? (goal.days_left < 0 ? \`\${goal.target_date}（\${Math.abs(goal.days_left)}日超過）\` : \`\${goal.target_date}（あと\${goal.days_left}日）\`)
+                : '';
+              return \`
+                <div>
+                  <div class="flex items-center justify-between text-sm">
+                    <span class="font-medium text-gray-800 truncate">\${escapeHtml(goal.name)}</span>
+                    <button onclick="deleteGoal('\${goal.id}')" class="text-xs text-gray-400 hover:text-red-600 ml-2"><i class="fas fa-times"></i></button>
+                  </div>
+                  <div class="w-full bg-gray-200 rounded-full h-2 my-1">
+                    <div class="bg-red-500 h-2 rounded-full" style="width: \${goal.progress}%"></div>
+                  </div>
+                  <p class="text-xs text-gray-500">
+                    \${goal.progress}% ・ \${goal.done_count}/\${goal.task_count}件 ・ 見積 \${goal.done_minutes}/\${goal.total_minutes}分 ・ 実績 \${formatMinutes(goal.actual_minutes)}
+                    \${revenue ? ' ・ ' + revenue : ''}\${deadline ? ' ・ ' + deadline : ''}
+                  </p>
+                </div>
+              \`;
+            }).join('');
+          }
+
+          window.deleteGoal = async (goalId) => {
+            if (!confirm('この目標を削除しますか？（タスクは残ります）')) return;
+            try {
+              await axios.delete(\`\${API_BASE}/goals/\${goalId}\`);
+              loadGoals();
+              loadTasks();
+            } catch (error) {
+              console.error('Failed to delete goal:', error);
+            }
+          };
+
+          document.getElementById('toggleGoalForm').addEventListener('click', () => {
+            document.getElementById('goalForm').classList.toggle('hidden');
+          });
+
+          document.getElementById('goalForm').addEventListener('submit', async (e) => {
+            e.preventDefault();
+            const form = document.getElementById('goalForm');
+            clearFieldErrors(form);
+            try {
+              await axios.post(\`\${API_BASE}/goals\`, {
+                name: document.getElementById('goalName').value,
+                target_revenue: document.getElementById('goalRevenue').value || null,
+                target_date: document.getElementById('goalDate').value || null
               });
-              const response = await axios.get(\`\${API_BASE}/tasks?\${params.toString()}\`);
-              renderTasks(response.data);
+              document.getElementById('goalForm').reset();
+              document.getElementById('goalForm').classList.add('hidden');
+              loadGoals();
             } catch (error) {
-              console.error('Failed to load tasks:', error);
+              console.error('Failed to add goal:', error);
+              showFieldErrors(form, error, '目標の追加に失敗しました');
+            }
+          });
+
+          // Load tags for suggestions
+          async function loadTags() {
+            try {
+              const response = await axios.get(\`\${API_BASE}/tags\`);
+              document.getElementById('tagOptions').innerHTML = response.data
+                .map(tag => \`<option value="\${escapeHtml(tag.name)}"></option>\`)
+                .join('');
+            } catch (error) {
+              console.error('Failed to load tags:', error);
             }
           }
 
-          // Load task stats
+          window.filterByTag = (name) => {
+            document.getElementById('tagFilter').value = name;
+            onFilterChange();
+          };
+
+          // Load task stats (goal progress and view counts depend on the same task changes)
           async function loadStats() {
+            loadGoals();
+            loadViews();
+            loadTimer();
             try {
               const response = await axios.get(\`\${API_BASE}/tasks/stats\`);
               renderStats(response.data);
@@ -1626,26 +8568,44 @@ app.get('/', (c) => {
               { label: '未完了', value: stats.todo, className: 'bg-blue-100 text-blue-800' },
               { label: '完了', value: stats.done, className: 'bg-green-100 text-green-800' },
               { label: '完了率', value: stats.completionRate + '%', className: 'bg-indigo-100 text-indigo-800' },
-              { label: '期限切れ', value: stats.overdue, className: 'bg-red-100 text-red-800' }
+              { label: '期限切れ', value: stats.overdue, className: 'bg-red-100 text-red-800' },
+              { label: '今日の作業', value: formatMinutes(stats.trackedTodayMinutes), className: 'bg-teal-100 text-teal-800' },
+              { label: '実績/見積', value: stats.actualToEstimateRate === null ? '-' : stats.actualToEstimateRate + '%', className: 'bg-amber-100 text-amber-800' },
+              {
+                label: '集中（今日）',
+                value: stats.focusTodaySessions + '回',
+                className: 'bg-rose-100 text-rose-800',
+                note: \`未来\${stats.focusByCategory.future} 直近\${stats.focusByCategory.now} 維持\${stats.focusByCategory.maintain} 雑務\${stats.focusByCategory.chore}\`
+              }
             ];
 
             el.innerHTML = cards.map(card => \`
               <div class="rounded-lg px-4 py-3 \${card.className}">
                 <p class="text-xs font-medium opacity-80">\${card.label}</p>
                 <p class="text-2xl font-bold">\${card.value}</p>
+                \${card.note ? \`<p class="text-xs opacity-80" title="カテゴリ別の集中セッション数（累計）">\${card.note}</p>\` : ''}
               </div>
             \`).join('');
           }
           
-          // Calculate days until due
+          // 利用者のタイムゾーンでの日付（YYYY-MM-DD）と時・分
+          function getZonedParts(date = new Date()) {
+            const parts = Object.fromEntries(
+              new Intl.DateTimeFormat('en-US', {
+                timeZone: USER_TIMEZONE, hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit'
+              }).formatToParts(date).map(part => [part.type, part.value])
+            );
+            return { date: \`\${parts.year}-\${parts.month}-\${parts.day}\`, hour: Number(parts.hour), minute: Number(parts.minute) };
+          }
+
+          function todayString() {
+            return getZonedParts().date;
+          }
+
+          // Calculate days until due (both dates are calendar days in the user's timezone)
           function calculateDaysUntil(dueDate) {
             if (!dueDate) return null;
-            const today = new Date();
-            today.setHours(0, 0, 0, 0);
-            const due = new Date(dueDate);
-            due.setHours(0, 0, 0, 0);
-            const diff = Math.floor((due - today) / (1000 * 60 * 60 * 24));
-            return diff;
+            return Math.round((Date.parse(\`\${dueDate}T00:00:00Z\`) - Date.parse(\`\${todayString()}T00:00:00Z\`)) / 86400000);
           }
           
           // Get urgency class and label
@@ -1677,77 +8637,155 @@ app.get('/', (c) => {
             }
           }
           
+          // Describe recurrence rule for display
+          function describeRecurrence(rule) {
+            const presets = {
+              'FREQ=DAILY': '毎日',
+              'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR': '平日',
+              'FREQ=WEEKLY': '毎週',
+              'FREQ=MONTHLY': '毎月'
+            };
+            const monthDay = rule.match(/^FREQ=MONTHLY;BYMONTHDAY=(\\d+)$/);
+            if (monthDay) return \`毎月\${monthDay[1]}日\`;
+            return presets[rule] || '繰り返し';
+          }
+
+          function getRecurrenceInput() {
+            const value = document.getElementById('taskRecurrence').value;
+            if (value === 'custom') {
+              return document.getElementById('taskRecurrenceCustom').value.trim() || null;
+            }
+            return value || null;
+          }
+
+          // 全文検索の一致箇所（サーバー側でエスケープ済みの <mark> 付きスニペット）
+          function renderSearchMatch(match) {
+            if (!match) return '';
+            const subtasks = match.subtasks.map(s => \`
+              <p class="text-xs text-gray-600"><i class="fas fa-level-up-alt fa-rotate-90 mr-1 text-gray-400"></i>サブタスク: \${s.snippet}</p>
+            \`).join('');
+            return \`
+              <div class="search-match mt-2 space-y-1">
+                \${match.snippet ? \`<p class="text-xs text-gray-600">🔎 \${match.snippet}</p>\` : ''}
+                \${subtasks}
+              </div>
+            \`;
+          }
+
           // Render tasks
           function renderTasks(tasks) {
             currentTasks = tasks;
             const taskList = document.getElementById('taskList');
+            const visibleIds = new Set(tasks.map(t => t.id));
+            Array.from(selectedTaskIds).forEach(id => { if (!visibleIds.has(id)) selectedTaskIds.delete(id); });
+            renderBulkBar();
+            renderTaskListSummary();
             
             if (tasks.length === 0) {
               taskList.innerHTML = '<p class="text-gray-500 text-center py-8">タスクがありません</p>';
               return;
             }
             
-            taskList.innerHTML = tasks.map(task => {
-              const urgency = getUrgencyInfo(task.due_date, task.status);
-              const isDone = task.status === 'done';
-              
-              const priorityColors = {
-                high: 'bg-red-100 text-red-800',
-                medium: 'bg-orange-100 text-orange-800',
-                low: 'bg-gray-100 text-gray-600'
-              };
-              
-              const priorityLabels = {
-                high: '🔥 高',
-                medium: '⚡ 中',
-                low: '☁️ 低'
-              };
-              const priorityKey = priorityLabels[task.priority] ? task.priority : 'medium';
-              
-              return \`
-                <div class="border rounded-lg p-4 category-\${task.category} \${urgency.class} \${isDone ? 'opacity-60' : ''}">
-                  <div class="flex items-start gap-3">
-                    <button onclick="toggleTask('\${task.id}')" 
-                            class="mt-1 w-6 h-6 rounded-full border-2 \${isDone ? 'bg-green-500 border-green-500' : 'border-gray-300 hover:border-blue-500'} transition flex-shrink-0 flex items-center justify-center">
-                      \${isDone ? '<i class="fas fa-check text-white text-xs"></i>' : ''}
-                    </button>
-                    
-                    <div class="flex-1 min-w-0">
-                      <div class="flex items-start justify-between gap-2 mb-2">
-                        <h3 class="text-lg font-semibold \${isDone ? 'line-through text-gray-500' : 'text-gray-800'}">
-                          \${escapeHtml(task.title)}
-                        </h3>
-                        <div class="flex items-center gap-2">
-                          <button onclick="decomposeTask('\${task.id}', '\${escapeHtml(task.title).replace(/'/g, "\\\\&#039;")}')"
-                                  class="text-xs bg-indigo-600 hover:bg-indigo-700 text-white px-2 py-1 rounded transition">
-                            AI分解
-                          </button>
-                          <button onclick="toggleSubtasks('\${task.id}')" 
-                                  class="text-xs bg-gray-200 hover:bg-gray-300 text-gray-800 px-2 py-1 rounded transition">
-                            \${expandedSubtasks[task.id] ? '閉じる' : '工程表示'}
-                          </button>
-                          <button onclick="deleteTask('\${task.id}')" 
-                                  class="text-red-600 hover:text-red-800 transition flex-shrink-0">
-                            <i class="fas fa-trash"></i>
-                          </button>
-                        </div>
-                      </div>
-                      
-                      <div class="flex flex-wrap gap-2 text-sm">
-                        <span class="\${priorityColors[priorityKey]} px-2 py-1 rounded">
-                          \${priorityLabels[priorityKey]}
-                        </span>
-                        <span class="bg-blue-100 text-blue-800 px-2 py-1 rounded">
-                          ⏱️ \${task.minutes}分
-                        </span>
-                        \${urgency.label ? \`<span class="font-semibold text-red-600">\${urgency.label}</span>\` : ''}
+            taskList.innerHTML = tasks.map(renderTaskCard).join('');
+          }
+
+          // 続きのページは既存のカードを描き直さずに末尾へ追加する
+          function appendTasks(tasks) {
+            const known = new Set(currentTasks.map(t => t.id));
+            const fresh = tasks.filter(t => !known.has(t.id));
+            currentTasks = currentTasks.concat(fresh);
+            document.getElementById('taskList').insertAdjacentHTML('beforeend', fresh.map(renderTaskCard).join(''));
+            renderBulkBar();
+            renderTaskListSummary();
+          }
+
+          function renderTaskCard(task) {
+            const urgency = getUrgencyInfo(task.due_date, task.status);
+            const isDone = task.status === 'done';
+            
+            const priorityColors = {
+              high: 'bg-red-100 text-red-800',
+              medium: 'bg-orange-100 text-orange-800',
+              low: 'bg-gray-100 text-gray-600'
+            };
+            
+            const priorityLabels = {
+              high: '🔥 高',
+              medium: '⚡ 中',
+              low: '☁️ 低'
+            };
+            const priorityKey = priorityLabels[task.priority] ? task.priority : 'medium';
+            
+            return \`
+              <div class="border rounded-lg p-4 category-\${task.category} \${urgency.class} \${isDone ? 'opacity-60' : ''}">
+                <div class="flex items-start gap-3">
+                  <input type="checkbox" class="mt-2 flex-shrink-0" onchange="toggleTaskSelection('\${task.id}', this.checked)" \${selectedTaskIds.has(task.id) ? 'checked' : ''}>
+                  <button onclick="toggleTask('\${task.id}', \${Number(task.version) || 'null'})" 
+                          class="mt-1 w-6 h-6 rounded-full border-2 \${isDone ? 'bg-green-500 border-green-500' : 'border-gray-300 hover:border-blue-500'} transition flex-shrink-0 flex items-center justify-center">
+                    \${isDone ? '<i class="fas fa-check text-white text-xs"></i>' : ''}
+                  </button>
+                  
+                  <div class="flex-1 min-w-0">
+                    <div class="flex items-start justify-between gap-2 mb-2">
+                      <h3 class="text-lg font-semibold \${isDone ? 'line-through text-gray-500' : 'text-gray-800'}">
+                        \${escapeHtml(task.title)}
+                      </h3>
+                      <div class="flex items-center gap-2">
+                        <button onclick="decomposeTask('\${task.id}', '\${escapeHtml(task.title).replace(/'/g, "\\\\&#039;")}')"
+                                class="text-xs bg-indigo-600 hover:bg-indigo-700 text-white px-2 py-1 rounded transition">
+                          AI分解
+                        </button>
+                        <button onclick="toggleSubtasks('\${task.id}')" 
+                                class="text-xs bg-gray-200 hover:bg-gray-300 text-gray-800 px-2 py-1 rounded transition">
+                          \${expandedSubtasks[task.id] ? '閉じる' : '工程表示'}
+                        </button>
+                        \${isDone ? '' : isTimerRunningFor(task.id)
+                          ? \`<button onclick="stopTimer()" title="タイマーを停止" class="text-teal-600 hover:text-teal-800 transition flex-shrink-0"><i class="fas fa-stop-circle"></i></button>\`
+                          : \`<button onclick="startTimer('\${task.id}')" title="タイマーを開始" class="text-gray-400 hover:text-teal-600 transition flex-shrink-0"><i class="fas fa-play-circle"></i></button>\`}
+                        \${isDone ? '' : \`<button onclick="openFocusForTask('\${task.id}')" title="集中モード" class="text-gray-400 hover:text-rose-600 transition flex-shrink-0"><i class="fas fa-bullseye"></i></button>\`}
+                        <button onclick="openEditTask('\${task.id}')" title="編集"
+                                class="text-gray-400 hover:text-gray-700 transition flex-shrink-0">
+                          <i class="fas fa-edit"></i>
+                        </button>
+                        <button onclick="openHistory('\${task.id}')" title="変更履歴"
+                                class="text-gray-400 hover:text-gray-700 transition flex-shrink-0">
+                          <i class="fas fa-history"></i>
+                        </button>
+                        <button onclick="deleteTask('\${task.id}')" 
+                                class="text-red-600 hover:text-red-800 transition flex-shrink-0">
+                          <i class="fas fa-trash"></i>
+                        </button>
                       </div>
-                      \${expandedSubtasks[task.id] ? renderSubtaskSection(task.id) : ''}
                     </div>
+                    
+                    <div class="flex flex-wrap gap-2 text-sm">
+                      <span class="\${priorityColors[priorityKey]} px-2 py-1 rounded">
+                        \${priorityLabels[priorityKey]}
+                      </span>
+                      <button onclick="openTimeEntries('\${task.id}')" title="作業記録"
+                              class="bg-blue-100 text-blue-800 hover:bg-blue-200 px-2 py-1 rounded transition">
+                        ⏱️ \${task.minutes}分\${task.tracked_minutes > 0 ? \` / 実績 <span class="\${task.tracked_minutes > task.minutes ? 'text-red-700 font-semibold' : ''}">\${task.tracked_minutes}分</span>\` : ''}
+                      </button>
+                      \${task.goal_id && goalsById[task.goal_id] ? \`<span class="bg-red-50 text-red-700 border border-red-200 px-2 py-1 rounded">🎯 \${escapeHtml(goalsById[task.goal_id].name)}</span>\` : ''}
+                      \${(task.tags || []).map(tag => \`
+                        <button onclick="filterByTag(this.dataset.tag)" data-tag="\${escapeHtml(tag.name)}"
+                                class="px-2 py-1 rounded text-white text-xs self-center" style="background-color: \${escapeHtml(tag.color)};">
+                          #\${escapeHtml(tag.name)}
+                        </button>
+                      \`).join('')}
+                      \${task.recurrence_rule ? \`<span class="bg-emerald-100 text-emerald-800 px-2 py-1 rounded" title="\${escapeHtml(task.recurrence_rule)}">🔁 \${describeRecurrence(task.recurrence_rule)}</span>\` : ''}
+                      \${task.blocked_by_count > 0 && !isDone ? \`<span class="bg-yellow-100 text-yellow-800 px-2 py-1 rounded">⛓️ ブロック中（前提\${task.blocked_by_count}件）</span>\` : ''}
+                      \${task.source_event_status === 'confirmed' ? '<span class="bg-blue-50 text-blue-700 border border-blue-200 px-2 py-1 rounded" title="予定の日時が変わると期日も追従します">📅 カレンダーの予定</span>' : ''}
+                      \${task.source_event_status === 'cancelled' ? '<span class="bg-red-100 text-red-800 px-2 py-1 rounded" title="元になったカレンダーの予定が取り消されました">🚫 予定が取り消されました</span>' : ''}
+                      \${urgency.label ? \`<span class="font-semibold text-red-600">\${urgency.label}</span>\` : ''}
+                    </div>
+                    \${task.notes && !task.search_match?.snippet ? \`<p class="text-xs text-gray-500 mt-2 truncate">📝 \${escapeHtml(task.notes)}</p>\` : ''}
+                    \${renderSearchMatch(task.search_match)}
+                    \${expandedSubtasks[task.id] ? renderSubtaskSection(task.id) + renderDependencySection(task.id) : ''}
                   </div>
                 </div>
-              \`;
-            }).join('');
+              </div>
+            \`;
           }
 
           function renderSubtaskSection(taskId) {
@@ -1766,13 +8804,83 @@ app.get('/', (c) => {
                         \${s.order_index}. \${escapeHtml(s.title)}
                       </button>
                       <span class="text-xs text-gray-500 ml-2">\${s.minutes}分</span>
+                      \${s.status === 'done' ? '' : isTimerRunningFor(taskId, s.id)
+                        ? \`<button onclick="stopTimer()" title="タイマーを停止" class="text-teal-600 hover:text-teal-800 ml-2"><i class="fas fa-stop-circle text-xs"></i></button>\`
+                        : \`<button onclick="startTimer('\${taskId}', '\${s.id}')" title="このステップの計測を開始" class="text-gray-400 hover:text-teal-600 ml-2"><i class="fas fa-play-circle text-xs"></i></button>\`}
+                      <button onclick="editSubtask('\${s.id}', '\${taskId}')" title="名前を変更" class="text-gray-400 hover:text-gray-700 ml-2">
+                        <i class="fas fa-pen text-xs"></i>
+                      </button>
+                    </div>
+                  \`).join('')}
+                </div>
+              </div>
+            \`;
+          }
+
+          function renderDependencySection(taskId) {
+            const deps = dependenciesByTaskId[taskId] || { blockedBy: [], blocking: [] };
+            const linkedIds = new Set(deps.blockedBy.map((t) => t.id));
+            const candidates = currentTasks.filter((t) => t.id !== taskId && !linkedIds.has(t.id) && t.status !== 'done');
+
+            return \`
+              <div class="mt-3 p-3 bg-yellow-50 rounded-lg border border-yellow-200">
+                <p class="text-xs font-semibold text-gray-600 mb-2">前提タスク（完了するまで着手不可）</p>
+                <div class="space-y-1 mb-2">
+                  \${deps.blockedBy.length === 0 ? '<p class="text-xs text-gray-500">なし</p>' : deps.blockedBy.map((t) => \`
+                    <div class="flex items-center justify-between text-sm bg-white rounded px-2 py-1 border">
+                      <span class="\${t.status === 'done' ? 'line-through text-gray-400' : 'text-gray-800'}">\${escapeHtml(t.title)}</span>
+                      <button onclick="removeDependency('\${taskId}', '\${t.id}')" class="text-xs text-red-600 hover:text-red-800 ml-2">
+                        <i class="fas fa-unlink"></i>
+                      </button>
                     </div>
                   \`).join('')}
                 </div>
+                \${candidates.length > 0 ? \`
+                  <div class="flex gap-2">
+                    <select id="dependencySelect-\${taskId}" class="flex-1 text-sm px-2 py-1 border border-gray-300 rounded">
+                      \${candidates.map((t) => \`<option value="\${t.id}">\${escapeHtml(t.title)}</option>\`).join('')}
+                    </select>
+                    <button onclick="addDependency('\${taskId}')" class="text-xs bg-yellow-600 hover:bg-yellow-700 text-white px-2 py-1 rounded transition">
+                      前提に追加
+                    </button>
+                  </div>
+                \` : ''}
+                \${deps.blocking.length > 0 ? \`<p class="text-xs text-gray-500 mt-2">このタスク待ち: \${deps.blocking.map((t) => escapeHtml(t.title)).join(', ')}</p>\` : ''}
               </div>
             \`;
           }
 
+          async function loadDependencies(taskId) {
+            try {
+              const res = await axios.get(\`\${API_BASE}/tasks/\${taskId}/dependencies\`);
+              dependenciesByTaskId[taskId] = res.data;
+            } catch (error) {
+              console.error('Failed to load dependencies:', error);
+            }
+          }
+
+          window.addDependency = async (taskId) => {
+            const dependsOnId = document.getElementById(\`dependencySelect-\${taskId}\`).value;
+            try {
+              await axios.post(\`\${API_BASE}/tasks/\${taskId}/dependencies\`, { depends_on_id: dependsOnId });
+              await loadDependencies(taskId);
+              loadTasks();
+            } catch (error) {
+              console.error('Failed to add dependency:', error);
+              alert(error?.response?.status === 409 ? '循環する依存関係は追加できません' : '前提タスクの追加に失敗しました');
+            }
+          };
+
+          window.removeDependency = async (taskId, dependsOnId) => {
+            try {
+              await axios.delete(\`\${API_BASE}/tasks/\${taskId}/dependencies/\${dependsOnId}\`);
+              await loadDependencies(taskId);
+              loadTasks();
+            } catch (error) {
+              console.error('Failed to remove dependency:', error);
+            }
+          };
+
           async function loadSubtasks(taskId) {
             try {
               const res = await axios.get(\`\${API_BASE}/tasks/\${taskId}/subtasks\`);
@@ -1786,6 +8894,7 @@ app.get('/', (c) => {
           window.toggleSubtasks = async (taskId) => {
             expandedSubtasks[taskId] = !expandedSubtasks[taskId];
             if (expandedSubtasks[taskId]) {
+              await loadDependencies(taskId);
               await loadSubtasks(taskId);
             } else {
               renderTasks(currentTasks);
@@ -1801,62 +8910,812 @@ app.get('/', (c) => {
             }
           };
 
-          window.decomposeTask = async (taskId, taskTitle) => {
+          // Rename subtask (If-Match で他端末の更新を検出)
+          window.editSubtask = async (subtaskId, taskId) => {
+            try {
+              const res = await axios.get(\`\${API_BASE}/subtasks/\${subtaskId}\`);
+              const title = prompt('サブタスク名', res.data.title);
+              if (title === null || title.trim() === '' || title.trim() === res.data.title) return;
+
+              let etag = res.headers.etag;
+              for (;;) {
+                try {
+                  await axios.put(\`\${API_BASE}/subtasks/\${subtaskId}\`, { title: title.trim() }, { headers: { 'If-Match': etag } });
+                  break;
+                } catch (error) {
+                  if (error?.response?.status !== 409) throw error;
+                  const current = error.response.data.current;
+                  const overwrite = confirm(\`他の端末で更新されています。\\n最新: \${current.title}\\n\\nこのまま上書きしますか？\`);
+                  if (!overwrite) break;
+                  etag = error.response.headers.etag;
+                }
+              }
+              await loadSubtasks(taskId);
+            } catch (error) {
+              console.error('Failed to edit subtask:', error);
+              alert(error?.response?.data?.message || 'サブタスクの更新に失敗しました');
+            }
+          };
+
+          window.decomposeTask = async (taskId, taskTitle) => {
+            try {
+              const run = confirm(\`「\${taskTitle}」をAIで実行可能ステップに分解しますか？\`);
+              if (!run) return;
+              await axios.post(\`\${API_BASE}/tasks/\${taskId}/decompose\`, { provider: 'auto' });
+              expandedSubtasks[taskId] = true;
+              await loadSubtasks(taskId);
+              alert('AI分解して保存しました');
+            } catch (error) {
+              console.error('Failed to decompose task:', error);
+              const msg = error?.response?.data?.message || 'AI分解に失敗しました（APIキー設定を確認してください）';
+              alert(msg);
+            }
+          };
+
+          // Multi-select and bulk actions
+          function renderBulkBar() {
+            const bar = document.getElementById('bulkBar');
+            bar.classList.toggle('hidden', selectedTaskIds.size === 0);
+            document.getElementById('bulkCount').textContent = \`\${selectedTaskIds.size}件選択中\`;
+            document.getElementById('selectAllTasks').checked =
+              currentTasks.length > 0 && currentTasks.every(t => selectedTaskIds.has(t.id));
+          }
+
+          window.toggleTaskSelection = (id, checked) => {
+            if (checked) selectedTaskIds.add(id); else selectedTaskIds.delete(id);
+            renderBulkBar();
+          };
+
+          window.clearSelection = () => {
+            selectedTaskIds.clear();
+            renderTasks(currentTasks);
+          };
+
+          document.getElementById('selectAllTasks').addEventListener('change', (e) => {
+            currentTasks.forEach(t => { if (e.target.checked) selectedTaskIds.add(t.id); else selectedTaskIds.delete(t.id); });
+            renderTasks(currentTasks);
+          });
+
+          window.runBulk = async (action, extra = {}) => {
+            const ids = Array.from(selectedTaskIds);
+            if (ids.length === 0) return;
+            if (action === 'delete' && !confirm(\`\${ids.length}件のタスクを削除しますか？\`)) return;
+            if (action === 'shift_due') {
+              extra = { days: parseInt(document.getElementById('bulkShiftDays').value) };
+            }
+
+            try {
+              const res = await axios.post(\`\${API_BASE}/tasks/bulk\`, { action, ids, ...extra });
+              selectedTaskIds.clear();
+              loadTasks();
+              loadStats();
+              if (res.data.failed > 0) {
+                const reasons = res.data.results.filter(r => !r.ok).map(r => {
+                  const task = currentTasks.find(t => t.id === r.id);
+                  return \`・\${task ? task.title : r.id}: \${r.error}\`;
+                });
+                alert(\`\${res.data.updated}件を更新、\${res.data.failed}件は失敗しました\\n\${reasons.join('\\n')}\`);
+              }
+            } catch (error) {
+              console.error('Failed to run bulk action:', error);
+              alert(error?.response?.data?.message || error?.response?.data?.error || '一括操作に失敗しました');
+            }
+          };
+
+          document.getElementById('bulkCategory').addEventListener('change', (e) => {
+            if (!e.target.value) return;
+            runBulk('set_category', { category: e.target.value });
+            e.target.value = '';
+          });
+          document.getElementById('bulkPriority').addEventListener('change', (e) => {
+            if (!e.target.value) return;
+            runBulk('set_priority', { priority: e.target.value });
+            e.target.value = '';
+          });
+
+          // Task history drawer
+          const historyFieldLabels = {
+            title: 'タスク名',
+            category: 'カテゴリ',
+            minutes: '時間（分）',
+            status: 'ステータス',
+            due_date: '期日',
+            priority: '優先度',
+            recurrence_rule: '繰り返し',
+            goal_id: '目標',
+            notes: 'メモ',
+            source_event_status: 'カレンダーの予定',
+            tags: 'タグ',
+            subtasks: 'サブタスク'
+          };
+          const historyActionLabels = {
+            create: '作成',
+            update: '更新',
+            toggle: '完了切替',
+            delete: '削除',
+            decompose: 'AI分解'
+          };
+          const historySourceLabels = {
+            ui: 'UI',
+            api: 'API',
+            calendar: 'カレンダー変換',
+            calendar_sync: 'カレンダー同期',
+            ai: 'AI',
+            recurrence: '繰り返し',
+            import: 'CSV取り込み'
+          };
+
+          window.openHistory = async (taskId) => {
+            const task = currentTasks.find(t => t.id === taskId);
+            document.getElementById('historyTaskTitle').textContent = task ? task.title : '';
+            document.getElementById('historyList').innerHTML = '<p class="text-sm text-gray-500">読み込み中...</p>';
+            document.getElementById('historyDrawer').classList.remove('hidden');
+
+            try {
+              const res = await axios.get(\`\${API_BASE}/tasks/\${taskId}/history\`);
+              renderHistory(res.data);
+            } catch (error) {
+              console.error('Failed to load history:', error);
+              document.getElementById('historyList').innerHTML = '<p class="text-sm text-red-600">履歴の取得に失敗しました</p>';
+            }
+          };
+
+          window.closeHistory = () => {
+            document.getElementById('historyDrawer').classList.add('hidden');
+          };
+
+          function renderHistory(events) {
+            const el = document.getElementById('historyList');
+            if (events.length === 0) {
+              el.innerHTML = '<p class="text-sm text-gray-500">履歴はありません</p>';
+              return;
+            }
+
+            el.innerHTML = events.map(event => {
+              const at = new Date(event.created_at).toLocaleString('ja-JP', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+              const field = event.field ? (historyFieldLabels[event.field] || event.field) : '';
+              const change = event.action === 'update' || event.action === 'toggle' || event.action === 'delete'
+                ? \`<span class="line-through text-gray-400">\${escapeHtml(event.old_value ?? '（なし）')}</span> → \${escapeHtml(event.new_value ?? '（なし）')}\`
+                : escapeHtml(event.new_value ?? '');
+              return \`
+                <div class="border rounded-lg p-3 text-sm">
+                  <div class="flex items-center justify-between text-xs text-gray-500 mb-1">
+                    <span>\${at}</span>
+                    <span class="bg-gray-100 px-2 py-0.5 rounded">\${historySourceLabels[event.source] || escapeHtml(event.source)}</span>
+                  </div>
+                  <p class="font-medium text-gray-800">\${historyActionLabels[event.action] || escapeHtml(event.action)}\${field ? ' ・ ' + field : ''}</p>
+                  <p class="text-gray-700 break-words">\${change}</p>
+                </div>
+              \`;
+            }).join('');
+          }
+
+          // Edit task with optimistic concurrency (ETag / If-Match)
+          const EDITABLE_FIELDS = ['title', 'category', 'priority', 'due_date', 'minutes', 'notes'];
+          let editingTask = null;
+
+          function fillEditForm(task, etag) {
+            editingTask = { id: task.id, etag, original: task, pending: null };
+            document.getElementById('editTitle').value = task.title;
+            document.getElementById('editCategory').value = task.category;
+            document.getElementById('editPriority').value = task.priority || 'medium';
+            document.getElementById('editDueDate').value = task.due_date || '';
+            document.getElementById('editMinutes').value = task.minutes;
+            document.getElementById('editNotes').value = task.notes || '';
+            document.getElementById('editConflict').classList.add('hidden');
+            clearFieldErrors(document.getElementById('editTaskForm'));
+          }
+
+          function readEditForm() {
+            return {
+              title: document.getElementById('editTitle').value,
+              category: document.getElementById('editCategory').value,
+              priority: document.getElementById('editPriority').value,
+              due_date: document.getElementById('editDueDate').value || null,
+              minutes: parseInt(document.getElementById('editMinutes').value),
+              notes: document.getElementById('editNotes').value || null
+            };
+          }
+
+          // 読み込み時点から自分が変更した項目だけを送る
+          function pickChangedFields(values, base) {
+            const changed = {};
+            EDITABLE_FIELDS.forEach(field => {
+              if ((values[field] ?? null) !== (base[field] ?? null)) changed[field] = values[field];
+            });
+            return changed;
+          }
+
+          window.openEditTask = async (taskId) => {
+            try {
+              const res = await axios.get(\`\${API_BASE}/tasks/\${taskId}\`);
+              fillEditForm(res.data, res.headers.etag);
+              document.getElementById('editTaskModal').classList.remove('hidden');
+            } catch (error) {
+              console.error('Failed to load task:', error);
+              alert('タスクの取得に失敗しました');
+            }
+          };
+
+          window.closeEditTask = () => {
+            editingTask = null;
+            document.getElementById('editTaskModal').classList.add('hidden');
+          };
+
+          async function saveEditTask(changes, etag) {
+            const form = document.getElementById('editTaskForm');
+            clearFieldErrors(form);
+            try {
+              await axios.put(\`\${API_BASE}/tasks/\${editingTask.id}\`, changes, { headers: { 'If-Match': etag } });
+              closeEditTask();
+              loadTasks();
+              loadStats();
+            } catch (error) {
+              if (error?.response?.status === 409) {
+                renderEditConflict(error.response.data.current, error.response.headers.etag, changes);
+                return;
+              }
+              console.error('Failed to update task:', error);
+              showFieldErrors(form, error, 'タスクの更新に失敗しました');
+            }
+          }
+
+          function renderEditConflict(current, etag, changes) {
+            editingTask.pending = { current, etag, changes };
+            const format = (field, value) => {
+              if (value === null || value === undefined || value === '') return '（なし）';
+              const select = { category: 'editCategory', priority: 'editPriority' }[field];
+              const option = select && Array.from(document.getElementById(select).options).find(o => o.value === value);
+              return option ? option.textContent : String(value);
+            };
+            const rows = EDITABLE_FIELDS
+              .filter(field => (current[field] ?? null) !== (editingTask.original[field] ?? null) || field in changes)
+              .map(field => {
+                const overlap = field in changes && (current[field] ?? null) !== (editingTask.original[field] ?? null);
+                return \`
+                  <div class="\${overlap ? 'text-red-700 font-medium' : 'text-gray-700'}">
+                    \${historyFieldLabels[field]}: 最新 \${escapeHtml(format(field, current[field]))}
+                    \${field in changes ? \` / あなた \${escapeHtml(format(field, changes[field]))}\` : ''}
+                  </div>
+                \`;
+              });
+            document.getElementById('editConflictList').innerHTML = rows.join('');
+            document.getElementById('editConflict').classList.remove('hidden');
+          }
+
+          // 最新の内容に自分の変更項目だけを重ねて保存する
+          window.applyMyEdits = () => {
+            if (!editingTask?.pending) return;
+            const { current, etag, changes } = editingTask.pending;
+            editingTask.original = current;
+            editingTask.etag = etag;
+            saveEditTask(changes, etag);
+          };
+
+          window.reloadEditTask = () => {
+            if (!editingTask?.pending) return;
+            fillEditForm(editingTask.pending.current, editingTask.pending.etag);
+          };
+
+          document.getElementById('editTaskForm').addEventListener('submit', (e) => {
+            e.preventDefault();
+            if (!editingTask) return;
+            const changes = pickChangedFields(readEditForm(), editingTask.original);
+            if (Object.keys(changes).length === 0) {
+              closeEditTask();
+              return;
+            }
+            saveEditTask(changes, editingTask.etag);
+          });
+
+          // Saved views
+          const DEFAULT_TASK_FILTERS = { q: '', status: 'todo', category: 'all', priority: 'all', due: 'all', sort: 'due_asc', tag: [], tag_mode: 'or' };
+
+          async function loadViews() {
+            try {
+              const response = await axios.get(\`\${API_BASE}/views\`);
+              savedViews = response.data;
+              if (activeViewId && !savedViews.some(view => view.id === activeViewId)) activeViewId = '';
+              renderViews();
+            } catch (error) {
+              console.error('Failed to load views:', error);
+            }
+          }
+
+          function renderViews() {
+            const chip = (active) => \`text-xs px-3 py-1 rounded-full border transition \${active ? 'bg-purple-600 text-white border-purple-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'}\`;
+            document.getElementById('viewsBar').innerHTML = [
+              \`<button onclick="selectView('')" class="\${chip(!activeViewId)}">標準</button>\`,
+              ...savedViews.map(view => \`
+                <span class="inline-flex items-center">
+                  <button onclick="selectView('\${view.id}')" class="\${chip(view.id === activeViewId)}">
+                    \${escapeHtml(view.name)} <span class="opacity-75">\${view.count}</span>
+                  </button>
+                  \${view.id === activeViewId ? \`<button onclick="deleteView('\${view.id}')" title="ビューを削除" class="ml-1 text-gray-400 hover:text-red-600"><i class="fas fa-times text-xs"></i></button>\` : ''}
+                </span>
+              \`)
+            ].join('');
+          }
+
+          function setTaskFilters(filters) {
+            document.getElementById('searchInput').value = filters.q || '';
+            document.getElementById('statusFilter').value = filters.status || 'all';
+            document.getElementById('categoryFilter').value = filters.category || 'all';
+            document.getElementById('priorityFilter').value = filters.priority || 'all';
+            document.getElementById('dueFilter').value = filters.due || 'all';
+            document.getElementById('sortSelect').value = filters.sort || 'due_asc';
+            document.getElementById('tagFilter').value = (filters.tag || []).join(', ');
+            document.getElementById('tagModeFilter').value = filters.tag_mode || 'or';
+          }
+
+          window.selectView = (viewId) => {
+            const view = savedViews.find(v => v.id === viewId);
+            activeViewId = view ? view.id : '';
+            setTaskFilters(view ? view.filters : DEFAULT_TASK_FILTERS);
+            renderViews();
+            loadTasks();
+          };
+
+          window.deleteView = async (viewId) => {
+            const view = savedViews.find(v => v.id === viewId);
+            if (!view || !confirm(\`ビュー「\${view.name}」を削除しますか？\`)) return;
+            try {
+              await axios.delete(\`\${API_BASE}/views/\${viewId}\`);
+              if (activeViewId === viewId) activeViewId = '';
+              loadViews();
+            } catch (error) {
+              console.error('Failed to delete view:', error);
+              alert('ビューの削除に失敗しました');
+            }
+          };
+
+          document.getElementById('saveView').addEventListener('click', async () => {
+            const name = prompt('ビュー名（例: 今週のA社案件）');
+            if (!name || !name.trim()) return;
+            try {
+              const response = await axios.post(\`\${API_BASE}/views\`, { name: name.trim(), filters: getTaskFilters() });
+              activeViewId = response.data.id;
+              loadViews();
+            } catch (error) {
+              console.error('Failed to save view:', error);
+              const fields = error?.response?.data?.fields;
+              alert(fields ? Object.values(fields).join('\\n') : 'ビューの保存に失敗しました');
+            }
+          });
+
+          // 手で条件を変えたらビューの選択は外す
+          function onFilterChange() {
+            if (activeViewId) {
+              activeViewId = '';
+              renderViews();
+            }
+            loadTasks();
+          }
+
+          // Filter and search bindings
+          let searchTimer = null;
+          document.getElementById('searchInput').addEventListener('input', (e) => {
+            // 検索中は関連度順、検索をやめたら期日順に戻す
+            const sortSelect = document.getElementById('sortSelect');
+            if (e.target.value.trim() && sortSelect.value === 'due_asc') sortSelect.value = 'relevance';
+            if (!e.target.value.trim() && sortSelect.value === 'relevance') sortSelect.value = 'due_asc';
+            clearTimeout(searchTimer);
+            searchTimer = setTimeout(onFilterChange, 250);
+          });
+          ['statusFilter', 'categoryFilter', 'priorityFilter', 'dueFilter', 'sortSelect', 'tagModeFilter'].forEach((id) => {
+            document.getElementById(id).addEventListener('change', onFilterChange);
+          });
+          document.getElementById('tagFilter').addEventListener('input', () => {
+            clearTimeout(searchTimer);
+            searchTimer = setTimeout(onFilterChange, 250);
+          });
+          
+          // Add task
+          document.getElementById('taskForm').addEventListener('submit', async (e) => {
+            e.preventDefault();
+            
+            const task = {
+              title: document.getElementById('taskTitle').value,
+              category: document.getElementById('taskCategory').value,
+              priority: document.getElementById('taskPriority').value,
+              due_date: document.getElementById('taskDueDate').value || null,
+              minutes: parseInt(document.getElementById('taskMinutes').value),
+              recurrence_rule: getRecurrenceInput(),
+              goal_id: document.getElementById('taskGoal').value || null,
+              tags: document.getElementById('taskTags').value
+                .split(',')
+                .map(tag => tag.trim())
+                .filter(Boolean)
+            };
+            
+            const form = document.getElementById('taskForm');
+            clearFieldErrors(form);
+            try {
+              await axios.post(\`\${API_BASE}/tasks\`, task);
+              document.getElementById('taskForm').reset();
+              document.getElementById('taskMinutes').value = '15';
+              document.getElementById('taskRecurrenceCustomWrap').classList.add('hidden');
+              loadTasks();
+              loadStats();
+              loadTags();
+            } catch (error) {
+              console.error('Failed to add task:', error);
+              showFieldErrors(form, error, 'タスクの追加に失敗しました');
+            }
+          });
+
+          // Quick add
+          // 入力のたびにサーバーで解析してプレビューし、Enter でそのまま登録する
+          const quickAddCategoryLabels = { future: '🟥 未来', now: '🟦 直近', maintain: '🟩 維持', chore: '⬜ 雑務' };
+          const quickAddPriorityLabels = { high: '🔥 高', medium: '⚡ 中', low: '☁️ 低' };
+          let quickAddTimer = null;
+          let quickAddPreview = null;
+          let quickAddRequestId = 0;
+
+          async function previewQuickAdd() {
+            const text = document.getElementById('quickAddInput').value.trim();
+            const form = document.getElementById('quickAddForm');
+            const el = document.getElementById('quickAddPreview');
+            const requestId = ++quickAddRequestId;
+            clearFieldErrors(form);
+            quickAddPreview = null;
+            if (!text) {
+              el.classList.add('hidden');
+              return;
+            }
+            try {
+              const response = await axios.post(\`\${API_BASE}/tasks/parse\`, { text });
+              if (requestId !== quickAddRequestId) return;
+              quickAddPreview = response.data.task;
+              renderQuickAddPreview(response.data);
+            } catch (error) {
+              if (requestId !== quickAddRequestId) return;
+              el.classList.add('hidden');
+              showFieldErrors(form, error, '解析に失敗しました');
+            }
+          }
+
+          function renderQuickAddPreview(data) {
+            const el = document.getElementById('quickAddPreview');
+            const task = data.task;
+            const recognizedFields = new Set(data.recognized.map(token => token.field));
+            const chip = (field, label) => \`<span class="px-2 py-1 rounded \${recognizedFields.has(field) ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-500'}">\${label}</span>\`;
+            el.innerHTML = \`
+              <span class="font-semibold text-gray-800">\${escapeHtml(task.title)}</span>
+              \${chip('due_date', task.due_date ? '📅 ' + task.due_date : '📅 期限なし')}
+              \${chip('minutes', '⏱️ ' + task.minutes + '分')}
+              \${chip('category', quickAddCategoryLabels[task.category])}
+              \${chip('priority', quickAddPriorityLabels[task.priority])}
+              \${task.tags.map(tag => \`<span class="px-2 py-1 rounded bg-purple-100 text-purple-800">#\${escapeHtml(tag)}</span>\`).join('')}
+              <button type="button" onclick="fillTaskFormFromQuickAdd()" class="text-blue-600 hover:text-blue-800 underline ml-auto">フォームで編集</button>
+            \`;
+            el.classList.remove('hidden');
+          }
+
+          document.getElementById('quickAddInput').addEventListener('input', () => {
+            clearTimeout(quickAddTimer);
+            quickAddTimer = setTimeout(previewQuickAdd, 300);
+          });
+
+          document.getElementById('quickAddForm').addEventListener('submit', async (e) => {
+            e.preventDefault();
+            const input = document.getElementById('quickAddInput');
+            const form = document.getElementById('quickAddForm');
+            if (!input.value.trim()) return;
+            clearTimeout(quickAddTimer);
+            clearFieldErrors(form);
+            try {
+              await axios.post(\`\${API_BASE}/tasks/quick-add\`, { text: input.value });
+              input.value = '';
+              quickAddPreview = null;
+              document.getElementById('quickAddPreview').classList.add('hidden');
+              loadTasks();
+              loadStats();
+              loadTags();
+            } catch (error) {
+              console.error('Failed to quick-add task:', error);
+              showFieldErrors(form, error, 'タスクの追加に失敗しました');
+            }
+          });
+
+          // 解析結果を詳細フォームへ写し、細かい項目を調整してから追加できるようにする
+          window.fillTaskFormFromQuickAdd = () => {
+            if (!quickAddPreview) return;
+            document.getElementById('taskTitle').value = quickAddPreview.title;
+            document.getElementById('taskCategory').value = quickAddPreview.category;
+            document.getElementById('taskPriority').value = quickAddPreview.priority;
+            document.getElementById('taskDueDate').value = quickAddPreview.due_date || '';
+            document.getElementById('taskMinutes').value = quickAddPreview.minutes;
+            document.getElementById('taskTags').value = quickAddPreview.tags.join(', ');
+            document.getElementById('quickAddInput').value = '';
+            document.getElementById('quickAddPreview').classList.add('hidden');
+            document.getElementById('taskTitle').focus();
+          };
+
+          document.getElementById('taskRecurrence').addEventListener('change', (e) => {
+            document.getElementById('taskRecurrenceCustomWrap').classList.toggle('hidden', e.target.value !== 'custom');
+          });
+          
+          // Backup / restore
+          const backupTableLabels = {
+            tasks: 'タスク', subtasks: 'サブタスク', task_dependencies: '依存関係', tags: 'タグ', task_tags: 'タスクのタグ',
+            goals: '目標', saved_views: 'ビュー', time_entries: '作業記録', focus_sessions: '集中記録',
+            task_events: '変更履歴', calendar_events: 'カレンダー予定', schedules: '予定表',
+            calendar_rules: '変換ルール', calendar_sources: 'カレンダーの連携先'
+          };
+
+          window.openBackup = () => {
+            document.getElementById('backupCsvLinks').innerHTML = Object.entries(backupTableLabels).map(([table, label]) =>
+              \`<a href="/api/export?format=csv&table=\${table}" class="text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 px-2 py-1 rounded">\${label}</a>\`
+            ).join('');
+            document.getElementById('backupResult').textContent = '';
+            document.getElementById('backupDrawer').classList.remove('hidden');
+          };
+
+          window.closeBackup = () => {
+            document.getElementById('backupDrawer').classList.add('hidden');
+          };
+
+          window.restoreBackup = async () => {
+            const panel = document.getElementById('backupPanel');
+            const file = document.getElementById('backupFile').files[0];
+            const mode = document.querySelector('input[name="backupMode"]:checked').value;
+            clearFieldErrors(panel);
+            if (!file) {
+              alert('バックアップファイルを選んでください');
+              return;
+            }
+            const message = mode === 'replace'
+              ? '今のデータをすべて消して、バックアップの内容に置き換えます。よろしいですか？'
+              : 'バックアップの内容を今のデータに統合します。よろしいですか？';
+            if (!confirm(message)) return;
+            try {
+              const response = await axios.post(\`\${API_BASE}/import?mode=\${mode}\`, await file.text(), {
+                headers: { 'Content-Type': 'application/json' }
+              });
+              document.getElementById('backupResult').textContent = '復元しました: ' + Object.entries(response.data.restored)
+                .map(([table, count]) => \`\${backupTableLabels[table] || table} \${count}件\`).join(' / ');
+              document.getElementById('backupFile').value = '';
+              loadTasks();
+              loadStats();
+              loadTags();
+              loadGoals();
+              loadViews();
+            } catch (error) {
+              console.error('Failed to restore backup:', error);
+              showFieldErrors(panel, error, '復元に失敗しました');
+            }
+          };
+
+          // CSV import
+          // 確認（ドライラン）で列の対応と値の変換を調整してから、まとめて1回で取り込む
+          const importFieldLabels = {
+            title: 'タスク名', category: 'カテゴリ', priority: '優先度', minutes: '時間（分）',
+            due_date: '期日', status: '状態', notes: 'メモ', tags: 'タグ'
+          };
+          const importValueLabels = {
+            category: quickAddCategoryLabels,
+            priority: quickAddPriorityLabels,
+            status: { todo: '未完了', done: '完了' }
+          };
+          const importRowStatusLabels = {
+            ok: ['取り込み', 'bg-green-100 text-green-800'],
+            duplicate: ['重複', 'bg-yellow-100 text-yellow-800'],
+            error: ['エラー', 'bg-red-100 text-red-800']
+          };
+          let importMapping = null;
+          let importValueMap = { category: {}, priority: {}, status: {} };
+          let importReport = null;
+
+          function resetImportState() {
+            importMapping = null;
+            importValueMap = { category: {}, priority: {}, status: {} };
+            importReport = null;
+            ['importMapping', 'importValueMap', 'importReport'].forEach(id => document.getElementById(id).classList.add('hidden'));
+            document.getElementById('importCommitButton').disabled = true;
+            clearFieldErrors(document.getElementById('importPanel'));
+          }
+
+          function buildImportBody(dryRun) {
+            const header = document.getElementById('importHeader').value;
+            return {
+              text: document.getElementById('importText').value,
+              delimiter: document.getElementById('importDelimiter').value,
+              has_header: header === '' ? null : header === 'true',
+              duplicates: document.getElementById('importDuplicates').value,
+              skip_errors: document.getElementById('importSkipErrors').checked,
+              mapping: importMapping,
+              value_map: importValueMap,
+              dry_run: dryRun
+            };
+          }
+
+          window.openImport = () => {
+            document.getElementById('importDrawer').classList.remove('hidden');
+          };
+
+          window.closeImport = () => {
+            document.getElementById('importDrawer').classList.add('hidden');
+          };
+
+          window.previewImport = async () => {
+            const panel = document.getElementById('importPanel');
+            clearFieldErrors(panel);
             try {
-              const run = confirm(\`「\${taskTitle}」をAIで実行可能ステップに分解しますか？\`);
-              if (!run) return;
-              await axios.post(\`\${API_BASE}/tasks/\${taskId}/decompose\`, { provider: 'auto' });
-              expandedSubtasks[taskId] = true;
-              await loadSubtasks(taskId);
-              alert('AI分解して保存しました');
+              const response = await axios.post(\`\${API_BASE}/tasks/import\`, buildImportBody(true));
+              importMapping = { ...response.data.mapping };
+              renderImportReport(response.data);
             } catch (error) {
-              console.error('Failed to decompose task:', error);
-              const msg = error?.response?.data?.message || 'AI分解に失敗しました（APIキー設定を確認してください）';
-              alert(msg);
+              console.error('Failed to preview import:', error);
+              document.getElementById('importCommitButton').disabled = true;
+              showFieldErrors(panel, error, '確認に失敗しました');
             }
           };
 
-          // Filter and search bindings
-          let searchTimer = null;
-          document.getElementById('searchInput').addEventListener('input', () => {
-            clearTimeout(searchTimer);
-            searchTimer = setTimeout(loadTasks, 250);
-          });
-          ['statusFilter', 'categoryFilter', 'priorityFilter', 'dueFilter', 'sortSelect'].forEach((id) => {
-            document.getElementById(id).addEventListener('change', loadTasks);
-          });
-          
-          // Add task
-          document.getElementById('taskForm').addEventListener('submit', async (e) => {
-            e.preventDefault();
-            
-            const task = {
-              title: document.getElementById('taskTitle').value,
-              category: document.getElementById('taskCategory').value,
-              priority: document.getElementById('taskPriority').value,
-              due_date: document.getElementById('taskDueDate').value || null,
-              minutes: parseInt(document.getElementById('taskMinutes').value)
-            };
-            
+          function renderImportReport(data) {
+            importReport = data;
+            const columnOptions = data.columns.map(column => {
+              const label = column.header || column.samples.find(sample => sample) || '';
+              return \`<option value="\${column.index}">\${column.index + 1}列目\${label ? ': ' + escapeHtml(label.slice(0, 20)) : ''}</option>\`;
+            }).join('');
+            const mappingEl = document.getElementById('importMapping');
+            mappingEl.innerHTML = \`
+              <p class="text-sm font-semibold text-gray-700 mb-2">列の対応</p>
+              <div class="grid grid-cols-2 md:grid-cols-4 gap-2">
+                \${Object.entries(importFieldLabels).map(([field, label]) => \`
+                  <label class="text-xs text-gray-600">\${label}
+                    <select data-import-field="\${field}" class="w-full px-2 py-1 text-sm border border-gray-300 rounded">
+                      <option value="">— 取り込まない —</option>\${columnOptions}
+                    </select>
+                  </label>
+                \`).join('')}
+              </div>
+            \`;
+            mappingEl.querySelectorAll('[data-import-field]').forEach(select => {
+              const index = data.mapping[select.dataset.importField];
+              select.value = index === undefined ? '' : String(index);
+              select.addEventListener('change', () => {
+                importMapping[select.dataset.importField] = select.value === '' ? null : Number(select.value);
+                previewImport();
+              });
+            });
+            mappingEl.classList.remove('hidden');
+
+            // 変換できなかった値と、自分で指定した変換を並べる
+            const valueMapEl = document.getElementById('importValueMap');
+            const valueRows = Object.keys(importValueLabels).flatMap(kind => {
+              const values = new Set([...data.unmapped_values[kind], ...Object.keys(importValueMap[kind])]);
+              return Array.from(values).map(value => ({ kind, value }));
+            });
+            valueMapEl.innerHTML = valueRows.length === 0 ? '' : \`
+              <p class="text-sm font-semibold text-gray-700 mb-2">値の変換</p>
+              <div class="space-y-1">
+                \${valueRows.map(({ kind, value }) => \`
+                  <div class="flex items-center gap-2 text-sm">
+                    <span class="w-16 text-xs text-gray-500">\${importFieldLabels[kind]}</span>
+                    <span class="flex-1 min-w-0 truncate">「\${escapeHtml(value)}」</span>
+                    <i class="fas fa-arrow-right text-gray-400 text-xs"></i>
+                    <select data-import-kind="\${kind}" data-import-value="\${escapeHtml(value)}" class="px-2 py-1 text-sm border border-gray-300 rounded">
+                      <option value="">未指定</option>
+                      \${Object.entries(importValueLabels[kind]).map(([key, label]) => \`<option value="\${key}">\${label}</option>\`).join('')}
+                    </select>
+                  </div>
+                \`).join('')}
+              </div>
+            \`;
+            valueMapEl.querySelectorAll('[data-import-kind]').forEach(select => {
+              const { importKind, importValue } = select.dataset;
+              select.value = importValueMap[importKind][importValue] || '';
+              select.addEventListener('change', () => {
+                if (select.value) importValueMap[importKind][importValue] = select.value;
+                else delete importValueMap[importKind][importValue];
+                previewImport();
+              });
+            });
+            valueMapEl.classList.toggle('hidden', valueRows.length === 0);
+
+            const summary = data.summary;
+            const shownRows = data.rows.slice(0, 200);
+            const reportEl = document.getElementById('importReport');
+            reportEl.innerHTML = \`
+              <p class="text-sm text-gray-700 mb-2">
+                全\${summary.total}行: <span class="text-green-700">取り込み \${summary.ok}</span> /
+                <span class="text-yellow-700">重複 \${summary.duplicate}</span> /
+                <span class="text-red-700">エラー \${summary.error}</span>
+                → <span class="font-semibold">\${summary.importable}件を取り込みます</span>
+              </p>
+              <div class="border border-gray-200 rounded overflow-x-auto">
+                <table class="w-full text-xs">
+                  <thead class="bg-gray-50 text-gray-600">
+                    <tr><th class="px-2 py-1 text-left">行</th><th class="px-2 py-1 text-left">判定</th><th class="px-2 py-1 text-left">タスク</th><th class="px-2 py-1 text-left">内容</th></tr>
+                  </thead>
+                  <tbody>
+                    \${shownRows.map(row => {
+                      const [label, style] = importRowStatusLabels[row.status];
+                      const task = row.task || {};
+                      const detail = row.status === 'error'
+                        ? Object.values(row.errors).map(escapeHtml).join(' / ')
+                        : row.status === 'duplicate'
+                          ? (row.duplicate_of.startsWith('row:') ? \`\${row.duplicate_of.slice(4)}行目と同じ\` : '既存のタスクと同じ')
+                          : [
+                              task.due_date ? '📅 ' + task.due_date : '',
+                              task.minutes ? '⏱️ ' + task.minutes + '分' : '',
+                              task.category ? quickAddCategoryLabels[task.category] : '',
+                              task.priority ? quickAddPriorityLabels[task.priority] : '',
+                              task.status === 'done' ? '✅ 完了' : '',
+                              ...(task.tags || []).map(tag => '#' + escapeHtml(tag))
+                            ].filter(Boolean).join(' ');
+                      return \`
+                        <tr class="border-t border-gray-100">
+                          <td class="px-2 py-1 text-gray-500">\${row.row}</td>
+                          <td class="px-2 py-1"><span class="px-1 rounded \${style}">\${label}</span></td>
+                          <td class="px-2 py-1 text-gray-800">\${escapeHtml(task.title || '')}</td>
+                          <td class="px-2 py-1 \${row.status === 'error' ? 'text-red-600' : 'text-gray-600'}">\${detail}</td>
+                        </tr>
+                      \`;
+                    }).join('')}
+                  </tbody>
+                </table>
+              </div>
+              \${data.rows.length > shownRows.length ? \`<p class="text-xs text-gray-500 mt-1">先頭\${shownRows.length}行を表示しています</p>\` : ''}
+            \`;
+            reportEl.classList.remove('hidden');
+            document.getElementById('importCommitButton').disabled = summary.importable === 0;
+          }
+
+          window.commitImport = async () => {
+            if (!importReport || !confirm(\`\${importReport.summary.importable}件のタスクを取り込みますか？\`)) return;
+            const panel = document.getElementById('importPanel');
+            clearFieldErrors(panel);
             try {
-              await axios.post(\`\${API_BASE}/tasks\`, task);
-              document.getElementById('taskForm').reset();
-              document.getElementById('taskMinutes').value = '15';
+              const response = await axios.post(\`\${API_BASE}/tasks/import\`, buildImportBody(false));
+              alert(\`\${response.data.summary.imported}件のタスクを取り込みました\`);
+              document.getElementById('importText').value = '';
+              document.getElementById('importFile').value = '';
+              resetImportState();
+              closeImport();
               loadTasks();
               loadStats();
+              loadTags();
             } catch (error) {
-              console.error('Failed to add task:', error);
-              alert('タスクの追加に失敗しました');
+              console.error('Failed to import tasks:', error);
+              if (error?.response?.data?.rows) renderImportReport(error.response.data);
+              showFieldErrors(panel, error, '取り込みに失敗しました');
+            }
+          };
+
+          document.getElementById('importText').addEventListener('input', resetImportState);
+
+          // Excel で保存した CSV は Shift_JIS のことが多いので、UTF-8 として読めなければ Shift_JIS で読み直す
+          document.getElementById('importFile').addEventListener('change', async (e) => {
+            const file = e.target.files[0];
+            if (!file) return;
+            const buffer = await file.arrayBuffer();
+            let text;
+            try {
+              text = new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+            } catch {
+              text = new TextDecoder('shift_jis').decode(buffer);
             }
+            document.getElementById('importText').value = text;
+            if (file.name.toLowerCase().endsWith('.tsv')) document.getElementById('importDelimiter').value = 'tab';
+            resetImportState();
+            previewImport();
           });
-          
+
           // Toggle task completion
-          async function toggleTask(id) {
+          async function toggleTask(id, version) {
             try {
-              await axios.post(\`\${API_BASE}/tasks/\${id}/toggle\`);
+              // 表示中のバージョンを送り、他の端末で先に切り替えられていれば上書きしない
+              await axios.post(\`\${API_BASE}/tasks/\${id}/toggle\`, null, version ? { headers: { 'If-Match': \`"\${version}"\` } } : {});
               loadTasks();
               loadStats();
             } catch (error) {
+              if (error.response?.status === 409) {
+                alert('他の端末でこのタスクが更新されています。一覧を再読み込みします。');
+                loadTasks();
+                return;
+              }
               console.error('Failed to toggle task:', error);
             }
           }
@@ -1869,13 +9728,94 @@ app.get('/', (c) => {
               await axios.delete(\`\${API_BASE}/tasks/\${id}\`);
               loadTasks();
               loadStats();
+              if (!document.getElementById('trashPanel').classList.contains('hidden')) loadTrash();
             } catch (error) {
               console.error('Failed to delete task:', error);
             }
           }
           
+          // Trash
+          async function loadTrash() {
+            try {
+              const res = await axios.get(\`\${API_BASE}/trash\`);
+              renderTrash(res.data);
+            } catch (error) {
+              console.error('Failed to load trash:', error);
+            }
+          }
+
+          function renderTrash(data) {
+            document.getElementById('trashInfo').textContent =
+              \`削除済み \${data.tasks.length} 件（\${data.retentionDays}日経過で自動的に完全削除）\`;
+            document.getElementById('emptyTrash').disabled = data.tasks.length === 0;
+
+            const el = document.getElementById('trashList');
+            if (data.tasks.length === 0) {
+              el.innerHTML = '<p class="text-sm text-gray-500">ゴミ箱は空です</p>';
+              return;
+            }
+
+            el.innerHTML = data.tasks.map(task => {
+              const deletedAt = task.deleted_at
+                ? new Date(task.deleted_at).toLocaleString('ja-JP', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+                : '';
+              return \`
+                <div class="flex items-center justify-between text-sm bg-white rounded px-3 py-2 border category-\${task.category}">
+                  <div class="flex-1 min-w-0">
+                    <p class="text-gray-800 truncate">\${escapeHtml(task.title)}</p>
+                    \${deletedAt ? \`<p class="text-xs text-gray-500">\${deletedAt} に削除</p>\` : ''}
+                  </div>
+                  <button onclick="restoreTask('\${task.id}')" class="text-xs bg-blue-600 hover:bg-blue-700 text-white px-2 py-1 rounded transition ml-2">
+                    <i class="fas fa-undo mr-1"></i>復元
+                  </button>
+                  <button onclick="purgeTask('\${task.id}')" class="text-xs text-red-600 hover:text-red-800 ml-2">
+                    <i class="fas fa-times"></i>
+                  </button>
+                </div>
+              \`;
+            }).join('');
+          }
+
+          window.restoreTask = async (id) => {
+            try {
+              await axios.post(\`\${API_BASE}/tasks/\${id}/restore\`);
+              loadTrash();
+              loadTasks();
+              loadStats();
+            } catch (error) {
+              console.error('Failed to restore task:', error);
+              alert('復元に失敗しました');
+            }
+          };
+
+          window.purgeTask = async (id) => {
+            if (!confirm('このタスクを完全に削除しますか？（元に戻せません）')) return;
+            try {
+              await axios.delete(\`\${API_BASE}/trash/\${id}\`);
+              loadTrash();
+            } catch (error) {
+              console.error('Failed to purge task:', error);
+            }
+          };
+
+          document.getElementById('toggleTrash').addEventListener('click', () => {
+            const panel = document.getElementById('trashPanel');
+            panel.classList.toggle('hidden');
+            if (!panel.classList.contains('hidden')) loadTrash();
+          });
+
+          document.getElementById('emptyTrash').addEventListener('click', async () => {
+            if (!confirm('ゴミ箱のタスクをすべて完全に削除しますか？（元に戻せません）')) return;
+            try {
+              await axios.delete(\`\${API_BASE}/trash\`);
+              loadTrash();
+            } catch (error) {
+              console.error('Failed to empty trash:', error);
+            }
+          });
+          
           // Sync Google Calendar
-          document.getElementById('syncCalendar').addEventListener('click', async () => {
+          async function loadCalendarEvents() {
             try {
               const response = await axios.get(\`\${API_BASE}/calendar/events\`);
               calendarEventsCache.length = 0;
@@ -1884,15 +9824,71 @@ app.get('/', (c) => {
               renderCalendarEvents(response.data);
             } catch (error) {
               console.error('Failed to sync calendar:', error);
-              if (isOAuthError(error)) {
-                if (confirm('非公開カレンダー取得にはGoogle OAuth接続が必要です。今すぐ接続しますか？')) {
-                  window.location.href = error.response.data.authUrl;
-                }
-              } else if (error.response?.status === 400) {
-                alert('Googleカレンダー連携が未設定です。OAuthまたは環境変数を設定してください。');
-              } else {
-                alert('カレンダーの取得に失敗しました');
+              handleCalendarError(error);
+            } finally {
+              loadCalendarSyncStatus();
+            }
+          }
+
+          function handleCalendarError(error) {
+            if (isOAuthError(error)) {
+              if (confirm('非公開カレンダー取得にはGoogle OAuth接続が必要です。今すぐ接続しますか？')) {
+                window.location.href = error.response.data.authUrl;
               }
+            } else if (error.response?.status === 400) {
+              alert('Googleカレンダー連携が未設定です。OAuthまたは環境変数を設定してください。');
+            } else {
+              alert('カレンダーの取得に失敗しました');
+            }
+          }
+
+          document.getElementById('syncCalendar').addEventListener('click', loadCalendarEvents);
+
+          // 予定のキャッシュの同期状況（一定間隔ごとに取得時に差分同期される）
+          async function loadCalendarSyncStatus() {
+            try {
+              const response = await axios.get(\`\${API_BASE}/calendar/sync\`);
+              renderCalendarSyncStatus(response.data);
+            } catch (error) {
+              console.error('Failed to load calendar sync status:', error);
+            }
+          }
+
+          // 連携先ごとの同期状況（一度も同期していない連携先は出さない）
+          function renderCalendarSyncStatus(status) {
+            const row = document.getElementById('calendarSyncRow');
+            const sources = (status.sources || []).filter(source => source.last_attempt_at);
+            if (!status.configured || sources.length === 0) {
+              row.classList.add('hidden');
+              return;
+            }
+            document.getElementById('calendarSyncStatus').innerHTML = \`
+              <i class="fas fa-database mr-1"></i>\${status.interval_minutes}分ごとに同期
+              \${sources.map(source => {
+                const lastSynced = source.last_synced_at ? new Date(source.last_synced_at).toLocaleString('ja-JP') : '未同期';
+                const failed = source.last_status === 'error'
+                  ? \`<span class="text-red-600 ml-1">前回の同期に失敗しました（\${escapeHtml(source.last_error || '')}）</span>\`
+                  : '';
+                return \`
+                  <span class="ml-2"><span class="inline-block w-2 h-2 rounded-full mr-1" style="background: \${source.color}"></span>\${escapeHtml(source.name)}: 最終同期 \${lastSynced}（保存済み\${source.cached_events - source.cached_cancelled}件）\${failed}</span>
+                \`;
+              }).join('')}
+            \`;
+            row.classList.remove('hidden');
+          }
+
+          document.getElementById('resyncCalendar').addEventListener('click', async (event) => {
+            const button = event.currentTarget;
+            button.disabled = true;
+            try {
+              await axios.post(\`\${API_BASE}/calendar/sync\`);
+              await loadCalendarEvents();
+            } catch (error) {
+              console.error('Failed to resync calendar:', error);
+              handleCalendarError(error);
+              loadCalendarSyncStatus();
+            } finally {
+              button.disabled = false;
             }
           });
 
@@ -1926,7 +9922,8 @@ app.get('/', (c) => {
               });
               loadTasks();
               loadStats();
-              alert(\`一括タスク化完了: 追加 \${response.data.created} 件 / スキップ \${response.data.skipped} 件\`);
+              loadCalendarEvents();
+              alert(\`一括タスク化完了: 追加 \${response.data.created} 件 / スキップ \${response.data.skipped} 件 / ルールで除外 \${response.data.excluded} 件\`);
             } catch (error) {
               console.error('Failed to convert all events:', error);
               alert('一括タスク化に失敗しました');
@@ -1943,19 +9940,25 @@ app.get('/', (c) => {
             }
             
             container.innerHTML = events.map(event => {
-              const start = new Date(event.start.dateTime || event.start.date);
-              const startStr = start.toLocaleString('ja-JP', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+              const startRaw = event.start.dateTime || event.start.date;
+              const startStr = event.start.dateTime
+                ? new Date(startRaw).toLocaleString('ja-JP', { timeZone: USER_TIMEZONE, month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+                : new Date(\`\${startRaw}T00:00:00Z\`).toLocaleString('ja-JP', { timeZone: 'UTC', month: 'short', day: 'numeric' }) + ' 終日';
               
               return \`
-                <div class="flex items-center justify-between p-3 bg-blue-50 rounded-lg">
+                <div class="flex items-center justify-between p-3 bg-blue-50 rounded-lg border-l-4" style="border-left-color: \${event.color || '#ef4444'}">
                   <div class="flex-1">
                     <p class="font-medium text-gray-800">\${escapeHtml(event.summary)}</p>
-                    <p class="text-sm text-gray-600">\${startStr}</p>
+                    <p class="text-sm text-gray-600">\${startStr}\${event.source_name ? \`<span class="text-xs text-gray-500 ml-2">\${escapeHtml(event.source_name)}</span>\` : ''}</p>
                   </div>
-                  <button onclick="convertToTask('\${escapeHtml(event.id)}', '\${escapeHtml(event.summary).replace(/'/g, "\\\\&#039;")}', '\${start.toISOString()}')"
-                          class="bg-green-600 hover:bg-green-700 text-white px-3 py-1 rounded text-sm transition">
-                    <i class="fas fa-plus mr-1"></i>タスク化
-                  </button>
+                  \${event.task_id ? \`
+                    <span class="text-green-700 text-sm"><i class="fas fa-check mr-1"></i>タスク化済み</span>
+                  \` : \`
+                    <button onclick="convertToTask('\${escapeHtml(event.id)}', '\${escapeHtml(event.summary).replace(/'/g, "\\\\&#039;")}', '\${escapeHtml(startRaw)}')"
+                            class="bg-green-600 hover:bg-green-700 text-white px-3 py-1 rounded text-sm transition">
+                      <i class="fas fa-plus mr-1"></i>タスク化
+                    </button>
+                  \`}
                 </div>
               \`;
             }).join('');
@@ -1964,22 +9967,280 @@ app.get('/', (c) => {
           // Convert calendar event to task
           async function convertToTask(eventId, summary, start) {
             try {
-              await axios.post(\`\${API_BASE}/calendar/convert\`, {
+              // カテゴリ・優先度・時間は変換ルールで決める
+              // 変換ルールの判定に使うので、読み込んだ予定の終了日時・参加者・カレンダーも送る
+              const event = calendarEventsCache.find(e => e.id === eventId);
+              const response = await axios.post(\`\${API_BASE}/calendar/convert\`, {
+                event_id: eventId,
                 summary,
                 start,
-                category: 'now',
-                priority: 'medium',
-                minutes: 60
+                end: event ? (event.end?.dateTime || event.end?.date || null) : null,
+                attendees: event ? (event.attendees || []).map(attendee => attendee.email).filter(Boolean) : [],
+                calendar_id: event?.calendar_id || null,
+                source_id: event?.source_id || null
               });
+              markEventConverted(eventId, response.data.id);
               loadTasks();
               loadStats();
               alert('タスクに追加しました！');
             } catch (error) {
               console.error('Failed to convert event:', error);
+              if (error.response?.status === 409) {
+                markEventConverted(eventId, error.response.data.task.id);
+                alert(error.response.data.message);
+                return;
+              }
               alert('タスクの追加に失敗しました');
             }
           }
           
+          // Calendar sources (Google calendars and ICS subscriptions)
+          let calendarSources = [];
+
+          async function loadCalendarSources() {
+            try {
+              const response = await axios.get(\`\${API_BASE}/calendar/sources\`);
+              calendarSources = response.data;
+              renderCalendarSources();
+            } catch (error) {
+              console.error('Failed to load calendar sources:', error);
+            }
+          }
+
+          function renderCalendarSources() {
+            const list = document.getElementById('calendarSourcesList');
+            if (calendarSources.length === 0) {
+              list.innerHTML = '<p class="text-sm text-gray-500">連携するカレンダーはまだありません</p>';
+              return;
+            }
+            list.innerHTML = calendarSources.map(source => \`
+              <div class="flex items-center gap-2 p-2 bg-white rounded border \${source.enabled ? 'border-blue-200' : 'border-gray-200 opacity-60'}">
+                <input type="checkbox" \${source.enabled ? 'checked' : ''} onchange="updateCalendarSource('\${source.id}', { enabled: this.checked })" title="有効/無効">
+                <input type="color" value="\${source.color}" onchange="updateCalendarSource('\${source.id}', { color: this.value })" class="w-6 h-6 border border-gray-300 rounded" title="色">
+                <div class="flex-1 min-w-0 text-sm">
+                  <p class="font-medium text-gray-800">\${escapeHtml(source.name)}
+                    <span class="text-xs text-gray-500 ml-1">\${source.type === 'ics' ? 'ICS' : 'Google'}\${source.builtin ? '・既定' : ''}</span>
+                  </p>
+                  <p class="text-xs text-gray-600 break-all">\${escapeHtml(source.url || source.calendar_id || '')}</p>
+                </div>
+                <label class="text-xs text-gray-600 whitespace-nowrap">
+                  <input type="checkbox" \${source.blocks_schedule ? 'checked' : ''} onchange="updateCalendarSource('\${source.id}', { blocks_schedule: this.checked })" class="mr-1">予定表をふさぐ
+                </label>
+                \${source.builtin ? '' : \`
+                  <button onclick="deleteCalendarSource('\${source.id}')" class="text-red-600 hover:text-red-800" title="削除"><i class="fas fa-trash"></i></button>
+                \`}
+              </div>
+            \`).join('');
+          }
+
+          document.getElementById('toggleCalendarSources').addEventListener('click', () => {
+            const panel = document.getElementById('calendarSourcesPanel');
+            panel.classList.toggle('hidden');
+            if (!panel.classList.contains('hidden')) loadCalendarSources();
+          });
+
+          document.getElementById('sourceType').addEventListener('change', (e) => {
+            document.getElementById('sourceTarget').placeholder = e.target.value === 'ics'
+              ? 'https://… または webcal://…'
+              : 'カレンダーID（例: xxxx@group.calendar.google.com）';
+          });
+
+          document.getElementById('calendarSourceForm').addEventListener('submit', async (e) => {
+            e.preventDefault();
+            const form = e.currentTarget;
+            const type = document.getElementById('sourceType').value;
+            const target = document.getElementById('sourceTarget').value;
+            try {
+              await axios.post(\`\${API_BASE}/calendar/sources\`, {
+                type,
+                name: document.getElementById('sourceName').value,
+                ...(type === 'ics' ? { url: target } : { calendar_id: target }),
+                color: document.getElementById('sourceColor').value,
+                blocks_schedule: document.getElementById('sourceBlocks').checked
+              });
+              clearFieldErrors(form);
+              form.reset();
+              loadCalendarSources();
+              loadCalendarEvents();
+            } catch (error) {
+              console.error('Failed to add calendar source:', error);
+              showFieldErrors(form, error, '連携先の追加に失敗しました');
+            }
+          });
+
+          window.updateCalendarSource = async (id, changes) => {
+            try {
+              await axios.put(\`\${API_BASE}/calendar/sources/\${id}\`, changes);
+            } catch (error) {
+              console.error('Failed to update calendar source:', error);
+            }
+            loadCalendarSources();
+            if (calendarEventsCache.length > 0) loadCalendarEvents();
+          };
+
+          window.deleteCalendarSource = async (id) => {
+            if (!confirm('この連携先を削除しますか？（取り込んだ予定もキャッシュから消えます。作成済みのタスクは残ります）')) return;
+            try {
+              await axios.delete(\`\${API_BASE}/calendar/sources/\${id}\`);
+            } catch (error) {
+              console.error('Failed to delete calendar source:', error);
+            }
+            loadCalendarSources();
+            if (calendarEventsCache.length > 0) loadCalendarEvents();
+          };
+
+          // Calendar conversion rules
+          let calendarRules = [];
+
+          function describeCalendarRule(rule) {
+            const conditions = [];
+            if (rule.match_summary) conditions.push(rule.match_mode === 'regex' ? \`予定名が /\${escapeHtml(rule.match_summary)}/ に一致\` : \`予定名に「\${escapeHtml(rule.match_summary)}」\`);
+            if (rule.attendee_domain) conditions.push(\`参加者に @\${escapeHtml(rule.attendee_domain)}\`);
+            if (rule.calendar_id) conditions.push(\`カレンダー \${escapeHtml(rule.calendar_id)}\`);
+            if (rule.min_minutes !== null || rule.max_minutes !== null) conditions.push(\`\${rule.min_minutes ?? 0}〜\${rule.max_minutes ?? ''}分\`);
+            const result = rule.action === 'skip'
+              ? 'タスク化しない'
+              : [
+                  rule.category ? quickAddCategoryLabels[rule.category] : null,
+                  rule.priority ? quickAddPriorityLabels[rule.priority] : null,
+                  rule.minutes ? \`\${rule.minutes}分\` : null
+                ].filter(Boolean).join(' ') || '既定の内容でタスク化';
+            return \`\${conditions.length > 0 ? conditions.join(' かつ ') : 'すべての予定'} → \${result}\`;
+          }
+
+          async function loadCalendarRules() {
+            try {
+              const response = await axios.get(\`\${API_BASE}/calendar/rules\`);
+              calendarRules = response.data;
+              renderCalendarRules();
+            } catch (error) {
+              console.error('Failed to load calendar rules:', error);
+            }
+          }
+
+          function renderCalendarRules() {
+            const list = document.getElementById('calendarRulesList');
+            if (calendarRules.length === 0) {
+              list.innerHTML = '<p class="text-sm text-gray-500">ルールはまだありません</p>';
+              return;
+            }
+            list.innerHTML = calendarRules.map((rule, index) => \`
+              <div class="flex items-center gap-2 p-2 bg-white rounded border \${rule.enabled ? 'border-blue-200' : 'border-gray-200 opacity-60'}">
+                <input type="checkbox" \${rule.enabled ? 'checked' : ''} onchange="toggleCalendarRule('\${rule.id}', this.checked)" title="有効/無効">
+                <div class="flex-1 min-w-0 text-sm">
+                  <p class="font-medium text-gray-800">\${index + 1}. \${escapeHtml(rule.name)}</p>
+                  <p class="text-xs text-gray-600 break-words">\${describeCalendarRule(rule)}</p>
+                </div>
+                <button onclick="moveCalendarRule(\${index}, -1)" \${index === 0 ? 'disabled' : ''} class="text-gray-500 hover:text-gray-800 disabled:opacity-30" title="上へ"><i class="fas fa-arrow-up"></i></button>
+                <button onclick="moveCalendarRule(\${index}, 1)" \${index === calendarRules.length - 1 ? 'disabled' : ''} class="text-gray-500 hover:text-gray-800 disabled:opacity-30" title="下へ"><i class="fas fa-arrow-down"></i></button>
+                <button onclick="deleteCalendarRule('\${rule.id}')" class="text-red-600 hover:text-red-800" title="削除"><i class="fas fa-trash"></i></button>
+              </div>
+            \`).join('');
+          }
+
+          document.getElementById('toggleCalendarRules').addEventListener('click', () => {
+            const panel = document.getElementById('calendarRulesPanel');
+            panel.classList.toggle('hidden');
+            if (!panel.classList.contains('hidden')) loadCalendarRules();
+          });
+
+          document.getElementById('calendarRuleForm').addEventListener('submit', async (e) => {
+            e.preventDefault();
+            const form = e.currentTarget;
+            const numberOrNull = (id) => {
+              const value = document.getElementById(id).value;
+              return value === '' ? null : Number(value);
+            };
+            try {
+              await axios.post(\`\${API_BASE}/calendar/rules\`, {
+                name: document.getElementById('ruleName').value,
+                match_summary: document.getElementById('ruleSummary').value || null,
+                match_mode: document.getElementById('ruleRegex').checked ? 'regex' : 'keyword',
+                attendee_domain: document.getElementById('ruleDomain').value || null,
+                calendar_id: document.getElementById('ruleCalendarId').value || null,
+                min_minutes: numberOrNull('ruleMinMinutes'),
+                max_minutes: numberOrNull('ruleMaxMinutes'),
+                action: document.getElementById('ruleAction').value,
+                category: document.getElementById('ruleCategory').value || null,
+                priority: document.getElementById('rulePriority').value || null,
+                minutes: numberOrNull('ruleMinutes')
+              });
+              clearFieldErrors(form);
+              form.reset();
+              loadCalendarRules();
+            } catch (error) {
+              console.error('Failed to create calendar rule:', error);
+              showFieldErrors(form, error, 'ルールの追加に失敗しました');
+            }
+          });
+
+          window.toggleCalendarRule = async (id, enabled) => {
+            try {
+              await axios.put(\`\${API_BASE}/calendar/rules/\${id}\`, { enabled });
+            } catch (error) {
+              console.error('Failed to update calendar rule:', error);
+            }
+            loadCalendarRules();
+          };
+
+          // 隣のルールと並び順を入れ替える
+          window.moveCalendarRule = async (index, offset) => {
+            const rule = calendarRules[index];
+            const other = calendarRules[index + offset];
+            if (!rule || !other) return;
+            try {
+              await Promise.all([
+                axios.put(\`\${API_BASE}/calendar/rules/\${rule.id}\`, { position: other.position }),
+                axios.put(\`\${API_BASE}/calendar/rules/\${other.id}\`, { position: rule.position })
+              ]);
+            } catch (error) {
+              console.error('Failed to reorder calendar rules:', error);
+            }
+            loadCalendarRules();
+          };
+
+          window.deleteCalendarRule = async (id) => {
+            if (!confirm('このルールを削除しますか？')) return;
+            try {
+              await axios.delete(\`\${API_BASE}/calendar/rules/\${id}\`);
+            } catch (error) {
+              console.error('Failed to delete calendar rule:', error);
+            }
+            loadCalendarRules();
+          };
+
+          document.getElementById('previewCalendarRules').addEventListener('click', async () => {
+            const container = document.getElementById('calendarRulesPreview');
+            try {
+              const response = await axios.post(\`\${API_BASE}/calendar/rules/preview\`);
+              const events = response.data.events;
+              if (events.length === 0) {
+                container.innerHTML = '<p class="text-sm text-gray-500">今後7日間の予定はありません</p>';
+                return;
+              }
+              container.innerHTML = events.map(event => \`
+                <div class="flex flex-wrap items-center gap-2 text-sm p-2 bg-white rounded border border-gray-200">
+                  <span class="flex-1 min-w-0 truncate text-gray-800">\${escapeHtml(event.summary)}</span>
+                  \${event.action === 'skip'
+                    ? '<span class="text-gray-500">タスク化しない</span>'
+                    : \`<span>\${quickAddCategoryLabels[event.category]} \${quickAddPriorityLabels[event.priority]} \${event.minutes}分</span>\`}
+                  <span class="text-xs text-gray-500">\${event.rule ? escapeHtml(event.rule.name) : '既定'}</span>
+                  \${event.task_id ? '<span class="text-xs text-green-700">タスク化済み</span>' : ''}
+                </div>
+              \`).join('');
+            } catch (error) {
+              console.error('Failed to preview calendar rules:', error);
+              handleCalendarError(error);
+            }
+          });
+
+          function markEventConverted(eventId, taskId) {
+            const event = calendarEventsCache.find(e => e.id === eventId);
+            if (!event) return;
+            event.task_id = taskId;
+            renderCalendarEvents(calendarEventsCache);
+          }
+          
           // Schedule Generation
           const fixedEvents = [];
           
@@ -1999,7 +10260,7 @@ app.get('/', (c) => {
               renderFixedEvents();
               
               if (fixedEvents.length > 0) {
-                alert(\`Googleカレンダーから\${fixedEvents.length}件の予定を取得しました！\`);
+                alert(\`カレンダーから\${fixedEvents.length}件の予定を取得しました！\`);
               } else {
                 alert('今日の予定はありません');
               }
@@ -2023,10 +10284,18 @@ app.get('/', (c) => {
             const end = document.getElementById('fixedEventEnd').value;
             const title = document.getElementById('fixedEventTitle').value;
             
+            const errorEl = document.getElementById('fixedEventsError');
+            errorEl.classList.add('hidden');
+            
             if (!start || !end || !title) {
               alert('全ての項目を入力してください');
               return;
             }
+            if (end <= start) {
+              errorEl.textContent = '終了時刻は開始時刻より後にしてください';
+              errorEl.classList.remove('hidden');
+              return;
+            }
             
             fixedEvents.push({ start, end, title });
             renderFixedEvents();
@@ -2049,7 +10318,8 @@ app.get('/', (c) => {
             container.innerHTML = fixedEvents.map((event, index) => \`
               <div class="flex items-center justify-between p-2 bg-red-50 rounded border border-red-200">
                 <div class="flex-1">
-                  <span class="font-medium text-gray-800">\${event.title}</span>
+                  \${event.color ? \`<span class="inline-block w-2 h-2 rounded-full mr-1" style="background: \${event.color}"></span>\` : ''}
+                  <span class="font-medium text-gray-800">\${escapeHtml(event.title)}</span>
                   <span class="text-sm text-gray-600 ml-2">\${event.start} 〜 \${event.end}</span>
                 </div>
                 <button onclick="removeFixedEvent(\${index})" 
@@ -2066,24 +10336,74 @@ app.get('/', (c) => {
             renderFixedEvents();
           };
           
+          // iCalendar feeds
+          const icalFeedLabels = {
+            tasks_url: 'タスクの期日（終日の予定）',
+            tasks_todo_url: 'タスクの期日（ToDo／VTODO対応アプリ向け）',
+            schedule_url: '最新の予定表'
+          };
+          let icalUrls = null;
+
+          function renderIcalUrls(data) {
+            document.getElementById('icalUrls').innerHTML = Object.entries(icalFeedLabels).map(([key, label]) => \`
+              <div>
+                <p class="text-xs font-semibold text-gray-700 mb-1">\${label}</p>
+                <div class="flex gap-2">
+                  <input type="text" readonly value="\${escapeHtml(data[key])}" onclick="this.select()" class="flex-1 min-w-0 px-2 py-1 text-xs font-mono border border-gray-300 rounded bg-gray-50">
+                  <button onclick="copyIcalUrl('\${key}')" class="text-xs bg-purple-600 hover:bg-purple-700 text-white px-2 py-1 rounded transition">コピー</button>
+                </div>
+              </div>
+            \`).join('');
+            icalUrls = data;
+          }
+
+          window.copyIcalUrl = async (key) => {
+            try {
+              await navigator.clipboard.writeText(icalUrls[key]);
+            } catch (error) {
+              prompt('URLをコピーしてください', icalUrls[key]);
+            }
+          };
+
+          document.getElementById('toggleIcal').addEventListener('click', async () => {
+            const panel = document.getElementById('icalPanel');
+            panel.classList.toggle('hidden');
+            if (panel.classList.contains('hidden') || icalUrls) return;
+            try {
+              const response = await axios.get(\`\${API_BASE}/ical\`);
+              renderIcalUrls(response.data);
+            } catch (error) {
+              console.error('Failed to load iCal URLs:', error);
+            }
+          });
+
+          document.getElementById('rotateIcal').addEventListener('click', async () => {
+            if (!confirm('URLを再発行しますか？登録済みのカレンダーは新しいURLで登録し直す必要があります')) return;
+            try {
+              const response = await axios.post(\`\${API_BASE}/ical/rotate\`);
+              renderIcalUrls(response.data);
+            } catch (error) {
+              console.error('Failed to rotate iCal token:', error);
+            }
+          });
+
           // Generate schedule
           document.getElementById('generateSchedule').addEventListener('click', async () => {
             try {
               // Display pressed time
               const now = new Date();
-              const pressedHour = now.getHours();
-              const pressedMinute = now.getMinutes();
-              const lunchTime = new Date(now.getTime() + 6 * 60 * 60000);
-              const lunchHour = lunchTime.getHours();
-              const lunchMinute = lunchTime.getMinutes();
+              const { hour: pressedHour, minute: pressedMinute } = getZonedParts(now);
+              const { hour: lunchHour, minute: lunchMinute } = getZonedParts(new Date(now.getTime() + 6 * 60 * 60000));
               
               const pressedTimeDisplay = document.getElementById('pressedTimeDisplay');
               const pressedTimeText = document.getElementById('pressedTimeText');
               pressedTimeText.textContent = \`\${pressedHour}時\${pressedMinute}分に押下 → ランチは\${lunchHour}時\${lunchMinute}分頃を予定\`;
               pressedTimeDisplay.classList.remove('hidden');
               
+              document.getElementById('fixedEventsError').classList.add('hidden');
               const response = await axios.post(\`\${API_BASE}/schedule/generate\`, {
-                fixedEvents
+                fixedEvents,
+                include_calendar: document.getElementById('includeCalendar').checked
               });
               
               renderSchedule(response.data);
@@ -2092,14 +10412,25 @@ app.get('/', (c) => {
               document.getElementById('scheduleDisplay').scrollIntoView({ behavior: 'smooth' });
             } catch (error) {
               console.error('Failed to generate schedule:', error);
+              const fields = error?.response?.data?.fields;
+              if (fields) {
+                const errorEl = document.getElementById('fixedEventsError');
+                errorEl.textContent = Object.values(fields).join(' / ');
+                errorEl.classList.remove('hidden');
+                return;
+              }
               alert('予定表の生成に失敗しました');
             }
           });
           
           // Render generated schedule
+          let currentSchedule = [];
+          let currentScheduleDate = null;
           function renderSchedule(data) {
             const displayDiv = document.getElementById('scheduleDisplay');
             displayDiv.classList.remove('hidden');
+            currentScheduleDate = data.date || null;
+            renderScheduleCalendarStatus(data.calendar || null);
             
             // Render metadata (pressed time info)
             const warningsDiv = document.getElementById('scheduleWarnings');
@@ -2159,7 +10490,8 @@ app.get('/', (c) => {
               chore: '雑務'
             };
             
-            timelineDiv.innerHTML = data.schedule.map(slot => {
+            currentSchedule = data.schedule;
+            timelineDiv.innerHTML = data.schedule.map((slot, index) => {
               const icon = typeIcons[slot.type] || '📅';
               const typeLabel = typeLabels[slot.type] || slot.type;
               
@@ -2174,18 +10506,91 @@ app.get('/', (c) => {
                     <span class="font-medium text-gray-800">\${escapeHtml(slot.title)}</span>
                     <span class="text-xs text-gray-500 ml-2">[\${typeLabel}]</span>
                   </div>
+                  \${slot.task_id ? \`
+                    <button onclick="openFocusForSlot(\${index})" class="text-xs bg-rose-600 hover:bg-rose-700 text-white px-2 py-1 rounded transition flex-shrink-0">
+                      <i class="fas fa-bullseye mr-1"></i>集中
+                    </button>
+                  \` : ''}
                 </div>
               \`;
             }).join('');
           }
           
+          // Google カレンダーへの書き込み状況
+          function renderScheduleCalendarStatus(calendar) {
+            const status = document.getElementById('scheduleCalendarStatus');
+            document.getElementById('removeScheduleCalendar').classList.toggle('hidden', !calendar);
+            if (!calendar) {
+              status.classList.add('hidden');
+              return;
+            }
+            status.innerHTML = \`<i class="fab fa-google mr-1"></i>\${new Date(calendar.written_at).toLocaleString('ja-JP')} にカレンダーへ書き込み済み（\${calendar.event_count}件）\`;
+            status.classList.remove('hidden');
+          }
+
+          // 未接続・書き込み未許可なら再認可するか確認する
+          function handleScheduleCalendarError(error, fallbackMessage) {
+            const data = error?.response?.data;
+            if (data?.authUrl) {
+              if (confirm(\`\${data.message}。Googleの認可画面を開きますか？\`)) {
+                window.location.href = data.authUrl;
+              }
+              return;
+            }
+            alert(data?.message || fallbackMessage);
+          }
+
+          document.getElementById('writeScheduleCalendar').addEventListener('click', async (event) => {
+            const button = event.currentTarget;
+            button.disabled = true;
+            try {
+              const response = await axios.post(\`\${API_BASE}/schedule/calendar\`, currentScheduleDate ? { date: currentScheduleDate } : {});
+              renderScheduleCalendarStatus(response.data);
+              alert(\`カレンダーに書き込みました（追加\${response.data.created}件・更新\${response.data.updated}件・削除\${response.data.deleted}件）\`);
+            } catch (error) {
+              console.error('Failed to write schedule to calendar:', error);
+              handleScheduleCalendarError(error, 'カレンダーへの書き込みに失敗しました');
+            } finally {
+              button.disabled = false;
+            }
+          });
+
+          document.getElementById('removeScheduleCalendar').addEventListener('click', async () => {
+            if (!confirm('この予定表からカレンダーに書き込んだ予定を削除しますか？')) return;
+            try {
+              const query = currentScheduleDate ? \`?date=\${currentScheduleDate}\` : '';
+              const response = await axios.delete(\`\${API_BASE}/schedule/calendar\${query}\`);
+              renderScheduleCalendarStatus(null);
+              alert(\`カレンダーから\${response.data.deleted}件の予定を削除しました\`);
+            } catch (error) {
+              console.error('Failed to remove schedule from calendar:', error);
+              handleScheduleCalendarError(error, 'カレンダーからの削除に失敗しました');
+            }
+          });
+
+          // 再読み込み後も今日の予定表を表示する
+          async function loadLatestSchedule() {
+            try {
+              const response = await axios.get(\`\${API_BASE}/schedule/latest\`);
+              if (response.data.date === todayString()) {
+                renderSchedule(response.data);
+              }
+            } catch (error) {
+              if (error?.response?.status !== 404) console.error('Failed to load latest schedule:', error);
+            }
+          }
+
           // Initial render
           renderFixedEvents();
           
           // Initial load
           loadTasks();
           loadStats();
+          resumeFocus();
+          loadTags();
           loadOAuthStatus();
+          loadCalendarSyncStatus();
+          loadLatestSchedule();
 
           const oauthResult = new URLSearchParams(window.location.search).get('oauth');
           if (oauthResult === 'success') {
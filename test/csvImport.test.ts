@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildImportTask,
+  detectDelimiter,
+  looksLikeHeader,
+  parseDelimitedText,
+  parseImportDate,
+  parseImportMinutes,
+  suggestImportMapping
+} from '../src/index'
+
+const today = '2026-10-19'
+
+describe('parseDelimitedText', () => {
+  it('handles quoted delimiters, escaped quotes and newlines inside quotes', () => {
+    const rows = parseDelimitedText('a,"b,c","say ""hi"""\r\n"multi\nline",x,y\n', ',')
+    expect(rows).toEqual([
+      { line: 1, cells: ['a', 'b,c', 'say "hi"'] },
+      { line: 2, cells: ['multi\nline', 'x', 'y'] }
+    ])
+  })
+
+  it('skips blank rows but keeps the original line numbers', () => {
+    const rows = parseDelimitedText('\uFEFFtitle\n\n,\nlast', ',')
+    expect(rows).toEqual([
+      { line: 1, cells: ['title'] },
+      { line: 4, cells: ['last'] }
+    ])
+  })
+})
+
+describe('detectDelimiter', () => {
+  it('prefers tabs from spreadsheet paste and ignores commas inside quotes', () => {
+    expect(detectDelimiter('a\tb,c\n')).toBe('\t')
+    expect(detectDelimiter('"a,b";c')).toBe(';')
+    expect(detectDelimiter('single')).toBe(',')
+  })
+})
+
+describe('header mapping', () => {
+  it('matches header aliases regardless of brackets and spacing', () => {
+    const headers = ['件名', '見積（分）', '期限', 'メモ']
+    expect(looksLikeHeader(headers)).toBe(true)
+    expect(suggestImportMapping(headers)).toEqual({ title: 0, minutes: 1, due_date: 2, notes: 3 })
+  })
+
+  it('falls back to the first column for the title', () => {
+    expect(looksLikeHeader(['企画書', '60'])).toBe(false)
+    expect(suggestImportMapping(null)).toEqual({ title: 0 })
+  })
+})
+
+describe('parseImportMinutes', () => {
+  it('reads unitless numbers as minutes', () => {
+    expect(parseImportMinutes('60')).toBe(60)
+    expect(parseImportMinutes('90.0')).toBe(90)
+    expect(parseImportMinutes('2.0')).toBe(2)
+    expect(parseImportMinutes('1.5')).toBe(2)
+  })
+
+  it('reads clock notation and written units', () => {
+    expect(parseImportMinutes('1:30')).toBe(90)
+    expect(parseImportMinutes('1時間半')).toBe(90)
+    expect(parseImportMinutes('45分')).toBe(45)
+    expect(parseImportMinutes('2h')).toBe(120)
+  })
+
+  it('returns null for values it cannot read', () => {
+    expect(parseImportMinutes('そのうち')).toBeNull()
+  })
+})
+
+describe('parseImportDate', () => {
+  it('reads ISO, slash and Japanese dates', () => {
+    expect(parseImportDate('2026-12-25', today)).toBe('2026-12-25')
+    expect(parseImportDate('2026/1/5', today)).toBe('2026-01-05')
+    expect(parseImportDate('2026年12月25日', today)).toBe('2026-12-25')
+  })
+
+  it('uses the current year when the year is omitted', () => {
+    expect(parseImportDate('1/5', today)).toBe('2026-01-05')
+    expect(parseImportDate('12月25日', today)).toBe('2026-12-25')
+  })
+
+  it('converts Excel serial dates', () => {
+    expect(parseImportDate('46000', today)).toBe('2025-12-09')
+  })
+
+  it('rejects impossible dates', () => {
+    expect(parseImportDate('2026-02-30', today)).toBeNull()
+  })
+})
+
+describe('buildImportTask', () => {
+  const mapping = { title: 0, category: 1, minutes: 2, status: 3 }
+  const emptyUnmapped = () => ({ category: new Set<string>(), priority: new Set<string>(), status: new Set<string>() })
+
+  it('maps values through the default tables', () => {
+    const { data, errors } = buildImportTask(['見積作成', '直近の売上', '1.5h', '済'], mapping, { category: {}, priority: {}, status: {} }, today, emptyUnmapped())
+    expect(errors).toEqual({})
+    expect(data).toMatchObject({ title: '見積作成', category: 'now', minutes: 90, status: 'done' })
+  })
+
+  it('prefers the user value map and reports values it cannot map', () => {
+    const unmapped = emptyUnmapped()
+    const valueMap = { category: { '営業': 'now' }, priority: {}, status: {} }
+    expect(buildImportTask(['電話', '営業', '', ''], mapping, valueMap, today, unmapped).data.category).toBe('now')
+
+    const { errors } = buildImportTask(['電話', '不明', '', '保留'], mapping, valueMap, today, unmapped)
+    expect(errors.category).toBeDefined()
+    expect(errors.status).toBeDefined()
+    expect([...unmapped.category]).toEqual(['不明'])
+    expect([...unmapped.status]).toEqual(['保留'])
+  })
+})
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest'
+import { hasDependencyPath } from '../src/index'
+
+// b は a の完了待ち、c は b の完了待ち
+const rows = [
+  { task_id: 'b', depends_on_id: 'a' },
+  { task_id: 'c', depends_on_id: 'b' }
+]
+
+describe('hasDependencyPath', () => {
+  it('detects that a → c would close a cycle', () => {
+    // a を c の完了待ちにすると a → c → b → a
+    expect(hasDependencyPath(rows, 'c', 'a')).toBe(true)
+  })
+
+  it('allows edges that keep the graph acyclic', () => {
+    expect(hasDependencyPath(rows, 'a', 'c')).toBe(false)
+    expect(hasDependencyPath(rows, 'd', 'a')).toBe(false)
+  })
+
+  it('treats a self-dependency as a cycle and survives existing loops', () => {
+    expect(hasDependencyPath([], 'a', 'a')).toBe(true)
+    expect(hasDependencyPath([...rows, { task_id: 'a', depends_on_id: 'c' }], 'a', 'x')).toBe(false)
+  })
+})
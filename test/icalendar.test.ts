@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest'
+import { anchorMonthlyRule, expandIcsEvents, nextRecurrenceDate, parseIcsEvents, parseRecurrenceRule } from '../src/index'
+
+const calendar = (...lines: string[]) => ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n')
+const vevent = (...lines: string[]) => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']
+
+// 展開範囲に入る回を1回ずつ進めて求める（読み飛ばしの結果と比べる）
+function expectedDates(rrule: string, startDate: string, from: string, to: string, count = Infinity): string[] {
+  const rule = anchorMonthlyRule(parseRecurrenceRule(rrule)!, startDate)
+  const dates: string[] = []
+  let date = startDate
+  for (let n = 1; n <= count && date < to; n++) {
+    if (date >= from) dates.push(date)
+    date = nextRecurrenceDate(rule, date)
+  }
+  return dates
+}
+
+describe('parseIcsEvents', () => {
+  it('unfolds lines, unescapes text and ignores nested components', () => {
+    const [event] = parseIcsEvents(calendar(
+      ...vevent(
+        'UID:one@example.com',
+        'DTSTART;TZID=Asia/Tokyo:20261020T100000',
+        'DTEND;TZID=Asia/Tokyo:20261020T113000',
+        'SUMMARY:年末\\, 打合せ',
+        'DESCRIPTION:This is a long',
+        '  folded line\\nsecond',
+        'ATTENDEE;CN="A:B":mailto:bob@client.co.jp',
+        'BEGIN:VALARM', 'TRIGGER:-PT15M', 'SUMMARY:alarm', 'END:VALARM'
+      )
+    ), 'UTC')
+    expect(event).toMatchObject({
+      uid: 'one@example.com',
+      summary: '年末, 打合せ',
+      description: 'This is a long folded line\nsecond',
+      attendees: ['bob@client.co.jp'],
+      start: { date: '2026-10-20', time: '10:00:00', timeZone: 'Asia/Tokyo' },
+      durationMs: 90 * 60000
+    })
+  })
+
+  it('reads all-day events, DURATION and the fallback time zone', () => {
+    const events = parseIcsEvents(calendar(
+      ...vevent('UID:holiday', 'DTSTART;VALUE=DATE:20261103', 'SUMMARY:祝日'),
+      ...vevent('UID:floating', 'DTSTART:20261020T090000', 'DURATION:PT45M'),
+      ...vevent('SUMMARY:UIDがない予定', 'DTSTART:20261020T090000')
+    ), 'Asia/Tokyo')
+    expect(events).toHaveLength(2)
+    expect(events[0].start).toEqual({ date: '2026-11-03', time: null, timeZone: 'Asia/Tokyo' })
+    expect(events[1].start.timeZone).toBe('Asia/Tokyo')
+    expect(events[1].durationMs).toBe(45 * 60000)
+  })
+})
+
+describe('expandIcsEvents', () => {
+  it('applies COUNT, EXDATE and RECURRENCE-ID overrides', () => {
+    const events = parseIcsEvents(calendar(
+      ...vevent('UID:daily', 'DTSTART:20261019T010000Z', 'DURATION:PT30M', 'RRULE:FREQ=DAILY;COUNT=4', 'EXDATE:20261020T010000Z', 'SUMMARY:朝会'),
+      ...vevent('UID:daily', 'RECURRENCE-ID:20261021T010000Z', 'DTSTART:20261021T050000Z', 'DTEND:20261021T060000Z', 'SUMMARY:朝会(移動)'),
+      ...vevent('UID:gone', 'DTSTART:20261021T010000Z', 'STATUS:CANCELLED')
+    ), 'UTC')
+    const occurrences = expandIcsEvents(events, '2026-10-19T00:00:00.000Z', '2026-11-01T00:00:00.000Z')
+    expect(occurrences.map((o) => [o.summary, o.start_time, o.end_time])).toEqual([
+      ['朝会', '2026-10-19T01:00:00.000Z', '2026-10-19T01:30:00.000Z'],
+      ['朝会(移動)', '2026-10-21T05:00:00.000Z', '2026-10-21T06:00:00.000Z'],
+      ['朝会', '2026-10-22T01:00:00.000Z', '2026-10-22T01:30:00.000Z']
+    ])
+  })
+
+  it('keeps monthly series on their anchor day', () => {
+    const events = parseIcsEvents(calendar(...vevent('UID:monthly', 'DTSTART;VALUE=DATE:20260131', 'RRULE:FREQ=MONTHLY')), 'UTC')
+    const occurrences = expandIcsEvents(events, '2026-02-01T00:00:00.000Z', '2026-06-01T00:00:00.000Z')
+    expect(occurrences.map((o) => o.start_time)).toEqual(['2026-02-28', '2026-03-31', '2026-04-30', '2026-05-31'])
+  })
+
+  it('reaches the window for series that started long ago', () => {
+    const cases = [
+      ['FREQ=DAILY', '20000103'],
+      ['FREQ=DAILY;INTERVAL=3;BYDAY=MO,WE', '19990105'],
+      ['FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE,FR', '20000103'],
+      ['FREQ=WEEKLY;BYDAY=MO,FR', '20000104'],
+      ['FREQ=MONTHLY;INTERVAL=5', '19950131']
+    ]
+    for (const [rrule, start] of cases) {
+      const startDate = `${start.slice(0, 4)}-${start.slice(4, 6)}-${start.slice(6, 8)}`
+      const events = parseIcsEvents(calendar(...vevent('UID:old', `DTSTART:${start}T090000Z`, 'DURATION:PT1H', `RRULE:${rrule}`)), 'UTC')
+      const occurrences = expandIcsEvents(events, '2026-09-19T00:00:00.000Z', '2027-01-17T00:00:00.000Z')
+      expect(occurrences.map((o) => o.start_time.slice(0, 10)), rrule).toEqual(expectedDates(rrule, startDate, '2026-09-19', '2027-01-17'))
+      expect(occurrences.length, rrule).toBeGreaterThan(0)
+    }
+  })
+
+  it('counts skipped occurrences toward COUNT', () => {
+    const events = parseIcsEvents(calendar(
+      ...vevent('UID:limited', 'DTSTART:20260101T090000Z', 'RRULE:FREQ=DAILY;COUNT=300'),
+      ...vevent('UID:weekly', 'DTSTART:20240102T090000Z', 'RRULE:FREQ=WEEKLY;BYDAY=MO,FR;COUNT=250')
+    ), 'UTC')
+    const occurrences = expandIcsEvents(events, '2026-10-20T00:00:00.000Z', '2026-12-01T00:00:00.000Z')
+    const datesOf = (uid: string) => occurrences.filter((o) => o.id.startsWith(`${uid}_`)).map((o) => o.start_time.slice(0, 10))
+    expect(datesOf('limited')).toEqual(expectedDates('FREQ=DAILY', '2026-01-01', '2026-10-20', '2026-12-01', 300))
+    expect(datesOf('limited').at(-1)).toBe('2026-10-27')
+    expect(datesOf('weekly')).toEqual(expectedDates('FREQ=WEEKLY;BYDAY=MO,FR', '2024-01-02', '2026-10-20', '2026-12-01', 250))
+  })
+})
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { parseQuickAddText } from '../src/index'
+
+// 2026-10-19 は月曜日
+const today = '2026-10-19'
+
+describe('parseQuickAddText', () => {
+  it('splits a Japanese phrase into fields and keeps the rest as the title', () => {
+    const { data, errors } = parseQuickAddText('明日 A社見積 60分 #future !高', today)
+    expect(errors).toEqual({})
+    expect(data).toEqual({
+      title: 'A社見積',
+      due_date: '2026-10-20',
+      minutes: 60,
+      category: 'future',
+      priority: 'high'
+    })
+  })
+
+  it('understands English weekdays, durations and priorities', () => {
+    const { data } = parseQuickAddText('fri proposal 1.5h high', today)
+    expect(data).toEqual({ title: 'proposal', due_date: '2026-10-23', minutes: 90, priority: 'high' })
+  })
+
+  it('resolves next-week weekdays from a Monday-based week', () => {
+    expect(parseQuickAddText('来週月曜 定例', today).data.due_date).toBe('2026-10-26')
+    expect(parseQuickAddText('next wed review', today).data.due_date).toBe('2026-10-28')
+  })
+
+  it('rolls month/day without a year over to next year once it has passed', () => {
+    expect(parseQuickAddText('10/1 更新手続き', today).data.due_date).toBe('2027-10-01')
+    expect(parseQuickAddText('12月3日 忘年会', today).data.due_date).toBe('2026-12-03')
+  })
+
+  it('treats non-category hashtags as tags', () => {
+    const { data, recognized } = parseQuickAddText('資料作成 #営業 #chore', today)
+    expect(data).toMatchObject({ title: '資料作成', category: 'chore', tags: ['営業'] })
+    expect(recognized.map((token) => token.field)).toEqual(['category', 'tags'])
+  })
+
+  it('does not read noun phrases such as 今日の振り返り as a due date', () => {
+    const { data } = parseQuickAddText('今日の振り返り', today)
+    expect(data.due_date).toBeUndefined()
+    expect(data.title).toBe('今日の振り返り')
+  })
+
+  it('reports an error when only tokens are given', () => {
+    const { errors } = parseQuickAddText('明日 30分', today)
+    expect(errors.title).toBeDefined()
+  })
+
+  it('rejects durations outside the allowed range', () => {
+    const { data, errors } = parseQuickAddText('長い作業 0分', today)
+    expect(errors.minutes).toBeDefined()
+    expect(data.minutes).toBeUndefined()
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import {
+  anchorMonthlyRule,
+  nextDueDateAfterCompletion,
+  nextRecurrenceDate,
+  parseRecurrenceRule,
+  serializeRecurrenceRule
+} from '../src/index'
+
+const rule = (text: string) => {
+  const parsed = parseRecurrenceRule(text)
+  if (!parsed) throw new Error(`invalid rule: ${text}`)
+  return parsed
+}
+
+describe('parseRecurrenceRule', () => {
+  it('parses and normalizes the supported subset', () => {
+    expect(rule('RRULE:freq=weekly;byday=FR,MO;interval=2;until=20261231')).toEqual({
+      freq: 'WEEKLY', interval: 2, byDay: [1, 5], byMonthDay: undefined, until: '2026-12-31'
+    })
+    expect(serializeRecurrenceRule(rule('BYDAY=FR,MO;FREQ=WEEKLY'))).toBe('FREQ=WEEKLY;BYDAY=MO,FR')
+  })
+
+  it('rejects unsupported or malformed rules', () => {
+    expect(parseRecurrenceRule('FREQ=YEARLY')).toBeNull()
+    expect(parseRecurrenceRule('FREQ=DAILY;INTERVAL=0')).toBeNull()
+    expect(parseRecurrenceRule('FREQ=WEEKLY;BYDAY=XX')).toBeNull()
+    expect(parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=32')).toBeNull()
+  })
+})
+
+describe('nextRecurrenceDate', () => {
+  it('skips to the next listed weekday', () => {
+    const weekdays = rule('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR')
+    expect(nextRecurrenceDate(weekdays, '2026-10-16')).toBe('2026-10-19') // 金 → 月
+    expect(nextRecurrenceDate(weekdays, '2026-10-19')).toBe('2026-10-20')
+  })
+
+  it('clamps monthly dates to the end of the month', () => {
+    expect(nextRecurrenceDate(rule('FREQ=MONTHLY;BYMONTHDAY=31'), '2026-01-31')).toBe('2026-02-28')
+    expect(nextRecurrenceDate(rule('FREQ=MONTHLY;INTERVAL=12'), '2024-02-29')).toBe('2025-02-28')
+  })
+})
+
+describe('anchorMonthlyRule', () => {
+  it('keeps a monthly series on its first day of month', () => {
+    const monthly = anchorMonthlyRule(rule('FREQ=MONTHLY'), '2026-01-31')
+    expect(serializeRecurrenceRule(monthly)).toBe('FREQ=MONTHLY;BYMONTHDAY=31')
+
+    const dates: string[] = []
+    let date = '2026-01-31'
+    for (let i = 0; i < 4; i++) dates.push((date = nextRecurrenceDate(monthly, date)))
+    expect(dates).toEqual(['2026-02-28', '2026-03-31', '2026-04-30', '2026-05-31'])
+  })
+
+  it('leaves other rules and explicit BYMONTHDAY alone', () => {
+    expect(anchorMonthlyRule(rule('FREQ=WEEKLY'), '2026-01-31').byMonthDay).toBeUndefined()
+    expect(anchorMonthlyRule(rule('FREQ=MONTHLY;BYMONTHDAY=15'), '2026-01-31').byMonthDay).toBe(15)
+  })
+})
+
+describe('nextDueDateAfterCompletion', () => {
+  it('advances a late completion to today or later without drifting', () => {
+    const monthly = anchorMonthlyRule(rule('FREQ=MONTHLY'), '2026-01-31')
+    expect(nextDueDateAfterCompletion(monthly, '2026-01-31', '2026-10-19')).toBe('2026-10-31')
+  })
+
+  it('stops after UNTIL', () => {
+    expect(nextDueDateAfterCompletion(rule('FREQ=DAILY;UNTIL=20261019'), '2026-10-19', '2026-10-19')).toBeNull()
+  })
+})
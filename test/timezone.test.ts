@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import {
+  formatTime,
+  getTimeZoneOffset,
+  isValidTimeZone,
+  parseTime,
+  todayInTimeZone,
+  toZonedDateString,
+  zonedDateTimeToUtc
+} from '../src/index'
+
+describe('isValidTimeZone', () => {
+  it('accepts IANA names and rejects unknown ones', () => {
+    expect(isValidTimeZone('Asia/Tokyo')).toBe(true)
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false)
+  })
+})
+
+describe('getTimeZoneOffset', () => {
+  it('follows daylight saving time', () => {
+    expect(getTimeZoneOffset(new Date('2026-01-15T12:00:00Z'), 'America/New_York')).toBe(-5 * 3600000)
+    expect(getTimeZoneOffset(new Date('2026-07-15T12:00:00Z'), 'America/New_York')).toBe(-4 * 3600000)
+    expect(getTimeZoneOffset(new Date('2026-07-15T12:00:00Z'), 'Asia/Tokyo')).toBe(9 * 3600000)
+  })
+})
+
+describe('todayInTimeZone', () => {
+  it('uses the date in the given time zone rather than UTC', () => {
+    const now = new Date('2026-10-19T15:30:00Z')
+    expect(todayInTimeZone('Asia/Tokyo', now)).toBe('2026-10-20')
+    expect(todayInTimeZone('UTC', now)).toBe('2026-10-19')
+    expect(todayInTimeZone('America/Los_Angeles', now)).toBe('2026-10-19')
+  })
+})
+
+describe('toZonedDateString', () => {
+  it('keeps all-day dates and converts instants to the local date', () => {
+    expect(toZonedDateString('2026-10-20', 'America/New_York')).toBe('2026-10-20')
+    expect(toZonedDateString('2026-10-19T16:00:00Z', 'Asia/Tokyo')).toBe('2026-10-20')
+    expect(toZonedDateString('2026-10-20T02:00:00Z', 'America/New_York')).toBe('2026-10-19')
+    expect(toZonedDateString('not a date', 'Asia/Tokyo')).toBeNull()
+  })
+})
+
+describe('zonedDateTimeToUtc', () => {
+  it('converts wall-clock time to UTC', () => {
+    expect(zonedDateTimeToUtc('2026-10-20', '09:00', 'Asia/Tokyo').toISOString()).toBe('2026-10-20T00:00:00.000Z')
+    expect(zonedDateTimeToUtc('2026-10-20', '09:00:30', 'UTC').toISOString()).toBe('2026-10-20T09:00:30.000Z')
+  })
+
+  it('uses the offset in effect on each side of a DST change', () => {
+    expect(zonedDateTimeToUtc('2026-03-07', '12:00', 'America/New_York').toISOString()).toBe('2026-03-07T17:00:00.000Z')
+    expect(zonedDateTimeToUtc('2026-03-08', '12:00', 'America/New_York').toISOString()).toBe('2026-03-08T16:00:00.000Z')
+    expect(zonedDateTimeToUtc('2026-11-01', '12:00', 'America/New_York').toISOString()).toBe('2026-11-01T17:00:00.000Z')
+  })
+})
+
+describe('parseTime / formatTime', () => {
+  it('round-trips HH:mm in the user time zone', () => {
+    const date = parseTime('13:45', '2026-10-20', 'Asia/Tokyo')
+    expect(date.toISOString()).toBe('2026-10-20T04:45:00.000Z')
+    expect(formatTime(date, 'Asia/Tokyo')).toBe('13:45')
+    expect(formatTime(date, 'UTC')).toBe('04:45')
+  })
+
+  it('treats 24:00 as midnight of the next day', () => {
+    expect(parseTime('24:00', '2026-10-20', 'Asia/Tokyo').toISOString()).toBe('2026-10-20T15:00:00.000Z')
+  })
+})